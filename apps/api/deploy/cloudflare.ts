@@ -1,4 +1,5 @@
 import { ExecutionContext } from "hono";
+import { CloudflareAdapter, R2BlobStore, type R2BucketLike, type RuntimeEnv } from "@edge/adapters";
 import app from "../src/index";
 
 // Cloudflare Workers Adapter
@@ -17,8 +18,8 @@ export interface Env {
   // KV Namespace binding (uncomment when configured)
   // KV?: KVNamespace;
   
-  // R2 Bucket binding (uncomment when configured)
-  // BUCKET?: R2Bucket;
+  // R2 Bucket binding; provider batch files are stored here
+  BUCKET?: R2BucketLike;
   
   // Durable Object bindings (uncomment when configured)
   // COUNTER?: DurableObjectNamespace;
@@ -35,6 +36,11 @@ export default {
   async fetch(request: Request, env: Env, ctx: ExecutionContext): Promise<Response> {
     // Inject Cloudflare-specific bindings into Hono context
     // This allows routes to access env.DB, env.KV, etc.
-    return app.fetch(request, env, ctx);
+    // The runtime adapter forwards background work (webhook delivery) to ctx.waitUntil
+    return app.fetch(request, {
+      ...env,
+      runtime: new CloudflareAdapter(env as unknown as RuntimeEnv, ctx),
+      blobs: env.BUCKET ? new R2BlobStore(env.BUCKET) : undefined,
+    }, ctx);
   },
 };
@@ -0,0 +1,46 @@
+import { describe, it, expect } from 'vitest';
+import { ApiKeyManager } from '@edge/core/services/api-key-manager';
+
+describe('ApiKeyManager', () => {
+  it('generates keys whose SHA-256 hash verifies', async () => {
+    const { key, prefix, hash } = await ApiKeyManager.generateKey();
+
+    expect(ApiKeyManager.getPrefix(key)).toBe(prefix);
+    expect(hash).toMatch(/^sha256\$[0-9a-f]{64}$/);
+    expect(await ApiKeyManager.verifyKey(key, hash)).toBe(true);
+    expect(await ApiKeyManager.verifyKey(`${key}x`, hash)).toBe(false);
+  });
+
+  it('keys the hash with the pepper when one is configured', async () => {
+    const { key, hash } = await ApiKeyManager.generateKey('pepper');
+
+    expect(hash.startsWith('hmac-sha256$')).toBe(true);
+    expect(await ApiKeyManager.verifyKey(key, hash, 'pepper')).toBe(true);
+    expect(await ApiKeyManager.verifyKey(key, hash, 'other')).toBe(false);
+    expect(await ApiKeyManager.verifyKey(key, hash)).toBe(false);
+  });
+
+  it('accepts legacy base64 hashes until they are migrated', async () => {
+    const key = 'gsmf_legacykey0123456789';
+    const legacy = btoa(key);
+
+    expect(await ApiKeyManager.verifyKey(key, legacy)).toBe(true);
+    expect(ApiKeyManager.needsRehash(legacy)).toBe(true);
+
+    const migrated = await ApiKeyManager.migrateLegacyHash(legacy);
+    expect(migrated).toBe(await ApiKeyManager.hashKey(key));
+    expect(await ApiKeyManager.migrateLegacyHash(migrated!)).toBeNull();
+  });
+
+  it('asks for a rehash of plain SHA-256 hashes once a pepper is set', async () => {
+    const hash = await ApiKeyManager.hashKey('gsmf_abcdefgh12345678');
+
+    expect(ApiKeyManager.needsRehash(hash)).toBe(false);
+    expect(ApiKeyManager.needsRehash(hash, 'pepper')).toBe(true);
+  });
+
+  it('only extracts prefixes from GSMFlow keys', () => {
+    expect(ApiKeyManager.getPrefix('gsmf_abcdefgh12345678')).toBe('gsmf_abcdefgh');
+    expect(ApiKeyManager.getPrefix('sk_live_abcdefgh')).toBeNull();
+  });
+});
@@ -0,0 +1,105 @@
+import { describe, it, expect, afterEach, vi } from 'vitest';
+import { ApiProvider } from '@edge/core/providers';
+import { stubProvider } from './fixtures';
+
+describe('ApiProvider', () => {
+  const create = (config: Record<string, any>) => new ApiProvider({
+    id: 'p-1',
+    name: 'Supplier',
+    type: 'api',
+    config: { apiUrl: 'http://supplier.test/api', ...config },
+    credentials: { apiKey: 'secret', username: 'reseller' },
+    statusMapping: { done: 'completed', working: 'processing' },
+  });
+
+  const place = (provider: ApiProvider) => provider.placeOrder({
+    serviceId: 'svc-9',
+    inputData: { imei: '123456789012345' },
+    reference: 'order-1',
+  });
+
+  afterEach(() => {
+    vi.unstubAllGlobals();
+  });
+
+  it('speaks the generic shape without configuration', async () => {
+    const calls: Array<{ url: string; body: any }> = [];
+    const stub = stubProvider(request => {
+      calls.push(request);
+      return { orderId: 'P-1', status: 'working' };
+    });
+
+    const response = await place(create({}));
+
+    expect(response).toMatchObject({ success: true, providerOrderId: 'P-1', status: 'working' });
+    expect(calls).toEqual([{
+      url: 'http://supplier.test/api/orders',
+      body: { service: 'svc-9', data: { imei: '123456789012345' } },
+    }]);
+    expect(new Headers(stub.mock.calls[0][1]?.headers).get('authorization')).toBe('Bearer secret');
+  });
+
+  it('builds the request from templates and reads mapped response paths', async () => {
+    // A form body, which stubProvider would try to read as JSON
+    const stub = vi.fn(async (_url: string, _init?: RequestInit) =>
+      Response.json({ SUCCESS: [{ REFERENCEID: 991, STATE: 'working' }] })
+    );
+    vi.stubGlobal('fetch', stub);
+
+    const response = await place(create({
+      auth: { type: 'form', name: 'apiaccesskey' },
+      endpoints: {
+        placeOrder: {
+          path: '/index.php',
+          bodyType: 'form',
+          body: { username: '{{credentials.username}}', imei: '{{input.imei}}', id: '{{service}}' },
+          response: { orderId: '$.SUCCESS[0].REFERENCEID', status: '$.SUCCESS[0].STATE' },
+        },
+      },
+    }));
+
+    expect(response).toMatchObject({ success: true, providerOrderId: '991', status: 'working' });
+    const [url, init] = stub.mock.calls[0];
+    expect(url).toBe('http://supplier.test/api/index.php');
+    expect(Object.fromEntries(new URLSearchParams(String(init!.body)))).toEqual({
+      username: 'reseller',
+      imei: '123456789012345',
+      id: 'svc-9',
+      apiaccesskey: 'secret',
+    });
+  });
+
+  it('fails on an error field in a 200 answer', async () => {
+    stubProvider(() => ({ ERROR: [{ MESSAGE: 'Invalid IMEI' }] }));
+
+    const response = await place(create({
+      endpoints: { placeOrder: { path: '/orders', response: { error: '$.ERROR[0].MESSAGE' } } },
+    }));
+
+    expect(response).toMatchObject({ success: false, error: { code: 'API_ERROR', message: 'Invalid IMEI' } });
+  });
+
+  it('fails an accepted order that came back without an ID', async () => {
+    stubProvider(() => ({ status: 'working' }));
+
+    const response = await place(create({}));
+
+    expect(response.success).toBe(false);
+    expect(response.providerOrderId).toBeUndefined();
+    expect(response.error?.code).toBe('MISSING_ORDER_ID');
+  });
+
+  it('keeps our reference for an order completed by the answer itself', async () => {
+    stubProvider(() => ({ status: 'done', code: 'UNLOCK-1' }));
+
+    const response = await place(create({}));
+
+    expect(response).toMatchObject({ success: true, providerOrderId: 'order-1', status: 'done' });
+  });
+
+  it('reports HTTP errors', async () => {
+    stubProvider(() => new Response('busy', { status: 503 }));
+
+    expect(await place(create({}))).toMatchObject({ success: false, error: { code: 'API_ERROR', message: 'API returned 503' } });
+  });
+});
@@ -0,0 +1,81 @@
+import { describe, it, expect, beforeEach } from 'vitest';
+import { PASSWORD, request, seedOrderFixture, type OrderFixture } from './fixtures';
+
+describe('Auth routes', () => {
+  let fixture: OrderFixture;
+
+  const loginAs = (password: string) => request(fixture.storage, 'POST', '/api/auth/login', {
+    body: { email: fixture.customer.email, password },
+  });
+
+  beforeEach(async () => {
+    fixture = await seedOrderFixture();
+  });
+
+  it('issues tokens for valid credentials', async () => {
+    const { status, body } = await loginAs(PASSWORD);
+    expect(status).toBe(200);
+    expect(body.user).toMatchObject({ id: fixture.customer.id, role: 'customer' });
+    expect(body.user.passwordHash).toBeUndefined();
+
+    const me = await request(fixture.storage, 'GET', '/api/auth/me', { token: body.accessToken });
+    expect(me.status).toBe(200);
+    expect(me.body.id).toBe(fixture.customer.id);
+  });
+
+  it('rejects a wrong password', async () => {
+    const { status } = await loginAs('wrong-password');
+    expect(status).toBe(401);
+  });
+
+  it('rejects tokens that were not signed with the secret', async () => {
+    const { status } = await request(fixture.storage, 'GET', '/api/auth/me', { token: 'a.b.c' });
+    expect(status).toBe(401);
+  });
+
+  it('rotates refresh tokens and revokes the session when an old one is replayed', async () => {
+    const { body: login } = await loginAs(PASSWORD);
+
+    const refreshed = await request(fixture.storage, 'POST', '/api/auth/refresh', {
+      body: { refreshToken: login.refreshToken },
+    });
+    expect(refreshed.status).toBe(200);
+    expect(refreshed.body.refreshToken).not.toBe(login.refreshToken);
+
+    const replayed = await request(fixture.storage, 'POST', '/api/auth/refresh', {
+      body: { refreshToken: login.refreshToken },
+    });
+    expect(replayed.status).toBe(401);
+
+    const afterReplay = await request(fixture.storage, 'POST', '/api/auth/refresh', {
+      body: { refreshToken: refreshed.body.refreshToken },
+    });
+    expect(afterReplay.status).toBe(401);
+  });
+
+  it('lets only one of two concurrent refreshes with the same token rotate it', async () => {
+    const { body: login } = await loginAs(PASSWORD);
+    const refresh = () => request(fixture.storage, 'POST', '/api/auth/refresh', {
+      body: { refreshToken: login.refreshToken },
+    });
+
+    const results = await Promise.all([refresh(), refresh()]);
+
+    expect(results.map(result => result.status).sort()).toEqual([200, 401]);
+    const winner = results.find(result => result.status === 200)!;
+    const next = await request(fixture.storage, 'POST', '/api/auth/refresh', {
+      body: { refreshToken: winner.body.refreshToken },
+    });
+    expect(next.status).toBe(401);
+  });
+
+  it('stops accepting the access token after logout', async () => {
+    const { body: login } = await loginAs(PASSWORD);
+
+    const logout = await request(fixture.storage, 'POST', '/api/auth/logout', { token: login.accessToken });
+    expect(logout.status).toBe(204);
+
+    const me = await request(fixture.storage, 'GET', '/api/auth/me', { token: login.accessToken });
+    expect(me.status).toBe(401);
+  });
+});
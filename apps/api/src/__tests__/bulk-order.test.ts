@@ -0,0 +1,115 @@
+import { describe, it, expect, beforeEach, afterEach, vi } from 'vitest';
+import { OrderWorkflow } from '@edge/core/services/order-workflow';
+import { WalletLedger } from '@edge/core/services/wallet-ledger';
+import { seedOrderFixture, stubProvider, type OrderFixture } from './fixtures';
+
+describe('OrderWorkflow bulk orders', () => {
+  let fixture: OrderFixture;
+  let workflow: OrderWorkflow;
+
+  const imeis = ['111111111111111', '222222222222222', '333333333333333'];
+  const balance = () => new WalletLedger(fixture.storage).getBalance(fixture.tenant.id, fixture.wallet.id);
+  const place = (lines: string[] = imeis) => workflow.placeBulkOrder({
+    tenantId: fixture.tenant.id,
+    userId: fixture.customer.id,
+    userRole: 'customer',
+    serviceId: fixture.service.id,
+    inputData: {},
+  }, lines.map(imei => ({ imei })));
+  // Lines whose IMEI is in `refused` get a 500, the rest are delivered
+  const stubLines = (refused: string[] = [], status = 'completed') => stubProvider(({ body }) =>
+    refused.includes(body.data.imei)
+      ? new Response('refused', { status: 500 })
+      : { id: `P-${body.data.imei.slice(0, 1)}`, status }
+  );
+  const items = async (orderId: string) => (await fixture.storage.getOrderItems(fixture.tenant.id, orderId))
+    .sort((a, b) => a.inputData.imei.localeCompare(b.inputData.imei));
+
+  beforeEach(async () => {
+    fixture = await seedOrderFixture();
+    workflow = new OrderWorkflow(fixture.storage);
+  });
+
+  afterEach(() => {
+    vi.unstubAllGlobals();
+  });
+
+  it('keeps one item per line and delivers the order when every item is delivered', async () => {
+    stubLines();
+
+    const result = await place();
+
+    expect(result.order).toMatchObject({ status: 'delivered', paidAmount: result.order!.totalAmount });
+    const lines = await items(result.order!.id);
+    expect(lines.map(item => [item.inputData.imei, item.status, item.providerOrderId])).toEqual([
+      [imeis[0], 'delivered', 'P-1'],
+      [imeis[1], 'delivered', 'P-2'],
+      [imeis[2], 'delivered', 'P-3'],
+    ]);
+    expect(lines.reduce((sum, item) => sum + item.amount, 0)).toBe(result.order!.totalAmount);
+    expect(await balance()).toMatchObject({ available: 10_000 - result.order!.totalAmount, locked: 0 });
+  });
+
+  it('refunds failed items on their own and reports partial delivery', async () => {
+    stubLines([imeis[1]]);
+
+    const result = await place();
+
+    const lines = await items(result.order!.id);
+    expect(lines.map(item => item.status)).toEqual(['delivered', 'failed', 'delivered']);
+    expect(result.order).toMatchObject({ status: 'partially_delivered', paidAmount: lines[0].amount + lines[2].amount });
+    expect(await balance()).toMatchObject({ available: 10_000 - result.order!.paidAmount!, locked: 0 });
+  });
+
+  it('fails the order and releases everything when every item fails', async () => {
+    stubLines(imeis);
+
+    const result = await place();
+
+    expect(result.order).toMatchObject({ status: 'failed', paidAmount: 0 });
+    expect(await balance()).toMatchObject({ available: 10_000, locked: 0 });
+  });
+
+  it('stays processing until the last item reports back', async () => {
+    stubLines([], 'processing');
+    const result = await place(imeis.slice(0, 2));
+    expect(result.order!.status).toBe('processing');
+    const [first, second] = await items(result.order!.id);
+
+    await workflow.applyItemStatus(first, fixture.provider, { providerOrderId: 'P-1', status: 'completed' });
+    expect((await fixture.storage.getOrder(fixture.tenant.id, result.order!.id))!.status).toBe('processing');
+
+    const settled = await workflow.applyItemStatus(second, fixture.provider, { providerOrderId: 'P-2', status: 'failed' });
+
+    expect(settled.order).toMatchObject({ status: 'partially_delivered', paidAmount: first.amount });
+    expect(await balance()).toMatchObject({ available: 10_000 - first.amount, locked: 0 });
+  });
+
+  it('keeps at most bulkConcurrency items in flight', async () => {
+    let inFlight = 0;
+    let peak = 0;
+    stubProvider(async ({ body }) => {
+      peak = Math.max(peak, ++inFlight);
+      await new Promise(resolve => setTimeout(resolve, 10));
+      inFlight--;
+      return { id: `P-${body.data.imei}`, status: 'completed' };
+    });
+    workflow = new OrderWorkflow(fixture.storage, { bulkConcurrency: 2 });
+
+    const result = await place(['1', '2', '3', '4', '5'].map(digit => digit.repeat(15)));
+
+    expect(result.order!.status).toBe('delivered');
+    expect(peak).toBe(2);
+  });
+
+  it('rejects the whole order when a line is invalid', async () => {
+    const stub = stubLines();
+
+    const result = await place([imeis[0], '']);
+
+    expect(result).toMatchObject({ success: false, error: { code: 'BULK_VALIDATION_ERROR' } });
+    expect(Object.keys(result.error!.validationErrors!)).toEqual(['item_1']);
+    expect(stub).not.toHaveBeenCalled();
+    expect(await fixture.storage.getOrders(fixture.tenant.id)).toEqual([]);
+  });
+});
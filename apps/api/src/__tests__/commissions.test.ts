@@ -0,0 +1,98 @@
+import { describe, it, expect, beforeEach, afterEach, vi } from 'vitest';
+import type { Order, User, Wallet } from '../../../../shared/schema';
+import { CommissionPayouts } from '@edge/core/services/commissions';
+import { OrderWorkflow } from '@edge/core/services/order-workflow';
+import { WalletLedger } from '@edge/core/services/wallet-ledger';
+import { WalletManager } from '@edge/core/services/wallet-manager';
+import { seedOrderFixture, stubProvider, type OrderFixture } from './fixtures';
+
+describe('CommissionPayouts', () => {
+  let fixture: OrderFixture;
+  let workflow: OrderWorkflow;
+  let reseller: User;
+  let order: Order;
+
+  const available = async (walletId: string) =>
+    (await new WalletLedger(fixture.storage).getBalance(fixture.tenant.id, walletId)).available;
+  const resellerWallet = async (): Promise<Wallet> =>
+    (await fixture.storage.getWalletByUser(fixture.tenant.id, reseller.id, 'USD'))!;
+  const refund = (amount?: number) =>
+    workflow.refundOrder(fixture.tenant.id, order.id, fixture.admin.id, 'admin', { amount });
+
+  beforeEach(async () => {
+    fixture = await seedOrderFixture();
+    workflow = new OrderWorkflow(fixture.storage);
+    reseller = await fixture.storage.createUser({
+      tenantId: fixture.tenant.id,
+      email: 'reseller@example.com',
+      role: 'reseller',
+      passwordHash: 'x',
+    });
+    await fixture.storage.updateUser(fixture.customer.id, { parentUserId: reseller.id });
+    // The customer pays 1000 + 500; 200 of the 500 profit goes to the reseller
+    for (const [role, markupValue] of [['customer', 500], ['reseller', 200]] as const) {
+      await fixture.storage.createPricingRule({
+        tenantId: fixture.tenant.id,
+        serviceId: fixture.service.id,
+        role,
+        markupType: 'fixed',
+        markupValue,
+      });
+    }
+    stubProvider(() => ({ id: 'P-1', status: 'completed' }));
+    order = (await workflow.placeOrder({
+      tenantId: fixture.tenant.id,
+      userId: fixture.customer.id,
+      userRole: 'customer',
+      serviceId: fixture.service.id,
+      inputData: { imei: '123456789012345' },
+    })).order!;
+  });
+
+  afterEach(() => {
+    vi.unstubAllGlobals();
+  });
+
+  it('credits the ancestor their share of the profit on delivery', async () => {
+    expect(order).toMatchObject({ status: 'delivered', totalAmount: 1500 });
+
+    const wallet = await resellerWallet();
+    const [commission] = await fixture.storage.getWalletTransactions(fixture.tenant.id, wallet.id);
+    expect(commission).toMatchObject({ type: 'credit', amount: 200, referenceType: 'commission', referenceId: order.id });
+    const statement = await new CommissionPayouts(fixture.storage).statement(fixture.tenant.id, reseller.id);
+    expect(statement.totals).toEqual([{ currency: 'USD', earned: 200, reversed: 0, net: 200 }]);
+  });
+
+  it('reverses commissions in proportion to refunds', async () => {
+    await refund(750);
+    expect(await available((await resellerWallet()).id)).toBe(100);
+
+    await refund();
+
+    expect(await available((await resellerWallet()).id)).toBe(0);
+    const statement = await new CommissionPayouts(fixture.storage).statement(fixture.tenant.id, reseller.id);
+    expect(statement.totals).toEqual([{ currency: 'USD', earned: 200, reversed: 200, net: 0 }]);
+  });
+
+  it('fails the refund when the ancestor already spent the commission', async () => {
+    const wallet = await resellerWallet();
+    await new WalletLedger(fixture.storage).append(fixture.tenant.id, wallet.id, async ({ balance }) => [
+      await WalletManager.debit({
+        tenantId: fixture.tenant.id,
+        walletId: wallet.id,
+        type: 'debit',
+        amount: 150,
+        currency: 'USD',
+        referenceType: 'manual',
+        createdBy: fixture.admin.id,
+      }, balance),
+    ]);
+
+    const result = await refund();
+
+    expect(result).toMatchObject({ success: false, error: { code: 'COMMISSION_SPENT' } });
+    expect(await available(wallet.id)).toBe(50);
+    expect(await available(fixture.wallet.id)).toBe(10_000 - 1500);
+    expect((await fixture.storage.getOrder(fixture.tenant.id, order.id))).toMatchObject({ status: 'delivered', refundedAmount: 0 });
+  });
+});
@@ -0,0 +1,117 @@
+import { describe, it, expect, afterEach, vi } from 'vitest';
+import { DhruProvider } from '@edge/core/providers';
+
+describe('DhruProvider', () => {
+  const create = (config: Record<string, any> = {}) => new DhruProvider({
+    id: 'p-1',
+    name: 'Dhru',
+    type: 'dhru',
+    config: { apiUrl: 'https://supplier.test/', ...config },
+    credentials: { username: 'reseller', apiKey: 'ACCESS-KEY' },
+    statusMapping: {},
+  });
+
+  // Answers every call with `answer` and keeps the decoded form of each request
+  const stubDhru = (answer: Record<string, any>) => {
+    const requests: Array<{ url: string; form: Record<string, string>; parameters?: string }> = [];
+    vi.stubGlobal('fetch', vi.fn(async (url: string, init?: RequestInit) => {
+      const form = Object.fromEntries(new URLSearchParams(String(init?.body)));
+      requests.push({
+        url,
+        form,
+        parameters: form.parameters ? Buffer.from(form.parameters, 'base64').toString('utf8') : undefined,
+      });
+      return Response.json(answer);
+    }));
+    return requests;
+  };
+
+  afterEach(() => {
+    vi.unstubAllGlobals();
+  });
+
+  it('places an order with base64 XML parameters', async () => {
+    const requests = stubDhru({ SUCCESS: [{ MESSAGE: 'Order received', REFERENCEID: 5521 }] });
+
+    const response = await create({ parameterFields: { model: 'MODELID' } }).placeOrder({
+      serviceId: '42',
+      inputData: { imei: '123456789012345', model: 'A<1>', pin: '0000', note: 'rush' },
+    });
+
+    expect(response).toMatchObject({ success: true, providerOrderId: '5521', status: '0' });
+    const [request] = requests;
+    expect(request.url).toBe('https://supplier.test/api/index.php');
+    expect(request.form).toMatchObject({
+      username: 'reseller',
+      apiaccesskey: 'ACCESS-KEY',
+      action: 'placeimeiorder',
+      requestformat: 'JSON',
+    });
+    const custom = Buffer.from(JSON.stringify({ note: 'rush' }), 'utf8').toString('base64');
+    expect(request.parameters).toBe(
+      `<PARAMETERS><IMEI>123456789012345</IMEI><ID>42</ID><MODELID>A&lt;1&gt;</MODELID><PIN>0000</PIN><CUSTOMFIELD>${custom}</CUSTOMFIELD></PARAMETERS>`
+    );
+  });
+
+  it('reports the supplier error of a refused order', async () => {
+    stubDhru({ ERROR: [{ MESSAGE: 'Invalid IMEI' }] });
+
+    const response = await create().placeOrder({ serviceId: '42', inputData: { imei: '1' } });
+
+    expect(response).toMatchObject({ success: false, error: { code: 'PROVIDER_ERROR', message: 'Invalid IMEI' } });
+  });
+
+  it('fails an order accepted without a reference', async () => {
+    stubDhru({ SUCCESS: [{ MESSAGE: 'Order received' }] });
+
+    const response = await create().placeOrder({ serviceId: '42', inputData: { imei: '123456789012345' } });
+
+    expect(response).toMatchObject({ success: false, error: { code: 'MISSING_ORDER_ID' } });
+    expect(response.providerOrderId).toBeUndefined();
+  });
+
+  it('reads order status codes through statusMapping, then the DHRU codes', async () => {
+    const requests = stubDhru({ SUCCESS: [{ STATUS: 4, CODE: 'UNLOCK-1' }] });
+    const provider = create({ apiUrl: 'https://supplier.test/custom.php' });
+
+    const status = await provider.checkStatus('5521');
+
+    expect(status).toMatchObject({ providerOrderId: '5521', status: '4', data: { CODE: 'UNLOCK-1' } });
+    expect(requests[0].url).toBe('https://supplier.test/custom.php');
+    expect(requests[0].parameters).toBe('<PARAMETERS><ID>5521</ID></PARAMETERS>');
+    expect(provider.normalizeStatus('4')).toBe('completed');
+    expect(provider.normalizeStatus('3')).toBe('failed');
+  });
+
+  it('reads the balance from the misspelt AccoutInfo block', async () => {
+    stubDhru({ SUCCESS: [{ AccoutInfo: { credit: '1,024.50', creditraw: '1024.50', currency: 'USD' } }] });
+
+    expect(await create().getBalance()).toMatchObject({ balance: 102450, currency: 'USD' });
+  });
+
+  it('lists services with the fields they require', async () => {
+    stubDhru({
+      SUCCESS: [{
+        LIST: {
+          Apple: {
+            GROUPNAME: 'Apple',
+            SERVICES: {
+              7: { SERVICEID: 7, SERVICENAME: 'iPhone unlock', CREDIT: '12.50', TIME: '1-3 days', 'Requires.SN': 'Required' },
+            },
+          },
+        },
+      }],
+    });
+
+    const [service] = await create().listServices();
+
+    expect(service).toMatchObject({
+      providerServiceId: '7',
+      name: 'iPhone unlock',
+      group: 'Apple',
+      cost: 1250,
+      deliveryTime: '1-3 days',
+    });
+    expect(service.fields!.map(field => field.name)).toEqual(['imei', 'sn']);
+  });
+});
@@ -0,0 +1,90 @@
+import { describe, it, expect, beforeEach } from 'vitest';
+import type { IStorage } from '../../../../server/storage';
+import type { Service, Tenant } from '../../../../shared/schema';
+import { EventBus, EventBusError, OUTBOX_MAX_ATTEMPTS } from '@edge/core/services/event-bus';
+import { createTestStorage } from '../../../../server/__tests__/helpers';
+
+describe('EventBus', () => {
+  let storage: IStorage;
+  let tenant: Tenant;
+  let service: Service;
+
+  const recordEvent = () => EventBus.record(storage, EventBus.createEvent('service.created', tenant.id, { service }));
+
+  beforeEach(async () => {
+    ({ storage } = await createTestStorage());
+    tenant = await storage.createTenant({ name: 'Tenant', slug: 'tenant' });
+    service = await storage.createService({ tenantId: tenant.id, name: 'Unlock', slug: 'unlock', inputSchema: {}, baseCost: 1000 });
+  });
+
+  it('hands an event to its subscribers and marks it processed', async () => {
+    const seen: string[] = [];
+    const bus = new EventBus()
+      .subscribe('service.created', 'typed', async event => { seen.push(`typed:${event.data.service.id}`); })
+      .subscribe('*', 'all', async event => { seen.push(`all:${event.type}`); })
+      .subscribe('order.created', 'other', async () => { seen.push('other'); });
+    await recordEvent();
+
+    const [entry] = await bus.processOutbox(storage);
+
+    expect(seen.sort()).toEqual(['all:service.created', `typed:${service.id}`]);
+    expect(entry.status).toBe('processed');
+    expect(entry.attempts).toBe(1);
+    expect(entry.completedSubscribers!.sort()).toEqual(['all', 'typed']);
+  });
+
+  it('handles an event once when processors run concurrently', async () => {
+    let calls = 0;
+    const bus = new EventBus().subscribe('*', 'counter', async () => {
+      calls++;
+      await new Promise(resolve => setTimeout(resolve, 5));
+    });
+    await recordEvent();
+
+    const [first, second] = await Promise.all([bus.processOutbox(storage), bus.processOutbox(storage)]);
+
+    expect(calls).toBe(1);
+    expect(first.length + second.length).toBe(1);
+  });
+
+  it('retries only the subscriber that failed', async () => {
+    const calls = { steady: 0, flaky: 0 };
+    const bus = new EventBus()
+      .subscribe('*', 'steady', async () => { calls.steady++; })
+      .subscribe('*', 'flaky', async () => {
+        calls.flaky++;
+        if (calls.flaky === 1) {
+          throw new Error('receiver down');
+        }
+      });
+    await recordEvent();
+
+    const [failed] = await bus.processOutbox(storage);
+    expect(failed.status).toBe('pending');
+    expect(failed.lastError).toBe('flaky: receiver down');
+    expect(failed.completedSubscribers).toEqual(['steady']);
+
+    const [retried] = await bus.processOutbox(storage, { now: new Date(failed.availableAt) });
+    expect(retried.status).toBe('processed');
+    expect(calls).toEqual({ steady: 1, flaky: 2 });
+  });
+
+  it('marks an event failed after the last attempt', async () => {
+    const bus = new EventBus().subscribe('*', 'broken', async () => { throw new Error('nope'); });
+    await recordEvent();
+
+    let entry;
+    for (let attempt = 0; attempt < OUTBOX_MAX_ATTEMPTS; attempt++) {
+      [entry] = await bus.processOutbox(storage, { now: new Date(Date.now() + 24 * 60 * 60 * 1000) });
+    }
+
+    expect(entry!.status).toBe('failed');
+    expect(entry!.attempts).toBe(OUTBOX_MAX_ATTEMPTS);
+    expect(await bus.processOutbox(storage, { now: new Date(Date.now() + 24 * 60 * 60 * 1000) })).toEqual([]);
+  });
+
+  it('rejects a subscriber name used twice', () => {
+    const bus = new EventBus().subscribe('*', 'audit', async () => {});
+    expect(() => bus.subscribe('order.created', 'audit', async () => {})).toThrow(EventBusError);
+  });
+});
@@ -0,0 +1,88 @@
+import { describe, it, expect, beforeEach, afterEach, vi } from 'vitest';
+import type { User } from '../../../../shared/schema';
+import { ExchangeRates } from '@edge/core/services/exchange-rates';
+import { OrderWorkflow } from '@edge/core/services/order-workflow';
+import { PricingEngine, type PricingRule } from '@edge/core/services/pricing-engine';
+import { fund, seedOrderFixture, stubProvider, type OrderFixture } from './fixtures';
+
+describe('ExchangeRates', () => {
+  let fixture: OrderFixture;
+  let rates: ExchangeRates;
+
+  beforeEach(async () => {
+    fixture = await seedOrderFixture();
+    rates = new ExchangeRates(fixture.storage);
+    await rates.setRate(fixture.tenant.id, fixture.admin.id, { base: 'usd', quote: 'eur', rate: 0.5 });
+  });
+
+  afterEach(() => {
+    vi.unstubAllGlobals();
+  });
+
+  it('quotes a pair both ways and refuses pairs without a rate', async () => {
+    expect(await rates.quote(fixture.tenant.id, 'USD', 'EUR')).toMatchObject({ from: 'USD', to: 'EUR', rate: 0.5 });
+    expect(await rates.quote(fixture.tenant.id, 'EUR', 'USD')).toMatchObject({ from: 'EUR', to: 'USD', rate: 2 });
+    await expect(rates.quote(fixture.tenant.id, 'USD', 'GBP')).rejects.toMatchObject({ code: 'RATE_NOT_FOUND' });
+  });
+
+  it('converts fixed amounts and profit limits of a rule, not percentages', () => {
+    const quote = { from: 'USD', to: 'EUR', rate: 0.5 };
+    const rule = (overrides: Partial<PricingRule>): PricingRule =>
+      ({ id: 'r-1', serviceId: 's-1', role: 'customer', markupType: 'fixed', markupValue: 0, ...overrides });
+
+    expect(PricingEngine.convertRule(rule({ markupType: 'fixed', markupValue: 500, minProfit: 100, maxProfit: 1000 }), quote))
+      .toMatchObject({ markupValue: 250, minProfit: 50, maxProfit: 500 });
+    expect(PricingEngine.convertRule(rule({ markupType: 'percentage', markupValue: 1500, minProfit: 100 }), quote))
+      .toMatchObject({ markupValue: 1500, minProfit: 50 });
+  });
+
+  describe('orders paid in another currency', () => {
+    let reseller: User;
+
+    beforeEach(async () => {
+      reseller = await fixture.storage.createUser({
+        tenantId: fixture.tenant.id,
+        email: 'reseller@example.com',
+        role: 'reseller',
+        passwordHash: 'x',
+      });
+      await fixture.storage.updateUser(fixture.customer.id, { parentUserId: reseller.id });
+      // In USD the customer pays 1000 + 500, 200 of the profit going to the reseller
+      for (const [role, markupValue] of [['customer', 500], ['reseller', 200]] as const) {
+        await fixture.storage.createPricingRule({
+          tenantId: fixture.tenant.id,
+          serviceId: fixture.service.id,
+          role,
+          markupType: 'fixed',
+          markupValue,
+        });
+      }
+      const wallet = await fixture.storage.createWallet({ tenantId: fixture.tenant.id, userId: fixture.customer.id, currency: 'EUR' });
+      await fund(fixture.storage, wallet, fixture.admin, 10_000);
+      stubProvider(() => ({ id: 'P-1', status: 'completed' }));
+    });
+
+    it('locks the rate onto the order and pays commissions at it', async () => {
+      const { order } = await new OrderWorkflow(fixture.storage).placeOrder({
+        tenantId: fixture.tenant.id,
+        userId: fixture.customer.id,
+        userRole: 'customer',
+        serviceId: fixture.service.id,
+        inputData: { imei: '123456789012345' },
+        currency: 'EUR',
+      });
+
+      expect(order).toMatchObject({
+        status: 'delivered',
+        currency: 'EUR',
+        priceCurrency: 'USD',
+        exchangeRate: 0.5,
+        totalAmount: 750,
+        baseCost: 500,
+      });
+      const wallet = await fixture.storage.getWalletByUser(fixture.tenant.id, reseller.id, 'EUR');
+      const [commission] = await fixture.storage.getWalletTransactions(fixture.tenant.id, wallet!.id);
+      expect(commission).toMatchObject({ type: 'credit', amount: 100, currency: 'EUR', referenceType: 'commission' });
+    });
+  });
+});
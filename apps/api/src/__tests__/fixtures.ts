@@ -0,0 +1,146 @@
+import { vi } from 'vitest';
+import type { IStorage } from '../../../../server/storage';
+import type { Provider, Service, Tenant, User, Wallet } from '../../../../shared/schema';
+import { PasswordHasher } from '@edge/core/services/password-hasher';
+import { WalletLedger } from '@edge/core/services/wallet-ledger';
+import { WalletManager } from '@edge/core/services/wallet-manager';
+import { createTestStorage } from '../../../../server/__tests__/helpers';
+import app from '../index';
+
+export const PROVIDER_URL = 'http://provider.test';
+export const PASSWORD = 'correct-horse';
+export const JWT_SECRET = 'test-secret';
+
+export interface OrderFixture {
+  storage: IStorage;
+  tenant: Tenant;
+  admin: User;
+  customer: User;
+  wallet: Wallet;
+  service: Service;
+  provider: Provider;
+}
+
+/**
+ * A tenant with an admin, a customer with a funded wallet and a service
+ * mapped to one `api` provider at PROVIDER_URL
+ */
+export async function seedOrderFixture(options: {
+  balance?: number;
+  baseCost?: number;
+  requiresApproval?: boolean;
+} = {}): Promise<OrderFixture> {
+  const { storage } = await createTestStorage();
+  const passwordHash = await PasswordHasher.hash(PASSWORD);
+  const tenant = await storage.createTenant({ name: 'Tenant', slug: 'tenant' });
+  const admin = await storage.createUser({ tenantId: tenant.id, email: 'admin@example.com', role: 'admin', passwordHash });
+  const customer = await storage.createUser({ tenantId: tenant.id, email: 'customer@example.com', role: 'customer', passwordHash });
+  const wallet = await storage.createWallet({ tenantId: tenant.id, userId: customer.id, currency: 'USD' });
+
+  const service = await storage.createService({
+    tenantId: tenant.id,
+    name: 'Unlock',
+    slug: 'unlock',
+    inputSchema: { fields: [{ name: 'imei', type: 'text', label: 'IMEI', required: true }] },
+    baseCost: options.baseCost ?? 1000,
+    supportsBulk: true,
+    requiresApproval: options.requiresApproval ?? false,
+  });
+  const provider = await addProvider(storage, tenant, service, 'primary');
+
+  await fund(storage, wallet, admin, options.balance ?? 10_000);
+
+  return { storage, tenant, admin, customer, wallet, service, provider };
+}
+
+export async function addProvider(
+  storage: IStorage,
+  tenant: Tenant,
+  service: Service,
+  slug: string,
+  priority = 0
+): Promise<Provider> {
+  const provider = await storage.createProvider({
+    tenantId: tenant.id,
+    name: slug,
+    slug,
+    type: 'api',
+    config: { apiUrl: `${PROVIDER_URL}/${slug}` },
+    credentials: { apiKey: 'key' },
+    statusMapping: { completed: 'completed', processing: 'processing', failed: 'failed' },
+  });
+  await storage.createProviderServiceMapping({
+    tenantId: tenant.id,
+    serviceId: service.id,
+    providerId: provider.id,
+    providerServiceId: `${slug}-service`,
+    priority,
+  });
+  return provider;
+}
+
+export async function fund(storage: IStorage, wallet: Wallet, admin: User, amount: number): Promise<void> {
+  await storage.transaction(tx => new WalletLedger(tx).append(wallet.tenantId, wallet.id, async () => [
+    await WalletManager.credit({
+      tenantId: wallet.tenantId,
+      walletId: wallet.id,
+      type: 'credit',
+      amount,
+      currency: wallet.currency,
+      referenceType: 'manual',
+      createdBy: admin.id,
+    }),
+  ]));
+}
+
+/**
+ * Answer provider calls with `respond`; returns the stub to inspect its calls
+ */
+export function stubProvider(
+  respond: (request: { url: string; body: any }) => unknown | Promise<unknown>
+) {
+  const stub = vi.fn(async (url: string, init?: RequestInit) => {
+    const body = init?.body ? JSON.parse(String(init.body)) : undefined;
+    const answer = await respond({ url, body });
+    return answer instanceof Response ? answer : Response.json(answer);
+  });
+  vi.stubGlobal('fetch', stub);
+  return stub;
+}
+
+/**
+ * Call the app with `storage` injected; `token` is sent as a bearer token
+ */
+export async function request(
+  storage: IStorage,
+  method: string,
+  path: string,
+  options: { body?: unknown; token?: string; headers?: Record<string, string> } = {}
+): Promise<{ status: number; body: any }> {
+  const headers: Record<string, string> = { 'content-type': 'application/json', ...options.headers };
+  if (options.token) {
+    headers.authorization = `Bearer ${options.token}`;
+  }
+
+  const response = await app.fetch(new Request(`http://localhost${path}`, {
+    method,
+    headers,
+    body: options.body === undefined ? undefined : JSON.stringify(options.body),
+  }), { storage, JWT_SECRET });
+
+  const text = await response.text();
+  return { status: response.status, body: text ? JSON.parse(text) : undefined };
+}
+
+/**
+ * An access token for `user`, from the login endpoint
+ */
+export async function login(storage: IStorage, user: User): Promise<string> {
+  const { status, body } = await request(storage, 'POST', '/api/auth/login', {
+    body: { email: user.email, password: PASSWORD },
+  });
+  if (status !== 200) {
+    throw new Error(`Login failed with ${status}: ${JSON.stringify(body)}`);
+  }
+  return body.accessToken;
+}
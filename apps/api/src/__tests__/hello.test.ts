@@ -3,29 +3,29 @@ import app from '../index';
 
 describe('Hello Route', () => {
   it('should return greeting with default name', async () => {
-    const req = new Request('http://localhost/hello');
+    const req = new Request('http://localhost/api/hello');
     const res = await app.fetch(req);
     const data = await res.json();
 
     expect(res.status).toBe(200);
-    expect(data).toEqual({ message: 'Hello, World!' });
+    expect(data).toEqual({ message: 'Hello, World!', runtime: 'edge' });
   });
 
   it('should return greeting with custom name', async () => {
-    const req = new Request('http://localhost/hello?name=Edge');
+    const req = new Request('http://localhost/api/hello?name=Edge');
     const res = await app.fetch(req);
     const data = await res.json();
 
     expect(res.status).toBe(200);
-    expect(data).toEqual({ message: 'Hello, Edge!' });
+    expect(data).toEqual({ message: 'Hello, Edge!', runtime: 'edge' });
   });
 
   it('should handle missing query parameter', async () => {
-    const req = new Request('http://localhost/hello?');
+    const req = new Request('http://localhost/api/hello?');
     const res = await app.fetch(req);
     const data = await res.json();
 
     expect(res.status).toBe(200);
-    expect(data).toEqual({ message: 'Hello, World!' });
+    expect(data).toEqual({ message: 'Hello, World!', runtime: 'edge' });
   });
 });
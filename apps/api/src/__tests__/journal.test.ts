@@ -0,0 +1,149 @@
+import { describe, it, expect, beforeEach, afterEach, vi } from 'vitest';
+import type { InsertJournalLine, Transaction } from '../../../../shared/schema';
+import { Journal } from '@edge/core/services/journal';
+import { OrderWorkflow } from '@edge/core/services/order-workflow';
+import { login, request, seedOrderFixture, stubProvider, type OrderFixture } from './fixtures';
+
+describe('Journal', () => {
+  const transaction = (overrides: Partial<Transaction>): Transaction => ({
+    id: 't-1',
+    tenantId: 'tenant',
+    walletId: 'wallet',
+    amount: 1000,
+    currency: 'USD',
+    status: 'completed',
+    ...overrides,
+  } as Transaction);
+  const postings = (lines: InsertJournalLine[]) =>
+    lines.map(line => [line.account, line.debit, line.credit]);
+
+  it('splits an order debit between provider payables and revenue', () => {
+    const lines = Journal.linesFor(transaction({ type: 'debit', referenceType: 'order', metadata: { providerCost: 600 } }));
+
+    expect(postings(lines)).toEqual([
+      ['wallet_available', 1000, 0],
+      ['provider_payables', 0, 600],
+      ['revenue', 0, 400],
+    ]);
+    expect(lines[0].walletId).toBe('wallet');
+    expect(lines[1].walletId).toBeNull();
+  });
+
+  it('books credits by their source', () => {
+    expect(postings(Journal.linesFor(transaction({ type: 'credit', referenceType: 'manual' }))))
+      .toEqual([['suspense', 1000, 0], ['wallet_available', 0, 1000]]);
+    expect(postings(Journal.linesFor(transaction({ type: 'credit', referenceType: 'transfer' }))))
+      .toEqual([['transfer_clearing', 1000, 0], ['wallet_available', 0, 1000]]);
+    expect(postings(Journal.linesFor(transaction({ type: 'debit', referenceType: 'manual' }))))
+      .toEqual([['wallet_available', 1000, 0], ['fees', 0, 1000]]);
+  });
+
+  it('returns a refund from provider payables and revenue in the debit\'s proportions', () => {
+    const lines = Journal.linesFor(transaction({ type: 'refund', referenceType: 'order', amount: 500, metadata: { providerCost: 300 } }));
+
+    expect(postings(lines)).toEqual([
+      ['provider_payables', 300, 0],
+      ['revenue', 200, 0],
+      ['wallet_available', 0, 500],
+    ]);
+  });
+
+  it('posts nothing for transactions that are not completed, and refuses unknown types', () => {
+    expect(Journal.linesFor(transaction({ type: 'lock', status: 'pending' }))).toEqual([]);
+    expect(() => Journal.linesFor(transaction({ type: 'bonus' }))).toThrow(expect.objectContaining({ code: 'UNKNOWN_TRANSACTION_TYPE' }));
+  });
+
+  it('reports an unbalanced currency in the trial balance', () => {
+    const trial = Journal.trialBalance([
+      { account: 'suspense', currency: 'USD', debit: 500, credit: 0 },
+      { account: 'wallet_available', currency: 'USD', debit: 0, credit: 500 },
+      { account: 'suspense', currency: 'EUR', debit: 300, credit: 0 },
+      { account: 'wallet_available', currency: 'EUR', debit: 0, credit: 200 },
+    ]);
+
+    expect(trial.balanced).toBe(false);
+    expect(trial.totals).toEqual([
+      { currency: 'USD', debit: 500, credit: 500, balanced: true },
+      { currency: 'EUR', debit: 300, credit: 200, balanced: false },
+    ]);
+  });
+
+  describe('endpoints', () => {
+    let fixture: OrderFixture;
+    let adminToken: string;
+
+    beforeEach(async () => {
+      fixture = await seedOrderFixture();
+      adminToken = await login(fixture.storage, fixture.admin);
+      // Orders cost 1000 from the provider and sell for 1500
+      await fixture.storage.createPricingRule({
+        tenantId: fixture.tenant.id,
+        serviceId: fixture.service.id,
+        role: 'customer',
+        markupType: 'fixed',
+        markupValue: 500,
+      });
+      stubProvider(() => ({ id: 'P-1', status: 'completed' }));
+    });
+
+    afterEach(() => {
+      vi.unstubAllGlobals();
+    });
+
+    it('shows balanced books after an order and a partial refund', async () => {
+      const workflow = new OrderWorkflow(fixture.storage);
+      const { order } = await workflow.placeOrder({
+        tenantId: fixture.tenant.id,
+        userId: fixture.customer.id,
+        userRole: 'customer',
+        serviceId: fixture.service.id,
+        inputData: { imei: '123456789012345' },
+      });
+      await workflow.refundOrder(fixture.tenant.id, order!.id, fixture.admin.id, 'admin', { amount: 100 });
+
+      const { status, body } = await request(fixture.storage, 'GET', '/api/journal/trial-balance', { token: adminToken });
+
+      expect(status).toBe(200);
+      expect(body.balanced).toBe(true);
+      const balance = (account: string) => body.accounts.find((row: { account: string }) => row.account === account)?.balance;
+      expect(balance('suspense')).toBe(10_000);
+      expect(balance('wallet_available')).toBe(-(10_000 - order!.totalAmount + 100));
+      expect(balance('wallet_locked')).toBe(0);
+      const refundedCost = Math.round(order!.baseCost * 100 / order!.totalAmount);
+      expect(balance('provider_payables')).toBe(-(order!.baseCost - refundedCost));
+      expect(balance('revenue')).toBe(-(order!.totalAmount - order!.baseCost - (100 - refundedCost)));
+    });
+
+    it('clears provider payables and revenue once an order is refunded in parts', async () => {
+      const workflow = new OrderWorkflow(fixture.storage);
+      const { order } = await workflow.placeOrder({
+        tenantId: fixture.tenant.id,
+        userId: fixture.customer.id,
+        userRole: 'customer',
+        serviceId: fixture.service.id,
+        inputData: { imei: '123456789012345' },
+      });
+      await workflow.refundOrder(fixture.tenant.id, order!.id, fixture.admin.id, 'admin', { amount: 333 });
+      await workflow.refundOrder(fixture.tenant.id, order!.id, fixture.admin.id, 'admin');
+
+      const { body } = await request(fixture.storage, 'GET', '/api/journal/trial-balance', { token: adminToken });
+
+      expect(body.balanced).toBe(true);
+      const balance = (account: string) => body.accounts.find((row: { account: string }) => row.account === account)?.balance;
+      expect(balance('provider_payables')).toBe(0);
+      expect(balance('revenue')).toBe(0);
+    });
+
+    it('lists the lines of one transaction and keeps the books from customers', async () => {
+      const [credit] = await fixture.storage.getWalletTransactions(fixture.tenant.id, fixture.wallet.id);
+
+      const { status, body } = await request(fixture.storage, 'GET', `/api/journal/entries/${credit.id}`, { token: adminToken });
+
+      expect(status).toBe(200);
+      expect(body.map((line: { account: string }) => line.account)).toEqual(['suspense', 'wallet_available']);
+      expect((await request(fixture.storage, 'GET', '/api/journal/entries/missing', { token: adminToken })).status).toBe(404);
+      const customerToken = await login(fixture.storage, fixture.customer);
+      expect((await request(fixture.storage, 'GET', '/api/journal/trial-balance', { token: customerToken })).status).toBe(403);
+    });
+  });
+});
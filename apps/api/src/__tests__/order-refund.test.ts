@@ -0,0 +1,125 @@
+import { describe, it, expect, beforeEach, afterEach, vi } from 'vitest';
+import type { Order } from '../../../../shared/schema';
+import { OrderWorkflow, type OrderRefundRequest } from '@edge/core/services/order-workflow';
+import { WalletLedger } from '@edge/core/services/wallet-ledger';
+import { seedOrderFixture, stubProvider, type OrderFixture } from './fixtures';
+
+describe('OrderWorkflow refunds', () => {
+  let fixture: OrderFixture;
+  let workflow: OrderWorkflow;
+
+  const balance = () => new WalletLedger(fixture.storage).getBalance(fixture.tenant.id, fixture.wallet.id);
+  const input = () => ({
+    tenantId: fixture.tenant.id,
+    userId: fixture.customer.id,
+    userRole: 'customer',
+    serviceId: fixture.service.id,
+    inputData: { imei: '123456789012345' },
+  });
+  const refund = (order: Order, request?: OrderRefundRequest) =>
+    workflow.refundOrder(fixture.tenant.id, order.id, fixture.admin.id, 'admin', request);
+  const ledger = () => fixture.storage.getWalletTransactions(fixture.tenant.id, fixture.wallet.id);
+
+  beforeEach(async () => {
+    fixture = await seedOrderFixture();
+    workflow = new OrderWorkflow(fixture.storage);
+  });
+
+  afterEach(() => {
+    vi.unstubAllGlobals();
+  });
+
+  describe('single orders', () => {
+    let order: Order;
+
+    beforeEach(async () => {
+      stubProvider(() => ({ id: 'P-1', status: 'completed' }));
+      order = (await workflow.placeOrder(input())).order!;
+    });
+
+    it('refunds the whole order against its debit', async () => {
+      const result = await refund(order, { reason: 'Wrong model' });
+
+      expect(result.order).toMatchObject({ status: 'refunded', refundedAmount: order.paidAmount });
+      const transactions = await ledger();
+      const debit = transactions.find(transaction => transaction.type === 'debit')!;
+      expect(transactions.find(transaction => transaction.type === 'refund')).toMatchObject({
+        amount: order.paidAmount,
+        parentTransactionId: debit.id,
+      });
+      expect(await balance()).toMatchObject({ available: 10_000, locked: 0 });
+    });
+
+    it('tracks partial refunds until the debit is used up', async () => {
+      const first = await refund(order, { amount: 400 });
+      expect(first.order).toMatchObject({ status: 'partially_refunded', refundedAmount: 400 });
+
+      const rest = await refund(first.order!);
+
+      expect(rest.order).toMatchObject({ status: 'refunded', refundedAmount: order.paidAmount });
+      expect(await balance()).toMatchObject({ available: 10_000 });
+    });
+
+    it('refuses to refund more than was paid', async () => {
+      await refund(order, { amount: 400 });
+
+      const over = await refund(order, { amount: order.paidAmount! });
+
+      expect(over).toMatchObject({ success: false, error: { code: 'REFUND_EXCEEDS_PAID' } });
+      expect(await balance()).toMatchObject({ available: 10_000 - order.paidAmount! + 400 });
+    });
+
+    it('has nothing left to refund once refunded', async () => {
+      await refund(order);
+
+      expect(await refund(order)).toMatchObject({ success: false, error: { code: 'NOTHING_TO_REFUND' } });
+    });
+  });
+
+  describe('bulk orders', () => {
+    let order: Order;
+
+    beforeEach(async () => {
+      stubProvider(({ body }) => body.data.imei.startsWith('2')
+        ? new Response('refused', { status: 500 })
+        : { id: `P-${body.data.imei}`, status: 'completed' });
+      order = (await workflow.placeBulkOrder(input(), [
+        { imei: '111111111111111' },
+        { imei: '222222222222222' },
+        { imei: '333333333333333' },
+      ])).order!;
+    });
+
+    const item = async (imei: string) => (await fixture.storage.getOrderItems(fixture.tenant.id, order.id))
+      .find(line => line.inputData.imei === imei)!;
+
+    it('refunds the named items only', async () => {
+      const delivered = await item('111111111111111');
+
+      const result = await refund(order, { itemIds: [delivered.id] });
+
+      expect(result.order).toMatchObject({ status: 'partially_refunded', refundedAmount: delivered.amount });
+      expect((await item('111111111111111')).status).toBe('refunded');
+      expect((await item('333333333333333')).status).toBe('delivered');
+      const refunds = (await ledger()).filter(transaction => transaction.type === 'refund');
+      expect(refunds).toHaveLength(1);
+      expect(refunds[0].metadata).toMatchObject({ orderItemId: delivered.id });
+    });
+
+    it('does not refund items that were never delivered', async () => {
+      const failed = await item('222222222222222');
+
+      const result = await refund(order, { itemIds: [failed.id] });
+
+      expect(result).toMatchObject({ success: false, error: { code: 'INVALID_TRANSITION' } });
+    });
+
+    it('takes either an amount or items, not both', async () => {
+      const delivered = await item('111111111111111');
+
+      const result = await refund(order, { amount: 100, itemIds: [delivered.id] });
+
+      expect(result).toMatchObject({ success: false, error: { code: 'INVALID_REFUND' } });
+    });
+  });
+});
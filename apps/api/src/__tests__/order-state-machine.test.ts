@@ -0,0 +1,144 @@
+import { describe, it, expect, beforeEach, afterEach, vi } from 'vitest';
+import type { Order } from '../../../../shared/schema';
+import {
+  DEFAULT_ORDER_STATE_MACHINE,
+  OrderStateMachine,
+  type OrderStateMachineDefinition,
+} from '@edge/core/services/order-state-machine';
+import { OrderStateHooks, type StateHookContext } from '@edge/core/services/order-state-hooks';
+import { OrderWorkflow } from '@edge/core/services/order-workflow';
+import { TenantStateMachineManager } from '@edge/core/services/tenant-state-machine';
+import { seedOrderFixture, stubProvider, type OrderFixture } from './fixtures';
+
+// The built-in lifecycle plus an admin-only hold on processing orders
+const withHold = (onEnter = [{ hook: 'probe' }]): OrderStateMachineDefinition => ({
+  states: [...DEFAULT_ORDER_STATE_MACHINE.states, { name: 'on_hold', onEnter }],
+  transitions: [
+    ...DEFAULT_ORDER_STATE_MACHINE.transitions,
+    { from: 'processing', to: 'on_hold', requiresRole: ['admin'] },
+    { from: 'on_hold', to: 'processing' },
+  ],
+});
+
+describe('OrderStateMachine.validateDefinition', () => {
+  const validate = (definition: OrderStateMachineDefinition) =>
+    OrderStateMachine.validateDefinition(definition, ['probe']);
+
+  it('accepts the built-in definition and tenant states', () => {
+    expect(validate(DEFAULT_ORDER_STATE_MACHINE)).toEqual({ valid: true });
+    expect(validate(withHold())).toEqual({ valid: true });
+  });
+
+  it('rejects states that cannot be reached or cannot finish', () => {
+    const definition = withHold();
+    definition.states.push({ name: 'orphan', terminal: true }, { name: 'disputed' });
+    definition.transitions.push({ from: 'delivered', to: 'disputed' }, { from: 'disputed', to: 'on_hold' });
+    definition.transitions = definition.transitions.filter(t => !(t.from === 'on_hold' && t.to === 'processing'));
+
+    expect(validate(definition).errors).toEqual(expect.arrayContaining([
+      "State 'orphan' cannot be reached from 'pending'",
+      "State 'on_hold' has no outgoing transition and is not terminal",
+      "State 'disputed' cannot reach a terminal state",
+    ]));
+  });
+
+  it('keeps the built-in lifecycle intact', () => {
+    const definition = withHold([{ hook: 'missing' }]);
+    definition.transitions = definition.transitions
+      .filter(t => !(t.from === 'processing' && t.to === 'failed'))
+      .concat({ from: 'pending', to: 'delivered' });
+
+    expect(validate(definition).errors).toEqual(expect.arrayContaining([
+      'Built-in transition processing -> failed is missing',
+      'Transition pending -> delivered between built-in states is not supported',
+      "State 'on_hold' uses unknown hook 'missing'",
+    ]));
+  });
+});
+
+describe('Tenant order state machines', () => {
+  let fixture: OrderFixture;
+  let workflow: OrderWorkflow;
+  let machines: TenantStateMachineManager;
+  let order: Order;
+  let entered: StateHookContext[];
+
+  const move = (to: string, role = 'admin') =>
+    workflow.transitionOrder(fixture.tenant.id, order.id, to, fixture.admin.id, role);
+
+  beforeEach(async () => {
+    entered = [];
+    OrderStateHooks.register('probe', async context => {
+      entered.push(context);
+    });
+    fixture = await seedOrderFixture();
+    workflow = new OrderWorkflow(fixture.storage);
+    machines = new TenantStateMachineManager(fixture.storage);
+    stubProvider(() => ({ id: 'P-1', status: 'processing' }));
+    order = (await workflow.placeOrder({
+      tenantId: fixture.tenant.id,
+      userId: fixture.customer.id,
+      userRole: 'customer',
+      serviceId: fixture.service.id,
+      inputData: { imei: '123456789012345' },
+    })).order!;
+  });
+
+  afterEach(() => {
+    vi.unstubAllGlobals();
+  });
+
+  it('uses the built-in definition until the tenant saves one', async () => {
+    expect(await machines.describe(fixture.tenant.id)).toMatchObject({ version: 0, isDefault: true });
+    expect(await move('on_hold')).toMatchObject({ success: false, error: { code: 'INVALID_TRANSITION' } });
+
+    const saved = await machines.save(fixture.tenant.id, withHold(), fixture.admin.id);
+
+    expect(saved).toMatchObject({ version: 1, isDefault: false });
+  });
+
+  it('refuses to store an invalid definition', async () => {
+    const definition = withHold();
+    definition.states.push({ name: 'orphan' });
+
+    await expect(machines.save(fixture.tenant.id, definition, fixture.admin.id))
+      .rejects.toMatchObject({ code: 'INVALID_STATE_MACHINE' });
+  });
+
+  it('holds an order, runs the enter hooks and resumes where it was', async () => {
+    await machines.save(fixture.tenant.id, withHold(), fixture.admin.id);
+
+    expect(await move('on_hold', 'customer')).toMatchObject({ success: false, error: { code: 'INVALID_TRANSITION' } });
+    const held = await move('on_hold');
+
+    expect(held.order).toMatchObject({ status: 'on_hold', metadata: { resumeStatus: 'processing' } });
+    expect(entered.map(context => [context.phase, context.state, context.from])).toEqual([['enter', 'on_hold', 'processing']]);
+    expect(await move('delivered')).toMatchObject({ success: false, error: { code: 'INVALID_TRANSITION' } });
+
+    const resumed = await move('processing');
+
+    expect(resumed.order!.status).toBe('processing');
+    expect(resumed.order!.metadata?.resumeStatus).toBeUndefined();
+  });
+
+  it('rolls the transition back when a hook fails', async () => {
+    OrderStateHooks.register('probe', async () => {
+      throw new Error('hook failed');
+    });
+    await machines.save(fixture.tenant.id, withHold(), fixture.admin.id);
+
+    await expect(move('on_hold')).rejects.toThrow('hook failed');
+
+    expect((await fixture.storage.getOrder(fixture.tenant.id, order.id))!.status).toBe('processing');
+  });
+
+  it('keeps a state while orders are in it', async () => {
+    await machines.save(fixture.tenant.id, withHold(), fixture.admin.id);
+    await move('on_hold');
+
+    await expect(machines.reset(fixture.tenant.id, fixture.admin.id)).rejects.toMatchObject({ code: 'STATE_IN_USE' });
+
+    await move('processing');
+    expect(await machines.reset(fixture.tenant.id, fixture.admin.id)).toMatchObject({ isDefault: true });
+  });
+});
@@ -0,0 +1,83 @@
+import { describe, it, expect, beforeEach, afterEach, vi } from 'vitest';
+import { PendingOrderSync } from '@edge/core/services/pending-order-sync';
+import { login, request, seedOrderFixture, stubProvider, type OrderFixture } from './fixtures';
+
+describe('Order timeline', () => {
+  let fixture: OrderFixture;
+  let customerToken: string;
+  let adminToken: string;
+
+  const place = async () => (await request(fixture.storage, 'POST', '/api/orders', {
+    token: customerToken,
+    body: { serviceId: fixture.service.id, inputData: { imei: '123456789012345' } },
+  })).body;
+  const timeline = (orderId: string, token: string) =>
+    request(fixture.storage, 'GET', `/api/orders/${orderId}/timeline`, { token });
+  const steps = (events: any[]) => events.map(event => [event.type, event.fromStatus, event.toStatus, event.source]);
+
+  beforeEach(async () => {
+    fixture = await seedOrderFixture();
+    customerToken = await login(fixture.storage, fixture.customer);
+    adminToken = await login(fixture.storage, fixture.admin);
+  });
+
+  afterEach(() => {
+    vi.unstubAllGlobals();
+  });
+
+  it('records every step of an order with who caused it', async () => {
+    stubProvider(() => ({ id: 'P-1', status: 'completed' }));
+    const order = await place();
+
+    const { status, body } = await timeline(order.id, adminToken);
+
+    expect(status).toBe(200);
+    expect(steps(body)).toEqual([
+      ['created', null, 'payment_confirmed', 'user'],
+      ['status_changed', 'payment_confirmed', 'processing', 'user'],
+      // The placement answer is part of the customer's request
+      ['provider_response', null, null, 'user'],
+      ['status_changed', 'processing', 'delivered', 'user'],
+    ]);
+    expect(body[0].actorId).toBe(fixture.customer.id);
+    expect(body[2].data).toMatchObject({ providerId: fixture.provider.id });
+  });
+
+  it('shows customers only the creation and status changes', async () => {
+    stubProvider(() => ({ id: 'P-1', status: 'completed' }));
+    const order = await place();
+
+    const { body } = await timeline(order.id, customerToken);
+
+    expect(body.map((event: any) => event.type)).toEqual(['created', 'status_changed', 'status_changed']);
+  });
+
+  it('lets admins add notes', async () => {
+    stubProvider(() => ({ id: 'P-1', status: 'completed' }));
+    const order = await place();
+    const path = `/api/orders/${order.id}/notes`;
+
+    expect((await request(fixture.storage, 'POST', path, { token: customerToken, body: { note: 'Hi' } })).status).toBe(403);
+    const created = await request(fixture.storage, 'POST', path, { token: adminToken, body: { note: 'Called the customer' } });
+
+    expect(created.status).toBe(201);
+    const { body } = await timeline(order.id, adminToken);
+    expect(body[body.length - 1]).toMatchObject({
+      type: 'note',
+      source: 'user',
+      actorId: fixture.admin.id,
+      data: { note: 'Called the customer' },
+    });
+  });
+
+  it('records failed status checks of the scheduled sync', async () => {
+    stubProvider(({ body }) => body ? { id: 'P-1', status: 'processing' } : new Response('down', { status: 503 }));
+    const order = await place();
+
+    await new PendingOrderSync(fixture.storage, { sleep: async () => {} }).syncDueProviders(fixture.tenant.id);
+
+    const { body } = await timeline(order.id, adminToken);
+    expect(body[body.length - 1]).toMatchObject({ type: 'sync', source: 'sync', actorId: null });
+    expect(body[body.length - 1].data.error).toContain('503');
+  });
+});
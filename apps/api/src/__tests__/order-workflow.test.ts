@@ -0,0 +1,80 @@
+import { describe, it, expect, beforeEach, afterEach, vi } from 'vitest';
+import { OrderWorkflow } from '@edge/core/services/order-workflow';
+import { WalletLedger } from '@edge/core/services/wallet-ledger';
+import { seedOrderFixture, stubProvider, type OrderFixture } from './fixtures';
+
+describe('OrderWorkflow', () => {
+  let fixture: OrderFixture;
+  let workflow: OrderWorkflow;
+
+  const balance = () => new WalletLedger(fixture.storage).getBalance(fixture.tenant.id, fixture.wallet.id);
+  const place = () => workflow.placeOrder({
+    tenantId: fixture.tenant.id,
+    userId: fixture.customer.id,
+    userRole: 'customer',
+    serviceId: fixture.service.id,
+    inputData: { imei: '123456789012345' },
+  });
+
+  beforeEach(async () => {
+    fixture = await seedOrderFixture();
+    workflow = new OrderWorkflow(fixture.storage);
+  });
+
+  afterEach(() => {
+    vi.unstubAllGlobals();
+  });
+
+  it('debits the wallet when the provider delivers', async () => {
+    stubProvider(() => ({ id: 'P-1', status: 'completed' }));
+
+    const result = await place();
+
+    expect(result.success).toBe(true);
+    expect(result.order).toMatchObject({ status: 'delivered', providerOrderId: 'P-1' });
+    expect(result.order!.paidAmount).toBe(result.order!.totalAmount);
+    expect(await balance()).toMatchObject({ available: 10_000 - result.order!.totalAmount, locked: 0 });
+  });
+
+  it('releases the lock when the provider rejects the order', async () => {
+    stubProvider(() => new Response('down', { status: 500 }));
+
+    const result = await place();
+
+    expect(result.success).toBe(false);
+    expect(result.order?.status).toBe('failed');
+    expect(await balance()).toMatchObject({ available: 10_000, locked: 0 });
+  });
+
+  it('moves the order to processing before the provider is called', async () => {
+    const seen: string[] = [];
+    stubProvider(async () => {
+      const [order] = await fixture.storage.getOrders(fixture.tenant.id);
+      seen.push(order.status);
+      return { id: 'P-1', status: 'completed' };
+    });
+
+    await place();
+
+    expect(seen).toEqual(['processing']);
+  });
+
+  it('sends an order to the provider once when it is dispatched concurrently', async () => {
+    fixture = await seedOrderFixture({ requiresApproval: true });
+    workflow = new OrderWorkflow(fixture.storage);
+    const provider = stubProvider(() => ({ id: 'P-1', status: 'completed' }));
+
+    const placed = await place();
+    expect(placed.order?.status).toBe('pending');
+
+    const results = await Promise.all([
+      workflow.approveOrder(fixture.tenant.id, placed.order!.id, fixture.admin.id, 'admin'),
+      workflow.approveOrder(fixture.tenant.id, placed.order!.id, fixture.admin.id, 'admin'),
+    ]);
+
+    expect(provider).toHaveBeenCalledTimes(1);
+    expect(results.map(result => result.success).sort()).toEqual([false, true]);
+    expect(results.find(result => !result.success)?.error?.code).toBe('INVALID_TRANSITION');
+    expect(await balance()).toMatchObject({ available: 10_000 - placed.order!.totalAmount, locked: 0 });
+  });
+});
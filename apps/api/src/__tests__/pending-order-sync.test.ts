@@ -0,0 +1,89 @@
+import { describe, it, expect, beforeEach, afterEach, vi } from 'vitest';
+import type { Order } from '../../../../shared/schema';
+import { OrderWorkflow } from '@edge/core/services/order-workflow';
+import { PendingOrderSync } from '@edge/core/services/pending-order-sync';
+import { WalletLedger } from '@edge/core/services/wallet-ledger';
+import { seedOrderFixture, stubProvider, type OrderFixture } from './fixtures';
+
+describe('PendingOrderSync', () => {
+  let fixture: OrderFixture;
+  let order: Order;
+  let sync: PendingOrderSync;
+
+  const now = new Date('2026-01-01T00:00:00.000Z');
+  const minutesLater = (minutes: number) => new Date(now.getTime() + minutes * 60_000);
+  // Placement answers `processing`; status checks answer `status`
+  const stubStatus = (status: string | Response) => stubProvider(({ body }) => {
+    if (body) {
+      return { id: 'P-1', status: 'processing' };
+    }
+    return status instanceof Response ? status : { status };
+  });
+  const reload = async () => (await fixture.storage.getOrder(fixture.tenant.id, order.id))!;
+
+  beforeEach(async () => {
+    fixture = await seedOrderFixture();
+    stubStatus('processing');
+    const placed = await new OrderWorkflow(fixture.storage).placeOrder({
+      tenantId: fixture.tenant.id,
+      userId: fixture.customer.id,
+      userRole: 'customer',
+      serviceId: fixture.service.id,
+      inputData: { imei: '123456789012345' },
+    });
+    order = placed.order!;
+    sync = new PendingOrderSync(fixture.storage, { sleep: async () => {} });
+  });
+
+  afterEach(() => {
+    vi.unstubAllGlobals();
+  });
+
+  it('applies a completed status and settles the locked funds', async () => {
+    expect(order).toMatchObject({ status: 'processing', providerOrderId: 'P-1' });
+    stubStatus('completed');
+
+    const results = await sync.syncDueProviders(fixture.tenant.id, now);
+
+    expect(results).toEqual([{ providerId: fixture.provider.id, checked: 1, updated: 1, failed: 0 }]);
+    expect((await reload()).status).toBe('delivered');
+    const balance = await new WalletLedger(fixture.storage).getBalance(fixture.tenant.id, fixture.wallet.id);
+    expect(balance).toMatchObject({ available: 10_000 - order.totalAmount, locked: 0 });
+  });
+
+  it('leaves the order processing when the status check fails', async () => {
+    stubStatus(new Response('down', { status: 500 }));
+
+    const [result] = await sync.syncDueProviders(fixture.tenant.id, now);
+
+    expect(result).toMatchObject({ checked: 1, updated: 0, failed: 1, errors: [{ orderId: order.id }] });
+    expect((await reload()).status).toBe('processing');
+  });
+
+  it('waits for the provider interval before syncing it again', async () => {
+    await sync.syncDueProviders(fixture.tenant.id, now);
+
+    expect(await sync.syncDueProviders(fixture.tenant.id, minutesLater(4))).toEqual([]);
+    expect(await sync.syncDueProviders(fixture.tenant.id, minutesLater(5))).toHaveLength(1);
+  });
+
+  it('keeps its own schedule when other syncs touch lastSyncAt', async () => {
+    await fixture.storage.updateProvider(fixture.tenant.id, fixture.provider.id, { lastSyncAt: now.toISOString() });
+
+    expect(await sync.syncDueProviders(fixture.tenant.id, now)).toHaveLength(1);
+  });
+
+  it('syncs a provider once when runs overlap', async () => {
+    const stub = stubStatus('processing');
+    const provider = fixture.provider;
+
+    const results = await Promise.all([
+      sync.syncProvider(provider, now),
+      new PendingOrderSync(fixture.storage, { sleep: async () => {} }).syncProvider(provider, now),
+    ]);
+
+    expect(results.filter(Boolean)).toHaveLength(1);
+    expect(stub).toHaveBeenCalledTimes(1);
+    expect((await fixture.storage.getProvider(fixture.tenant.id, provider.id))!.statusSyncAt).toBe(now.toISOString());
+  });
+});
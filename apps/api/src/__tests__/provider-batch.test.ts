@@ -0,0 +1,145 @@
+import { describe, it, expect, beforeEach } from 'vitest';
+import type { Order, Provider } from '../../../../shared/schema';
+import type { BlobStore } from '@edge/core/types';
+import { FileBasedProvider } from '@edge/core/providers';
+import { OrderWorkflow } from '@edge/core/services/order-workflow';
+import { ProviderBatchManager } from '@edge/core/services/provider-batch';
+import { seedOrderFixture, type OrderFixture } from './fixtures';
+
+class MemoryBlobStore implements BlobStore {
+  files = new Map<string, string>();
+
+  async put(key: string, body: string): Promise<void> {
+    this.files.set(key, body);
+  }
+
+  async get(key: string): Promise<string | null> {
+    return this.files.get(key) ?? null;
+  }
+
+  async delete(key: string): Promise<void> {
+    this.files.delete(key);
+  }
+
+  async list(prefix: string): Promise<string[]> {
+    return Array.from(this.files.keys()).filter(key => key.startsWith(prefix));
+  }
+}
+
+describe('ProviderBatchManager', () => {
+  let fixture: OrderFixture;
+  let provider: Provider;
+  let blobs: MemoryBlobStore;
+  let batches: ProviderBatchManager;
+
+  const place = async (imei: string): Promise<Order> => {
+    const result = await new OrderWorkflow(fixture.storage).placeOrder({
+      tenantId: fixture.tenant.id,
+      userId: fixture.customer.id,
+      userRole: 'customer',
+      serviceId: fixture.service.id,
+      inputData: { imei },
+    });
+    return result.order!;
+  };
+
+  beforeEach(async () => {
+    fixture = await seedOrderFixture();
+    provider = (await fixture.storage.updateProvider(fixture.tenant.id, fixture.provider.id, {
+      type: 'file_based',
+      config: {},
+    }))!;
+    blobs = new MemoryBlobStore();
+    batches = new ProviderBatchManager(fixture.storage, blobs);
+  });
+
+  it('queues orders until they are exported', async () => {
+    const order = await place('123456789012345');
+
+    expect(order).toMatchObject({ status: 'processing', providerStatus: 'queued' });
+    expect(order.providerOrderId).toBeTruthy();
+  });
+
+  it('exports queued orders once, in the default CSV layout', async () => {
+    const order = await place('123456789012345');
+
+    const batch = await batches.exportPending(provider, fixture.admin.id);
+
+    expect(batch).toMatchObject({ direction: 'export', format: 'csv', lineCount: 1 });
+    expect(await blobs.get(batch.blobKey)).toBe(
+      `reference,service,imei\r\n${order.providerOrderId},primary-service,123456789012345\r\n`
+    );
+    expect((await fixture.storage.getOrder(fixture.tenant.id, order.id))!.providerStatus).toBe('exported');
+    await expect(batches.exportPending(provider, fixture.admin.id)).rejects.toMatchObject({ code: 'NOTHING_TO_EXPORT' });
+  });
+
+  it('applies a results file and reports the rows it could not use', async () => {
+    const delivered = await place('111111111111111');
+    const failed = await place('222222222222222');
+    await batches.exportPending(provider, fixture.admin.id);
+
+    const result = await batches.importResults(provider, [
+      'reference,status,code',
+      `${delivered.providerOrderId},completed,"CODE, 1"`,
+      `${failed.providerOrderId},failed,`,
+      'unknown-reference,completed,',
+      ',completed,',
+    ].join('\n'), fixture.admin.id);
+
+    expect(result.applied).toBe(2);
+    expect(result.errors).toEqual([
+      { reference: 'unknown-reference', error: 'No order or item has this reference' },
+      { error: "Row 4: Missing 'reference' or 'status'" },
+    ]);
+    expect(result.batch).toMatchObject({ direction: 'import', lineCount: 4, appliedCount: 2 });
+
+    const [first, second] = await Promise.all([
+      fixture.storage.getOrder(fixture.tenant.id, delivered.id),
+      fixture.storage.getOrder(fixture.tenant.id, failed.id),
+    ]);
+    expect(first).toMatchObject({ status: 'delivered', outputData: { code: 'CODE, 1' } });
+    expect(second!.status).toBe('failed');
+  });
+
+  it('rejects providers that do not exchange files', async () => {
+    await fixture.storage.updateProvider(fixture.tenant.id, provider.id, { type: 'api' });
+    const api = (await fixture.storage.getProvider(fixture.tenant.id, provider.id))!;
+
+    await expect(batches.exportPending(api, fixture.admin.id)).rejects.toMatchObject({ code: 'NOT_FILE_BASED' });
+  });
+});
+
+describe('FileBasedProvider', () => {
+  const create = (config: Record<string, any>) => new FileBasedProvider({
+    id: 'p-1',
+    name: 'Files',
+    type: 'file_based',
+    config,
+    credentials: {},
+    statusMapping: {},
+  });
+
+  it('renders configured columns as JSON', () => {
+    const file = create({
+      format: 'json',
+      columns: [{ header: 'IMEI', field: 'input.imei' }, { header: 'Ref', field: 'reference' }],
+    }).buildExport([{ reference: 'r-1', service: 's-1', inputData: { imei: '1' } }]);
+
+    expect(file.extension).toBe('json');
+    expect(JSON.parse(file.content)).toEqual([{ IMEI: '1', Ref: 'r-1' }]);
+  });
+
+  it('parses CSV with a byte order mark, quoted fields and another delimiter', () => {
+    const results = create({ delimiter: ';', referenceColumn: 'id' })
+      .parseResults('\uFEFFid;status;note\r\nr-1;completed;"a; ""b"""\r\n');
+
+    expect(results).toEqual([
+      { row: 1, report: { providerOrderId: 'r-1', status: 'completed', data: { id: 'r-1', status: 'completed', note: 'a; "b"' } } },
+    ]);
+  });
+
+  it('rejects unreadable results files', () => {
+    expect(() => create({}).parseResults('reference,status\n"open')).toThrow(/Unterminated/);
+    expect(() => create({ format: 'json' }).parseResults('{"results": 1}')).toThrow(/array of objects/);
+  });
+});
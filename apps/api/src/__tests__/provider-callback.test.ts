@@ -0,0 +1,81 @@
+import { describe, it, expect, beforeEach, afterEach, vi } from 'vitest';
+import type { Order } from '../../../../shared/schema';
+import { OrderWorkflow } from '@edge/core/services/order-workflow';
+import { hmacSha256, toHex } from '@edge/core/services/crypto';
+import { signWebhookPayload } from '@edge/core/services/webhook-signature';
+import { request, seedOrderFixture, stubProvider, type OrderFixture } from './fixtures';
+
+const CALLBACK_SECRET = 'callback-secret';
+
+describe('POST /api/providers/:slug/callback', () => {
+  let fixture: OrderFixture;
+  let order: Order;
+
+  const callback = (body: string, signature: string) => request(
+    fixture.storage,
+    'POST',
+    `/api/providers/primary/callback?tenant=${fixture.tenant.id}`,
+    { body: JSON.parse(body), headers: { 'x-signature': signature } }
+  );
+
+  beforeEach(async () => {
+    fixture = await seedOrderFixture();
+    await fixture.storage.updateProvider(fixture.tenant.id, fixture.provider.id, {
+      type: 'async_api',
+      credentials: { apiKey: 'key', callbackSecret: CALLBACK_SECRET },
+    });
+
+    stubProvider(() => ({ id: 'P-1', status: 'processing' }));
+    const placed = await new OrderWorkflow(fixture.storage).placeOrder({
+      tenantId: fixture.tenant.id,
+      userId: fixture.customer.id,
+      userRole: 'customer',
+      serviceId: fixture.service.id,
+      inputData: { imei: '123456789012345' },
+    });
+    order = placed.order!;
+  });
+
+  afterEach(() => {
+    vi.unstubAllGlobals();
+  });
+
+  it('applies a signed callback', async () => {
+    expect(order).toMatchObject({ status: 'processing', providerOrderId: 'P-1' });
+    const body = JSON.stringify({ orderId: 'P-1', status: 'completed' });
+
+    const { status, body: response } = await callback(body, await signWebhookPayload(body, CALLBACK_SECRET));
+
+    expect(status).toBe(200);
+    expect(response).toEqual({ received: true, orderId: order.id, status: 'delivered' });
+  });
+
+  it('rejects a replayed callback', async () => {
+    const body = JSON.stringify({ orderId: 'P-1', status: 'completed' });
+    const signature = await signWebhookPayload(body, CALLBACK_SECRET);
+    await callback(body, signature);
+
+    const { status, body: response } = await callback(body, signature);
+
+    expect(status).toBe(409);
+    expect(response.error.code).toBe('ALREADY_APPLIED');
+  });
+
+  it('rejects a signature outside the tolerance window', async () => {
+    const body = JSON.stringify({ orderId: 'P-1', status: 'completed' });
+    const stale = Math.floor(Date.now() / 1000) - 10 * 60;
+
+    const { status } = await callback(body, await signWebhookPayload(body, CALLBACK_SECRET, stale));
+
+    expect(status).toBe(401);
+    expect((await fixture.storage.getOrder(fixture.tenant.id, order.id))!.status).toBe('processing');
+  });
+
+  it('rejects a signature over the body alone', async () => {
+    const body = JSON.stringify({ orderId: 'P-1', status: 'completed' });
+
+    const { status } = await callback(body, `sha256=${toHex(await hmacSha256(CALLBACK_SECRET, body))}`);
+
+    expect(status).toBe(401);
+  });
+});
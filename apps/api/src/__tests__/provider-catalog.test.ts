@@ -0,0 +1,131 @@
+import { describe, it, expect, beforeEach, afterEach, vi } from 'vitest';
+import type { IStorage } from '../../../../server/storage';
+import type { CatalogSync, Provider, Service, Tenant, User } from '../../../../shared/schema';
+import { ProviderCatalogManager } from '@edge/core/services/provider-catalog';
+import { createTestStorage } from '../../../../server/__tests__/helpers';
+
+describe('ProviderCatalogManager', () => {
+  let storage: IStorage;
+  let tenant: Tenant;
+  let admin: User;
+  let provider: Provider;
+  let mapped: Service;
+  let retired: Service;
+  let catalog: ProviderCatalogManager;
+
+  // A DHRU service list with one entry per [id, name, credit]
+  const stubCatalog = (services: Array<[number, string, string]>) => {
+    const listed: Record<string, any> = {};
+    for (const [id, name, credit] of services) {
+      listed[id] = { SERVICEID: id, SERVICENAME: name, CREDIT: credit };
+    }
+    vi.stubGlobal('fetch', vi.fn(async () =>
+      Response.json({ SUCCESS: [{ LIST: { Apple: { GROUPNAME: 'Apple', SERVICES: listed } } }] })
+    ));
+  };
+
+  const addService = async (slug: string, providerServiceId: string): Promise<Service> => {
+    const service = await storage.createService({
+      tenantId: tenant.id,
+      name: slug,
+      slug,
+      inputSchema: { fields: [] },
+      baseCost: 1000,
+    });
+    await storage.createProviderServiceMapping({
+      tenantId: tenant.id,
+      serviceId: service.id,
+      providerId: provider.id,
+      providerServiceId,
+    });
+    return service;
+  };
+
+  const change = (sync: CatalogSync, providerServiceId: string) =>
+    sync.changes.find(candidate => candidate.providerServiceId === providerServiceId)!;
+
+  beforeEach(async () => {
+    ({ storage } = await createTestStorage());
+    tenant = await storage.createTenant({ name: 'Tenant', slug: 'tenant' });
+    admin = await storage.createUser({ tenantId: tenant.id, email: 'admin@example.com', role: 'admin', passwordHash: 'x' });
+    provider = await storage.createProvider({
+      tenantId: tenant.id,
+      name: 'Dhru',
+      slug: 'dhru',
+      type: 'dhru',
+      config: { apiUrl: 'https://supplier.test', catalogSync: { autoAdjust: true, band: 10, intervalHours: 24 } },
+      credentials: { username: 'reseller', apiKey: 'key' },
+    });
+    mapped = await addService('iphone', '7');
+    retired = await addService('old', '9');
+    catalog = new ProviderCatalogManager(storage);
+  });
+
+  afterEach(() => {
+    vi.unstubAllGlobals();
+  });
+
+  it('reports added and removed services and applies cost changes within the band', async () => {
+    stubCatalog([[7, 'iPhone', '10.50'], [8, 'Samsung', '4.00']]);
+
+    const sync = await catalog.syncCatalog(provider, admin.id);
+
+    expect(sync.status).toBe('pending');
+    expect(sync.changes.map(item => [item.type, item.providerServiceId, item.status]).sort()).toEqual([
+      ['added', '8', 'pending'],
+      ['cost_changed', '7', 'auto_applied'],
+      ['removed', '9', 'pending'],
+    ]);
+    expect((await storage.getService(tenant.id, mapped.id))).toMatchObject({ baseCost: 1050, costDrift: null });
+  });
+
+  it('flags cost changes outside the band until the report is approved', async () => {
+    stubCatalog([[7, 'iPhone', '15.00'], [9, 'Old', '10.00']]);
+
+    const sync = await catalog.syncCatalog(provider, admin.id);
+    expect(change(sync, '7')).toMatchObject({ status: 'pending', previousCost: 1000, upstreamCost: 1500 });
+    expect((await storage.getService(tenant.id, mapped.id))!.costDrift).toBe(500);
+
+    const approved = await catalog.approveSync(sync, admin.id);
+
+    expect(approved.status).toBe('applied');
+    expect(change(approved, '7').status).toBe('applied');
+    expect((await storage.getService(tenant.id, mapped.id))).toMatchObject({ baseCost: 1500, costDrift: null });
+  });
+
+  it('applies the chosen changes and rejects the rest', async () => {
+    stubCatalog([[7, 'iPhone', '10.00'], [8, 'Samsung', '4.00']]);
+    const sync = await catalog.syncCatalog(provider, admin.id);
+
+    const approved = await catalog.approveSync(sync, admin.id, [change(sync, '8').id]);
+
+    expect(change(approved, '8').status).toBe('applied');
+    expect(change(approved, '9').status).toBe('rejected');
+    const created = (await storage.getService(tenant.id, change(approved, '8').serviceId!))!;
+    expect(created).toMatchObject({ name: 'Samsung', baseCost: 400, isActive: false });
+    const [mapping] = await storage.getProviderServiceMappings(tenant.id, created.id);
+    expect(mapping).toMatchObject({ providerId: provider.id, providerServiceId: '8' });
+    expect((await storage.getProviderServiceMappings(tenant.id, retired.id))[0].isActive).toBe(true);
+  });
+
+  it('supersedes a pending report with a newer one', async () => {
+    stubCatalog([[7, 'iPhone', '10.00']]);
+    const first = await catalog.syncCatalog(provider, admin.id);
+    await catalog.syncCatalog(provider, admin.id);
+
+    const superseded = (await storage.getCatalogSync(tenant.id, first.id))!;
+
+    expect(superseded.status).toBe('superseded');
+    await expect(catalog.approveSync(superseded, admin.id)).rejects.toMatchObject({ code: 'INVALID_STATUS' });
+  });
+
+  it('only runs scheduled syncs once their interval has elapsed', async () => {
+    stubCatalog([[7, 'iPhone', '10.00'], [9, 'Old', '10.00']]);
+
+    const [first] = await catalog.syncDueCatalogs(tenant.id);
+    expect(first).toMatchObject({ providerId: provider.id, sync: { status: 'applied' } });
+
+    expect(await catalog.syncDueCatalogs(tenant.id)).toEqual([]);
+    expect(await catalog.syncDueCatalogs(tenant.id, new Date(Date.now() + 25 * 60 * 60 * 1000))).toHaveLength(1);
+  });
+});
@@ -0,0 +1,126 @@
+import { describe, it, expect, beforeEach } from 'vitest';
+import type { IStorage } from '../../../../server/storage';
+import type { Provider } from '../../../../shared/schema';
+import { ProviderHealthTracker } from '@edge/core/services/provider-health';
+import { createTestStorage } from '../../../../server/__tests__/helpers';
+
+describe('ProviderHealthTracker', () => {
+  let storage: IStorage;
+  let provider: Provider;
+  let now: Date;
+  let tracker: ProviderHealthTracker;
+
+  const advance = (seconds: number) => {
+    now = new Date(now.getTime() + seconds * 1000);
+  };
+  const call = (success: boolean, durationMs = 100) => tracker.record(provider, 'placeOrder', {
+    success,
+    durationMs,
+    error: success ? undefined : { code: 'API_ERROR', message: 'API returned 500' },
+  });
+  const state = async () => (await tracker.getReport(provider)).state;
+
+  beforeEach(async () => {
+    ({ storage } = await createTestStorage());
+    const tenant = await storage.createTenant({ name: 'Tenant', slug: 'tenant' });
+    provider = await storage.createProvider({
+      tenantId: tenant.id,
+      name: 'Supplier',
+      slug: 'supplier',
+      type: 'api',
+      config: {
+        apiUrl: 'http://supplier.test',
+        circuitBreaker: { failureRate: 50, minimumCalls: 4, openSeconds: 60, halfOpenProbes: 2 },
+      },
+    });
+    now = new Date('2026-01-01T00:00:00.000Z');
+    tracker = new ProviderHealthTracker(storage, () => now);
+  });
+
+  it('stays closed until the window holds the minimum number of calls', async () => {
+    await call(false);
+    await call(false);
+    await call(false);
+
+    expect(await state()).toBe('closed');
+    expect(await tracker.acquire(provider)).toBe(true);
+  });
+
+  it('opens at the failure rate and refuses calls while open', async () => {
+    await call(true);
+    await call(true);
+    await call(false);
+    await call(false);
+
+    const report = await tracker.getReport(provider);
+    expect(report).toMatchObject({ state: 'open', calls: 4, failures: 2, errorRate: 50 });
+    expect(report.retryAt).toBe('2026-01-01T00:01:00.000Z');
+    expect(report.lastError).toMatchObject({ code: 'API_ERROR' });
+    expect(await tracker.acquire(provider)).toBe(false);
+    expect(await tracker.isAvailable(provider)).toBe(false);
+  });
+
+  it('half-opens after the open period and closes when every probe succeeds', async () => {
+    for (let i = 0; i < 4; i++) {
+      await call(false);
+    }
+    advance(61);
+
+    expect(await tracker.acquire(provider)).toBe(true);
+    expect(await tracker.acquire(provider)).toBe(true);
+    expect(await tracker.acquire(provider)).toBe(false); // both probes are out
+    await call(true);
+    expect(await state()).toBe('half_open');
+    await call(true);
+
+    const report = await tracker.getReport(provider);
+    expect(report).toMatchObject({ state: 'closed', calls: 0 });
+  });
+
+  it('hands out each probe once to concurrent callers', async () => {
+    for (let i = 0; i < 4; i++) {
+      await call(false);
+    }
+    advance(61);
+
+    const granted = await Promise.all([1, 2, 3, 4].map(() => tracker.acquire(provider)));
+
+    expect(granted.filter(Boolean)).toHaveLength(2);
+  });
+
+  it('opens again when a probe fails', async () => {
+    for (let i = 0; i < 4; i++) {
+      await call(false);
+    }
+    advance(61);
+    await tracker.acquire(provider);
+
+    await call(false);
+
+    expect(await state()).toBe('open');
+    expect(await tracker.acquire(provider)).toBe(false);
+  });
+
+  it('gives up on probes that never reported back', async () => {
+    for (let i = 0; i < 4; i++) {
+      await call(false);
+    }
+    advance(61);
+    await tracker.acquire(provider);
+    await tracker.acquire(provider);
+
+    advance(61);
+
+    expect(await tracker.acquire(provider)).toBe(true);
+  });
+
+  it('drops calls older than the window', async () => {
+    await call(false, 100);
+    await call(false, 300);
+    advance(301);
+    await call(true, 200);
+
+    const report = await tracker.getReport(provider);
+    expect(report).toMatchObject({ state: 'closed', calls: 1, failures: 0, averageLatencyMs: 200, p95LatencyMs: 200 });
+  });
+});
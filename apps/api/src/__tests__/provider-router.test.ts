@@ -0,0 +1,108 @@
+import { describe, it, expect, beforeEach, afterEach, vi } from 'vitest';
+import type { Provider } from '../../../../shared/schema';
+import { OrderWorkflow } from '@edge/core/services/order-workflow';
+import { ProviderRouter, type ProviderRoute } from '@edge/core/services/provider-router';
+import { WalletLedger } from '@edge/core/services/wallet-ledger';
+import { PROVIDER_URL, addProvider, seedOrderFixture, stubProvider, type OrderFixture } from './fixtures';
+
+describe('ProviderRouter', () => {
+  let fixture: OrderFixture;
+  let backup: Provider;
+
+  const place = () => new OrderWorkflow(fixture.storage).placeOrder({
+    tenantId: fixture.tenant.id,
+    userId: fixture.customer.id,
+    userRole: 'customer',
+    serviceId: fixture.service.id,
+    inputData: { imei: '123456789012345' },
+  });
+  const balance = () => new WalletLedger(fixture.storage).getBalance(fixture.tenant.id, fixture.wallet.id);
+
+  beforeEach(async () => {
+    fixture = await seedOrderFixture();
+    backup = await addProvider(fixture.storage, fixture.tenant, fixture.service, 'backup', 1);
+  });
+
+  afterEach(() => {
+    vi.unstubAllGlobals();
+  });
+
+  it('orders routes by strategy', async () => {
+    const [mapping] = await fixture.storage.getProviderServiceMappings(fixture.tenant.id, fixture.service.id);
+    const route = (id: string, weight: number, upstreamCost: number | null): ProviderRoute => ({
+      provider: { ...fixture.provider, id },
+      mapping: { ...mapping, weight, upstreamCost },
+    });
+    const routes = [route('a', 1, 300), route('b', 0, 100), route('c', 3, null)];
+    const ids = (ordered: ProviderRoute[]) => ordered.map(entry => entry.provider.id);
+
+    expect(ids(ProviderRouter.orderRoutes(routes, 'priority'))).toEqual(['a', 'b', 'c']);
+    expect(ids(ProviderRouter.orderRoutes(routes, 'cheapest'))).toEqual(['b', 'a', 'c']);
+    // Same draw for every route: the heavier weight wins, weight 0 goes last
+    expect(ids(ProviderRouter.orderRoutes(routes, 'weighted', () => 0.5))).toEqual(['c', 'a', 'b']);
+  });
+
+  it('falls back to the next provider when one refuses the order', async () => {
+    stubProvider(({ url }) => url.startsWith(`${PROVIDER_URL}/primary`)
+      ? new Response('down', { status: 500 })
+      : { id: 'B-1', status: 'completed' });
+
+    const result = await place();
+
+    expect(result.order).toMatchObject({ status: 'delivered', providerId: backup.id, providerOrderId: 'B-1' });
+    expect(result.order!.providerAttempts!.map(attempt => [attempt.providerId, attempt.success, attempt.error?.code]))
+      .toEqual([[fixture.provider.id, false, 'API_ERROR'], [backup.id, true, undefined]]);
+  });
+
+  it('keeps the order processing after a timeout instead of sending it elsewhere', async () => {
+    await fixture.storage.updateProvider(fixture.tenant.id, fixture.provider.id, {
+      config: { apiUrl: `${PROVIDER_URL}/primary`, timeoutMs: 20 },
+    });
+    const stub = stubProvider(async () => {
+      await new Promise(resolve => setTimeout(resolve, 100));
+      return { id: 'P-1', status: 'completed' };
+    });
+
+    const result = await place();
+
+    expect(result.success).toBe(true);
+    expect(result.order).toMatchObject({ status: 'processing', providerId: fixture.provider.id, providerStatus: 'unknown' });
+    expect(result.order!.providerResponse).toMatchObject({ error: { code: 'TIMEOUT' } });
+    expect(stub).toHaveBeenCalledTimes(1);
+    expect(await balance()).toMatchObject({ locked: result.order!.totalAmount });
+  });
+
+  it('does not fall back after a dropped connection', async () => {
+    const stub = stubProvider(() => {
+      throw new TypeError('socket hang up');
+    });
+
+    const result = await place();
+
+    expect(result.order).toMatchObject({ status: 'processing', providerStatus: 'unknown' });
+    expect(stub).toHaveBeenCalledTimes(1);
+  });
+
+  it('stops when the order was settled between attempts', async () => {
+    const stub = stubProvider(() => new Response('down', { status: 500 }));
+    const service = fixture.service;
+    const routes = await new ProviderRouter(fixture.storage).getRoutes(service);
+    const order = await fixture.storage.createOrder({
+      tenantId: fixture.tenant.id,
+      userId: fixture.customer.id,
+      serviceId: service.id,
+      orderNumber: 'ORD-1',
+      status: 'processing',
+      inputData: { imei: '123456789012345' },
+      baseCost: service.baseCost,
+      markup: 0,
+      totalAmount: service.baseCost,
+    });
+
+    const routed = await new ProviderRouter(fixture.storage).fulfill(order, service, routes, async () => false);
+
+    expect(routed.stopped).toBe('settled');
+    expect(routed.attempts).toHaveLength(1);
+    expect(stub).toHaveBeenCalledTimes(1);
+  });
+});
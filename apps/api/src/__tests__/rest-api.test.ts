@@ -0,0 +1,62 @@
+import { describe, it, expect, beforeEach, afterEach, vi } from 'vitest';
+import { login, request, seedOrderFixture, stubProvider, type OrderFixture } from './fixtures';
+
+describe('REST API', () => {
+  let fixture: OrderFixture;
+  let customerToken: string;
+  let adminToken: string;
+
+  beforeEach(async () => {
+    fixture = await seedOrderFixture();
+    customerToken = await login(fixture.storage, fixture.customer);
+    adminToken = await login(fixture.storage, fixture.admin);
+    stubProvider(() => ({ id: 'P-1', status: 'completed' }));
+  });
+
+  afterEach(() => {
+    vi.unstubAllGlobals();
+  });
+
+  it('requires authentication', async () => {
+    const { status } = await request(fixture.storage, 'GET', '/api/orders');
+    expect(status).toBe(401);
+  });
+
+  it('places an order and serves it back to its owner', async () => {
+    const created = await request(fixture.storage, 'POST', '/api/orders', {
+      token: customerToken,
+      body: { serviceId: fixture.service.id, inputData: { imei: '123456789012345' } },
+    });
+    expect(created.status).toBe(201);
+    expect(created.body).toMatchObject({ status: 'delivered', userId: fixture.customer.id });
+
+    const fetched = await request(fixture.storage, 'GET', `/api/orders/${created.body.id}`, { token: customerToken });
+    expect(fetched.status).toBe(200);
+    expect(fetched.body.id).toBe(created.body.id);
+
+    const listed = await request(fixture.storage, 'GET', '/api/orders', { token: customerToken });
+    expect(listed.body.map((order: { id: string }) => order.id)).toEqual([created.body.id]);
+  });
+
+  it('rejects invalid bodies with a validation error', async () => {
+    const { status, body } = await request(fixture.storage, 'POST', '/api/orders', {
+      token: customerToken,
+      body: { inputData: {} },
+    });
+    expect(status).toBe(400);
+    expect(body.error.code).toBe('VALIDATION_ERROR');
+  });
+
+  it('keeps admin routes from customers', async () => {
+    const path = `/api/wallets/${fixture.wallet.id}/credit`;
+
+    expect((await request(fixture.storage, 'POST', path, { token: customerToken, body: { amount: 500 } })).status).toBe(403);
+    expect((await request(fixture.storage, 'POST', path, { token: adminToken, body: { amount: 500 } })).status).toBe(201);
+  });
+
+  it('answers 404 for unknown resources', async () => {
+    const { status, body } = await request(fixture.storage, 'GET', '/api/orders/missing', { token: adminToken });
+    expect(status).toBe(404);
+    expect(body.error.code).toBe('NOT_FOUND');
+  });
+});
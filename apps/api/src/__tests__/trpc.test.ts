@@ -0,0 +1,56 @@
+import { describe, it, expect, beforeEach, afterEach, vi } from 'vitest';
+import { TRPC_CONTRACT_VERSION_HEADER } from '@edge/trpc-contracts';
+import { login, request, seedOrderFixture, stubProvider, type OrderFixture } from './fixtures';
+
+describe('tRPC endpoint', () => {
+  let fixture: OrderFixture;
+  let token: string;
+
+  const query = (path: string, input?: unknown, headers?: Record<string, string>) => request(
+    fixture.storage,
+    'GET',
+    `/api/trpc/${path}${input === undefined ? '' : `?input=${encodeURIComponent(JSON.stringify(input))}`}`,
+    { token, headers }
+  );
+
+  beforeEach(async () => {
+    fixture = await seedOrderFixture();
+    token = await login(fixture.storage, fixture.customer);
+    stubProvider(() => ({ id: 'P-1', status: 'completed' }));
+  });
+
+  afterEach(() => {
+    vi.unstubAllGlobals();
+  });
+
+  it('places and lists orders through the contract', async () => {
+    const created = await request(fixture.storage, 'POST', '/api/trpc/orders.create', {
+      token,
+      body: { serviceId: fixture.service.id, inputData: { imei: '123456789012345' } },
+    });
+    expect(created.status).toBe(200);
+    expect(created.body.result.data.status).toBe('delivered');
+
+    const listed = await query('orders.list');
+    expect(listed.body.result.data.map((order: { id: string }) => order.id)).toEqual([created.body.result.data.id]);
+  });
+
+  it('rejects unauthenticated callers', async () => {
+    token = '';
+    const { status, body } = await query('orders.list');
+    expect(status).toBe(401);
+    expect(body.error.data.code).toBe('UNAUTHORIZED');
+  });
+
+  it('maps domain errors to tRPC codes', async () => {
+    const { status, body } = await query('orders.get', { id: 'missing' });
+    expect(status).toBe(404);
+    expect(body.error.data.code).toBe('NOT_FOUND');
+  });
+
+  it('refuses clients built against an incompatible contract', async () => {
+    const { status, body } = await query('orders.list', undefined, { [TRPC_CONTRACT_VERSION_HEADER]: '99.0.0' });
+    expect(status).toBe(412);
+    expect(body.error.data.code).toBe('PRECONDITION_FAILED');
+  });
+});
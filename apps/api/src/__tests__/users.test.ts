@@ -0,0 +1,66 @@
+import { describe, it, expect, beforeEach } from 'vitest';
+import type { Tenant } from '../../../../shared/schema';
+import { login, request, seedOrderFixture, type OrderFixture } from './fixtures';
+
+describe('User and tenant routes', () => {
+  let fixture: OrderFixture;
+  let otherTenant: Tenant;
+  let adminToken: string;
+
+  const newUser = { email: 'new@example.com', role: 'reseller', password: 'new-password' };
+
+  beforeEach(async () => {
+    fixture = await seedOrderFixture();
+    otherTenant = await fixture.storage.createTenant({ name: 'Other', slug: 'other' });
+    await fixture.storage.createUser({ tenantId: otherTenant.id, email: 'other@example.com', role: 'admin', passwordHash: 'x' });
+    adminToken = await login(fixture.storage, fixture.admin);
+  });
+
+  it('creates users in the admin\'s tenant with a hashed password', async () => {
+    const { status, body } = await request(fixture.storage, 'POST', '/api/users', {
+      token: adminToken,
+      body: { ...newUser, tenantId: otherTenant.id },
+    });
+
+    expect(status).toBe(201);
+    expect(body).toMatchObject({ email: newUser.email, role: 'reseller', tenantId: fixture.tenant.id });
+    expect(body.passwordHash).toBeUndefined();
+    const loggedIn = await request(fixture.storage, 'POST', '/api/auth/login', {
+      body: { email: newUser.email, password: newUser.password },
+    });
+    expect(loggedIn.status).toBe(200);
+  });
+
+  it('refuses anonymous callers, non-admins and super_admin requested by an admin', async () => {
+    const customerToken = await login(fixture.storage, fixture.customer);
+
+    expect((await request(fixture.storage, 'POST', '/api/users', { body: newUser })).status).toBe(401);
+    expect((await request(fixture.storage, 'POST', '/api/users', { token: customerToken, body: newUser })).status).toBe(403);
+    expect((await request(fixture.storage, 'POST', '/api/users', {
+      token: adminToken,
+      body: { ...newUser, role: 'super_admin' },
+    })).status).toBe(403);
+    expect(await fixture.storage.getUserByEmail(newUser.email)).toBeUndefined();
+  });
+
+  it('lists the users of the admin\'s tenant without password hashes', async () => {
+    const { status, body } = await request(fixture.storage, 'GET', '/api/users', { token: adminToken });
+
+    expect(status).toBe(200);
+    expect(body.map((user: { email: string }) => user.email).sort()).toEqual(['admin@example.com', 'customer@example.com']);
+    expect(body.every((user: { passwordHash?: string }) => user.passwordHash === undefined)).toBe(true);
+    expect((await request(fixture.storage, 'GET', '/api/users')).status).toBe(401);
+  });
+
+  it('shows tenant admins only their own tenant and leaves creating tenants to super admins', async () => {
+    const list = await request(fixture.storage, 'GET', '/api/tenants', { token: adminToken });
+    expect(list.body.map((tenant: { id: string }) => tenant.id)).toEqual([fixture.tenant.id]);
+
+    expect((await request(fixture.storage, 'GET', `/api/tenants/${otherTenant.id}`, { token: adminToken })).status).toBe(404);
+    expect((await request(fixture.storage, 'GET', `/api/tenants/${fixture.tenant.id}`, { token: adminToken })).status).toBe(200);
+    expect((await request(fixture.storage, 'POST', '/api/tenants', {
+      token: adminToken,
+      body: { name: 'Mine', slug: 'mine' },
+    })).status).toBe(403);
+  });
+});
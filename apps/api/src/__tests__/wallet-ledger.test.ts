@@ -0,0 +1,92 @@
+import { describe, it, expect, beforeEach, afterEach, vi } from 'vitest';
+import { WalletLedger } from '@edge/core/services/wallet-ledger';
+import { WalletManager } from '@edge/core/services/wallet-manager';
+import { fund, seedOrderFixture, type OrderFixture } from './fixtures';
+
+describe('WalletLedger', () => {
+  let fixture: OrderFixture;
+
+  const lock = (ledger: WalletLedger, amount: number) =>
+    ledger.append(fixture.tenant.id, fixture.wallet.id, async ({ balance }) => [
+      await WalletManager.lock({
+        tenantId: fixture.tenant.id,
+        walletId: fixture.wallet.id,
+        type: 'lock',
+        amount,
+        currency: 'USD',
+        referenceType: 'order',
+        createdBy: fixture.customer.id,
+      }, balance),
+    ]);
+
+  beforeEach(async () => {
+    fixture = await seedOrderFixture({ balance: 1000 });
+  });
+
+  afterEach(() => {
+    vi.restoreAllMocks();
+  });
+
+  it('gives each transaction the next sequence of its wallet', async () => {
+    await fund(fixture.storage, fixture.wallet, fixture.admin, 500);
+
+    const ledger = await fixture.storage.getWalletTransactions(fixture.tenant.id, fixture.wallet.id);
+
+    expect(ledger.map(transaction => transaction.sequence)).toEqual([1, 2]);
+  });
+
+  it('lets only one of two concurrent locks spend the same balance', async () => {
+    const ledger = new WalletLedger(fixture.storage);
+
+    const results = await Promise.allSettled([lock(ledger, 800), lock(ledger, 800)]);
+
+    expect(results.map(result => result.status).sort()).toEqual(['fulfilled', 'rejected']);
+    const refused = results.find((result): result is PromiseRejectedResult => result.status === 'rejected')!;
+    expect(refused.reason).toMatchObject({ code: 'INSUFFICIENT_BALANCE' });
+    expect(await ledger.getBalance(fixture.tenant.id, fixture.wallet.id)).toMatchObject({ available: 200, locked: 800 });
+  });
+
+  it('gives up on a wallet that keeps changing', async () => {
+    const append = vi.spyOn(fixture.storage, 'appendWalletTransactions').mockResolvedValue(undefined);
+
+    await expect(lock(new WalletLedger(fixture.storage, { maxAttempts: 3 }), 100))
+      .rejects.toMatchObject({ code: 'WALLET_BUSY' });
+    expect(append).toHaveBeenCalledTimes(3);
+  });
+
+  it('reads balances from checkpoints and reconciles them with the full ledger', async () => {
+    const ledger = new WalletLedger(fixture.storage, { checkpointInterval: 2 });
+    for (const amount of [100, 200, 300]) {
+      await lock(ledger, amount);
+    }
+
+    const checkpoints = await fixture.storage.getWalletCheckpoints(fixture.tenant.id, fixture.wallet.id);
+    expect(checkpoints.map(checkpoint => [checkpoint.sequence, checkpoint.available, checkpoint.locked]))
+      .toEqual([[2, 900, 100], [4, 400, 600]]);
+    expect(await ledger.getBalance(fixture.tenant.id, fixture.wallet.id)).toMatchObject({ available: 400, locked: 600 });
+    expect(await ledger.reconcile(fixture.tenant.id, fixture.wallet.id)).toMatchObject({ sequence: 4, balanced: true });
+  });
+
+  it('reports checkpoints that disagree with the ledger', async () => {
+    const ledger = new WalletLedger(fixture.storage);
+    await lock(ledger, 100);
+    await fixture.storage.createWalletCheckpoint({
+      tenantId: fixture.tenant.id,
+      walletId: fixture.wallet.id,
+      sequence: 2,
+      available: 950,
+      locked: 50,
+      currency: 'USD',
+      createdAt: new Date().toISOString(),
+    });
+
+    const reconciliation = await ledger.reconcile(fixture.tenant.id, fixture.wallet.id);
+
+    expect(reconciliation).toMatchObject({
+      balanced: false,
+      balance: { available: 900, locked: 100 },
+      checkpointBalance: { available: 950, locked: 50 },
+      mismatches: [{ sequence: 2, recorded: { available: 950, locked: 50 }, calculated: { available: 900, locked: 100 } }],
+    });
+  });
+});
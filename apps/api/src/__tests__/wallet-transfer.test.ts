@@ -0,0 +1,80 @@
+import { describe, it, expect, beforeEach } from 'vitest';
+import type { IStorage } from '../../../../server/storage';
+import type { Tenant, User, Wallet } from '../../../../shared/schema';
+import type { RoleType } from '@edge/core/policies/access';
+import { WalletLedger } from '@edge/core/services/wallet-ledger';
+import { WalletTransfers } from '@edge/core/services/wallet-transfer';
+import { createTestStorage } from '../../../../server/__tests__/helpers';
+import { fund } from './fixtures';
+
+// A user whose role is known to be one of the policy roles
+type Member = User & { role: RoleType };
+
+describe('WalletTransfers', () => {
+  let storage: IStorage;
+  let tenant: Tenant;
+  let admin: Member;
+  let reseller: Member;
+  let subUser: Member;
+  let stranger: Member;
+  let wallets: Record<string, Wallet>;
+
+  const addUser = async (email: string, role: RoleType, parentUserId?: string): Promise<Member> => {
+    const user = await storage.createUser({ tenantId: tenant.id, email, role, parentUserId, passwordHash: 'x' });
+    wallets[user.id] = await storage.createWallet({ tenantId: tenant.id, userId: user.id, currency: 'USD' });
+    return { ...user, role };
+  };
+  const transfer = (from: Member, to: User, amount: number) => new WalletTransfers(storage)
+    .transfer(tenant.id, from.id, from.role, { toUserId: to.id, amount, currency: 'usd' });
+  const available = async (user: User) =>
+    (await new WalletLedger(storage).getBalance(tenant.id, wallets[user.id].id)).available;
+
+  beforeEach(async () => {
+    ({ storage } = await createTestStorage());
+    wallets = {};
+    tenant = await storage.createTenant({ name: 'Tenant', slug: 'tenant' });
+    admin = await addUser('admin@example.com', 'admin');
+    reseller = await addUser('reseller@example.com', 'reseller');
+    subUser = await addUser('sub@example.com', 'customer', reseller.id);
+    stranger = await addUser('stranger@example.com', 'customer');
+    await fund(storage, wallets[reseller.id], admin, 300_000);
+  });
+
+  it('moves credit to a sub-user as a debit and credit sharing a reference', async () => {
+    const result = await transfer(reseller, subUser, 5_000);
+
+    expect(result.debit).toMatchObject({ type: 'debit', referenceType: 'transfer', referenceId: result.reference });
+    expect(result.credit).toMatchObject({ type: 'credit', referenceType: 'transfer', referenceId: result.reference });
+    expect(await available(reseller)).toBe(295_000);
+    expect(await available(subUser)).toBe(5_000);
+    const [event] = await storage.getPendingOutboxEvents(new Date().toISOString(), 10, tenant.id);
+    expect(event).toMatchObject({ type: 'wallet.transfer' });
+  });
+
+  it('refuses users the sender does not manage', async () => {
+    await expect(transfer(reseller, stranger, 5_000)).rejects.toMatchObject({ name: 'AccessDeniedError' });
+    await expect(transfer(subUser, reseller, 1)).rejects.toMatchObject({ name: 'AccessDeniedError' });
+    expect(await available(stranger)).toBe(0);
+  });
+
+  it('applies the role daily limit across transfers', async () => {
+    await transfer(reseller, subUser, 200_000);
+
+    await expect(transfer(reseller, subUser, 60_000)).rejects.toMatchObject({ code: 'TRANSFER_LIMIT_EXCEEDED' });
+    expect(await available(subUser)).toBe(200_000);
+  });
+
+  it('takes limits from the tenant config', async () => {
+    await storage.updateTenant(tenant.id, { config: { transferLimits: { reseller: 1_000 } } });
+
+    await expect(transfer(reseller, subUser, 1_001)).rejects.toMatchObject({ code: 'TRANSFER_LIMIT_EXCEEDED' });
+    await expect(transfer(reseller, subUser, 1_000)).resolves.toMatchObject({ credit: { amount: 1_000 } });
+  });
+
+  it('writes neither side when the sender cannot cover the amount', async () => {
+    await fund(storage, wallets[admin.id], admin, 100);
+
+    await expect(transfer(admin, subUser, 500)).rejects.toMatchObject({ code: 'INSUFFICIENT_BALANCE' });
+    expect(await storage.getWalletTransactions(tenant.id, wallets[subUser.id].id)).toEqual([]);
+  });
+});
@@ -0,0 +1,106 @@
+import { describe, it, expect, beforeEach, afterEach, vi } from 'vitest';
+import type { IStorage } from '../../../../server/storage';
+import type { Tenant, User, Webhook } from '../../../../shared/schema';
+import { WEBHOOK_DISABLE_AFTER_FAILURES, WEBHOOK_MAX_ATTEMPTS, WebhookDispatcher } from '@edge/core/services/webhook-dispatcher';
+import { verifyWebhookSignature } from '@edge/core/services/webhook-signature';
+import { createTestStorage } from '../../../../server/__tests__/helpers';
+
+describe('WebhookDispatcher', () => {
+  let storage: IStorage;
+  let tenant: Tenant;
+  let user: User;
+  let webhook: Webhook;
+  let dispatcher: WebhookDispatcher;
+
+  const stubReceiver = (status: number) => {
+    const receiver = vi.fn(async (_url: string, _init?: RequestInit) => {
+      await new Promise(resolve => setTimeout(resolve, 5));
+      return new Response('ok', { status });
+    });
+    vi.stubGlobal('fetch', receiver);
+    return receiver;
+  };
+
+  beforeEach(async () => {
+    ({ storage } = await createTestStorage());
+    tenant = await storage.createTenant({ name: 'Tenant', slug: 'tenant' });
+    user = await storage.createUser({ tenantId: tenant.id, email: 'owner@example.com', passwordHash: 'x' });
+    webhook = await storage.createWebhook({
+      tenantId: tenant.id,
+      userId: user.id,
+      url: 'https://receiver.test/hook',
+      events: ['order.completed'],
+      secret: 'secret',
+      requiresApproval: false,
+    });
+    dispatcher = new WebhookDispatcher(storage);
+  });
+
+  afterEach(() => {
+    vi.unstubAllGlobals();
+  });
+
+  it('sends a signed delivery and records its success', async () => {
+    const receiver = stubReceiver(200);
+
+    const [delivery] = await dispatcher.dispatch(tenant.id, 'order.completed', { id: 'o-1' });
+
+    expect(delivery).toMatchObject({ status: 'succeeded', attempts: 1, nextRetryAt: null });
+    const init = receiver.mock.calls[0][1]!;
+    const headers = init.headers as Record<string, string>;
+    expect((await verifyWebhookSignature(String(init.body), headers['X-Webhook-Signature'], 'secret')).valid).toBe(true);
+  });
+
+  it('schedules a retry after a failed attempt and gives up after the last one', async () => {
+    stubReceiver(500);
+
+    let [delivery] = await dispatcher.dispatch(tenant.id, 'order.completed', { id: 'o-1' });
+    expect(delivery.status).toBe('pending');
+    expect(new Date(delivery.nextRetryAt!).getTime()).toBeGreaterThan(Date.now());
+
+    for (let attempt = 2; attempt <= WEBHOOK_MAX_ATTEMPTS; attempt++) {
+      [delivery] = await dispatcher.processDue({ now: new Date(Date.now() + 24 * 60 * 60 * 1000) });
+    }
+    expect(delivery).toMatchObject({ status: 'failed', attempts: WEBHOOK_MAX_ATTEMPTS, nextRetryAt: null });
+  });
+
+  it('sends a due delivery once when processors run concurrently', async () => {
+    const receiver = stubReceiver(200);
+    await dispatcher.enqueue(tenant.id, 'order.completed', { id: 'o-1' });
+
+    await Promise.all([
+      dispatcher.processDue(),
+      new WebhookDispatcher(storage).processDue(),
+    ]);
+
+    expect(receiver).toHaveBeenCalledTimes(1);
+    const [delivery] = await storage.getWebhookDeliveries(tenant.id);
+    expect(delivery).toMatchObject({ status: 'succeeded', attempts: 1 });
+  });
+
+  it('counts concurrent failures and disables the webhook at the threshold', async () => {
+    stubReceiver(500);
+    await storage.updateWebhook(tenant.id, webhook.id, { consecutiveFailures: WEBHOOK_DISABLE_AFTER_FAILURES - 2 });
+
+    await Promise.all([
+      dispatcher.dispatch(tenant.id, 'order.completed', { id: 'o-1' }),
+      dispatcher.dispatch(tenant.id, 'order.completed', { id: 'o-2' }),
+    ]);
+
+    expect(await storage.getWebhook(tenant.id, webhook.id)).toMatchObject({
+      consecutiveFailures: WEBHOOK_DISABLE_AFTER_FAILURES,
+      isActive: false,
+    });
+  });
+
+  it('only queues deliveries for subscribed events', async () => {
+    expect(await dispatcher.enqueue(tenant.id, 'order.failed', { id: 'o-1' })).toEqual([]);
+  });
+
+  it('backs off exponentially with jitter, capped at six hours', () => {
+    expect(WebhookDispatcher.getRetryDelay(1, () => 0)).toBe(15_000);
+    expect(WebhookDispatcher.getRetryDelay(1, () => 1)).toBe(30_000);
+    expect(WebhookDispatcher.getRetryDelay(3, () => 1)).toBe(120_000);
+    expect(WebhookDispatcher.getRetryDelay(30, () => 1)).toBe(6 * 60 * 60 * 1000);
+  });
+});
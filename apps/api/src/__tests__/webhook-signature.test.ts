@@ -0,0 +1,59 @@
+import { describe, it, expect } from 'vitest';
+import type { Webhook } from '../../../../shared/schema';
+import { WebhookManager } from '@edge/core/services/webhook-manager';
+import { parseWebhookSignature, signWebhookPayload, verifyWebhookSignature } from '@edge/core/services/webhook-signature';
+
+describe('webhook signatures', () => {
+  const payload = JSON.stringify({ type: 'order.completed', data: { id: 'o-1' } });
+  const now = 1_700_000_000;
+
+  it('signs `<timestamp>.<payload>` and verifies within the tolerance window', async () => {
+    const header = await signWebhookPayload(payload, 'secret', now);
+
+    expect(header).toMatch(/^t=1700000000,v1=[0-9a-f]{64}$/);
+    expect(await verifyWebhookSignature(payload, header, 'secret', { now: now * 1000 })).toEqual({ valid: true });
+  });
+
+  it('rejects tampered payloads and wrong secrets', async () => {
+    const header = await signWebhookPayload(payload, 'secret', now);
+
+    expect((await verifyWebhookSignature(`${payload} `, header, 'secret', { now: now * 1000 })).valid).toBe(false);
+    expect((await verifyWebhookSignature(payload, header, 'other', { now: now * 1000 })).valid).toBe(false);
+  });
+
+  it('rejects replays outside the tolerance window', async () => {
+    const header = await signWebhookPayload(payload, 'secret', now);
+
+    const late = await verifyWebhookSignature(payload, header, 'secret', { now: (now + 301) * 1000 });
+    expect(late).toEqual({ valid: false, error: 'Signature timestamp is outside the tolerance window' });
+    expect((await verifyWebhookSignature(payload, header, 'secret', { now: (now + 301) * 1000, toleranceSeconds: 600 })).valid)
+      .toBe(true);
+  });
+
+  it('rejects missing and malformed headers', async () => {
+    expect((await verifyWebhookSignature(payload, undefined, 'secret')).valid).toBe(false);
+    expect(parseWebhookSignature('v1=abc')).toBeNull();
+    expect(parseWebhookSignature('t=abc,v1=abc')).toBeNull();
+    expect(parseWebhookSignature('t=1,v0=abc,v1=def')).toEqual({ timestamp: 1, signatures: ['def'] });
+  });
+
+  it('signs with both secrets during a rotation so either side verifies', async () => {
+    const webhook = { secret: 'old-secret', previousSecret: null, previousSecretExpiresAt: null } as Webhook;
+    const rotated = { ...webhook, ...WebhookManager.rotateSecret(webhook, 3600) } as Webhook;
+
+    const secrets = WebhookManager.getSigningSecrets(rotated);
+    expect(secrets).toEqual([rotated.secret, 'old-secret']);
+
+    const header = await WebhookManager.generateSignature(payload, secrets, now);
+    expect((await verifyWebhookSignature(payload, header, 'old-secret', { now: now * 1000 })).valid).toBe(true);
+    expect((await verifyWebhookSignature(payload, header, rotated.secret, { now: now * 1000 })).valid).toBe(true);
+  });
+
+  it('drops the previous secret once its grace period is over', () => {
+    const webhook = { secret: 'old-secret', previousSecret: null, previousSecretExpiresAt: null } as Webhook;
+    const rotated = { ...webhook, ...WebhookManager.rotateSecret(webhook, 60) } as Webhook;
+
+    expect(WebhookManager.getSigningSecrets(rotated, new Date(Date.now() + 61_000))).toEqual([rotated.secret]);
+    expect(WebhookManager.rotateSecret(webhook, 0).previousSecret).toBeNull();
+  });
+});
@@ -0,0 +1,74 @@
+// Request Authentication
+// Resolves the caller from a JWT access token and populates the Hono context
+// read by createTenantIsolationMiddleware and requireRole
+
+import type { Context, MiddlewareHandler } from 'hono';
+import { getCookie } from 'hono/cookie';
+import { AuthError, AuthManager } from '@edge/core/services/auth-manager';
+import { HttpError, toErrorResponse } from './http.ts';
+import type { HonoEnv } from './types.ts';
+
+export const ACCESS_TOKEN_COOKIE = 'access_token';
+export const REFRESH_TOKEN_COOKIE = 'refresh_token';
+
+/**
+ * Signing secret for access tokens
+ * @throws HttpError 503 when the runtime has no JWT_SECRET binding
+ */
+export function getJwtSecret(c: Context<HonoEnv>): string {
+  const secret = c.env?.JWT_SECRET;
+  if (!secret) {
+    throw new HttpError(503, 'AUTH_NOT_CONFIGURED', 'Authentication is not configured for this runtime');
+  }
+  return secret;
+}
+
+/**
+ * Access token from `Authorization: Bearer` or the session cookie.
+ * Bearer values that are not JWTs are left for API key authentication.
+ */
+export function getAccessToken(c: Context<HonoEnv>): string | undefined {
+  const header = c.req.header('Authorization');
+  if (header) {
+    const [scheme, token] = header.split(' ');
+    if (scheme?.toLowerCase() === 'bearer' && token && AuthManager.isJwt(token)) {
+      return token;
+    }
+    return undefined;
+  }
+
+  return getCookie(c, ACCESS_TOKEN_COOKIE);
+}
+
+/**
+ * Verify the access token, if any, and set tenantId/userId/userRole/sessionId.
+ * Requests without a token continue anonymously; invalid tokens are rejected.
+ */
+export function createAuthMiddleware(): MiddlewareHandler<HonoEnv> {
+  return async (c, next) => {
+    const token = getAccessToken(c);
+    if (!token) {
+      return next();
+    }
+
+    try {
+      const claims = await AuthManager.verifyAccessToken(token, getJwtSecret(c));
+
+      // Logged-out sessions stop accepting their outstanding access tokens
+      const storage = c.env?.storage;
+      if (storage && !AuthManager.isSessionActive(await storage.getSession(claims.sid))) {
+        throw new AuthError('Session is no longer active', 'SESSION_REVOKED');
+      }
+
+      c.set('tenantId', claims.tid);
+      c.set('userId', claims.sub);
+      c.set('userRole', claims.role);
+      c.set('sessionId', claims.sid);
+    } catch (error) {
+      const { status, body } = toErrorResponse(error);
+      return c.json(body, status);
+    }
+
+    await next();
+  };
+}
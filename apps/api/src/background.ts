@@ -0,0 +1,18 @@
+// Background Work
+// Work that outlives the response, kept alive by the runtime adapter's waitUntil
+
+import type { Context } from 'hono';
+import type { HonoEnv } from './types.ts';
+
+/**
+ * Run a task after the response is sent
+ * Without a runtime adapter the task is detached; errors are logged either way
+ */
+export function runInBackground(c: Context<HonoEnv>, label: string, task: () => Promise<unknown>): void {
+  const promise = task().then(
+    () => undefined,
+    (error) => console.error(`[Background] ${label} failed:`, error)
+  );
+
+  c.env?.runtime?.waitUntil(promise);
+}
@@ -0,0 +1,19 @@
+// Domain Events
+// The app's event bus and the subscribers that react to recorded events
+
+import { EventBus } from '@edge/core/services/event-bus';
+import {
+  createAuditSubscriber,
+  createNotificationSubscriber,
+  createWebhookSubscriber,
+} from '@edge/core/services/event-subscribers';
+
+/**
+ * Shared bus; handlers run when the outbox is processed, never inside the request's transaction
+ * Notification channels (email, SMS, ...) are registered here as they are added.
+ * Names are recorded on outbox rows; renaming one reruns it for events still pending.
+ */
+export const eventBus = new EventBus()
+  .subscribe('*', 'audit', createAuditSubscriber())
+  .subscribe('*', 'webhooks', createWebhookSubscriber())
+  .subscribe('*', 'notifications', createNotificationSubscriber([]));
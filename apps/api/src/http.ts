@@ -0,0 +1,186 @@
+// HTTP helpers shared by the route modules
+// Error envelope, storage lookup and request actor resolution
+
+import type { Context } from 'hono';
+import { ZodError, type ZodTypeAny, type z } from 'zod';
+import { AccessDeniedError, TenantIsolationError, requireRole } from '@edge/core/middleware';
+import type { RoleType } from '@edge/core/policies/access';
+import { AuthError } from '@edge/core/services/auth-manager';
+import type { BlobStore } from '@edge/core/types';
+import type { IStorage } from '../../../server/storage';
+import type { HonoEnv } from './types.ts';
+
+export const ALL_ROLES: RoleType[] = ['super_admin', 'admin', 'distributor', 'reseller', 'web_owner', 'customer'];
+
+/**
+ * Error carrying an HTTP status and a machine-readable code
+ */
+export class HttpError extends Error {
+  constructor(
+    public status: 400 | 401 | 402 | 403 | 404 | 409 | 422 | 500 | 501 | 502 | 503,
+    public code: string,
+    message: string,
+    public details?: unknown
+  ) {
+    super(message);
+    this.name = 'HttpError';
+  }
+}
+
+// Domain error codes that describe a conflict with the resource's current state
+const CONFLICT_CODES = new Set([
+  'INVALID_STATUS',
+  'INVALID_TRANSITION',
+  'ALREADY_APPROVED',
+  'ALREADY_APPLIED',
+  'CANNOT_CANCEL',
+  'NO_APPROVAL_REQUIRED',
+  'ALREADY_EXISTS',
+  'ALREADY_DELIVERED',
+  'DELIVERY_IN_PROGRESS',
+  'STATE_IN_USE',
+  'WALLET_BUSY',
+  'COMMISSION_SPENT',
+]);
+
+// Domain error codes for an upstream supplier that failed or refused the request
+const BAD_GATEWAY_CODES = new Set(['PROVIDER_ERROR']);
+
+// Authentication failures where the caller is known but not allowed in
+const FORBIDDEN_AUTH_CODES = new Set(['ACCOUNT_DISABLED', 'TENANT_SUSPENDED']);
+
+/**
+ * Map any thrown error to the `{ error: { code, message } }` envelope
+ */
+export function toErrorResponse(err: unknown): { status: HttpError['status']; body: { error: { code: string; message: string; details?: unknown } } } {
+  if (err instanceof HttpError) {
+    return {
+      status: err.status,
+      body: { error: { code: err.code, message: err.message, details: err.details } },
+    };
+  }
+
+  if (err instanceof ZodError) {
+    return {
+      status: 400,
+      body: {
+        error: {
+          code: 'VALIDATION_ERROR',
+          message: err.errors[0]?.message || 'Invalid request',
+          details: err.flatten(),
+        },
+      },
+    };
+  }
+
+  if (err instanceof AuthError) {
+    return {
+      status: FORBIDDEN_AUTH_CODES.has(err.code) ? 403 : 401,
+      body: { error: { code: err.code, message: err.message } },
+    };
+  }
+
+  if (err instanceof AccessDeniedError || err instanceof TenantIsolationError) {
+    return { status: 403, body: { error: { code: 'ACCESS_DENIED', message: err.message } } };
+  }
+
+  // Core domain errors (WalletError, InvoiceError, WebhookError, ...) carry a code
+  const code = (err as { code?: unknown })?.code;
+  if (err instanceof Error && typeof code === 'string') {
+    return {
+      status: CONFLICT_CODES.has(code) ? 409 : BAD_GATEWAY_CODES.has(code) ? 502 : 400,
+      body: { error: { code, message: err.message } },
+    };
+  }
+
+  return {
+    status: 500,
+    body: {
+      error: {
+        code: 'INTERNAL_ERROR',
+        message: (err as Error)?.message || 'Internal server error',
+      },
+    },
+  };
+}
+
+/**
+ * Strip the `/api` prefix from a contract path so it can be mounted under the app's basePath
+ */
+export function route(path: string): string {
+  return path.replace(/^\/api/, '') || '/';
+}
+
+/**
+ * Storage injected by the runtime adapter
+ * @throws HttpError 503 when the runtime has no storage binding
+ */
+export function getStorage(c: Context<HonoEnv>): IStorage {
+  const storage = c.env?.storage;
+  if (!storage) {
+    throw new HttpError(503, 'STORAGE_UNAVAILABLE', 'Storage is not configured for this runtime');
+  }
+  return storage;
+}
+
+/**
+ * Blob store injected by the runtime adapter
+ * @throws HttpError 503 when the runtime has no blob storage
+ */
+export function getBlobStore(c: Context<HonoEnv>): BlobStore {
+  const blobs = c.env?.blobs;
+  if (!blobs) {
+    throw new HttpError(503, 'BLOB_STORE_UNAVAILABLE', 'Blob storage is not configured for this runtime');
+  }
+  return blobs;
+}
+
+export interface Actor {
+  tenantId: string;
+  userId: string;
+  userRole: RoleType;
+}
+
+/**
+ * Authenticated caller for the current request
+ * @throws HttpError 401 when no user has been resolved
+ */
+export function getActor(c: Context<HonoEnv>): Actor {
+  const userId = c.get('userId');
+  const userRole = c.get('userRole');
+
+  if (!userId || !userRole) {
+    throw new HttpError(401, 'UNAUTHORIZED', 'Authentication required');
+  }
+
+  return { tenantId: c.get('tenantId'), userId, userRole };
+}
+
+export function isAdmin(role: RoleType): boolean {
+  return role === 'super_admin' || role === 'admin';
+}
+
+/**
+ * Parse a JSON body against a contract input schema
+ */
+export async function parseBody<T extends ZodTypeAny>(c: Context<HonoEnv>, schema: T): Promise<z.infer<T>> {
+  const body = await c.req.json().catch(() => {
+    throw new HttpError(400, 'INVALID_JSON', 'Request body must be valid JSON');
+  });
+  return schema.parse(body);
+}
+
+/**
+ * Throw a 404 when a tenant-scoped lookup came back empty
+ */
+export function found<T>(value: T | undefined, resource: string): T {
+  if (value === undefined || value === null) {
+    throw new HttpError(404, 'NOT_FOUND', `${resource} not found`);
+  }
+  return value;
+}
+
+/**
+ * Middleware requiring any authenticated role
+ */
+export const authenticated = requireRole(...ALL_ROLES);
@@ -3,7 +3,29 @@
 // Can run on: Cloudflare Workers, Vercel Edge, Deno Deploy, Node.js
 
 import { Hono } from 'hono';
+import { fetchRequestHandler } from '@trpc/server/adapters/fetch';
+import { appRouter, TRPC_CONTRACT_VERSION_HEADER, type TrpcContext } from '@edge/trpc-contracts';
+import { createTenantIsolationMiddleware } from '@edge/core/middleware';
+import { createApiKeyMiddleware, createDomainValidationMiddleware } from '@edge/core/services/api-key-manager';
 import type { AppEnv } from './types.ts';
+import { toErrorResponse } from './http.ts';
+import { createAuthMiddleware } from './auth.ts';
+import { runInBackground } from './background.ts';
+import { eventBus } from './events.ts';
+import { authRoutes } from './routes/auth.ts';
+import { tenantRoutes } from './routes/tenants.ts';
+import { userRoutes } from './routes/users.ts';
+import { catalogRoutes } from './routes/catalog.ts';
+import { providerRoutes } from './routes/providers.ts';
+import { orderRoutes } from './routes/orders.ts';
+import { orderStateMachineRoutes } from './routes/order-state-machine.ts';
+import { walletRoutes } from './routes/wallets.ts';
+import { journalRoutes } from './routes/journal.ts';
+import { commissionRoutes } from './routes/commissions.ts';
+import { exchangeRateRoutes } from './routes/exchange-rates.ts';
+import { invoiceRoutes } from './routes/invoices.ts';
+import { paymentMethodRoutes } from './routes/payment-methods.ts';
+import { webhookRoutes } from './routes/webhooks.ts';
 
 const app = new Hono<{ Bindings: AppEnv }>().basePath('/api');
 
@@ -17,13 +39,45 @@ app.use('*', async (c, next) => {
   console.log(`[Hono] ${c.req.method} ${c.req.path} - ${c.res.status} (${ms}ms)`);
 });
 
+// Caller identity from the access token (sets tenantId, userId, userRole)
+app.use('*', createAuthMiddleware());
+
+// API keys (`X-API-Key` or a non-JWT bearer) for server-to-server callers
+app.use('*', createApiKeyMiddleware());
+app.use('*', createDomainValidationMiddleware());
+
 // Tenant context injection (multi-tenancy)
+// Authenticated callers are pinned to the tenant in their token
 app.use('*', async (c, next) => {
-  const tenantId = c.req.header('x-tenant-id') || 'default';
-  (c as any).tenantId = tenantId;
+  const header = c.req.header('x-tenant-id');
+  const authenticatedTenant = c.get('tenantId');
+
+  if (authenticatedTenant) {
+    if (header && header !== authenticatedTenant) {
+      return c.json({ error: { code: 'TENANT_MISMATCH', message: 'Token does not belong to this tenant' } }, 403);
+    }
+  } else {
+    c.set('tenantId', header || 'default');
+  }
+
   await next();
 });
 
+app.use('*', createTenantIsolationMiddleware());
+
+// Domain events recorded by a write are handed to subscribers after the response
+app.use('*', async (c, next) => {
+  await next();
+
+  const storage = c.env?.storage;
+  if (!storage || c.req.method === 'GET' || c.req.method === 'HEAD') {
+    return;
+  }
+
+  const tenantId = c.get('tenantId');
+  runInBackground(c, 'event outbox', () => eventBus.processOutbox(storage, { tenantId }));
+});
+
 // === Health Check ===
 app.get('/health', (c) => {
   return c.json({
@@ -45,22 +99,19 @@ app.get('/hello', (c) => {
 
 // === tRPC Endpoint ===
 // All business logic flows through tRPC for type safety
-app.all('/trpc/*', async (c) => {
-  // Extract path after /api/trpc
-  const path = c.req.path.replace('/api/trpc', '');
-  
-  return new Response(
-    JSON.stringify({
-      error: {
-        code: 'NOT_IMPLEMENTED',
-        message: 'tRPC adapter implementation pending for this runtime',
-      },
+app.all('/trpc/*', (c) => {
+  return fetchRequestHandler({
+    endpoint: '/api/trpc',
+    req: c.req.raw,
+    router: appRouter,
+    createContext: (): TrpcContext => ({
+      tenant: c.get('tenantContext'),
+      userRole: c.get('userRole'),
+      apiKeyScopes: c.get('apiKeyScopes'),
+      clientContractVersion: c.req.header(TRPC_CONTRACT_VERSION_HEADER),
+      storage: c.env?.storage,
     }),
-    {
-      status: 501,
-      headers: { 'content-type': 'application/json' },
-    }
-  );
+  });
 });
 
 // === System Routes ===
@@ -76,18 +127,30 @@ app.get('/status', (c) => {
   });
 });
 
+// === Resource Routes ===
+// Contract paths live in shared/routes.ts
+app.route('/', authRoutes);
+app.route('/', tenantRoutes);
+app.route('/', userRoutes);
+app.route('/', catalogRoutes);
+app.route('/', providerRoutes);
+app.route('/', orderRoutes);
+app.route('/', orderStateMachineRoutes);
+app.route('/', walletRoutes);
+app.route('/', journalRoutes);
+app.route('/', commissionRoutes);
+app.route('/', exchangeRateRoutes);
+app.route('/', invoiceRoutes);
+app.route('/', paymentMethodRoutes);
+app.route('/', webhookRoutes);
+
 // === Error Handler ===
 app.onError((err, c) => {
-  console.error('[Hono Error]', err);
-  return c.json(
-    {
-      error: {
-        code: 'INTERNAL_ERROR',
-        message: err.message || 'Internal server error',
-      },
-    },
-    { status: 500 }
-  );
+  const { status, body } = toErrorResponse(err);
+  if (status >= 500) {
+    console.error('[Hono Error]', err);
+  }
+  return c.json(body, { status });
 });
 
 // === 404 Handler ===
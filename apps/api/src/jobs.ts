@@ -0,0 +1,55 @@
+// Scheduled Jobs
+// Background work run against the storage; the Node server registers it with timers.
+
+import type { IStorage } from '../../../server/storage';
+import type { ScheduledJob, Scheduler } from '@edge/core/types';
+import { PendingOrderSync } from '@edge/core/services/pending-order-sync';
+import { ProviderCatalogManager } from '@edge/core/services/provider-catalog';
+import { eventBus } from './events.ts';
+
+/**
+ * The jobs, run for every active tenant
+ * Per-provider intervals (`config.statusSync`, `config.catalogSync`) decide
+ * which providers a run touches; `intervalMs` only sets how often that is checked.
+ */
+export function createScheduledJobs(storage: IStorage): ScheduledJob[] {
+  return [
+    {
+      name: 'provider-order-sync',
+      intervalMs: 60_000,
+      run: now => forEachTenant(storage, tenantId => new PendingOrderSync(storage).syncDueProviders(tenantId, now)),
+    },
+    {
+      name: 'provider-catalog-sync',
+      intervalMs: 60 * 60_000,
+      run: now => forEachTenant(storage, tenantId => new ProviderCatalogManager(storage).syncDueCatalogs(tenantId, now)),
+    },
+  ];
+}
+
+/**
+ * Register the jobs with the runtime's scheduler
+ */
+export function registerScheduledJobs(scheduler: Scheduler, storage: IStorage): void {
+  for (const job of createScheduledJobs(storage)) {
+    scheduler.schedule(job);
+  }
+}
+
+/**
+ * Run a job for each active tenant, then hand the events it recorded to subscribers
+ * One tenant's failure is logged and does not stop the others.
+ */
+async function forEachTenant(storage: IStorage, run: (tenantId: string) => Promise<unknown>): Promise<void> {
+  for (const tenant of await storage.getTenants()) {
+    if (tenant.status !== 'active') {
+      continue;
+    }
+    try {
+      await run(tenant.id);
+      await eventBus.processOutbox(storage, { tenantId: tenant.id });
+    } catch (error) {
+      console.error(`[Scheduler] tenant ${tenant.id} failed:`, error);
+    }
+  }
+}
@@ -0,0 +1,209 @@
+// Auth Routes
+// Password login, refresh token rotation, logout and the current user
+
+import { Hono, type Context } from 'hono';
+import { deleteCookie, getCookie, setCookie } from 'hono/cookie';
+import { api } from '../../../../shared/routes';
+import type { User } from '../../../../shared/schema';
+import {
+  ACCESS_TOKEN_TTL_SECONDS,
+  REFRESH_TOKEN_TTL_SECONDS,
+  AuthError,
+  AuthManager,
+} from '@edge/core/services/auth-manager';
+import { PasswordHasher } from '@edge/core/services/password-hasher';
+import { UserManager } from '@edge/core/services/user-manager';
+import { AuditLogger } from '@edge/core/services/audit-logger';
+import type { IStorage } from '../../../../server/storage';
+import { ACCESS_TOKEN_COOKIE, REFRESH_TOKEN_COOKIE, getJwtSecret } from '../auth.ts';
+import { authenticated, found, getActor, getStorage, parseBody, route } from '../http.ts';
+import type { HonoEnv } from '../types.ts';
+
+export const authRoutes = new Hono<HonoEnv>();
+
+// The refresh cookie is only sent to the auth endpoints
+const REFRESH_COOKIE_PATH = '/api/auth';
+
+function clientIp(c: Context<HonoEnv>): string | undefined {
+  return c.req.header('cf-connecting-ip') || c.req.header('x-forwarded-for')?.split(',')[0].trim();
+}
+
+/**
+ * Issue an access token and set both tokens as httpOnly cookies for browser clients
+ */
+async function respondWithTokens(
+  c: Context<HonoEnv>,
+  user: { id: string; tenantId: string; role: string },
+  sessionId: string,
+  refreshToken: string
+) {
+  const accessToken = await AuthManager.signAccessToken(user, sessionId, getJwtSecret(c));
+  const secure = new URL(c.req.url).protocol === 'https:';
+
+  setCookie(c, ACCESS_TOKEN_COOKIE, accessToken, {
+    httpOnly: true,
+    secure,
+    sameSite: 'Lax',
+    path: '/api',
+    maxAge: ACCESS_TOKEN_TTL_SECONDS,
+  });
+  setCookie(c, REFRESH_TOKEN_COOKIE, refreshToken, {
+    httpOnly: true,
+    secure,
+    sameSite: 'Strict',
+    path: REFRESH_COOKIE_PATH,
+    maxAge: REFRESH_TOKEN_TTL_SECONDS,
+  });
+
+  return {
+    accessToken,
+    refreshToken,
+    tokenType: 'Bearer' as const,
+    expiresIn: ACCESS_TOKEN_TTL_SECONDS,
+  };
+}
+
+async function recordLoginFailure(storage: IStorage, user: User | undefined, ip: string | undefined, code: string) {
+  if (user?.tenantId) {
+    await storage.createAuditLog(AuditLogger.logAuth(user.tenantId, user.id, 'login_failed', ip, { reason: code }));
+  }
+}
+
+/**
+ * POST /api/auth/login
+ * Body: { email, password }
+ * Sets `access_token` and `refresh_token` httpOnly cookies
+ * 200: { accessToken, refreshToken, tokenType, expiresIn, user }
+ * 401: invalid credentials | 403: account disabled/banned or tenant suspended
+ */
+authRoutes.post(route(api.auth.login.path), async (c) => {
+  const input = await parseBody(c, api.auth.login.input);
+  const storage = getStorage(c);
+  // Fail before touching credentials when token signing is not configured
+  getJwtSecret(c);
+
+  const ip = clientIp(c);
+  const user = await storage.getUserByEmail(input.email);
+  const tenant = user?.tenantId ? await storage.getTenant(user.tenantId) : undefined;
+
+  let verified: User & { tenantId: string };
+  try {
+    verified = await AuthManager.verifyLogin(user, tenant, input.password);
+  } catch (error) {
+    if (error instanceof AuthError) {
+      await recordLoginFailure(storage, user, ip, error.code);
+    }
+    throw error;
+  }
+
+  // Upgrade hashes created with weaker parameters while we have the plaintext
+  if (PasswordHasher.needsRehash(verified.passwordHash)) {
+    await storage.updateUser(verified.id, { passwordHash: await PasswordHasher.hash(input.password) });
+  }
+
+  const sessionId = crypto.randomUUID();
+  const refresh = await AuthManager.issueRefreshToken(sessionId);
+  await storage.createSession({
+    id: sessionId,
+    tenantId: verified.tenantId,
+    userId: verified.id,
+    refreshTokenHash: refresh.hash,
+    userAgent: c.req.header('user-agent'),
+    ipAddress: ip,
+    expiresAt: refresh.expiresAt,
+  });
+  await storage.createAuditLog(
+    AuditLogger.logAuth(verified.tenantId, verified.id, 'login', ip, { sessionId })
+  );
+
+  const tokens = await respondWithTokens(c, verified, sessionId, refresh.token);
+  return c.json({ ...tokens, user: UserManager.toPublicUser(verified) });
+});
+
+/**
+ * POST /api/auth/refresh
+ * Body: { refreshToken? } (falls back to the `refresh_token` cookie)
+ * Rotates the refresh token; presenting a superseded token, or losing a race to
+ * rotate the same one, revokes the session
+ * 200: { accessToken, refreshToken, tokenType, expiresIn } | 401: invalid, expired or revoked
+ */
+authRoutes.post(route(api.auth.refresh.path), async (c) => {
+  const body = await c.req.json().catch(() => ({}));
+  const input = api.auth.refresh.input.parse(body);
+  const storage = getStorage(c);
+  // Fail before touching credentials when token signing is not configured
+  getJwtSecret(c);
+
+  const presented = input.refreshToken ?? getCookie(c, REFRESH_TOKEN_COOKIE);
+  const parsed = presented ? AuthManager.parseRefreshToken(presented) : null;
+  if (!parsed) {
+    throw new AuthError('Refresh token required', 'INVALID_TOKEN');
+  }
+
+  const session = await storage.getSession(parsed.sessionId);
+  if (!session) {
+    throw new AuthError('Invalid refresh token', 'INVALID_TOKEN');
+  }
+
+  try {
+    await AuthManager.verifyRefreshToken(session, parsed.secret);
+  } catch (error) {
+    // A live session presented with an old secret means the token was replayed
+    if (error instanceof AuthError && error.code === 'INVALID_TOKEN' && AuthManager.isSessionActive(session)) {
+      await storage.updateSession(session.id, { revokedAt: new Date().toISOString() });
+    }
+    throw error;
+  }
+
+  // Role or status changes take effect on the next refresh
+  const user = await storage.getUser(session.userId);
+  const login = user ? UserManager.canLogin(user) : { allowed: false, reason: 'User no longer exists' };
+  if (!user || !login.allowed || user.tenantId !== session.tenantId) {
+    await storage.updateSession(session.id, { revokedAt: new Date().toISOString() });
+    throw new AuthError(login.reason ?? 'Session is no longer valid', 'SESSION_REVOKED');
+  }
+
+  // Only one refresh can rotate the token that was read; the loser presented a reused token
+  const refresh = await AuthManager.issueRefreshToken(session.id);
+  const rotated = await storage.rotateSession(session.id, session.refreshTokenHash, {
+    refreshTokenHash: refresh.hash,
+    expiresAt: refresh.expiresAt,
+    lastUsedAt: new Date().toISOString(),
+  });
+  if (!rotated) {
+    await storage.updateSession(session.id, { revokedAt: new Date().toISOString() });
+    throw new AuthError('Invalid refresh token', 'INVALID_TOKEN');
+  }
+
+  return c.json(await respondWithTokens(c, { ...user, tenantId: session.tenantId }, session.id, refresh.token));
+});
+
+/**
+ * POST /api/auth/logout
+ * Revokes the current session and clears the auth cookies
+ * 204: logged out | 401: not authenticated
+ */
+authRoutes.post(route(api.auth.logout.path), authenticated, async (c) => {
+  const { tenantId, userId } = getActor(c);
+  const storage = getStorage(c);
+
+  const sessionId = c.get('sessionId');
+  if (sessionId) {
+    await storage.updateSession(sessionId, { revokedAt: new Date().toISOString() });
+  }
+  await storage.createAuditLog(AuditLogger.logAuth(tenantId, userId, 'logout', clientIp(c)));
+
+  deleteCookie(c, ACCESS_TOKEN_COOKIE, { path: '/api' });
+  deleteCookie(c, REFRESH_TOKEN_COOKIE, { path: REFRESH_COOKIE_PATH });
+  return c.body(null, 204);
+});
+
+/**
+ * GET /api/auth/me
+ * 200: User (without password hash) | 401: not authenticated
+ */
+authRoutes.get(route(api.auth.me.path), authenticated, async (c) => {
+  const { tenantId, userId } = getActor(c);
+  const user = await getStorage(c).getUser(userId);
+  return c.json(UserManager.toPublicUser(found(user?.tenantId === tenantId ? user : undefined, 'User')));
+});
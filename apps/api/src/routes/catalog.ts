@@ -0,0 +1,199 @@
+// Service Catalog Routes
+// Service groups, services and role-based pricing rules
+
+import { Hono } from 'hono';
+import { api } from '../../../../shared/routes';
+import { requireAdmin } from '@edge/core/middleware';
+import { ServiceManager, type ServiceCreateInput } from '@edge/core/services/service-manager';
+import type { ServiceInputSchema } from '@edge/core/services/schema-validator';
+import { PricingEngine } from '@edge/core/services/pricing-engine';
+import { ExchangeRates } from '@edge/core/services/exchange-rates';
+import { AuditLogger } from '@edge/core/services/audit-logger';
+import { EventBus } from '@edge/core/services/event-bus';
+import { HttpError, authenticated, found, getActor, getStorage, isAdmin, parseBody, route } from '../http.ts';
+import type { HonoEnv } from '../types.ts';
+
+export const catalogRoutes = new Hono<HonoEnv>();
+
+/**
+ * GET /api/service-groups
+ * 200: ServiceGroup[]
+ */
+catalogRoutes.get(route(api.serviceGroups.list.path), authenticated, async (c) => {
+  const { tenantId, userRole } = getActor(c);
+  const groups = await getStorage(c).getServiceGroups(tenantId);
+  return c.json(isAdmin(userRole) ? groups : groups.filter(g => g.isActive));
+});
+
+/**
+ * POST /api/service-groups (admin)
+ * Body: insertServiceGroupSchema without tenantId
+ * 201: ServiceGroup | 400: validation error
+ */
+catalogRoutes.post(route(api.serviceGroups.create.path), requireAdmin(), async (c) => {
+  const { tenantId } = getActor(c);
+  const input = await parseBody(c, api.serviceGroups.create.input);
+  const group = await getStorage(c).createServiceGroup({ ...input, tenantId });
+  return c.json(group, 201);
+});
+
+/**
+ * PATCH /api/service-groups/:id (admin)
+ * 200: ServiceGroup | 404: not found
+ */
+catalogRoutes.patch(route(api.serviceGroups.update.path), requireAdmin(), async (c) => {
+  const { tenantId } = getActor(c);
+  const input = await parseBody(c, api.serviceGroups.update.input);
+  const group = await getStorage(c).updateServiceGroup(tenantId, c.req.param('id')!, input);
+  return c.json(found(group, 'Service group'));
+});
+
+/**
+ * GET /api/services?groupId=
+ * Non-admins only see active services their role may order
+ * With a tenant display currency, each service carries `display` (its base cost converted)
+ * 200: Service[]
+ */
+catalogRoutes.get(route(api.services.list.path), authenticated, async (c) => {
+  const { tenantId, userRole } = getActor(c);
+  const groupId = c.req.query('groupId');
+  const storage = getStorage(c);
+
+  const services = isAdmin(userRole)
+    ? await storage.getServices(tenantId, { groupId })
+    : ServiceManager.filterByRole(await storage.getServices(tenantId, { groupId, isActive: true }), userRole);
+
+  return c.json(await new ExchangeRates(storage).withDisplayPrices(await storage.getTenant(tenantId), services));
+});
+
+/**
+ * GET /api/services/:id
+ * 200: Service (with `display`, as in the list) | 404: not found or not available to the caller's role
+ */
+catalogRoutes.get(route(api.services.get.path), authenticated, async (c) => {
+  const { tenantId, userRole } = getActor(c);
+  const service = found(await getStorage(c).getService(tenantId, c.req.param('id')!), 'Service');
+
+  if (!isAdmin(userRole) && (!service.isActive || !ServiceManager.canAccessService(service, userRole))) {
+    throw new HttpError(404, 'NOT_FOUND', 'Service not found');
+  }
+
+  const storage = getStorage(c);
+  const [priced] = await new ExchangeRates(storage).withDisplayPrices(await storage.getTenant(tenantId), [service]);
+  return c.json(priced);
+});
+
+/**
+ * POST /api/services (admin)
+ * Body: insertServiceSchema without tenantId; inputSchema must define fields
+ * 201: Service | 400: validation error
+ */
+catalogRoutes.post(route(api.services.create.path), requireAdmin(), async (c) => {
+  const { tenantId, userId } = getActor(c);
+  const input = await parseBody(c, api.services.create.input);
+
+  const validation = ServiceManager.validateServiceData({
+    ...input,
+    tenantId,
+    inputSchema: input.inputSchema as ServiceInputSchema,
+  } as ServiceCreateInput);
+  if (!validation.valid) {
+    throw new HttpError(400, 'VALIDATION_ERROR', 'Invalid service definition', validation.errors);
+  }
+
+  const storage = getStorage(c);
+  const service = await storage.transaction(async tx => {
+    const created = await tx.createService({ ...input, tenantId });
+    await EventBus.record(tx, EventBus.createEvent('service.created', tenantId, { service: created }, {
+      actorId: userId,
+      audit: [AuditLogger.logService(tenantId, userId, 'create', created.id)],
+    }));
+    return created;
+  });
+
+  return c.json(service, 201);
+});
+
+/**
+ * PATCH /api/services/:id (admin)
+ * 200: Service | 400: invalid input schema | 404: not found
+ */
+catalogRoutes.patch(route(api.services.update.path), requireAdmin(), async (c) => {
+  const { tenantId, userId } = getActor(c);
+  const input = await parseBody(c, api.services.update.input);
+
+  if (input.inputSchema) {
+    const validation = ServiceManager.validateSchema(input.inputSchema as ServiceInputSchema);
+    if (!validation.valid) {
+      throw new HttpError(400, 'VALIDATION_ERROR', 'Invalid input schema', validation.errors);
+    }
+  }
+
+  const storage = getStorage(c);
+  const service = await storage.transaction(async tx => {
+    const updated = found(await tx.updateService(tenantId, c.req.param('id')!, input), 'Service');
+    await EventBus.record(tx, EventBus.createEvent('service.updated', tenantId, { service: updated }, {
+      actorId: userId,
+      audit: [AuditLogger.logService(tenantId, userId, 'update', updated.id, { fields: Object.keys(input) })],
+    }));
+    return updated;
+  });
+
+  return c.json(service);
+});
+
+/**
+ * GET /api/pricing-rules?serviceId= (admin)
+ * 200: PricingRule[]
+ */
+catalogRoutes.get(route(api.pricingRules.list.path), requireAdmin(), async (c) => {
+  const { tenantId } = getActor(c);
+  const { serviceId } = api.pricingRules.list.input.parse(c.req.query());
+  return c.json(await getStorage(c).getPricingRules(tenantId, serviceId));
+});
+
+/**
+ * POST /api/pricing-rules (admin)
+ * Body: insertPricingRuleSchema without tenantId
+ * 201: PricingRule | 400: invalid rule | 404: unknown service
+ */
+catalogRoutes.post(route(api.pricingRules.create.path), requireAdmin(), async (c) => {
+  const { tenantId, userId } = getActor(c);
+  const input = await parseBody(c, api.pricingRules.create.input);
+  const storage = getStorage(c);
+
+  found(await storage.getService(tenantId, input.serviceId), 'Service');
+
+  const validation = PricingEngine.validateRule(PricingEngine.fromRecord(input));
+  if (!validation.valid) {
+    throw new HttpError(400, 'VALIDATION_ERROR', 'Invalid pricing rule', validation.errors);
+  }
+
+  const rule = await storage.createPricingRule({ ...input, tenantId });
+  await storage.createAuditLog(AuditLogger.logPricing(tenantId, userId, 'create', rule.id));
+
+  return c.json(rule, 201);
+});
+
+/**
+ * PATCH /api/pricing-rules/:id (admin)
+ * 200: PricingRule | 400: invalid rule | 404: not found
+ */
+catalogRoutes.patch(route(api.pricingRules.update.path), requireAdmin(), async (c) => {
+  const { tenantId, userId } = getActor(c);
+  const input = await parseBody(c, api.pricingRules.update.input);
+  const storage = getStorage(c);
+
+  const existing = found(await storage.getPricingRule(tenantId, c.req.param('id')!), 'Pricing rule');
+  const validation = PricingEngine.validateRule(PricingEngine.fromRecord({ ...existing, ...input }));
+  if (!validation.valid) {
+    throw new HttpError(400, 'VALIDATION_ERROR', 'Invalid pricing rule', validation.errors);
+  }
+
+  const rule = await storage.updatePricingRule(tenantId, existing.id, input);
+  await storage.createAuditLog(
+    AuditLogger.logPricing(tenantId, userId, 'update', existing.id, { fields: Object.keys(input) })
+  );
+
+  return c.json(rule);
+});
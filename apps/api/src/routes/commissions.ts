@@ -0,0 +1,28 @@
+// Commission Routes
+// Commissions earned by distributors and resellers on their sub-users' orders
+
+import { Hono } from 'hono';
+import { api } from '../../../../shared/routes';
+import { CommissionPayouts } from '@edge/core/services/commissions';
+import { authenticated, getActor, getStorage, isAdmin, route } from '../http.ts';
+import type { HonoEnv } from '../types.ts';
+
+export const commissionRoutes = new Hono<HonoEnv>();
+
+/**
+ * GET /api/commissions/statement?userId=&from=&to=
+ * Commissions credited and reversed in the period (default: this UTC month so far)
+ * Non-admins only see their own statement
+ * 200: { userId, from, to, entries, totals }
+ */
+commissionRoutes.get(route(api.commissions.statement.path), authenticated, async (c) => {
+  const { tenantId, userId, userRole } = getActor(c);
+  const query = api.commissions.statement.input.parse(c.req.query()) ?? {};
+
+  return c.json(await new CommissionPayouts(getStorage(c)).statement(
+    tenantId,
+    isAdmin(userRole) ? query.userId ?? userId : userId,
+    query.from,
+    query.to
+  ));
+});
@@ -0,0 +1,67 @@
+// Exchange Rate Routes
+// Currency rates set by hand or imported from a feed, and the catalog's display currency
+
+import { Hono } from 'hono';
+import { api } from '../../../../shared/routes';
+import { requireAdmin } from '@edge/core/middleware';
+import { ExchangeRates } from '@edge/core/services/exchange-rates';
+import { authenticated, found, getActor, getStorage, parseBody, route } from '../http.ts';
+import type { HonoEnv } from '../types.ts';
+
+export const exchangeRateRoutes = new Hono<HonoEnv>();
+
+/**
+ * GET /api/exchange-rates?base=&quote=
+ * The rate in effect for every pair; with `base` and `quote`, that pair's history (newest first)
+ * 200: ExchangeRate[]
+ */
+exchangeRateRoutes.get(route(api.exchangeRates.list.path), authenticated, async (c) => {
+  const { tenantId } = getActor(c);
+  const query = api.exchangeRates.list.input.parse(c.req.query()) ?? {};
+  const storage = getStorage(c);
+
+  if (query.base && query.quote) {
+    return c.json(await storage.getExchangeRates(tenantId, {
+      base: ExchangeRates.normalize(query.base),
+      quote: ExchangeRates.normalize(query.quote),
+    }));
+  }
+  return c.json(await new ExchangeRates(storage).getCurrentRates(tenantId));
+});
+
+/**
+ * POST /api/exchange-rates (admin)
+ * Body: { base, quote, rate, effectiveAt? }; `rate` is quote per one base
+ * 201: ExchangeRate | 400: invalid currency or rate
+ */
+exchangeRateRoutes.post(route(api.exchangeRates.create.path), requireAdmin(), async (c) => {
+  const { tenantId, userId } = getActor(c);
+  const input = await parseBody(c, api.exchangeRates.create.input);
+  return c.json(await new ExchangeRates(getStorage(c)).setRate(tenantId, userId, input), 201);
+});
+
+/**
+ * POST /api/exchange-rates/import (admin)
+ * Body: { base, rates: { [quote]: rate }, effectiveAt? }, the shape most rate feeds publish
+ * 201: ExchangeRate[] | 400: invalid currency or rate (nothing is stored)
+ */
+exchangeRateRoutes.post(route(api.exchangeRates.import.path), requireAdmin(), async (c) => {
+  const { tenantId, userId } = getActor(c);
+  const input = await parseBody(c, api.exchangeRates.import.input);
+  return c.json(await new ExchangeRates(getStorage(c)).importRates(tenantId, userId, input), 201);
+});
+
+/**
+ * PUT /api/exchange-rates/display-currency (admin)
+ * Body: { currency } (null to show the catalog in each service's own currency)
+ * 200: { displayCurrency } | 400: invalid currency
+ */
+exchangeRateRoutes.put(route(api.exchangeRates.displayCurrency.path), requireAdmin(), async (c) => {
+  const { tenantId, userId } = getActor(c);
+  const input = await parseBody(c, api.exchangeRates.displayCurrency.input);
+  const tenant = found(
+    await new ExchangeRates(getStorage(c)).setDisplayCurrency(tenantId, userId, input.currency),
+    'Tenant'
+  );
+  return c.json({ displayCurrency: ExchangeRates.getDisplayCurrency(tenant) });
+});
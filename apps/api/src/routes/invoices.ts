@@ -0,0 +1,124 @@
+// Invoice Routes
+// Invoice generation from orders and invoice lifecycle
+
+import { Hono, type Context } from 'hono';
+import { api } from '../../../../shared/routes';
+import type { InsertInvoice, Invoice, Order } from '../../../../shared/schema';
+import { RoleGuard, requireAdmin } from '@edge/core/middleware';
+import { InvoiceManager } from '@edge/core/services/invoice-manager';
+import { EventBus } from '@edge/core/services/event-bus';
+import { HttpError, authenticated, found, getActor, getStorage, isAdmin, parseBody, route } from '../http.ts';
+import type { HonoEnv } from '../types.ts';
+
+export const invoiceRoutes = new Hono<HonoEnv>();
+
+/**
+ * Load an invoice the caller is allowed to see
+ */
+async function loadInvoice(c: Context<HonoEnv>): Promise<Invoice> {
+  const { tenantId, userId, userRole } = getActor(c);
+  const invoice = found(await getStorage(c).getInvoice(tenantId, c.req.param('id')!), 'Invoice');
+  RoleGuard.validateResourceOwnership(invoice.userId, userId, userRole);
+  return invoice;
+}
+
+/**
+ * Persist the status fields of an InvoiceManager transition
+ */
+async function saveTransition(c: Context<HonoEnv>, invoice: Invoice, next: Partial<Invoice>): Promise<Invoice> {
+  const updated = await getStorage(c).updateInvoice(invoice.tenantId, invoice.id, {
+    status: next.status,
+    paidAt: next.paidAt,
+  });
+  return found(updated, 'Invoice');
+}
+
+/**
+ * GET /api/invoices
+ * Non-admins only see their own invoices
+ * 200: Invoice[]
+ */
+invoiceRoutes.get(route(api.invoices.list.path), authenticated, async (c) => {
+  const { tenantId, userId, userRole } = getActor(c);
+  return c.json(await getStorage(c).getInvoices(tenantId, isAdmin(userRole) ? undefined : userId));
+});
+
+/**
+ * GET /api/invoices/:id
+ * 200: Invoice | 403: not the owner | 404: not found
+ */
+invoiceRoutes.get(route(api.invoices.get.path), authenticated, async (c) => {
+  return c.json(await loadInvoice(c));
+});
+
+/**
+ * POST /api/invoices (admin)
+ * Body: { userId, orderIds, taxRate? }
+ * Orders must belong to the user and share one currency
+ * 201: Invoice (draft) | 400: invalid orders
+ */
+invoiceRoutes.post(route(api.invoices.create.path), requireAdmin(), async (c) => {
+  const { tenantId } = getActor(c);
+  const input = await parseBody(c, api.invoices.create.input);
+  const storage = getStorage(c);
+
+  const orders: Order[] = [];
+  for (const orderId of Array.from(new Set(input.orderIds))) {
+    const order = await storage.getOrder(tenantId, orderId);
+    if (!order || order.userId !== input.userId) {
+      throw new HttpError(400, 'INVALID_ORDERS', `Order ${orderId} does not belong to this user`);
+    }
+    orders.push(order);
+  }
+
+  const currencies = new Set(orders.map(o => o.currency));
+  if (currencies.size > 1) {
+    throw new HttpError(400, 'MIXED_CURRENCIES', 'All orders on an invoice must share one currency');
+  }
+
+  const draft = InvoiceManager.createFromOrders(tenantId, input.userId, orders, input.taxRate, orders[0].currency);
+  const invoice = await storage.createInvoice(draft as InsertInvoice);
+
+  return c.json(invoice, 201);
+});
+
+/**
+ * POST /api/invoices/:id/issue (admin)
+ * 200: Invoice | 409: not a draft
+ */
+invoiceRoutes.post(route(api.invoices.issue.path), requireAdmin(), async (c) => {
+  const invoice = await loadInvoice(c);
+  return c.json(await saveTransition(c, invoice, InvoiceManager.issue(invoice)));
+});
+
+/**
+ * POST /api/invoices/:id/pay (admin)
+ * 200: Invoice | 409: not issued
+ */
+invoiceRoutes.post(route(api.invoices.pay.path), requireAdmin(), async (c) => {
+  const { userId } = getActor(c);
+  const invoice = await loadInvoice(c);
+  const next = InvoiceManager.markPaid(invoice);
+
+  const paid = await getStorage(c).transaction(async tx => {
+    const updated = found(await tx.updateInvoice(invoice.tenantId, invoice.id, {
+      status: next.status,
+      paidAt: next.paidAt,
+    }), 'Invoice');
+    await EventBus.record(tx, EventBus.createEvent('payment.received', invoice.tenantId, { invoice: updated }, {
+      actorId: userId,
+    }));
+    return updated;
+  });
+
+  return c.json(paid);
+});
+
+/**
+ * POST /api/invoices/:id/cancel (admin)
+ * 200: Invoice | 409: already paid
+ */
+invoiceRoutes.post(route(api.invoices.cancel.path), requireAdmin(), async (c) => {
+  const invoice = await loadInvoice(c);
+  return c.json(await saveTransition(c, invoice, InvoiceManager.cancel(invoice)));
+});
@@ -0,0 +1,36 @@
+// Journal Routes
+// Double-entry books behind the wallet ledger (admin)
+
+import { Hono } from 'hono';
+import { api } from '../../../../shared/routes';
+import { requireAdmin } from '@edge/core/middleware';
+import { Journal } from '@edge/core/services/journal';
+import { HttpError, getActor, getStorage, route } from '../http.ts';
+import type { HonoEnv } from '../types.ts';
+
+export const journalRoutes = new Hono<HonoEnv>();
+
+/**
+ * GET /api/journal/trial-balance (admin)
+ * Debits and credits per account and currency; `balanced` when they sum to zero
+ * 200: { accounts, totals, balanced }
+ */
+journalRoutes.get(route(api.journal.trialBalance.path), requireAdmin(), async (c) => {
+  const { tenantId } = getActor(c);
+  return c.json(Journal.trialBalance(await getStorage(c).getJournalTotals(tenantId)));
+});
+
+/**
+ * GET /api/journal/entries/:transactionId (admin)
+ * The lines a wallet transaction posted
+ * 200: JournalLine[] | 404: no entry for this transaction
+ */
+journalRoutes.get(route(api.journal.entry.path), requireAdmin(), async (c) => {
+  const { tenantId } = getActor(c);
+  const lines = await getStorage(c).getJournalLines(tenantId, c.req.param('transactionId')!);
+
+  if (lines.length === 0) {
+    throw new HttpError(404, 'NOT_FOUND', 'Journal entry not found');
+  }
+  return c.json(lines);
+});
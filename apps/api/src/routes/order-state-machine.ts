@@ -0,0 +1,41 @@
+// Order State Machine Routes
+// Tenant-defined order lifecycle (admin)
+
+import { Hono } from 'hono';
+import { api } from '../../../../shared/routes';
+import { requireAdmin } from '@edge/core/middleware';
+import { TenantStateMachineManager } from '@edge/core/services/tenant-state-machine';
+import { getActor, getStorage, parseBody, route } from '../http.ts';
+import type { HonoEnv } from '../types.ts';
+
+export const orderStateMachineRoutes = new Hono<HonoEnv>();
+
+/**
+ * GET /api/order-state-machine (admin)
+ * 200: { definition, version, isDefault, hooks }; the built-in definition until one is saved
+ */
+orderStateMachineRoutes.get(route(api.orderStateMachine.get.path), requireAdmin(), async (c) => {
+  const { tenantId } = getActor(c);
+  return c.json(await new TenantStateMachineManager(getStorage(c)).describe(tenantId));
+});
+
+/**
+ * PUT /api/order-state-machine (admin)
+ * Body: { states, transitions }
+ * 200: saved view | 400: INVALID_STATE_MACHINE | 409: a removed state still holds orders
+ */
+orderStateMachineRoutes.put(route(api.orderStateMachine.update.path), requireAdmin(), async (c) => {
+  const { tenantId, userId } = getActor(c);
+  const input = await parseBody(c, api.orderStateMachine.update.input);
+  return c.json(await new TenantStateMachineManager(getStorage(c)).save(tenantId, input, userId));
+});
+
+/**
+ * DELETE /api/order-state-machine (admin)
+ * Goes back to the built-in definition
+ * 200: built-in view | 409: orders are in a tenant-defined state
+ */
+orderStateMachineRoutes.delete(route(api.orderStateMachine.reset.path), requireAdmin(), async (c) => {
+  const { tenantId, userId } = getActor(c);
+  return c.json(await new TenantStateMachineManager(getStorage(c)).reset(tenantId, userId));
+});
@@ -0,0 +1,235 @@
+// Order Routes
+// Order placement, approval, cancellation and lifecycle inspection
+
+import { Hono, type Context } from 'hono';
+import { api } from '../../../../shared/routes';
+import type { Order } from '../../../../shared/schema';
+import { RoleGuard, requireAdmin, requirePermission } from '@edge/core/middleware';
+import { OrderManager } from '@edge/core/services/order-manager';
+import type { OrderPlacementResult } from '@edge/core/services/order-manager';
+import { OrderTimeline } from '@edge/core/services/order-timeline';
+import { OrderWorkflow } from '@edge/core/services/order-workflow';
+import { TenantStateMachineManager } from '@edge/core/services/tenant-state-machine';
+import { HttpError, authenticated, found, getActor, getStorage, isAdmin, parseBody, route } from '../http.ts';
+import type { HonoEnv } from '../types.ts';
+
+export const orderRoutes = new Hono<HonoEnv>();
+
+/**
+ * Load an order the caller is allowed to see
+ */
+async function loadOrder(c: Context<HonoEnv>): Promise<Order> {
+  const { tenantId, userId, userRole } = getActor(c);
+  const order = found(await getStorage(c).getOrder(tenantId, c.req.param('id')!), 'Order');
+  RoleGuard.validateResourceOwnership(order.userId, userId, userRole);
+  return order;
+}
+
+/**
+ * Turn a workflow result into a response, or throw its error
+ */
+function unwrap(result: OrderPlacementResult): Order {
+  if (result.order) {
+    return result.order;
+  }
+
+  const error = result.error ?? { code: 'ORDER_FAILED', message: 'Order could not be processed' };
+  if (error.code === 'ORDER_NOT_FOUND' || error.code === 'ORDER_ITEM_NOT_FOUND') {
+    throw new HttpError(404, 'NOT_FOUND', error.message);
+  }
+  throw new HttpError(
+    error.code === 'INVALID_TRANSITION' ? 409 : 400,
+    error.code,
+    error.message,
+    error.validationErrors
+  );
+}
+
+/**
+ * GET /api/orders?status=&userId=
+ * Non-admins only see their own orders
+ * 200: Order[]
+ */
+orderRoutes.get(route(api.orders.list.path), authenticated, async (c) => {
+  const { tenantId, userId, userRole } = getActor(c);
+  const query = api.orders.list.input.parse(c.req.query()) ?? {};
+
+  const orders = await getStorage(c).getOrders(tenantId, {
+    status: query.status,
+    userId: isAdmin(userRole) ? query.userId : userId,
+  });
+
+  return c.json(orders);
+});
+
+/**
+ * GET /api/orders/:id
+ * 200: Order | 403: not the owner | 404: not found
+ */
+orderRoutes.get(route(api.orders.get.path), authenticated, async (c) => {
+  return c.json(await loadOrder(c));
+});
+
+/**
+ * POST /api/orders
+ * Body: { serviceId, inputData, currency?, metadata? }
+ * Funds are locked immediately; the order is dispatched unless it requires approval.
+ * With a `currency` other than the service's, the price is converted and the rate locked onto the order.
+ * A provider failure still returns 201 with the failed order.
+ * 201: Order | 400: validation, pricing, exchange rate or balance error
+ */
+orderRoutes.post(route(api.orders.create.path), requirePermission('order', 'create'), async (c) => {
+  const { tenantId, userId, userRole } = getActor(c);
+  const input = await parseBody(c, api.orders.create.input);
+
+  const result = await new OrderWorkflow(getStorage(c)).placeOrder({
+    tenantId,
+    userId,
+    userRole,
+    serviceId: input.serviceId,
+    inputData: input.inputData,
+    currency: input.currency,
+    metadata: input.metadata,
+  });
+
+  return c.json(unwrap(result), 201);
+});
+
+/**
+ * POST /api/orders/bulk
+ * Body: { serviceId, items: inputData[], currency?, metadata? }
+ * One item per line; the total is locked at once and each item is dispatched on its own.
+ * The order ends delivered, partially_delivered or failed; failed items are refunded individually.
+ * 201: Order | 400: validation (per `item_<index>`), pricing or balance error
+ */
+orderRoutes.post(route(api.orders.createBulk.path), requirePermission('order', 'create'), async (c) => {
+  const { tenantId, userId, userRole } = getActor(c);
+  const input = await parseBody(c, api.orders.createBulk.input);
+
+  const result = await new OrderWorkflow(getStorage(c)).placeBulkOrder({
+    tenantId,
+    userId,
+    userRole,
+    serviceId: input.serviceId,
+    inputData: {},
+    currency: input.currency,
+    metadata: input.metadata,
+  }, input.items);
+
+  return c.json(unwrap(result), 201);
+});
+
+/**
+ * GET /api/orders/:id/transitions
+ * 200: { status, transitions } available to the caller's role
+ */
+orderRoutes.get(route(api.orders.transitions.path), authenticated, async (c) => {
+  const { tenantId, userRole } = getActor(c);
+  const order = await loadOrder(c);
+  const machine = await new TenantStateMachineManager(getStorage(c)).get(tenantId);
+
+  return c.json({
+    status: order.status,
+    transitions: OrderManager.getAvailableTransitions(order, userRole, machine),
+  });
+});
+
+/**
+ * POST /api/orders/:id/approve
+ * The tenant's state machine decides which roles may approve (admins by default)
+ * 200: Order (dispatched) | 404: not found | 409: not awaiting approval or role not allowed
+ */
+orderRoutes.post(route(api.orders.approve.path), authenticated, async (c) => {
+  const { tenantId, userId, userRole } = getActor(c);
+  const result = await new OrderWorkflow(getStorage(c))
+    .approveOrder(tenantId, c.req.param('id')!, userId, userRole);
+
+  return c.json(unwrap(result));
+});
+
+/**
+ * POST /api/orders/:id/cancel
+ * Releases locked funds
+ * 200: Order | 403: not the owner | 409: cannot be cancelled
+ */
+orderRoutes.post(route(api.orders.cancel.path), authenticated, async (c) => {
+  const { tenantId, userId, userRole } = getActor(c);
+  const order = await loadOrder(c);
+
+  const result = await new OrderWorkflow(getStorage(c))
+    .cancelOrder(tenantId, order.id, userId, userRole);
+
+  return c.json(unwrap(result));
+});
+
+/**
+ * POST /api/orders/:id/transition
+ * Body: { to, note? }; moves the order into a tenant-defined state, or back to
+ * the built-in state it left
+ * 200: Order | 403: not the owner | 404: not found | 409: transition not allowed
+ */
+orderRoutes.post(route(api.orders.transition.path), authenticated, async (c) => {
+  const { tenantId, userId, userRole } = getActor(c);
+  const input = await parseBody(c, api.orders.transition.input);
+  const order = await loadOrder(c);
+
+  const result = await new OrderWorkflow(getStorage(c))
+    .transitionOrder(tenantId, order.id, input.to, userId, userRole, input.note);
+
+  return c.json(unwrap(result));
+});
+
+/**
+ * POST /api/orders/:id/refund (admin)
+ * Body (optional): { amount?, itemIds?, reason? }; without amount or items, everything not yet refunded
+ * Returns funds against the order's debits; the order becomes partially_refunded
+ * until all that was paid has been refunded.
+ * 200: Order | 400: exceeds what is left, nothing to refund | 404: order or item not found
+ * 409: order or item cannot be refunded in its status
+ */
+orderRoutes.post(route(api.orders.refund.path), requireAdmin(), async (c) => {
+  const { tenantId, userId, userRole } = getActor(c);
+  const input = api.orders.refund.input.parse(await c.req.json().catch(() => ({})));
+
+  const result = await new OrderWorkflow(getStorage(c))
+    .refundOrder(tenantId, c.req.param('id')!, userId, userRole, input);
+
+  return c.json(unwrap(result));
+});
+
+/**
+ * GET /api/orders/:id/items
+ * 200: OrderItem[] | 404: not found
+ */
+orderRoutes.get(route(api.orders.items.path), authenticated, async (c) => {
+  const { tenantId } = getActor(c);
+  const order = await loadOrder(c);
+  return c.json(await getStorage(c).getOrderItems(tenantId, order.id));
+});
+
+/**
+ * GET /api/orders/:id/timeline
+ * Oldest first. Non-admins only see the order's creation and status changes;
+ * provider responses, sync results and notes are for admins.
+ * 200: OrderEvent[] | 403: not the owner | 404: not found
+ */
+orderRoutes.get(route(api.orders.timeline.path), authenticated, async (c) => {
+  const { tenantId, userRole } = getActor(c);
+  const order = await loadOrder(c);
+  const events = await getStorage(c).getOrderEvents(tenantId, order.id);
+
+  return c.json(isAdmin(userRole) ? events : events.filter(event => OrderTimeline.isCustomerVisible(event)));
+});
+
+/**
+ * POST /api/orders/:id/notes (admin)
+ * Body: { note }
+ * 201: OrderEvent | 404: not found
+ */
+orderRoutes.post(route(api.orders.addNote.path), requireAdmin(), async (c) => {
+  const { tenantId, userId } = getActor(c);
+  const input = await parseBody(c, api.orders.addNote.input);
+  const order = found(await getStorage(c).getOrder(tenantId, c.req.param('id')!), 'Order');
+
+  return c.json(await getStorage(c).createOrderEvent(OrderTimeline.note(order, userId, input.note)), 201);
+});
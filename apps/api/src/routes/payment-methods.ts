@@ -0,0 +1,48 @@
+// Payment Method Routes
+// Tenant payment method configuration
+
+import { Hono } from 'hono';
+import { api } from '../../../../shared/routes';
+import { requireAdmin } from '@edge/core/middleware';
+import { authenticated, found, getActor, getStorage, isAdmin, parseBody, route } from '../http.ts';
+import type { HonoEnv } from '../types.ts';
+
+export const paymentMethodRoutes = new Hono<HonoEnv>();
+
+/**
+ * GET /api/payment-methods
+ * Non-admins only see active methods, without their config
+ * 200: PaymentMethod[]
+ */
+paymentMethodRoutes.get(route(api.paymentMethods.list.path), authenticated, async (c) => {
+  const { tenantId, userRole } = getActor(c);
+  const methods = await getStorage(c).getPaymentMethods(tenantId);
+
+  if (isAdmin(userRole)) {
+    return c.json(methods);
+  }
+
+  return c.json(methods.filter(m => m.isActive).map(m => ({ ...m, config: {} })));
+});
+
+/**
+ * POST /api/payment-methods (admin)
+ * Body: insertPaymentMethodSchema without tenantId
+ * 201: PaymentMethod | 400: validation error
+ */
+paymentMethodRoutes.post(route(api.paymentMethods.create.path), requireAdmin(), async (c) => {
+  const { tenantId } = getActor(c);
+  const input = await parseBody(c, api.paymentMethods.create.input);
+  return c.json(await getStorage(c).createPaymentMethod({ ...input, tenantId }), 201);
+});
+
+/**
+ * PATCH /api/payment-methods/:id (admin)
+ * 200: PaymentMethod | 404: not found
+ */
+paymentMethodRoutes.patch(route(api.paymentMethods.update.path), requireAdmin(), async (c) => {
+  const { tenantId } = getActor(c);
+  const input = await parseBody(c, api.paymentMethods.update.input);
+  const method = await getStorage(c).updatePaymentMethod(tenantId, c.req.param('id')!, input);
+  return c.json(found(method, 'Payment method'));
+});
@@ -0,0 +1,350 @@
+// Provider Routes
+// Provider plugin configuration and service mappings (admin only)
+
+import { Hono, type Context } from 'hono';
+import { api } from '../../../../shared/routes';
+import type { CatalogSync, Provider } from '../../../../shared/schema';
+import { requireAdmin } from '@edge/core/middleware';
+import { ProviderRegistry, supportsCallbacks } from '@edge/core/providers';
+import { AuditLogger } from '@edge/core/services/audit-logger';
+import { OrderWorkflow } from '@edge/core/services/order-workflow';
+import { ProviderBatchManager } from '@edge/core/services/provider-batch';
+import { ProviderCatalogManager } from '@edge/core/services/provider-catalog';
+import { ProviderHealthTracker } from '@edge/core/services/provider-health';
+import { HttpError, found, getActor, getBlobStore, getStorage, parseBody, route } from '../http.ts';
+import type { HonoEnv } from '../types.ts';
+
+export const providerRoutes = new Hono<HonoEnv>();
+
+/**
+ * POST /api/providers/:slug/callback
+ * Order and bulk item updates pushed by a supplier; registered ahead of the admin guard below.
+ * The tenant comes from `X-Tenant-ID` or, for suppliers that cannot set headers, `?tenant=`.
+ * 200: { received, orderId, status } | 400: malformed payload | 401: bad signature
+ * 404: unknown provider or order | 409: order is not awaiting the provider, or already has the status
+ */
+providerRoutes.post(route(api.providers.callback.path), async (c) => {
+  const tenantId = c.req.query('tenant') ?? c.get('tenantId');
+  const storage = getStorage(c);
+
+  const provider = await storage.getProviderBySlug(tenantId, c.req.param('slug')!);
+  if (!provider?.isActive) {
+    throw new HttpError(404, 'NOT_FOUND', 'Provider not found');
+  }
+
+  const instance = ProviderRegistry.fromRecord(provider);
+  if (!supportsCallbacks(instance)) {
+    throw new HttpError(404, 'NOT_FOUND', 'Provider does not accept callbacks');
+  }
+
+  const headers: Record<string, string> = {};
+  c.req.raw.headers.forEach((value, key) => {
+    headers[key] = value;
+  });
+  const request = { body: await c.req.text(), headers };
+
+  if (!(await instance.verifyCallback(request))) {
+    throw new HttpError(401, 'INVALID_SIGNATURE', 'Callback signature is missing or invalid');
+  }
+
+  const report = instance.parseCallback(request);
+  const workflow = new OrderWorkflow(storage);
+
+  // The reference is an order's, or one bulk item's
+  // A status already applied is a replay, or a retry the supplier need not make
+  const order = await storage.getOrderByProviderOrderId(tenantId, provider.id, report.providerOrderId);
+  const result = order
+    ? await workflow.applyProviderStatus(order, provider, report, 'provider', 'reject')
+    : await workflow.applyItemStatus(
+      found(await storage.getOrderItemByProviderOrderId(tenantId, provider.id, report.providerOrderId), 'Order'),
+      provider,
+      report,
+      'provider',
+      'reject'
+    );
+  if (!result.order) {
+    const error = result.error ?? { code: 'CALLBACK_REJECTED', message: 'Callback could not be applied' };
+    if (error.code === 'ORDER_NOT_FOUND') {
+      throw new HttpError(404, 'NOT_FOUND', error.message);
+    }
+    const conflict = error.code === 'INVALID_TRANSITION' || error.code === 'ALREADY_APPLIED';
+    throw new HttpError(conflict ? 409 : 400, error.code, error.message);
+  }
+
+  return c.json({ received: true as const, orderId: result.order.id, status: result.order.status });
+});
+
+providerRoutes.use(route(api.providers.list.path), requireAdmin());
+providerRoutes.use(`${route(api.providers.list.path)}/*`, requireAdmin());
+
+/**
+ * Credentials never leave the server; only their keys are shown
+ */
+export function redactProvider(provider: Provider): Provider {
+  const credentials = Object.fromEntries(
+    Object.keys(provider.credentials ?? {}).map(key => [key, '********'])
+  );
+  return { ...provider, credentials };
+}
+
+function assertSupportedType(type: string): void {
+  if (!ProviderRegistry.isSupported(type)) {
+    throw new HttpError(
+      400,
+      'UNSUPPORTED_PROVIDER_TYPE',
+      `Provider type '${type}' is not supported. Supported: ${ProviderRegistry.getSupportedTypes().join(', ')}`
+    );
+  }
+}
+
+/**
+ * GET /api/providers
+ * 200: Provider[] (credentials redacted)
+ */
+providerRoutes.get(route(api.providers.list.path), async (c) => {
+  const { tenantId } = getActor(c);
+  const providers = await getStorage(c).getProviders(tenantId);
+  return c.json(providers.map(redactProvider));
+});
+
+/**
+ * GET /api/providers/:id
+ * 200: Provider (credentials redacted) | 404: not found
+ */
+providerRoutes.get(route(api.providers.get.path), async (c) => {
+  const { tenantId } = getActor(c);
+  const provider = found(await getStorage(c).getProvider(tenantId, c.req.param('id')!), 'Provider');
+  return c.json(redactProvider(provider));
+});
+
+/**
+ * POST /api/providers
+ * Body: insertProviderSchema without tenantId; type must be registered
+ * 201: Provider | 400: unsupported type
+ */
+providerRoutes.post(route(api.providers.create.path), async (c) => {
+  const { tenantId, userId } = getActor(c);
+  const input = await parseBody(c, api.providers.create.input);
+  assertSupportedType(input.type);
+
+  const storage = getStorage(c);
+  const provider = await storage.createProvider({ ...input, tenantId });
+  await storage.createAuditLog(
+    AuditLogger.logProvider(tenantId, userId, 'create', provider.id, { type: provider.type })
+  );
+
+  return c.json(redactProvider(provider), 201);
+});
+
+/**
+ * PATCH /api/providers/:id
+ * 200: Provider | 400: unsupported type | 404: not found
+ */
+providerRoutes.patch(route(api.providers.update.path), async (c) => {
+  const { tenantId, userId } = getActor(c);
+  const input = await parseBody(c, api.providers.update.input);
+  if (input.type) {
+    assertSupportedType(input.type);
+  }
+
+  const storage = getStorage(c);
+  const provider = found(await storage.updateProvider(tenantId, c.req.param('id')!, input), 'Provider');
+  await storage.createAuditLog(
+    AuditLogger.logProvider(tenantId, userId, 'update', provider.id, { fields: Object.keys(input) })
+  );
+
+  return c.json(redactProvider(provider));
+});
+
+/**
+ * POST /api/providers/:id/mappings
+ * Body: { serviceId, providerServiceId, priority?, isActive?, config? }
+ * 201: ProviderServiceMapping | 404: unknown provider or service
+ */
+providerRoutes.post(route(api.providers.mapService.path), async (c) => {
+  const { tenantId } = getActor(c);
+  const input = await parseBody(c, api.providers.mapService.input);
+  const storage = getStorage(c);
+
+  const provider = found(await storage.getProvider(tenantId, c.req.param('id')!), 'Provider');
+  found(await storage.getService(tenantId, input.serviceId), 'Service');
+
+  const mapping = await storage.createProviderServiceMapping({
+    ...input,
+    tenantId,
+    providerId: provider.id,
+  });
+
+  return c.json(mapping, 201);
+});
+
+/**
+ * GET /api/providers/:id/balance
+ * 200: { balance (cents), currency?, data? } | 400: not supported | 404: not found | 502: supplier error
+ */
+providerRoutes.get(route(api.providers.balance.path), async (c) => {
+  const { tenantId } = getActor(c);
+  const storage = getStorage(c);
+
+  const provider = found(await storage.getProvider(tenantId, c.req.param('id')!), 'Provider');
+  return c.json(await new ProviderCatalogManager(storage).getBalance(provider));
+});
+
+/**
+ * GET /api/providers/:id/health
+ * Circuit breaker state with the error rate and latencies of recent calls
+ * 200: health report | 404: not found
+ */
+providerRoutes.get(route(api.providers.health.path), async (c) => {
+  const { tenantId } = getActor(c);
+  const storage = getStorage(c);
+
+  const provider = found(await storage.getProvider(tenantId, c.req.param('id')!), 'Provider');
+  return c.json(await new ProviderHealthTracker(storage).getReport(provider));
+});
+
+/**
+ * POST /api/providers/:id/services/import
+ * Creates inactive services and mappings for supplier services not mapped yet
+ * 200: { imported, skipped } | 400: not supported | 404: not found | 502: supplier error
+ */
+providerRoutes.post(route(api.providers.importServices.path), async (c) => {
+  const { tenantId, userId } = getActor(c);
+  const storage = getStorage(c);
+
+  const provider = found(await storage.getProvider(tenantId, c.req.param('id')!), 'Provider');
+  return c.json(await new ProviderCatalogManager(storage).importServices(provider, userId));
+});
+
+/**
+ * GET /api/providers/:id/catalog-syncs
+ * 200: CatalogSync[] (newest first) | 404: not found
+ */
+providerRoutes.get(route(api.providers.catalogSyncs.path), async (c) => {
+  const { tenantId } = getActor(c);
+  const storage = getStorage(c);
+
+  const provider = found(await storage.getProvider(tenantId, c.req.param('id')!), 'Provider');
+  return c.json(await storage.getCatalogSyncs(tenantId, provider.id));
+});
+
+/**
+ * POST /api/providers/:id/catalog-syncs
+ * Pulls the supplier's catalog and records the differences for review
+ * 201: CatalogSync | 400: not supported | 404: not found | 502: supplier error
+ */
+providerRoutes.post(route(api.providers.runCatalogSync.path), async (c) => {
+  const { tenantId, userId } = getActor(c);
+  const storage = getStorage(c);
+
+  const provider = found(await storage.getProvider(tenantId, c.req.param('id')!), 'Provider');
+  return c.json(await new ProviderCatalogManager(storage).syncCatalog(provider, userId), 201);
+});
+
+/**
+ * GET /api/providers/:id/catalog-syncs/:syncId
+ * 200: CatalogSync | 404: not found
+ */
+providerRoutes.get(route(api.providers.catalogSync.path), async (c) => {
+  const { tenantId } = getActor(c);
+  return c.json(await getCatalogSync(c, tenantId));
+});
+
+/**
+ * POST /api/providers/:id/catalog-syncs/:syncId/approve
+ * Body (optional): { changeIds? } - the changes to apply; the others are rejected
+ * 200: CatalogSync | 404: not found | 409: already reviewed or superseded
+ */
+providerRoutes.post(route(api.providers.approveCatalogSync.path), async (c) => {
+  const { tenantId, userId } = getActor(c);
+  // The body is optional: approving without one applies everything
+  const input = api.providers.approveCatalogSync.input.parse(await c.req.json().catch(() => ({})));
+  const sync = await getCatalogSync(c, tenantId);
+
+  return c.json(await new ProviderCatalogManager(getStorage(c)).approveSync(sync, userId, input.changeIds));
+});
+
+/**
+ * POST /api/providers/:id/catalog-syncs/:syncId/reject
+ * 200: CatalogSync | 404: not found | 409: already reviewed or superseded
+ */
+providerRoutes.post(route(api.providers.rejectCatalogSync.path), async (c) => {
+  const { tenantId, userId } = getActor(c);
+  const sync = await getCatalogSync(c, tenantId);
+
+  return c.json(await new ProviderCatalogManager(getStorage(c)).rejectSync(sync, userId));
+});
+
+async function getCatalogSync(c: Context<HonoEnv>, tenantId: string): Promise<CatalogSync> {
+  const sync = found(await getStorage(c).getCatalogSync(tenantId, c.req.param('syncId')!), 'Catalog sync');
+  if (sync.providerId !== c.req.param('id')) {
+    throw new HttpError(404, 'NOT_FOUND', 'Catalog sync not found');
+  }
+  return sync;
+}
+
+/**
+ * GET /api/providers/:id/batches
+ * 200: ProviderBatch[] (exports and imports) | 404: not found
+ */
+providerRoutes.get(route(api.providers.batches.path), async (c) => {
+  const { tenantId } = getActor(c);
+  const storage = getStorage(c);
+
+  const provider = found(await storage.getProvider(tenantId, c.req.param('id')!), 'Provider');
+  return c.json(await storage.getProviderBatches(tenantId, provider.id));
+});
+
+/**
+ * POST /api/providers/:id/batches/export
+ * Writes queued orders and pending items to a file in the provider's layout
+ * 201: ProviderBatch | 400: not file-based or nothing to export | 404: not found
+ */
+providerRoutes.post(route(api.providers.exportBatch.path), async (c) => {
+  const { tenantId, userId } = getActor(c);
+  const storage = getStorage(c);
+
+  const provider = found(await storage.getProvider(tenantId, c.req.param('id')!), 'Provider');
+  const batch = await new ProviderBatchManager(storage, getBlobStore(c)).exportPending(provider, userId);
+
+  return c.json(batch, 201);
+});
+
+/**
+ * POST /api/providers/:id/batches/import
+ * Body: the supplier's results file (CSV or JSON, as configured)
+ * 200: { batch, applied, errors } | 400: not file-based or unreadable file | 404: not found
+ */
+providerRoutes.post(route(api.providers.importBatch.path), async (c) => {
+  const { tenantId, userId } = getActor(c);
+  const storage = getStorage(c);
+
+  const provider = found(await storage.getProvider(tenantId, c.req.param('id')!), 'Provider');
+  const content = await c.req.text();
+  if (!content.trim()) {
+    throw new HttpError(400, 'VALIDATION_ERROR', 'Results file is empty');
+  }
+
+  return c.json(await new ProviderBatchManager(storage, getBlobStore(c)).importResults(provider, content, userId));
+});
+
+/**
+ * GET /api/providers/:id/batches/:batchId/file
+ * 200: the exported or imported file | 404: not found
+ */
+providerRoutes.get(route(api.providers.batchFile.path), async (c) => {
+  const { tenantId } = getActor(c);
+  const storage = getStorage(c);
+
+  const batch = found(await storage.getProviderBatch(tenantId, c.req.param('batchId')!), 'Batch');
+  if (batch.providerId !== c.req.param('id')) {
+    throw new HttpError(404, 'NOT_FOUND', 'Batch not found');
+  }
+
+  const content = found(await getBlobStore(c).get(batch.blobKey) ?? undefined, 'Batch file');
+  const extension = batch.format === 'json' ? 'json' : 'csv';
+  return c.body(content, 200, {
+    'Content-Type': batch.format === 'json' ? 'application/json' : 'text/csv',
+    'Content-Disposition': `attachment; filename="${batch.direction}-${batch.id}.${extension}"`,
+  });
+});
@@ -0,0 +1,47 @@
+// Tenant Routes
+// Super admins manage all tenants; other users only see their own
+
+import { Hono } from 'hono';
+import { api } from '../../../../shared/routes';
+import { requireRole } from '@edge/core/middleware';
+import { authenticated, found, getActor, getStorage, parseBody, route } from '../http.ts';
+import type { HonoEnv } from '../types.ts';
+
+export const tenantRoutes = new Hono<HonoEnv>();
+
+/**
+ * GET /api/tenants
+ * 200: Tenant[] (all of them for super admins, else the caller's)
+ */
+tenantRoutes.get(route(api.tenants.list.path), authenticated, async (c) => {
+  const { tenantId, userRole } = getActor(c);
+  const storage = getStorage(c);
+
+  if (userRole === 'super_admin') {
+    return c.json(await storage.getTenants());
+  }
+
+  const tenant = await storage.getTenant(tenantId);
+  return c.json(tenant ? [tenant] : []);
+});
+
+/**
+ * POST /api/tenants (super_admin)
+ * Body: insertTenantSchema
+ * 201: Tenant | 400: validation error
+ */
+tenantRoutes.post(route(api.tenants.create.path), requireRole('super_admin'), async (c) => {
+  const input = await parseBody(c, api.tenants.create.input);
+  return c.json(await getStorage(c).createTenant(input), 201);
+});
+
+/**
+ * GET /api/tenants/:id
+ * 200: Tenant | 404: not found, or another tenant for non super admins
+ */
+tenantRoutes.get(route(api.tenants.get.path), authenticated, async (c) => {
+  const { tenantId, userRole } = getActor(c);
+  const id = c.req.param('id')!;
+  const tenant = userRole === 'super_admin' || id === tenantId ? await getStorage(c).getTenant(id) : undefined;
+  return c.json(found(tenant, 'Tenant'));
+});
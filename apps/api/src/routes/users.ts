@@ -0,0 +1,50 @@
+// User Routes
+// Users of the caller's tenant, managed by its admins
+
+import { Hono } from 'hono';
+import { api } from '../../../../shared/routes';
+import { RoleGuard, requireAdmin } from '@edge/core/middleware';
+import { UserManager } from '@edge/core/services/user-manager';
+import { PasswordHasher } from '@edge/core/services/password-hasher';
+import { AuditLogger } from '@edge/core/services/audit-logger';
+import { EventBus } from '@edge/core/services/event-bus';
+import { getActor, getStorage, parseBody, route } from '../http.ts';
+import type { HonoEnv } from '../types.ts';
+
+export const userRoutes = new Hono<HonoEnv>();
+
+/**
+ * GET /api/users (admin)
+ * 200: User[] of the caller's tenant, without password hashes
+ */
+userRoutes.get(route(api.users.list.path), requireAdmin(), async (c) => {
+  const { tenantId } = getActor(c);
+  const users = await getStorage(c).getUsers(tenantId);
+  return c.json(users.map(user => UserManager.toPublicUser(user)));
+});
+
+/**
+ * POST /api/users (admin)
+ * Body: insertUserSchema without tenantId and passwordHash, plus the plaintext `password`
+ * 201: User (without password hash) | 400: validation error | 403: super_admin requested by an admin
+ */
+userRoutes.post(route(api.users.create.path), requireAdmin(), async (c) => {
+  const { tenantId, userId, userRole } = getActor(c);
+  const { password, ...input } = await parseBody(c, api.users.create.input);
+  if (input.role === 'super_admin') {
+    RoleGuard.requireSuperAdmin(userRole);
+  }
+
+  const passwordHash = await PasswordHasher.hash(password);
+  const storage = getStorage(c);
+  const user = await storage.transaction(async tx => {
+    const created = UserManager.toPublicUser(await tx.createUser({ ...input, tenantId, passwordHash }));
+    await EventBus.record(tx, EventBus.createEvent('user.created', tenantId, { user: created }, {
+      actorId: userId,
+      audit: [AuditLogger.logUserManagement(tenantId, userId, 'create', created.id, { role: created.role })],
+    }));
+    return created;
+  });
+
+  return c.json(user, 201);
+});
@@ -0,0 +1,163 @@
+// Wallet Routes
+// Wallets, ledger history and manual credits
+
+import { Hono, type Context } from 'hono';
+import { api } from '../../../../shared/routes';
+import type { Wallet } from '../../../../shared/schema';
+import { RoleGuard, requireAdmin } from '@edge/core/middleware';
+import { WalletManager } from '@edge/core/services/wallet-manager';
+import { WalletLedger } from '@edge/core/services/wallet-ledger';
+import { WalletTransfers } from '@edge/core/services/wallet-transfer';
+import { ExchangeRates } from '@edge/core/services/exchange-rates';
+import { AuditLogger } from '@edge/core/services/audit-logger';
+import { EventBus } from '@edge/core/services/event-bus';
+import { HttpError, authenticated, found, getActor, getStorage, isAdmin, parseBody, route } from '../http.ts';
+import type { HonoEnv } from '../types.ts';
+
+export const walletRoutes = new Hono<HonoEnv>();
+
+/**
+ * Load a wallet the caller is allowed to see
+ */
+async function loadWallet(c: Context<HonoEnv>): Promise<Wallet> {
+  const { tenantId, userId, userRole } = getActor(c);
+  const wallet = found(await getStorage(c).getWallet(tenantId, c.req.param('id')!), 'Wallet');
+  RoleGuard.validateResourceOwnership(wallet.userId, userId, userRole);
+  return wallet;
+}
+
+/**
+ * GET /api/wallets?userId=
+ * Non-admins only see their own wallets
+ * 200: Wallet[]
+ */
+walletRoutes.get(route(api.wallets.list.path), authenticated, async (c) => {
+  const { tenantId, userId, userRole } = getActor(c);
+  const query = api.wallets.list.input.parse(c.req.query()) ?? {};
+  const wallets = await getStorage(c).getWallets(tenantId, isAdmin(userRole) ? query.userId : userId);
+  return c.json(wallets);
+});
+
+/**
+ * GET /api/wallets/balances?userId=&currency=
+ * Balances of every wallet, each also converted into `currency` (default: the
+ * tenant's display currency, else USD). Non-admins only see their own wallets;
+ * admins without `userId` see the whole tenant.
+ * 200: { currency, wallets, totals, missingRates } | 400: invalid currency
+ */
+walletRoutes.get(route(api.wallets.balances.path), authenticated, async (c) => {
+  const { tenantId, userId, userRole } = getActor(c);
+  const query = api.wallets.balances.input.parse(c.req.query()) ?? {};
+  const storage = getStorage(c);
+  const wallets = await storage.getWallets(tenantId, isAdmin(userRole) ? query.userId : userId);
+  return c.json(await new ExchangeRates(storage).balanceReport(tenantId, wallets, query.currency));
+});
+
+/**
+ * POST /api/wallets/transfer
+ * Body: { toUserId, amount, currency?, description? }
+ * Moves credit from the caller's wallet to a user they manage, within their role's daily limit
+ * 201: { reference, debit, credit } | 400: insufficient balance, over the limit or no wallet | 403: not managed by the caller
+ */
+walletRoutes.post(route(api.wallets.transfer.path), authenticated, async (c) => {
+  const { tenantId, userId, userRole } = getActor(c);
+  const input = await parseBody(c, api.wallets.transfer.input);
+  return c.json(await new WalletTransfers(getStorage(c)).transfer(tenantId, userId, userRole, input), 201);
+});
+
+/**
+ * GET /api/wallets/:id
+ * 200: { wallet, balance } | 403: not the owner | 404: not found
+ */
+walletRoutes.get(route(api.wallets.get.path), authenticated, async (c) => {
+  const wallet = await loadWallet(c);
+  const balance = await new WalletLedger(getStorage(c)).getBalance(wallet.tenantId, wallet.id);
+
+  return c.json({ wallet, balance: { ...balance, currency: wallet.currency } });
+});
+
+/**
+ * POST /api/wallets (admin)
+ * Body: { userId, currency? }
+ * 201: Wallet | 404: unknown user | 409: user already has a wallet in this currency
+ */
+walletRoutes.post(route(api.wallets.create.path), requireAdmin(), async (c) => {
+  const { tenantId } = getActor(c);
+  const input = await parseBody(c, api.wallets.create.input);
+  const storage = getStorage(c);
+
+  const user = await storage.getUser(input.userId);
+  if (!user || user.tenantId !== tenantId) {
+    throw new HttpError(404, 'NOT_FOUND', 'User not found');
+  }
+
+  const currency = input.currency.toUpperCase();
+  if (await storage.getWalletByUser(tenantId, user.id, currency)) {
+    throw new HttpError(409, 'ALREADY_EXISTS', `User already has a ${currency} wallet`);
+  }
+
+  const wallet = await storage.createWallet({ tenantId, userId: user.id, currency });
+  return c.json(wallet, 201);
+});
+
+/**
+ * GET /api/wallets/:id/transactions
+ * 200: Transaction[] | 403: not the owner | 404: not found
+ */
+walletRoutes.get(route(api.wallets.transactions.path), authenticated, async (c) => {
+  const wallet = await loadWallet(c);
+  return c.json(await getStorage(c).getWalletTransactions(wallet.tenantId, wallet.id));
+});
+
+/**
+ * POST /api/wallets/:id/credit (admin)
+ * Body: { amount, description?, referenceType?, referenceId? } (amount in smallest unit)
+ * 201: Transaction | 400: invalid amount | 404: not found
+ */
+walletRoutes.post(route(api.wallets.credit.path), requireAdmin(), async (c) => {
+  const { tenantId, userId } = getActor(c);
+  const input = await parseBody(c, api.wallets.credit.input);
+  const storage = getStorage(c);
+
+  const wallet = found(await storage.getWallet(tenantId, c.req.param('id')!), 'Wallet');
+
+  const transaction = await storage.transaction(async tx => {
+    const [created] = await new WalletLedger(tx).append(tenantId, wallet.id, async () => [
+      await WalletManager.credit({
+        tenantId,
+        walletId: wallet.id,
+        type: 'credit',
+        amount: input.amount,
+        currency: wallet.currency,
+        referenceType: input.referenceType ?? 'manual',
+        referenceId: input.referenceId,
+        description: input.description,
+        createdBy: userId,
+      }),
+    ]);
+
+    await EventBus.record(tx, EventBus.createEvent('wallet.credited', tenantId, {
+      walletId: wallet.id,
+      transaction: created,
+    }, {
+      actorId: userId,
+      audit: [AuditLogger.logWallet(tenantId, userId, 'credit', wallet.id, input.amount, { transactionId: created.id })],
+    }));
+    return created;
+  });
+
+  return c.json(transaction, 201);
+});
+
+/**
+ * GET /api/wallets/:id/reconcile (admin)
+ * Recalculates the balance from the full ledger and checks it against the stored checkpoints
+ * 200: WalletReconciliation | 404: not found
+ */
+walletRoutes.get(route(api.wallets.reconcile.path), requireAdmin(), async (c) => {
+  const { tenantId } = getActor(c);
+  const storage = getStorage(c);
+  const wallet = found(await storage.getWallet(tenantId, c.req.param('id')!), 'Wallet');
+
+  return c.json(await new WalletLedger(storage).reconcile(tenantId, wallet.id));
+});
@@ -0,0 +1,187 @@
+// Webhook Routes
+// Webhook registration, admin approval, test deliveries and the delivery log
+
+import { Hono, type Context } from 'hono';
+import { api } from '../../../../shared/routes';
+import type { Webhook } from '../../../../shared/schema';
+import { RoleGuard, requireAdmin } from '@edge/core/middleware';
+import { WebhookManager } from '@edge/core/services/webhook-manager';
+import { WebhookDispatcher } from '@edge/core/services/webhook-dispatcher';
+import { AuditLogger } from '@edge/core/services/audit-logger';
+import { HttpError, authenticated, found, getActor, getStorage, isAdmin, parseBody, route } from '../http.ts';
+import type { HonoEnv } from '../types.ts';
+
+export const webhookRoutes = new Hono<HonoEnv>();
+
+/**
+ * The signing secret is only shown once, in the create and rotate responses
+ */
+export function redactWebhook(webhook: Webhook): Webhook {
+  return { ...webhook, secret: '********', previousSecret: webhook.previousSecret ? '********' : null };
+}
+
+/**
+ * Load a webhook the caller is allowed to manage
+ */
+async function loadWebhook(c: Context<HonoEnv>): Promise<Webhook> {
+  const { tenantId, userId, userRole } = getActor(c);
+  const webhook = found(await getStorage(c).getWebhook(tenantId, c.req.param('id')!), 'Webhook');
+  RoleGuard.validateResourceOwnership(webhook.userId, userId, userRole);
+  return webhook;
+}
+
+/**
+ * GET /api/webhooks
+ * Non-admins only see their own webhooks
+ * 200: Webhook[] (secrets redacted)
+ */
+webhookRoutes.get(route(api.webhooks.list.path), authenticated, async (c) => {
+  const { tenantId, userId, userRole } = getActor(c);
+  const webhooks = await getStorage(c).getWebhooks(tenantId, isAdmin(userRole) ? undefined : userId);
+  return c.json(webhooks.map(redactWebhook));
+});
+
+/**
+ * POST /api/webhooks
+ * Body: { url, events }
+ * New webhooks stay inactive until an admin approves them
+ * 201: Webhook (including secret) | 400: invalid url or events
+ */
+webhookRoutes.post(route(api.webhooks.create.path), authenticated, async (c) => {
+  const { tenantId, userId } = getActor(c);
+  const input = await parseBody(c, api.webhooks.create.input);
+
+  const validation = WebhookManager.validateCreate(input.url, input.events);
+  if (!validation.valid) {
+    throw new HttpError(400, 'VALIDATION_ERROR', 'Invalid webhook', validation.errors);
+  }
+
+  const storage = getStorage(c);
+  const webhook = await storage.createWebhook({
+    tenantId,
+    userId,
+    url: input.url,
+    events: input.events,
+    secret: WebhookManager.generateSecret(),
+    isActive: false,
+    requiresApproval: true,
+  });
+  await storage.createAuditLog(
+    AuditLogger.logWebhook(tenantId, userId, 'create', webhook.id, { url: webhook.url, events: webhook.events })
+  );
+
+  return c.json(webhook, 201);
+});
+
+/**
+ * POST /api/webhooks/:id/approve (admin)
+ * 200: Webhook | 404: not found | 409: already approved
+ */
+webhookRoutes.post(route(api.webhooks.approve.path), requireAdmin(), async (c) => {
+  const { tenantId, userId } = getActor(c);
+  const storage = getStorage(c);
+  const webhook = found(await storage.getWebhook(tenantId, c.req.param('id')!), 'Webhook');
+
+  const approved = WebhookManager.approve(webhook, userId);
+  const updated = await storage.updateWebhook(tenantId, webhook.id, {
+    approvedBy: approved.approvedBy,
+    approvedAt: approved.approvedAt,
+    isActive: approved.isActive,
+  });
+  await storage.createAuditLog(AuditLogger.logWebhook(tenantId, userId, 'approve', webhook.id));
+
+  return c.json(redactWebhook(found(updated, 'Webhook')));
+});
+
+/**
+ * POST /api/webhooks/:id/revoke
+ * Owners and admins can deactivate a webhook
+ * 200: Webhook | 403: not the owner | 404: not found
+ */
+webhookRoutes.post(route(api.webhooks.revoke.path), authenticated, async (c) => {
+  const { tenantId, userId } = getActor(c);
+  const webhook = await loadWebhook(c);
+  const storage = getStorage(c);
+
+  const revoked = WebhookManager.revokeApproval(webhook);
+  const updated = await storage.updateWebhook(tenantId, webhook.id, {
+    approvedBy: revoked.approvedBy ?? null,
+    approvedAt: revoked.approvedAt ?? null,
+    isActive: revoked.isActive,
+  });
+  await storage.createAuditLog(
+    AuditLogger.logWebhook(tenantId, userId, 'update', webhook.id, { revoked: true })
+  );
+
+  return c.json(redactWebhook(found(updated, 'Webhook')));
+});
+
+/**
+ * POST /api/webhooks/:id/rotate-secret
+ * Body: { graceSeconds? }
+ * Deliveries are signed with both secrets until the grace period ends
+ * 200: Webhook (including the new secret) | 400: invalid grace period | 404: not found
+ */
+webhookRoutes.post(route(api.webhooks.rotateSecret.path), authenticated, async (c) => {
+  const { tenantId, userId } = getActor(c);
+  const webhook = await loadWebhook(c);
+  const input = await parseBody(c, api.webhooks.rotateSecret.input);
+  const storage = getStorage(c);
+
+  const rotated = WebhookManager.rotateSecret(webhook, input.graceSeconds);
+  const updated = found(await storage.updateWebhook(tenantId, webhook.id, rotated), 'Webhook');
+  await storage.createAuditLog(
+    AuditLogger.logWebhook(tenantId, userId, 'update', webhook.id, {
+      secretRotated: true,
+      previousSecretExpiresAt: rotated.previousSecretExpiresAt,
+    })
+  );
+
+  return c.json({ ...redactWebhook(updated), secret: updated.secret });
+});
+
+/**
+ * GET /api/webhooks/:id/deliveries?status=
+ * Most recent deliveries first
+ * 200: WebhookDelivery[] | 403: not the owner | 404: not found
+ */
+webhookRoutes.get(route(api.webhooks.deliveries.path), authenticated, async (c) => {
+  const { tenantId } = getActor(c);
+  const webhook = await loadWebhook(c);
+  const query = api.webhooks.deliveries.input.parse(c.req.query()) ?? {};
+
+  return c.json(await getStorage(c).getWebhookDeliveries(tenantId, { webhookId: webhook.id, status: query.status }));
+});
+
+/**
+ * POST /api/webhooks/:id/deliveries/:deliveryId/redeliver
+ * Sends a pending or failed delivery again now; a success re-enables an auto-disabled webhook
+ * 200: WebhookDelivery (after the attempt) | 404: not found | 409: already delivered or being sent
+ */
+webhookRoutes.post(route(api.webhooks.redeliver.path), authenticated, async (c) => {
+  const { tenantId, userId } = getActor(c);
+  const webhook = await loadWebhook(c);
+  const storage = getStorage(c);
+
+  const delivery = await storage.getWebhookDelivery(tenantId, c.req.param('deliveryId')!);
+  if (delivery?.webhookId !== webhook.id) {
+    throw new HttpError(404, 'NOT_FOUND', 'Webhook delivery not found');
+  }
+
+  const result = await new WebhookDispatcher(storage).redeliver(tenantId, delivery.id);
+  await storage.createAuditLog(
+    AuditLogger.logWebhook(tenantId, userId, 'trigger', webhook.id, { deliveryId: delivery.id, status: result.status })
+  );
+
+  return c.json(result);
+});
+
+/**
+ * POST /api/webhooks/:id/test
+ * Sends a signed `webhook.test` event to the endpoint
+ * 200: { success, statusCode?, responseTime?, error? } | 404: not found
+ */
+webhookRoutes.post(route(api.webhooks.test.path), authenticated, async (c) => {
+  const webhook = await loadWebhook(c);
+  return c.json(await WebhookManager.test(webhook));
+});
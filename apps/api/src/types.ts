@@ -1,21 +1,52 @@
 // Type definitions for the Edge Starter Kit API
 
+import type { IStorage } from '../../../server/storage';
+import type { ApiKey } from '../../../shared/schema';
+import type { TenantContext } from '@edge/core/middleware';
+import type { RoleType } from '@edge/core/policies/access';
+import type { BlobStore, RuntimeAdapter } from '@edge/core/types';
+
 // Environment variables available in all runtimes
 export interface AppEnv {
   NODE_ENV?: string;
   API_VERSION?: string;
   DATABASE_URL?: string;
+
+  // HMAC secret for signing access tokens (auth routes return 503 without it)
+  JWT_SECRET?: string;
+
+  // Optional server pepper for API key hashes (HMAC-SHA256 instead of SHA-256)
+  API_KEY_PEPPER?: string;
   
   // Database binding (injected by adapters)
   db?: any; // Drizzle database instance
+
+  // Storage implementation (injected by adapters)
+  storage?: IStorage;
+
+  // Runtime adapter (injected by adapters); its waitUntil keeps background work alive
+  runtime?: RuntimeAdapter;
+
+  // Blob storage for provider batch files (disk on Node, R2 on Workers)
+  blobs?: BlobStore;
   
   // KV binding (optional, runtime-specific)
   KV?: any; // Cloudflare KV, Deno KV, etc.
 }
 
+// Hono generics shared by the app and its route modules
+export type HonoEnv = { Bindings: AppEnv };
+
 // Extend Hono's context with our environment
 declare module 'hono' {
   interface ContextVariableMap {
     tenantId: string;
+    userId: string;
+    userRole: RoleType;
+    tenantContext: TenantContext;
+    sessionId: string;
+    apiKey: ApiKey;
+    apiKeyId: string;
+    apiKeyScopes: string[] | undefined;
   }
 }
@@ -43,7 +43,7 @@ export function useCreateTenant() {
 
       if (!res.ok) {
         if (res.status === 400) {
-          const error = api.tenants.create.responses[400].parse(await res.json());
+          const { error } = api.tenants.create.responses[400].parse(await res.json());
           throw new Error(error.message);
         }
         throw new Error("Failed to create tenant");
@@ -1,6 +1,6 @@
 import { useQuery, useMutation, useQueryClient } from "@tanstack/react-query";
 import { api } from "@shared/routes";
-import { type InsertUser } from "@shared/schema";
+import { z } from "zod";
 import { useToast } from "@/hooks/use-toast";
 
 export function useCurrentUser() {
@@ -15,16 +15,12 @@ export function useCurrentUser() {
   });
 }
 
-export function useUsers(tenantId?: string) {
+// Users of the signed-in user's tenant
+export function useUsers() {
   return useQuery({
-    queryKey: [api.users.list.path, tenantId],
+    queryKey: [api.users.list.path],
     queryFn: async () => {
-      // Correctly build query params
-      const url = tenantId 
-        ? `${api.users.list.path}?tenantId=${tenantId}`
-        : api.users.list.path;
-      
-      const res = await fetch(url, { credentials: "include" });
+      const res = await fetch(api.users.list.path, { credentials: "include" });
       if (!res.ok) throw new Error("Failed to fetch users");
       return api.users.list.responses[200].parse(await res.json());
     },
@@ -36,7 +32,7 @@ export function useCreateUser() {
   const { toast } = useToast();
 
   return useMutation({
-    mutationFn: async (data: InsertUser) => {
+    mutationFn: async (data: z.infer<typeof api.users.create.input>) => {
       const res = await fetch(api.users.create.path, {
         method: api.users.create.method,
         headers: { "Content-Type": "application/json" },
@@ -46,7 +42,7 @@ export function useCreateUser() {
 
       if (!res.ok) {
         if (res.status === 400) {
-          const error = api.users.create.responses[400].parse(await res.json());
+          const { error } = api.users.create.responses[400].parse(await res.json());
           throw new Error(error.message);
         }
         throw new Error("Failed to create user");
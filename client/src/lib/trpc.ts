@@ -0,0 +1,24 @@
+import { createTRPCProxyClient, httpBatchLink } from "@trpc/client";
+import type { inferRouterInputs, inferRouterOutputs } from "@trpc/server";
+import {
+  TRPC_CONTRACT_VERSION,
+  TRPC_CONTRACT_VERSION_HEADER,
+} from "@edge/trpc-contracts/version";
+import type { AppRouter } from "@edge/trpc-contracts";
+
+// Only the version module is imported at runtime; the router is type-only,
+// so no server code ends up in the client bundle.
+export type RouterInputs = inferRouterInputs<AppRouter>;
+export type RouterOutputs = inferRouterOutputs<AppRouter>;
+
+// Every call is tagged with the contract version this bundle was built against,
+// so the server can reject requests from an incompatible client.
+export const trpc = createTRPCProxyClient<AppRouter>({
+  links: [
+    httpBatchLink({
+      url: "/api/trpc",
+      headers: () => ({ [TRPC_CONTRACT_VERSION_HEADER]: TRPC_CONTRACT_VERSION }),
+      fetch: (input, init) => fetch(input, { ...init, credentials: "include" }),
+    }),
+  ],
+});
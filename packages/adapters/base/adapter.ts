@@ -2,6 +2,8 @@
 // Abstracts runtime differences (Cloudflare, Vercel, Deno, Node.js)
 // All adapters must implement this interface
 
+import type { RuntimeAdapter } from '@edge/core/types';
+
 export interface RuntimeEnv {
   DATABASE_URL?: string;
   JWT_SECRET?: string;
@@ -23,11 +25,11 @@ export interface ResponseContext {
   body: unknown;
 }
 
-export abstract class BaseRuntimeAdapter {
-  protected name: string;
-  protected env: RuntimeEnv;
+export abstract class BaseRuntimeAdapter implements RuntimeAdapter {
+  readonly name: RuntimeAdapter['name'];
+  readonly env: RuntimeEnv;
 
-  constructor(name: string, env: RuntimeEnv) {
+  constructor(name: RuntimeAdapter['name'], env: RuntimeEnv) {
     this.name = name;
     this.env = env;
   }
@@ -66,15 +68,14 @@ export class NodeAdapter extends BaseRuntimeAdapter {
 }
 
 export class CloudflareAdapter extends BaseRuntimeAdapter {
-  private waitUntilQueue: Promise<void>[] = [];
-
-  constructor(env: RuntimeEnv) {
+  constructor(env: RuntimeEnv, private ctx?: { waitUntil(promise: Promise<unknown>): void }) {
     super('cloudflare', env);
   }
 
   waitUntil(promise: Promise<void>): void {
-    // Store for Cloudflare waitUntil
-    this.waitUntilQueue.push(promise);
+    // Keep the Worker alive until background work settles
+    const settled = promise.catch(console.error);
+    this.ctx?.waitUntil(settled);
   }
 
   getEnv(key: string): string | undefined {
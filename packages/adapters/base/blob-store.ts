@@ -0,0 +1,51 @@
+// Blob Stores
+// Runtime implementations of the core BlobStore interface.
+// The Node disk store lives in ./disk-blob-store so Worker bundles never import node:fs.
+
+import type { BlobStore } from '@edge/core/types';
+
+/**
+ * The subset of the Workers R2Bucket binding used here
+ */
+export interface R2BucketLike {
+  put(key: string, value: string, options?: { httpMetadata?: { contentType?: string } }): Promise<unknown>;
+  get(key: string): Promise<{ text(): Promise<string> } | null>;
+  delete(key: string): Promise<void>;
+  list(options?: { prefix?: string; cursor?: string }): Promise<{
+    objects: Array<{ key: string }>;
+    truncated: boolean;
+    cursor?: string;
+  }>;
+}
+
+export class R2BlobStore implements BlobStore {
+  constructor(private readonly bucket: R2BucketLike) {}
+
+  async put(key: string, body: string, options: { contentType?: string } = {}): Promise<void> {
+    await this.bucket.put(key, body, {
+      httpMetadata: options.contentType ? { contentType: options.contentType } : undefined,
+    });
+  }
+
+  async get(key: string): Promise<string | null> {
+    const object = await this.bucket.get(key);
+    return object ? object.text() : null;
+  }
+
+  async delete(key: string): Promise<void> {
+    await this.bucket.delete(key);
+  }
+
+  async list(prefix: string): Promise<string[]> {
+    const keys: string[] = [];
+    let cursor: string | undefined;
+
+    do {
+      const page = await this.bucket.list({ prefix, cursor });
+      keys.push(...page.objects.map(object => object.key));
+      cursor = page.truncated ? page.cursor : undefined;
+    } while (cursor);
+
+    return keys;
+  }
+}
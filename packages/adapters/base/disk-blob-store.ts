@@ -0,0 +1,56 @@
+// Disk Blob Store
+// Node-only BlobStore backed by a local directory; keys map to relative file paths
+
+import { mkdir, readFile, readdir, rm, writeFile } from 'node:fs/promises';
+import { dirname, join, relative, resolve, sep } from 'node:path';
+import type { BlobStore } from '@edge/core/types';
+
+export class DiskBlobStore implements BlobStore {
+  private readonly root: string;
+
+  constructor(root: string) {
+    this.root = resolve(root);
+  }
+
+  async put(key: string, body: string): Promise<void> {
+    const path = this.resolveKey(key);
+    await mkdir(dirname(path), { recursive: true });
+    await writeFile(path, body, 'utf8');
+  }
+
+  async get(key: string): Promise<string | null> {
+    try {
+      return await readFile(this.resolveKey(key), 'utf8');
+    } catch (error) {
+      if ((error as NodeJS.ErrnoException).code === 'ENOENT') {
+        return null;
+      }
+      throw error;
+    }
+  }
+
+  async delete(key: string): Promise<void> {
+    await rm(this.resolveKey(key), { force: true });
+  }
+
+  async list(prefix: string): Promise<string[]> {
+    const entries = await readdir(this.root, { recursive: true, withFileTypes: true }).catch(() => []);
+
+    return entries
+      .filter(entry => entry.isFile())
+      .map(entry => relative(this.root, join(entry.parentPath, entry.name)).split(sep).join('/'))
+      .filter(key => key.startsWith(prefix))
+      .sort();
+  }
+
+  /**
+   * Map a key to a path inside the root, rejecting keys that would escape it
+   */
+  private resolveKey(key: string): string {
+    const path = resolve(this.root, key);
+    if (!path.startsWith(this.root + sep)) {
+      throw new Error(`Invalid blob key '${key}'`);
+    }
+    return path;
+  }
+}
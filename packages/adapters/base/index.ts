@@ -12,4 +12,8 @@ export {
   type ResponseContext,
 } from './adapter';
 
+export { R2BlobStore, type R2BucketLike } from './blob-store';
+
+export { IntervalScheduler } from './scheduler';
+
 export { type Env, type AdapterContext } from './env';
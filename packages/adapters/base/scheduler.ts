@@ -0,0 +1,41 @@
+// Schedulers
+// Implementations of the core Scheduler interface (Node only for now).
+// A failing run is logged and the job keeps its schedule.
+
+import type { ScheduledJob, Scheduler } from '@edge/core/types';
+
+/**
+ * Node: one timer per job; a run still going when the next is due is not overlapped
+ */
+export class IntervalScheduler implements Scheduler {
+  private readonly timers: ReturnType<typeof setInterval>[] = [];
+
+  schedule(job: ScheduledJob): void {
+    let running = false;
+
+    this.timers.push(setInterval(async () => {
+      if (running) {
+        return;
+      }
+      running = true;
+      try {
+        await runJob(job, new Date());
+      } finally {
+        running = false;
+      }
+    }, job.intervalMs));
+  }
+
+  stop(): void {
+    this.timers.forEach(timer => clearInterval(timer));
+    this.timers.length = 0;
+  }
+}
+
+async function runJob(job: ScheduledJob, now: Date): Promise<void> {
+  try {
+    await job.run(now);
+  } catch (error) {
+    console.error(`[Scheduler] ${job.name} failed:`, error);
+  }
+}
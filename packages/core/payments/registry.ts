@@ -22,7 +22,8 @@ export class PaymentGatewayRegistry {
       throw new Error(`Payment gateway type '${config.type}' not registered`);
     }
 
-    return new GatewayClass(config);
+    // Only concrete subclasses are registered
+    return new (GatewayClass as unknown as new (config: PaymentGatewayConfig) => BasePaymentGateway)(config);
   }
 
   static getSupportedTypes(): string[] {
@@ -1,15 +1,70 @@
 // API Provider - Synchronous API calls
+// Requests and responses are described by `providers.config`, see http-mapping.ts
 
 import { BaseProvider, ProviderOrderInput, ProviderOrderResponse, ProviderStatusResponse } from './base';
+import {
+  HTTP_AUTH_TYPES,
+  HttpAuthConfig,
+  HttpEndpointConfig,
+  buildHttpRequest,
+  extractFirst,
+  parseResponseBody,
+  validateEndpoint,
+} from './http-mapping';
 
+export type ApiEndpointName = 'placeOrder' | 'checkStatus';
+
+/**
+ * Without configuration the provider speaks our generic shape:
+ * `POST /orders` with `{service, data}` and `GET /orders/:id`, Bearer auth
+ */
+const DEFAULT_ENDPOINTS: Record<ApiEndpointName, HttpEndpointConfig> = {
+  placeOrder: {
+    method: 'POST',
+    path: '/orders',
+    body: { service: '{{service}}', data: '{{input}}' },
+    response: { orderId: ['orderId', 'id'], status: 'status' },
+  },
+  checkStatus: {
+    method: 'GET',
+    path: '/orders/{{providerOrderId}}',
+    response: { status: 'status', completedAt: 'completedAt' },
+  },
+};
+
+const DEFAULT_AUTH: HttpAuthConfig = { type: 'bearer' };
+
+// Normalized statuses of an order finished by the placement answer itself
+const COMPLETED_STATUSES = ['completed', 'delivered'];
+
+/**
+ * Config:
+ * - `apiUrl`: supplier API base URL
+ * - `auth`: `{type: bearer | header | query | form | none, name?, credential?, prefix?}`
+ * - `endpoints.placeOrder` / `endpoints.checkStatus`: method, path, query, headers,
+ *   body template, `bodyType` (json | form) and `response` paths for
+ *   `orderId`, `status`, `result`, `error` and `completedAt`
+ *
+ * Templates see `service`, `input`, `metadata`, `reference`, `providerOrderId`,
+ * `credentials` and `config`, e.g. `{"imei": "{{input.imei}}"}`.
+ */
 export class ApiProvider extends BaseProvider {
   async validateInput(input: Record<string, any>): Promise<{ valid: boolean; errors?: string[] }> {
     const errors: string[] = [];
-    
+
     if (!this.config.config.apiUrl) {
       errors.push('API URL not configured');
     }
-    
+
+    const auth = this.config.config.auth;
+    if (auth !== undefined && !HTTP_AUTH_TYPES.includes(auth?.type)) {
+      errors.push(`Auth type must be one of: ${HTTP_AUTH_TYPES.join(', ')}`);
+    }
+
+    for (const [name, endpoint] of Object.entries(this.config.config.endpoints ?? {})) {
+      errors.push(...validateEndpoint(name, endpoint));
+    }
+
     return {
       valid: errors.length === 0,
       errors: errors.length > 0 ? errors : undefined,
@@ -18,20 +73,13 @@ export class ApiProvider extends BaseProvider {
 
   async placeOrder(input: ProviderOrderInput): Promise<ProviderOrderResponse> {
     try {
-      const apiUrl = this.config.config.apiUrl;
-      const apiKey = this.config.credentials.apiKey;
-
-      const response = await fetch(`${apiUrl}/orders`, {
-        method: 'POST',
-        headers: {
-          'Content-Type': 'application/json',
-          'Authorization': `Bearer ${apiKey}`,
-        },
-        body: JSON.stringify({
-          service: input.serviceId,
-          data: input.inputData,
-        }),
-      });
+      const endpoint = this.getEndpoint('placeOrder');
+      const { response, body } = await this.request(endpoint, {
+        service: input.serviceId,
+        input: input.inputData,
+        metadata: input.metadata ?? {},
+        reference: input.reference,
+      }, input.signal);
 
       if (!response.ok) {
         return {
@@ -44,13 +92,42 @@ export class ApiProvider extends BaseProvider {
         };
       }
 
-      const data = await response.json();
+      // Many suppliers answer 200 with an error field
+      const error = extractFirst(body, endpoint.response?.error);
+      if (error !== undefined) {
+        return {
+          success: false,
+          status: 'failed',
+          error: {
+            code: 'API_ERROR',
+            message: describe(error),
+          },
+        };
+      }
+
+      const providerOrderId = extractFirst(body, endpoint.response?.orderId);
+      const hasOrderId = providerOrderId !== undefined && providerOrderId !== null && providerOrderId !== '';
+      const status = describe(extractFirst(body, endpoint.response?.status) ?? '');
+
+      // Without an ID the order can be neither polled nor matched to a callback.
+      // Only an answer that already completes it does without one; it keeps our reference.
+      if (!hasOrderId && !COMPLETED_STATUSES.includes(this.normalizeStatus(status))) {
+        return {
+          success: false,
+          status: 'failed',
+          data: this.extractResult(endpoint, body),
+          error: {
+            code: 'MISSING_ORDER_ID',
+            message: 'Provider answered without an order ID',
+          },
+        };
+      }
 
       return {
         success: true,
-        providerOrderId: data.orderId || data.id,
-        status: this.normalizeStatus(data.status),
-        data,
+        providerOrderId: hasOrderId ? String(providerOrderId) : input.reference,
+        status,
+        data: this.extractResult(endpoint, body),
       };
     } catch (error: any) {
       return {
@@ -66,27 +143,25 @@ export class ApiProvider extends BaseProvider {
 
   async checkStatus(providerOrderId: string): Promise<ProviderStatusResponse> {
     try {
-      const apiUrl = this.config.config.apiUrl;
-      const apiKey = this.config.credentials.apiKey;
-
-      const response = await fetch(`${apiUrl}/orders/${providerOrderId}`, {
-        method: 'GET',
-        headers: {
-          'Authorization': `Bearer ${apiKey}`,
-        },
-      });
+      const endpoint = this.getEndpoint('checkStatus');
+      const { response, body } = await this.request(endpoint, { providerOrderId });
 
       if (!response.ok) {
         throw new Error(`API returned ${response.status}`);
       }
 
-      const data = await response.json();
+      const error = extractFirst(body, endpoint.response?.error);
+      if (error !== undefined) {
+        throw new Error(describe(error));
+      }
+
+      const completedAt = extractFirst(body, endpoint.response?.completedAt);
 
       return {
         providerOrderId,
-        status: this.normalizeStatus(data.status),
-        data,
-        completedAt: data.completedAt,
+        status: describe(extractFirst(body, endpoint.response?.status) ?? ''),
+        data: this.extractResult(endpoint, body),
+        completedAt: typeof completedAt === 'string' ? completedAt : undefined,
       };
     } catch (error: any) {
       return {
@@ -102,4 +177,57 @@ export class ApiProvider extends BaseProvider {
   normalizeStatus(providerStatus: string): string {
     return this.mapStatus(providerStatus);
   }
+
+  /**
+   * Endpoint defaults, overridden field by field by `config.endpoints`
+   */
+  protected defaultEndpoint(name: ApiEndpointName): HttpEndpointConfig {
+    return DEFAULT_ENDPOINTS[name];
+  }
+
+  protected getEndpoint(name: ApiEndpointName): HttpEndpointConfig {
+    const defaults = this.defaultEndpoint(name);
+    const configured: Partial<HttpEndpointConfig> = this.config.config.endpoints?.[name] ?? {};
+
+    return {
+      ...defaults,
+      ...configured,
+      response: { ...defaults.response, ...configured.response },
+    };
+  }
+
+  private async request(
+    endpoint: HttpEndpointConfig,
+    values: Record<string, unknown>,
+    signal?: AbortSignal
+  ): Promise<{ response: Response; body: unknown }> {
+    const { url, init } = buildHttpRequest(
+      this.config.config.apiUrl,
+      endpoint,
+      this.config.config.auth ?? DEFAULT_AUTH,
+      { ...values, credentials: this.config.credentials, config: this.config.config },
+      this.config.credentials
+    );
+
+    const response = await fetch(url, { ...init, signal });
+    return { response, body: parseResponseBody(await response.text()) };
+  }
+
+  /**
+   * The order output: the mapped `result`, or the whole response
+   */
+  private extractResult(endpoint: HttpEndpointConfig, body: unknown): Record<string, any> {
+    const result = endpoint.response?.result ? extractFirst(body, endpoint.response.result) : body;
+    if (result && typeof result === 'object' && !Array.isArray(result)) {
+      return result as Record<string, any>;
+    }
+    return { result };
+  }
+}
+
+function describe(value: unknown): string {
+  if (Array.isArray(value)) {
+    return value.map(describe).join(', ');
+  }
+  return value !== null && typeof value === 'object' ? JSON.stringify(value) : String(value);
 }
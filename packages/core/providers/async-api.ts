@@ -0,0 +1,113 @@
+// Async API Provider - Orders are accepted now and completed later
+// The supplier calls us back with the outcome; checkStatus remains available for polling
+
+import type { CallbackProvider, ProviderCallbackRequest, ProviderStatusResponse } from './base';
+import { ProviderError } from './base';
+import { ApiEndpointName, ApiProvider } from './api';
+import type { HttpEndpointConfig } from './http-mapping';
+import { verifyWebhookSignature } from '../services/webhook-signature';
+
+const DEFAULT_SIGNATURE_HEADER = 'x-signature';
+
+/**
+ * Config (plus the request mapping of ApiProvider):
+ * - `callbackUrl`: our `/api/providers/:slug/callback` URL, sent with every order;
+ *   a custom `placeOrder` body passes it on with `{{config.callbackUrl}}`
+ * - `signatureHeader`: header carrying the callback signature (default `X-Signature`)
+ * - `signatureToleranceSeconds`: how old a signed callback may be (default 300)
+ * - `orderIdField` / `statusField`: callback payload fields (default `orderId` / `status`)
+ *
+ * Credentials: `apiKey`, and `callbackSecret` used to sign callbacks.
+ * Signatures use our webhook format, `t=<unix seconds>,v1=<hex HMAC-SHA256 of "<t>.<raw body>">`
+ * (see webhook-signature.ts), so a captured callback cannot be replayed once
+ * outside the tolerance window.
+ */
+export class AsyncApiProvider extends ApiProvider implements CallbackProvider {
+  async validateInput(input: Record<string, any>): Promise<{ valid: boolean; errors?: string[] }> {
+    const result = await super.validateInput(input);
+    const errors = result.errors ?? [];
+
+    // Without it no callback can be trusted and the order would never complete
+    if (!this.config.credentials.callbackSecret) {
+      errors.push('Callback secret not configured');
+    }
+
+    return {
+      valid: errors.length === 0,
+      errors: errors.length > 0 ? errors : undefined,
+    };
+  }
+
+  protected defaultEndpoint(name: ApiEndpointName): HttpEndpointConfig {
+    const endpoint = super.defaultEndpoint(name);
+    if (name !== 'placeOrder') {
+      return endpoint;
+    }
+
+    // Dropped from the body when no callback URL is configured
+    return {
+      ...endpoint,
+      body: { ...(endpoint.body as Record<string, unknown>), callbackUrl: '{{config.callbackUrl}}' },
+    };
+  }
+
+  async verifyCallback(request: ProviderCallbackRequest): Promise<boolean> {
+    const secret = this.config.credentials.callbackSecret;
+    const header = (this.config.config.signatureHeader ?? DEFAULT_SIGNATURE_HEADER).toLowerCase();
+
+    if (!secret) {
+      return false;
+    }
+
+    const result = await verifyWebhookSignature(request.body, request.headers[header], secret, {
+      toleranceSeconds: this.config.config.signatureToleranceSeconds,
+    });
+    return result.valid;
+  }
+
+  /**
+   * @throws ProviderError INVALID_CALLBACK when the payload lacks an order ID or status
+   */
+  parseCallback(request: ProviderCallbackRequest): ProviderStatusResponse {
+    const payload = this.parseBody(request);
+    const orderIdField = this.config.config.orderIdField ?? 'orderId';
+    const statusField = this.config.config.statusField ?? 'status';
+
+    const providerOrderId = payload[orderIdField] ?? payload.id;
+    const status = payload[statusField];
+
+    if (providerOrderId === undefined || providerOrderId === null || typeof status !== 'string' || !status) {
+      throw new ProviderError(
+        `Callback must include '${orderIdField}' and '${statusField}'`,
+        'INVALID_CALLBACK'
+      );
+    }
+
+    return {
+      providerOrderId: String(providerOrderId),
+      status,
+      data: payload,
+      completedAt: typeof payload.completedAt === 'string' ? payload.completedAt : undefined,
+    };
+  }
+
+  private parseBody(request: ProviderCallbackRequest): Record<string, any> {
+    const contentType = request.headers['content-type'] ?? '';
+
+    // Older supplier panels post form fields rather than JSON
+    if (contentType.includes('application/x-www-form-urlencoded')) {
+      return Object.fromEntries(new URLSearchParams(request.body));
+    }
+
+    try {
+      const payload = JSON.parse(request.body);
+      if (payload && typeof payload === 'object' && !Array.isArray(payload)) {
+        return payload;
+      }
+    } catch {
+      // Reported below
+    }
+
+    throw new ProviderError('Callback body must be a JSON object', 'INVALID_CALLBACK');
+  }
+}
@@ -1,7 +1,9 @@
 // Provider Plugin Base Interface
 // All providers must implement this interface
 
-export type ProviderType = 'manual' | 'api' | 'async_api' | 'webhook' | 'file_based';
+import type { FieldSchema } from '../services/schema-validator';
+
+export type ProviderType = 'manual' | 'api' | 'async_api' | 'webhook' | 'file_based' | 'dhru';
 
 export interface ProviderConfig {
   id: string;
@@ -16,6 +18,8 @@ export interface ProviderOrderInput {
   serviceId: string;
   inputData: Record<string, any>;
   metadata?: Record<string, any>;
+  reference?: string; // our order ID
+  signal?: AbortSignal; // aborted when the caller gives up on the request
 }
 
 export interface ProviderOrderResponse {
@@ -36,6 +40,79 @@ export interface ProviderStatusResponse {
   completedAt?: string;
 }
 
+/**
+ * An inbound provider callback, as received
+ */
+export interface ProviderCallbackRequest {
+  body: string; // raw body, exactly as signed by the provider
+  headers: Record<string, string>; // lower-cased header names
+}
+
+/**
+ * Implemented by providers that report order updates by calling us back
+ */
+export interface CallbackProvider {
+  verifyCallback(request: ProviderCallbackRequest): Promise<boolean>;
+  parseCallback(request: ProviderCallbackRequest): ProviderStatusResponse;
+}
+
+/**
+ * Credit left on the supplier account
+ */
+export interface ProviderBalance {
+  balance: number; // In cents
+  currency?: string;
+  data?: Record<string, any>;
+}
+
+/**
+ * A service as listed by the supplier
+ */
+export interface ProviderCatalogEntry {
+  providerServiceId: string;
+  name: string;
+  group?: string;
+  cost: number; // In cents
+  currency?: string;
+  deliveryTime?: string;
+  description?: string;
+  fields: FieldSchema[];
+}
+
+/**
+ * Implemented by providers that report the account balance
+ */
+export interface BalanceProvider {
+  getBalance(): Promise<ProviderBalance>;
+}
+
+/**
+ * Implemented by providers that publish their service list
+ */
+export interface CatalogProvider {
+  listServices(): Promise<ProviderCatalogEntry[]>;
+}
+
+export class ProviderError extends Error {
+  constructor(message: string, public code: string) {
+    super(message);
+    this.name = 'ProviderError';
+  }
+}
+
+export function supportsCallbacks(provider: BaseProvider): provider is BaseProvider & CallbackProvider {
+  const candidate = provider as Partial<CallbackProvider>;
+  return typeof candidate.verifyCallback === 'function' && typeof candidate.parseCallback === 'function';
+}
+
+export function supportsBalance(provider: BaseProvider): provider is BaseProvider & BalanceProvider {
+  return typeof (provider as Partial<BalanceProvider>).getBalance === 'function';
+}
+
+export function supportsCatalog(provider: BaseProvider): provider is BaseProvider & CatalogProvider {
+  return typeof (provider as Partial<CatalogProvider>).listServices === 'function';
+}
+
 export abstract class BaseProvider {
   protected config: ProviderConfig;
 
@@ -0,0 +1,282 @@
+// DHRU Fusion Provider - The API most GSM unlocking suppliers expose
+// Form-encoded `action` requests with username/apiaccesskey auth and base64 XML parameters
+
+import {
+  BaseProvider,
+  ProviderError,
+  type BalanceProvider,
+  type CatalogProvider,
+  type ProviderBalance,
+  type ProviderCatalogEntry,
+  type ProviderOrderInput,
+  type ProviderOrderResponse,
+  type ProviderStatusResponse,
+} from './base';
+import type { FieldSchema } from '../services/schema-validator';
+import { toBase64, utf8 } from '../services/crypto';
+
+/**
+ * DHRU order status codes, used when `statusMapping` has no entry for a code
+ */
+export const DHRU_STATUS_CODES: Record<string, string> = {
+  '0': 'pending', // New
+  '1': 'processing', // In process
+  '3': 'failed', // Rejected
+  '4': 'completed', // Available
+};
+
+// Order parameters DHRU knows by name; matching input fields are sent as-is
+const DHRU_PARAMETERS = ['MODELID', 'PROVIDERID', 'MEP', 'PIN', 'KBH', 'PRD', 'TYPE', 'REFERENCE', 'LOCKS', 'SN', 'SECRO'];
+
+const DHRU_NEW = '0';
+const DEFAULT_IMEI_FIELD = 'imei';
+
+type DhruAction = 'placeimeiorder' | 'getimeiorder' | 'imeiservicelist' | 'accountinfo';
+
+/**
+ * Config:
+ * - `apiUrl`: supplier site URL; `/api/index.php` is appended unless the URL ends in `.php`
+ * - `imeiField`: input field sent as IMEI (default `imei`)
+ * - `parameterFields`: input fields sent as DHRU parameters, e.g. `{"model": "MODELID"}`;
+ *   fields named after a DHRU parameter (`pin`, `sn`, ...) need no entry.
+ *   Remaining input fields travel as `CUSTOMFIELD`
+ *
+ * Credentials: `username` and `apiKey` (the DHRU API access key).
+ */
+export class DhruProvider extends BaseProvider implements BalanceProvider, CatalogProvider {
+  async validateInput(input: Record<string, any>): Promise<{ valid: boolean; errors?: string[] }> {
+    const errors: string[] = [];
+
+    if (!this.config.config.apiUrl) {
+      errors.push('API URL not configured');
+    }
+
+    if (!this.config.credentials.username || !this.config.credentials.apiKey) {
+      errors.push('DHRU username and API access key not configured');
+    }
+
+    if (!input[this.config.config.imeiField ?? DEFAULT_IMEI_FIELD]) {
+      errors.push('IMEI is required');
+    }
+
+    return {
+      valid: errors.length === 0,
+      errors: errors.length > 0 ? errors : undefined,
+    };
+  }
+
+  async placeOrder(input: ProviderOrderInput): Promise<ProviderOrderResponse> {
+    try {
+      const result = await this.call('placeimeiorder', this.buildOrderParameters(input), input.signal);
+      // Without it the order could never be looked up again
+      if (result.REFERENCEID === undefined || result.REFERENCEID === null || result.REFERENCEID === '') {
+        throw new ProviderError('Supplier answered without an order reference', 'MISSING_ORDER_ID');
+      }
+
+      return {
+        success: true,
+        providerOrderId: String(result.REFERENCEID),
+        status: DHRU_NEW,
+        data: result,
+      };
+    } catch (error: any) {
+      return {
+        success: false,
+        status: 'failed',
+        error: {
+          code: error instanceof ProviderError ? error.code : 'NETWORK_ERROR',
+          message: error.message,
+        },
+      };
+    }
+  }
+
+  async checkStatus(providerOrderId: string): Promise<ProviderStatusResponse> {
+    try {
+      const result = await this.call('getimeiorder', { ID: providerOrderId });
+
+      return {
+        providerOrderId,
+        status: String(result.STATUS ?? DHRU_NEW),
+        data: result,
+      };
+    } catch (error: any) {
+      return {
+        providerOrderId,
+        status: 'error',
+        data: {
+          error: error.message,
+        },
+      };
+    }
+  }
+
+  /**
+   * DHRU status codes go through `statusMapping` first, then the standard codes
+   */
+  normalizeStatus(providerStatus: string): string {
+    return this.config.statusMapping[providerStatus]
+      ?? DHRU_STATUS_CODES[providerStatus]
+      ?? this.mapStatus(providerStatus);
+  }
+
+  /**
+   * @throws ProviderError PROVIDER_ERROR when the supplier refuses the request
+   */
+  async getBalance(): Promise<ProviderBalance> {
+    const result = await this.call('accountinfo');
+    // DHRU spells it `AccoutInfo`; newer panels fixed the typo
+    const info = result.AccoutInfo ?? result.AccountInfo ?? {};
+
+    return {
+      balance: toCents(info.creditraw ?? info.credit),
+      currency: info.currency,
+      data: info,
+    };
+  }
+
+  /**
+   * @throws ProviderError PROVIDER_ERROR when the supplier refuses the request
+   */
+  async listServices(): Promise<ProviderCatalogEntry[]> {
+    const result = await this.call('imeiservicelist');
+    const entries: ProviderCatalogEntry[] = [];
+
+    for (const [groupKey, group] of Object.entries<Record<string, any>>(result.LIST ?? {})) {
+      for (const [serviceKey, service] of Object.entries<Record<string, any>>(group.SERVICES ?? {})) {
+        entries.push({
+          providerServiceId: String(service.SERVICEID ?? serviceKey),
+          name: String(service.SERVICENAME ?? serviceKey),
+          group: group.GROUPNAME ?? groupKey,
+          cost: toCents(service.CREDIT),
+          deliveryTime: service.TIME || undefined,
+          description: service.INFO || undefined,
+          fields: this.buildFields(service),
+        });
+      }
+    }
+
+    return entries;
+  }
+
+  /**
+   * One API call; DHRU answers HTTP 200 with `ERROR` or `SUCCESS`
+   * @returns the first `SUCCESS` entry
+   * @throws ProviderError PROVIDER_ERROR
+   */
+  private async call(
+    action: DhruAction,
+    parameters?: Record<string, string>,
+    signal?: AbortSignal
+  ): Promise<Record<string, any>> {
+    const form = new URLSearchParams({
+      username: this.config.credentials.username ?? '',
+      apiaccesskey: this.config.credentials.apiKey ?? '',
+      action,
+      requestformat: 'JSON',
+    });
+    if (parameters) {
+      form.set('parameters', toBase64(utf8(toXml(parameters))));
+    }
+
+    const response = await fetch(this.getEndpoint(), {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/x-www-form-urlencoded' },
+      body: form.toString(),
+      signal,
+    });
+
+    if (!response.ok) {
+      throw new ProviderError(`API returned ${response.status}`, 'PROVIDER_ERROR');
+    }
+
+    const body = await response.json() as Record<string, any>;
+    const error = body.ERROR?.[0];
+    if (error) {
+      throw new ProviderError(error.MESSAGE ?? error.FULL_DESCRIPTION ?? 'Request refused', 'PROVIDER_ERROR');
+    }
+
+    const success = body.SUCCESS?.[0];
+    if (!success) {
+      throw new ProviderError('Unexpected response from supplier', 'PROVIDER_ERROR');
+    }
+    return success;
+  }
+
+  private getEndpoint(): string {
+    const apiUrl: string = this.config.config.apiUrl;
+    return /\.php$/i.test(apiUrl) ? apiUrl : `${apiUrl.replace(/\/+$/, '')}/api/index.php`;
+  }
+
+  private buildOrderParameters(input: ProviderOrderInput): Record<string, string> {
+    const imeiField = this.config.config.imeiField ?? DEFAULT_IMEI_FIELD;
+    const parameterFields: Record<string, string> = this.config.config.parameterFields ?? {};
+    const parameters: Record<string, string> = {
+      IMEI: String(input.inputData[imeiField] ?? ''),
+      ID: input.serviceId,
+    };
+
+    const custom: Record<string, any> = {};
+    for (const [field, value] of Object.entries(input.inputData)) {
+      if (field === imeiField || value === undefined || value === null || value === '') {
+        continue;
+      }
+      const parameter = parameterFields[field]
+        ?? (DHRU_PARAMETERS.includes(field.toUpperCase()) ? field.toUpperCase() : undefined);
+      if (parameter) {
+        parameters[parameter] = String(value);
+      } else {
+        custom[field] = value;
+      }
+    }
+
+    if (Object.keys(custom).length > 0) {
+      parameters.CUSTOMFIELD = toBase64(utf8(JSON.stringify(custom)));
+    }
+    return parameters;
+  }
+
+  /**
+   * IMEI plus whatever the service marks as `Requires.<Name>: Required`
+   */
+  private buildFields(service: Record<string, any>): FieldSchema[] {
+    const fields: FieldSchema[] = [{
+      name: this.config.config.imeiField ?? DEFAULT_IMEI_FIELD,
+      type: 'text',
+      label: 'IMEI',
+      required: true,
+      validation: { pattern: '^[0-9]{15}$' },
+    }];
+
+    for (const [key, value] of Object.entries(service)) {
+      const requirement = key.match(/^Requires\.(.+)$/);
+      if (requirement && String(value).toLowerCase() === 'required') {
+        fields.push({
+          name: requirement[1].toLowerCase(),
+          type: 'text',
+          label: requirement[1],
+          required: true,
+        });
+      }
+    }
+
+    return fields;
+  }
+}
+
+function toXml(parameters: Record<string, string>): string {
+  const escape = (value: string) =>
+    value.replace(/&/g, '&amp;').replace(/</g, '&lt;').replace(/>/g, '&gt;');
+  const body = Object.entries(parameters)
+    .map(([key, value]) => `<${key}>${escape(value)}</${key}>`)
+    .join('');
+  return `<PARAMETERS>${body}</PARAMETERS>`;
+}
+
+/**
+ * Supplier amounts come as decimal strings, e.g. "12.50" or "1,024.00"
+ */
+function toCents(value: unknown): number {
+  const amount = Number(String(value ?? '0').replace(/[^0-9.-]/g, ''));
+  return Number.isFinite(amount) ? Math.round(amount * 100) : 0;
+}
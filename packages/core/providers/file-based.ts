@@ -0,0 +1,236 @@
+// File-Based Provider - Orders are exchanged with the supplier as batch files
+// Orders are queued on placement, exported in batches and completed by a results file
+
+import { BaseProvider, ProviderError, ProviderOrderInput, ProviderOrderResponse, ProviderStatusResponse } from './base';
+
+// Provider statuses of lines waiting for, and included in, an export file
+export const FILE_BATCH_QUEUED = 'queued';
+export const FILE_BATCH_EXPORTED = 'exported';
+
+export type FileBatchFormat = 'csv' | 'json';
+
+/**
+ * One order (or bulk order item) in an export file
+ */
+export interface FileBatchLine {
+  reference: string; // providerOrderId, echoed back in the results file
+  service: string; // the supplier's service ID
+  inputData: Record<string, any>;
+}
+
+/**
+ * An export column; `field` is `reference`, `service` or `input.<name>`
+ */
+export interface FileBatchColumn {
+  header: string;
+  field: string;
+}
+
+/**
+ * One row of a results file: a status report, or why the row was unusable
+ */
+export interface FileBatchResult {
+  row: number; // 1-based, excluding the CSV header
+  report?: ProviderStatusResponse;
+  error?: string;
+}
+
+export interface FileBatchExport {
+  content: string;
+  contentType: string;
+  extension: string;
+}
+
+/**
+ * Config:
+ * - `format`: `csv` (default) or `json`, used for both export and results files
+ * - `columns`: export layout (default: reference, service, then every input field)
+ * - `delimiter`: CSV delimiter (default `,`)
+ * - `referenceColumn` / `statusColumn`: results file fields (default `reference` / `status`)
+ */
+export class FileBasedProvider extends BaseProvider {
+  async validateInput(input: Record<string, any>): Promise<{ valid: boolean; errors?: string[] }> {
+    const format = this.config.config.format;
+    if (format !== undefined && format !== 'csv' && format !== 'json') {
+      return { valid: false, errors: [`Unsupported file format '${format}'`] };
+    }
+    return { valid: true };
+  }
+
+  async placeOrder(input: ProviderOrderInput): Promise<ProviderOrderResponse> {
+    return {
+      success: true,
+      providerOrderId: input.reference ?? crypto.randomUUID(),
+      status: FILE_BATCH_QUEUED,
+      data: { awaitingBatch: true },
+    };
+  }
+
+  async checkStatus(providerOrderId: string): Promise<ProviderStatusResponse> {
+    // Outcomes only arrive through results files
+    return {
+      providerOrderId,
+      status: FILE_BATCH_QUEUED,
+    };
+  }
+
+  normalizeStatus(providerStatus: string): string {
+    return this.mapStatus(providerStatus);
+  }
+
+  getFormat(): FileBatchFormat {
+    return this.config.config.format === 'json' ? 'json' : 'csv';
+  }
+
+  /**
+   * Render lines in the configured layout
+   */
+  buildExport(lines: FileBatchLine[]): FileBatchExport {
+    const columns = this.getColumns(lines);
+    const rows = lines.map(line =>
+      Object.fromEntries(columns.map(column => [column.header, this.readField(line, column.field)]))
+    );
+
+    if (this.getFormat() === 'json') {
+      return { content: JSON.stringify(rows, null, 2), contentType: 'application/json', extension: 'json' };
+    }
+
+    const delimiter = this.getDelimiter();
+    const content = [
+      columns.map(column => encodeCsvField(column.header, delimiter)).join(delimiter),
+      ...rows.map(row => columns.map(column => encodeCsvField(row[column.header], delimiter)).join(delimiter)),
+    ].join('\r\n');
+
+    return { content: `${content}\r\n`, contentType: 'text/csv', extension: 'csv' };
+  }
+
+  /**
+   * Read a results file into one status report per row
+   * @throws ProviderError INVALID_RESULTS_FILE when the file cannot be parsed
+   */
+  parseResults(content: string): FileBatchResult[] {
+    const rows = this.getFormat() === 'json' ? parseJsonRows(content) : parseCsvRows(content, this.getDelimiter());
+    const referenceColumn = this.config.config.referenceColumn ?? 'reference';
+    const statusColumn = this.config.config.statusColumn ?? 'status';
+
+    return rows.map((row, index) => {
+      const reference = row[referenceColumn];
+      const status = row[statusColumn];
+
+      if (reference === undefined || reference === null || reference === '' || typeof status !== 'string' || !status) {
+        return { row: index + 1, error: `Missing '${referenceColumn}' or '${statusColumn}'` };
+      }
+
+      return { row: index + 1, report: { providerOrderId: String(reference), status, data: row } };
+    });
+  }
+
+  private getColumns(lines: FileBatchLine[]): FileBatchColumn[] {
+    const configured = this.config.config.columns as FileBatchColumn[] | undefined;
+    if (configured?.length) {
+      return configured;
+    }
+
+    const inputFields = Array.from(new Set(lines.flatMap(line => Object.keys(line.inputData))));
+    return [
+      { header: 'reference', field: 'reference' },
+      { header: 'service', field: 'service' },
+      ...inputFields.map(name => ({ header: name, field: `input.${name}` })),
+    ];
+  }
+
+  private readField(line: FileBatchLine, field: string): unknown {
+    if (field === 'reference') return line.reference;
+    if (field === 'service') return line.service;
+    if (field.startsWith('input.')) return line.inputData[field.slice('input.'.length)];
+    return undefined;
+  }
+
+  private getDelimiter(): string {
+    return this.config.config.delimiter ?? ',';
+  }
+}
+
+function encodeCsvField(value: unknown, delimiter: string): string {
+  if (value === undefined || value === null) {
+    return '';
+  }
+
+  const text = typeof value === 'object' ? JSON.stringify(value) : String(value);
+  return text.includes(delimiter) || /["\r\n]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+}
+
+/**
+ * RFC 4180 CSV; the first row is the header
+ */
+function parseCsvRows(content: string, delimiter: string): Array<Record<string, string>> {
+  const records: string[][] = [];
+  let record: string[] = [];
+  let field = '';
+  let quoted = false;
+
+  // Spreadsheet exports often start with a byte order mark
+  const text = content.replace(/^\uFEFF/, '');
+  for (let i = 0; i < text.length; i++) {
+    const char = text[i];
+
+    if (quoted) {
+      if (char === '"' && text[i + 1] === '"') {
+        field += '"';
+        i++;
+      } else if (char === '"') {
+        quoted = false;
+      } else {
+        field += char;
+      }
+    } else if (char === '"' && field === '') {
+      quoted = true;
+    } else if (char === delimiter) {
+      record.push(field);
+      field = '';
+    } else if (char === '\n' || char === '\r') {
+      if (char === '\r' && text[i + 1] === '\n') {
+        i++;
+      }
+      record.push(field);
+      records.push(record);
+      record = [];
+      field = '';
+    } else {
+      field += char;
+    }
+  }
+
+  if (quoted) {
+    throw new ProviderError('Unterminated quoted field in results file', 'INVALID_RESULTS_FILE');
+  }
+  if (field !== '' || record.length > 0) {
+    record.push(field);
+    records.push(record);
+  }
+
+  const [header, ...body] = records.filter(r => r.some(value => value.trim() !== ''));
+  if (!header) {
+    return [];
+  }
+
+  const names = header.map(name => name.trim());
+  return body.map(values => Object.fromEntries(names.map((name, i) => [name, values[i]?.trim() ?? ''])));
+}
+
+function parseJsonRows(content: string): Array<Record<string, any>> {
+  let parsed: unknown;
+  try {
+    parsed = JSON.parse(content);
+  } catch {
+    throw new ProviderError('Results file is not valid JSON', 'INVALID_RESULTS_FILE');
+  }
+
+  // Accept a bare array or `{ "results": [...] }`
+  const rows = Array.isArray(parsed) ? parsed : (parsed as { results?: unknown })?.results;
+  if (!Array.isArray(rows) || rows.some(row => !row || typeof row !== 'object')) {
+    throw new ProviderError('Results file must be an array of objects', 'INVALID_RESULTS_FILE');
+  }
+
+  return rows;
+}
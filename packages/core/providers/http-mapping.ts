@@ -0,0 +1,264 @@
+// HTTP Mapping - Declarative supplier requests and responses
+// Endpoints, auth, body templates and response paths come from `providers.config`
+
+export type HttpMethod = 'GET' | 'POST' | 'PUT' | 'PATCH' | 'DELETE';
+
+export type HttpAuthType = 'none' | 'bearer' | 'header' | 'query' | 'form';
+
+/**
+ * Where the supplier expects the API key
+ */
+export interface HttpAuthConfig {
+  type: HttpAuthType;
+  name?: string; // header, query parameter or form field name
+  credential?: string; // credentials key holding the secret (default `apiKey`)
+  prefix?: string; // prepended to the secret, e.g. `Token `
+}
+
+/**
+ * JSONPath-style paths into the supplier's response (`$.data.id`, `items[0].status`)
+ * A list is tried in order and the first value found wins.
+ */
+export interface HttpResponseMapping {
+  orderId?: string | string[];
+  status?: string | string[];
+  result?: string | string[];
+  error?: string | string[];
+  completedAt?: string | string[];
+}
+
+/**
+ * One supplier endpoint
+ * `path`, `query`, `headers` and `body` may hold `{{placeholders}}`
+ */
+export interface HttpEndpointConfig {
+  method?: HttpMethod;
+  path: string;
+  query?: Record<string, string>;
+  headers?: Record<string, string>;
+  body?: unknown;
+  bodyType?: 'json' | 'form';
+  response?: HttpResponseMapping;
+}
+
+export interface HttpRequest {
+  url: string;
+  init: RequestInit;
+}
+
+export const HTTP_METHODS: HttpMethod[] = ['GET', 'POST', 'PUT', 'PATCH', 'DELETE'];
+export const HTTP_AUTH_TYPES: HttpAuthType[] = ['none', 'bearer', 'header', 'query', 'form'];
+
+const PLACEHOLDER = /\{\{\s*([^{}]+?)\s*\}\}/g;
+const WHOLE_PLACEHOLDER = /^\{\{\s*([^{}]+?)\s*\}\}$/;
+const PATH_SEGMENT = /\.?([^.[\]]+)|\[(?:(\d+)|'([^']*)'|"([^"]*)")\]/g;
+
+/**
+ * Split a path such as `$.data.items[0]['order-id']` into keys
+ * @returns null when the path is malformed
+ */
+export function parsePath(path: string): string[] | null {
+  const source = path.trim().replace(/^\$/, '');
+  const keys: string[] = [];
+
+  PATH_SEGMENT.lastIndex = 0;
+  while (PATH_SEGMENT.lastIndex < source.length) {
+    const position = PATH_SEGMENT.lastIndex;
+    const match = PATH_SEGMENT.exec(source);
+    // Segments must follow each other with nothing skipped in between
+    if (!match || match.index !== position) {
+      return null;
+    }
+    keys.push(match[1] ?? match[2] ?? match[3] ?? match[4]);
+  }
+
+  return keys;
+}
+
+/**
+ * Read the value at a path; `$` is the value itself
+ */
+export function extractPath(value: unknown, path: string): unknown {
+  const keys = parsePath(path);
+  if (!keys) {
+    return undefined;
+  }
+
+  let current: any = value;
+  for (const key of keys) {
+    if (current === null || typeof current !== 'object') {
+      return undefined;
+    }
+    current = current[key];
+  }
+  return current;
+}
+
+/**
+ * Read the first path that holds a value
+ */
+export function extractFirst(value: unknown, paths: string | string[] | undefined): unknown {
+  for (const path of typeof paths === 'string' ? [paths] : paths ?? []) {
+    const found = extractPath(value, path);
+    if (found !== undefined && found !== null && found !== '') {
+      return found;
+    }
+  }
+  return undefined;
+}
+
+/**
+ * Fill `{{placeholders}}` from the context, recursively
+ * A string that is a single placeholder keeps the value's type and is
+ * dropped when the value is missing; inside longer strings missing values
+ * render as empty.
+ */
+export function renderTemplate(template: unknown, context: Record<string, unknown>): unknown {
+  if (typeof template === 'string') {
+    const whole = template.match(WHOLE_PLACEHOLDER);
+    if (whole) {
+      return extractPath(context, whole[1]);
+    }
+    return template.replace(PLACEHOLDER, (_, path: string) => stringify(extractPath(context, path)));
+  }
+
+  if (Array.isArray(template)) {
+    return template
+      .map(item => renderTemplate(item, context))
+      .filter(item => item !== undefined);
+  }
+
+  if (template && typeof template === 'object') {
+    const rendered: Record<string, unknown> = {};
+    for (const [key, value] of Object.entries(template)) {
+      const result = renderTemplate(value, context);
+      if (result !== undefined) {
+        rendered[key] = result;
+      }
+    }
+    return rendered;
+  }
+
+  return template;
+}
+
+/**
+ * Build the fetch request for an endpoint
+ */
+export function buildHttpRequest(
+  baseUrl: string,
+  endpoint: HttpEndpointConfig,
+  auth: HttpAuthConfig,
+  context: Record<string, unknown>,
+  credentials: Record<string, any>
+): HttpRequest {
+  const method = endpoint.method ?? 'POST';
+  const path = endpoint.path.replace(PLACEHOLDER, (_, key: string) =>
+    encodeURIComponent(stringify(extractPath(context, key)))
+  );
+  const url = new URL(joinUrl(baseUrl, path));
+
+  for (const [key, value] of Object.entries(toStringRecord(renderTemplate(endpoint.query ?? {}, context)))) {
+    url.searchParams.set(key, value);
+  }
+
+  const headers = toStringRecord(renderTemplate(endpoint.headers ?? {}, context));
+  let body = renderTemplate(endpoint.body, context);
+
+  const secret = `${auth.prefix ?? ''}${credentials[auth.credential ?? 'apiKey'] ?? ''}`;
+  switch (auth.type) {
+    case 'bearer':
+      headers['Authorization'] = `Bearer ${secret}`;
+      break;
+    case 'header':
+      headers[auth.name ?? 'X-Api-Key'] = secret;
+      break;
+    case 'query':
+      url.searchParams.set(auth.name ?? 'api_key', secret);
+      break;
+    case 'form':
+      body = { ...(isRecord(body) ? body : {}), [auth.name ?? 'api_key']: secret };
+      break;
+  }
+
+  const init: RequestInit = { method, headers };
+
+  if (body !== undefined && method !== 'GET') {
+    if (endpoint.bodyType === 'form') {
+      headers['Content-Type'] ??= 'application/x-www-form-urlencoded';
+      init.body = new URLSearchParams(toStringRecord(body)).toString();
+    } else {
+      headers['Content-Type'] ??= 'application/json';
+      init.body = JSON.stringify(body);
+    }
+  }
+
+  return { url: url.toString(), init };
+}
+
+/**
+ * Parse a supplier response body; anything that is not JSON is kept as text
+ */
+export function parseResponseBody(text: string): unknown {
+  try {
+    return JSON.parse(text);
+  } catch {
+    return text;
+  }
+}
+
+/**
+ * Configuration problems for an endpoint, as messages
+ */
+export function validateEndpoint(name: string, endpoint: unknown): string[] {
+  if (!isRecord(endpoint)) {
+    return [`Endpoint '${name}' must be an object`];
+  }
+
+  const errors: string[] = [];
+  if (endpoint.path !== undefined && typeof endpoint.path !== 'string') {
+    errors.push(`Endpoint '${name}' path must be a string`);
+  }
+  if (endpoint.method !== undefined && !HTTP_METHODS.includes(endpoint.method as HttpMethod)) {
+    errors.push(`Endpoint '${name}' has unsupported method '${endpoint.method}'`);
+  }
+  if (endpoint.bodyType !== undefined && endpoint.bodyType !== 'json' && endpoint.bodyType !== 'form') {
+    errors.push(`Endpoint '${name}' body type must be json or form`);
+  }
+
+  const response = isRecord(endpoint.response) ? endpoint.response : {};
+  for (const [field, paths] of Object.entries(response)) {
+    for (const path of typeof paths === 'string' ? [paths] : Array.isArray(paths) ? paths : [null]) {
+      if (typeof path !== 'string' || !parsePath(path)) {
+        errors.push(`Endpoint '${name}' has an invalid ${field} path`);
+      }
+    }
+  }
+
+  return errors;
+}
+
+function stringify(value: unknown): string {
+  if (value === undefined || value === null) {
+    return '';
+  }
+  return typeof value === 'object' ? JSON.stringify(value) : String(value);
+}
+
+function toStringRecord(value: unknown): Record<string, string> {
+  if (!isRecord(value)) {
+    return {};
+  }
+  return Object.fromEntries(Object.entries(value).map(([key, item]) => [key, stringify(item)]));
+}
+
+function isRecord(value: unknown): value is Record<string, unknown> {
+  return value !== null && typeof value === 'object' && !Array.isArray(value);
+}
+
+function joinUrl(baseUrl: string, path: string): string {
+  if (/^https?:\/\//i.test(path)) {
+    return path;
+  }
+  return `${baseUrl.replace(/\/+$/, '')}/${path.replace(/^\/+/, '')}`;
+}
@@ -2,5 +2,9 @@
 
 export * from './base';
 export * from './manual';
+export * from './http-mapping';
 export * from './api';
+export * from './async-api';
+export * from './file-based';
+export * from './dhru';
 export * from './registry';
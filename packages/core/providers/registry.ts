@@ -1,8 +1,12 @@
 // Provider Registry - Factory for creating provider instances
 
+import type { Provider } from '../../../shared/schema';
 import { BaseProvider, ProviderConfig, ProviderType } from './base';
 import { ManualProvider } from './manual';
 import { ApiProvider } from './api';
+import { AsyncApiProvider } from './async-api';
+import { FileBasedProvider } from './file-based';
+import { DhruProvider } from './dhru';
 
 export class ProviderRegistry {
   private static providers: Map<string, typeof BaseProvider> = new Map();
@@ -10,6 +14,9 @@ export class ProviderRegistry {
   static {
     ProviderRegistry.register('manual', ManualProvider);
     ProviderRegistry.register('api', ApiProvider);
+    ProviderRegistry.register('async_api', AsyncApiProvider);
+    ProviderRegistry.register('file_based', FileBasedProvider);
+    ProviderRegistry.register('dhru', DhruProvider);
   }
 
   static register(type: string, providerClass: typeof BaseProvider): void {
@@ -23,7 +30,22 @@ export class ProviderRegistry {
       throw new Error(`Provider type '${config.type}' not registered`);
     }
 
-    return new ProviderClass(config);
+    // Only concrete subclasses are registered
+    return new (ProviderClass as unknown as new (config: ProviderConfig) => BaseProvider)(config);
+  }
+
+  /**
+   * Create the provider instance for a stored provider row
+   */
+  static fromRecord(provider: Provider): BaseProvider {
+    return this.create({
+      id: provider.id,
+      name: provider.name,
+      type: provider.type as ProviderType,
+      credentials: provider.credentials ?? {},
+      config: provider.config ?? {},
+      statusMapping: provider.statusMapping ?? {},
+    });
   }
 
   static getSupportedTypes(): string[] {
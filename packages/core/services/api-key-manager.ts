@@ -2,6 +2,10 @@
 // API key generation, validation, and scope enforcement
 
 import type { ApiKey } from '../../../shared/schema';
+import type { IStorage } from '../../../server/storage';
+import { AuthManager } from './auth-manager';
+import { UserManager } from './user-manager';
+import { fromBase64Url, hmacSha256, sha256Hex, timingSafeEqualString, toHex, utf8 } from './crypto';
 
 export interface ApiKeyCreateInput {
   tenantId: string;
@@ -28,38 +32,116 @@ export class ApiKeyError extends Error {
   }
 }
 
+// Stored hash formats: `sha256$<hex>`, `hmac-sha256$<hex>` (keyed by a server pepper).
+// Anything without a `$` is the legacy base64 encoding of the raw key.
+const SHA256_SCHEME = 'sha256';
+const HMAC_SCHEME = 'hmac-sha256';
+
+const KEY_NAMESPACE = 'gsmf'; // GSMFlow prefix
+// Lookup prefix: namespace, separator and the first 8 random characters
+const KEY_PREFIX_LENGTH = KEY_NAMESPACE.length + 1 + 8;
+
 export class ApiKeyManager {
   /**
    * Generate API key
+   * Pass the server pepper, when configured, so the hash is keyed with it
    */
-  static generateKey(): { key: string; prefix: string; hash: string } {
-    const prefix = 'gsmf'; // GSMFlow prefix
+  static async generateKey(pepper?: string): Promise<{ key: string; prefix: string; hash: string }> {
     const random = this.generateRandomString(32);
-    const key = `${prefix}_${random}`;
-    const hash = this.hashKey(key);
+    const key = `${KEY_NAMESPACE}_${random}`;
 
     return {
       key,
-      prefix: `${prefix}_${random.substring(0, 8)}`,
-      hash,
+      prefix: key.substring(0, KEY_PREFIX_LENGTH),
+      hash: await this.hashKey(key, pepper),
     };
   }
 
   /**
    * Hash API key for storage
+   * HMAC-SHA256 with the pepper when one is configured, plain SHA-256 otherwise
    */
-  private static hashKey(key: string): string {
-    // In production, use proper crypto hashing (SHA-256)
-    // This is a placeholder
-    return Buffer.from(key).toString('base64');
+  static async hashKey(key: string, pepper?: string): Promise<string> {
+    if (pepper) {
+      return `${HMAC_SCHEME}$${toHex(await hmacSha256(pepper, key))}`;
+    }
+    return `${SHA256_SCHEME}$${await sha256Hex(key)}`;
   }
 
   /**
-   * Verify API key against hash
+   * Verify API key against hash in constant time
+   * Accepts legacy base64 hashes so existing keys keep working until migrated
    */
-  static verifyKey(key: string, hash: string): boolean {
-    const computedHash = this.hashKey(key);
-    return computedHash === hash;
+  static async verifyKey(key: string, hash: string, pepper?: string): Promise<boolean> {
+    const separator = hash.indexOf('$');
+    if (separator === -1) {
+      return timingSafeEqualString(this.legacyHash(key), hash);
+    }
+
+    const scheme = hash.substring(0, separator);
+    let computed: string;
+
+    if (scheme === HMAC_SCHEME) {
+      if (!pepper) {
+        return false;
+      }
+      computed = await this.hashKey(key, pepper);
+    } else if (scheme === SHA256_SCHEME) {
+      computed = `${SHA256_SCHEME}$${await sha256Hex(key)}`;
+    } else {
+      return false;
+    }
+
+    return timingSafeEqualString(computed, hash);
+  }
+
+  /**
+   * Whether a stored hash should be replaced with one from `hashKey`:
+   * legacy base64 hashes, and plain SHA-256 once a pepper is configured
+   */
+  static needsRehash(hash: string, pepper?: string): boolean {
+    if (!hash.includes('$')) {
+      return true;
+    }
+    return !!pepper && hash.startsWith(`${SHA256_SCHEME}$`);
+  }
+
+  /**
+   * Re-hash a legacy base64 hash without the original key
+   * Legacy hashes are reversible, which is why they need migrating.
+   * Returns null for hashes that are already in a current format.
+   */
+  static async migrateLegacyHash(hash: string, pepper?: string): Promise<string | null> {
+    if (hash.includes('$')) {
+      return null;
+    }
+
+    let key: string;
+    try {
+      key = new TextDecoder().decode(fromBase64Url(hash));
+    } catch {
+      return null;
+    }
+
+    return this.hashKey(key, pepper);
+  }
+
+  /**
+   * Lookup prefix stored alongside the hash (`gsmf_` + 8 characters)
+   * Returns null for values that are not GSMFlow API keys
+   */
+  static getPrefix(key: string): string | null {
+    if (!key.startsWith(`${KEY_NAMESPACE}_`) || key.length <= KEY_PREFIX_LENGTH) {
+      return null;
+    }
+    return key.substring(0, KEY_PREFIX_LENGTH);
+  }
+
+  /**
+   * Pre-migration hash: base64 of the raw key
+   */
+  private static legacyHash(key: string): string {
+    return btoa(Array.from(utf8(key), b => String.fromCharCode(b)).join(''));
   }
 
   /**
@@ -81,12 +163,13 @@ export class ApiKeyManager {
   /**
    * Validate API key
    */
-  static validateKey(
+  static async validateKey(
     providedKey: string,
-    storedApiKey: ApiKey
-  ): ApiKeyValidationResult {
+    storedApiKey: ApiKey,
+    pepper?: string
+  ): Promise<ApiKeyValidationResult> {
     // Check if key matches hash
-    if (!this.verifyKey(providedKey, storedApiKey.keyHash)) {
+    if (!(await this.verifyKey(providedKey, storedApiKey.keyHash, pepper))) {
       return {
         valid: false,
         error: {
@@ -219,6 +302,7 @@ export class ApiKeyManager {
       'orders:create',
       'orders:update',
       'wallet:read',
+      'wallet:transfer',
       'users:read',
       'users:create',
       'webhooks:create',
@@ -339,26 +423,97 @@ export class ApiKeyManager {
   }
 }
 
+/**
+ * Extract an API key from `X-API-Key` or a non-JWT `Authorization: Bearer` value
+ */
+function getProvidedApiKey(c: any): string | null {
+  const header = c.req.header('X-API-Key');
+  if (header) {
+    return ApiKeyManager.extractFromHeader(header);
+  }
+
+  const authHeader = c.req.header('Authorization');
+  if (!authHeader) {
+    return null;
+  }
+
+  // JWT access tokens are handled by the session auth middleware
+  const key = ApiKeyManager.extractFromHeader(authHeader);
+  return key && !AuthManager.isJwt(key) ? key : null;
+}
+
 /**
  * Middleware for API key authentication
+ * Resolves the key by its stored prefix, verifies the hash and sets
+ * tenantId/userId/userRole plus apiKey, apiKeyId and apiKeyScopes.
+ * Requests without a key, or already authenticated by a session, pass through.
+ * Legacy hashes are upgraded the first time their key is used.
  */
 export function createApiKeyMiddleware() {
   return async (c: any, next: any) => {
-    const authHeader = c.req.header('Authorization') || c.req.header('X-API-Key');
-    
-    if (!authHeader) {
-      return c.json({ error: 'API key required' }, 401);
+    const providedKey = getProvidedApiKey(c);
+    if (!providedKey || c.get('userId')) {
+      return next();
     }
 
-    const apiKey = ApiKeyManager.extractFromHeader(authHeader);
-    
-    if (!apiKey) {
-      return c.json({ error: 'Invalid API key format' }, 401);
+    const prefix = ApiKeyManager.getPrefix(providedKey);
+    if (!prefix) {
+      return c.json({ error: { code: 'INVALID_KEY', message: 'Invalid API key format' } }, 401);
     }
 
-    // Store extracted key in context for validation
-    c.set('providedApiKey', apiKey);
-    
+    const storage: IStorage | undefined = c.env?.storage;
+    if (!storage) {
+      return c.json({ error: { code: 'STORAGE_UNAVAILABLE', message: 'Storage is not configured for this runtime' } }, 503);
+    }
+
+    const pepper: string | undefined = c.env?.API_KEY_PEPPER;
+    let result: ApiKeyValidationResult = {
+      valid: false,
+      error: { code: 'INVALID_KEY', message: 'Invalid API key' },
+    };
+
+    // Prefixes are not unique, so check every candidate
+    for (const candidate of await storage.getApiKeysByPrefix(prefix)) {
+      const validation = await ApiKeyManager.validateKey(providedKey, candidate, pepper);
+      if (validation.valid || validation.error?.code !== 'INVALID_KEY') {
+        result = validation;
+        break;
+      }
+    }
+
+    const apiKey = result.apiKey;
+    if (!result.valid || !apiKey) {
+      return c.json({ error: result.error }, 401);
+    }
+
+    const user = apiKey.userId ? await storage.getUser(apiKey.userId) : undefined;
+    if (!user || !apiKey.tenantId || user.tenantId !== apiKey.tenantId) {
+      return c.json({ error: { code: 'INVALID_KEY', message: 'API key owner no longer exists' } }, 401);
+    }
+
+    const login = UserManager.canLogin(user);
+    if (!login.allowed) {
+      return c.json({ error: { code: 'ACCOUNT_DISABLED', message: login.reason } }, 403);
+    }
+
+    const tenant = await storage.getTenant(apiKey.tenantId);
+    if (tenant?.status !== 'active') {
+      return c.json({ error: { code: 'TENANT_SUSPENDED', message: 'Tenant is suspended' } }, 403);
+    }
+
+    const updates: Partial<ApiKey> = { lastUsedAt: new Date().toISOString() };
+    if (ApiKeyManager.needsRehash(apiKey.keyHash, pepper)) {
+      updates.keyHash = await ApiKeyManager.hashKey(providedKey, pepper);
+    }
+    await storage.updateApiKey(apiKey.id, updates);
+
+    c.set('tenantId', apiKey.tenantId);
+    c.set('userId', user.id);
+    c.set('userRole', user.role);
+    c.set('apiKey', apiKey);
+    c.set('apiKeyId', apiKey.id);
+    c.set('apiKeyScopes', apiKey.scopes ?? []);
+
     await next();
   };
 }
@@ -378,13 +533,13 @@ export function createDomainValidationMiddleware() {
     const origin = c.req.header('Origin') || c.req.header('Referer');
     
     if (!origin) {
-      return c.json({ error: 'Origin header required for domain validation' }, 403);
+      return c.json({ error: { code: 'DOMAIN_NOT_ALLOWED', message: 'Origin header required for domain validation' } }, 403);
     }
 
     const validation = ApiKeyManager.validateDomain(origin, apiKey.allowedDomains);
     
     if (!validation.valid) {
-      return c.json({ error: validation.error }, 403);
+      return c.json({ error: { code: 'DOMAIN_NOT_ALLOWED', message: validation.error } }, 403);
     }
 
     await next();
@@ -402,7 +557,7 @@ export function requireScope(scope: string) {
       return c.json({ error: 'Authentication required' }, 401);
     }
 
-    const validation = ApiKeyManager.validateScope(scope, apiKey.scopes);
+    const validation = ApiKeyManager.validateScope(scope, apiKey.scopes ?? []);
     
     if (!validation.valid) {
       return c.json({ error: validation.error }, 403);
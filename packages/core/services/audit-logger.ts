@@ -111,7 +111,7 @@ export class AuditLogger {
   static logWallet(
     tenantId: string,
     userId: string,
-    action: 'credit' | 'debit' | 'lock' | 'unlock' | 'refund',
+    action: 'credit' | 'debit' | 'lock' | 'unlock' | 'refund' | 'transfer',
     walletId: string,
     amount: number,
     metadata?: Record<string, any>
@@ -0,0 +1,207 @@
+// Authentication
+// Credential checks, HS256 JWT access tokens and rotating refresh tokens
+
+import type { Session, Tenant, User } from '../../../shared/schema';
+import type { RoleType } from '../policies/access';
+import { UserManager } from './user-manager';
+import { PasswordHasher } from './password-hasher';
+import {
+  fromBase64Url,
+  hmacSha256,
+  randomToken,
+  sha256Hex,
+  timingSafeEqualString,
+  toBase64Url,
+  utf8,
+  verifyHmacSha256,
+} from './crypto';
+
+export const ACCESS_TOKEN_TTL_SECONDS = 15 * 60;
+export const REFRESH_TOKEN_TTL_SECONDS = 30 * 24 * 60 * 60;
+
+export interface AccessTokenClaims {
+  sub: string; // userId
+  tid: string; // tenantId
+  role: RoleType;
+  sid: string; // session id
+  iat: number;
+  exp: number;
+}
+
+export interface IssuedRefreshToken {
+  token: string;
+  hash: string;
+  expiresAt: string;
+}
+
+export class AuthError extends Error {
+  constructor(message: string, public code: string) {
+    super(message);
+    this.name = 'AuthError';
+  }
+}
+
+const JWT_HEADER = toBase64Url(utf8(JSON.stringify({ alg: 'HS256', typ: 'JWT' })));
+
+export class AuthManager {
+  /**
+   * Check credentials and account state for a login attempt
+   * @throws AuthError INVALID_CREDENTIALS | ACCOUNT_DISABLED | TENANT_SUSPENDED
+   */
+  static async verifyLogin(
+    user: User | undefined,
+    tenant: Tenant | undefined,
+    password: string
+  ): Promise<User & { tenantId: string }> {
+    if (!user) {
+      await PasswordHasher.dummyVerify(password);
+      throw new AuthError('Invalid email or password', 'INVALID_CREDENTIALS');
+    }
+
+    if (!(await PasswordHasher.verify(password, user.passwordHash))) {
+      throw new AuthError('Invalid email or password', 'INVALID_CREDENTIALS');
+    }
+
+    const login = UserManager.canLogin(user);
+    if (!login.allowed) {
+      throw new AuthError(login.reason!, 'ACCOUNT_DISABLED');
+    }
+
+    if (!user.tenantId || !tenant || tenant.id !== user.tenantId) {
+      throw new AuthError('Account is not assigned to a tenant', 'INVALID_CREDENTIALS');
+    }
+
+    if (tenant.status !== 'active') {
+      throw new AuthError('Tenant is suspended', 'TENANT_SUSPENDED');
+    }
+
+    return user as User & { tenantId: string };
+  }
+
+  /**
+   * Sign an access token for a user session
+   */
+  static async signAccessToken(
+    user: { id: string; tenantId: string; role: string },
+    sessionId: string,
+    secret: string,
+    now: number = Date.now()
+  ): Promise<string> {
+    const iat = Math.floor(now / 1000);
+    const claims: AccessTokenClaims = {
+      sub: user.id,
+      tid: user.tenantId,
+      role: user.role as RoleType,
+      sid: sessionId,
+      iat,
+      exp: iat + ACCESS_TOKEN_TTL_SECONDS,
+    };
+
+    const payload = toBase64Url(utf8(JSON.stringify(claims)));
+    const signature = await hmacSha256(secret, `${JWT_HEADER}.${payload}`);
+    return `${JWT_HEADER}.${payload}.${toBase64Url(signature)}`;
+  }
+
+  /**
+   * Verify an access token's signature and expiry
+   * @throws AuthError INVALID_TOKEN | TOKEN_EXPIRED
+   */
+  static async verifyAccessToken(
+    token: string,
+    secret: string,
+    now: number = Date.now()
+  ): Promise<AccessTokenClaims> {
+    const parts = token.split('.');
+    if (parts.length !== 3) {
+      throw new AuthError('Malformed token', 'INVALID_TOKEN');
+    }
+
+    const [header, payload, signature] = parts;
+    let claims: AccessTokenClaims;
+
+    try {
+      const { alg } = JSON.parse(new TextDecoder().decode(fromBase64Url(header)));
+      if (alg !== 'HS256') {
+        throw new AuthError('Unsupported token algorithm', 'INVALID_TOKEN');
+      }
+
+      const valid = await verifyHmacSha256(secret, `${header}.${payload}`, fromBase64Url(signature));
+      if (!valid) {
+        throw new AuthError('Invalid token signature', 'INVALID_TOKEN');
+      }
+
+      claims = JSON.parse(new TextDecoder().decode(fromBase64Url(payload)));
+    } catch (error) {
+      if (error instanceof AuthError) {
+        throw error;
+      }
+      throw new AuthError('Malformed token', 'INVALID_TOKEN');
+    }
+
+    if (!claims.sub || !claims.tid || !claims.role || !claims.sid || typeof claims.exp !== 'number') {
+      throw new AuthError('Token is missing required claims', 'INVALID_TOKEN');
+    }
+
+    if (claims.exp <= Math.floor(now / 1000)) {
+      throw new AuthError('Token has expired', 'TOKEN_EXPIRED');
+    }
+
+    return claims;
+  }
+
+  /**
+   * Whether a value looks like a JWT rather than an API key
+   */
+  static isJwt(token: string): boolean {
+    return token.split('.').length === 3;
+  }
+
+  /**
+   * Create a refresh token for a session
+   * Format: `<sessionId>.<secret>`; only the SHA-256 of the secret is stored
+   */
+  static async issueRefreshToken(sessionId: string, now: number = Date.now()): Promise<IssuedRefreshToken> {
+    const secret = randomToken(32);
+    return {
+      token: `${sessionId}.${secret}`,
+      hash: await sha256Hex(secret),
+      expiresAt: new Date(now + REFRESH_TOKEN_TTL_SECONDS * 1000).toISOString(),
+    };
+  }
+
+  /**
+   * Split a refresh token into its session id and secret
+   */
+  static parseRefreshToken(token: string): { sessionId: string; secret: string } | null {
+    const separator = token.indexOf('.');
+    if (separator <= 0 || separator === token.length - 1) {
+      return null;
+    }
+    return { sessionId: token.slice(0, separator), secret: token.slice(separator + 1) };
+  }
+
+  /**
+   * Check a presented refresh secret against its session
+   * @throws AuthError SESSION_REVOKED | SESSION_EXPIRED | INVALID_TOKEN
+   */
+  static async verifyRefreshToken(session: Session, secret: string, now: number = Date.now()): Promise<void> {
+    if (session.revokedAt) {
+      throw new AuthError('Session has been revoked', 'SESSION_REVOKED');
+    }
+
+    if (new Date(session.expiresAt).getTime() <= now) {
+      throw new AuthError('Session has expired', 'SESSION_EXPIRED');
+    }
+
+    if (!timingSafeEqualString(await sha256Hex(secret), session.refreshTokenHash)) {
+      throw new AuthError('Invalid refresh token', 'INVALID_TOKEN');
+    }
+  }
+
+  /**
+   * Whether a session can still back access tokens
+   */
+  static isSessionActive(session: Session | undefined, now: number = Date.now()): boolean {
+    return !!session && !session.revokedAt && new Date(session.expiresAt).getTime() > now;
+  }
+}
@@ -0,0 +1,248 @@
+// Commissions
+// Distributor and reseller commissions on their sub-users' orders, credited on delivery
+
+import type { Order, Transaction, User, Wallet } from '../../../shared/schema';
+import type { IStorage } from '../../../server/storage';
+import { AuditLogger } from './audit-logger';
+import { EventBus } from './event-bus';
+import { PricingEngine } from './pricing-engine';
+import { UserHierarchy } from './user-hierarchy';
+import { WalletLedger } from './wallet-ledger';
+import { WalletManager } from './wallet-manager';
+
+// Ancestors of the buyer who earn a share of the order's profit
+const COMMISSION_ROLES = ['distributor', 'reseller'];
+
+export interface CommissionStatementEntry {
+  transactionId: string;
+  orderId: string;
+  orderItemId?: string;
+  kind: 'commission' | 'reversal';
+  amount: number; // negative for reversals
+  currency: string;
+  completedAt: string | null;
+}
+
+export interface CommissionStatement {
+  userId: string;
+  from: string;
+  to: string;
+  entries: CommissionStatementEntry[];
+  totals: Array<{ currency: string; earned: number; reversed: number; net: number }>;
+}
+
+/**
+ * Commission credits and reversals, one per ancestor and order debit
+ *
+ * When an order (or a bulk item) is debited on delivery, the profit over its
+ * provider cost is split with `PricingEngine.calculateProfitDistribution`
+ * across the buyer's distributor and reseller ancestors, using the service's
+ * pricing rules for their roles. On converted orders the rules' amounts are
+ * converted at the rate locked onto the order first. Each share is a `credit` with
+ * `referenceType: 'commission'` and the order as reference. Refunds reverse the
+ * refunded part of the debit's commissions; the last refund reverses the rest.
+ * A reversal the ancestor's available balance cannot cover fails the refund
+ * rather than taking their wallet below zero.
+ */
+export class CommissionPayouts {
+  constructor(private readonly storage: IStorage) {}
+
+  /**
+   * Credit the commissions earned on an order debit
+   */
+  async credit(order: Order, debit: Transaction, actorId: string): Promise<Transaction[]> {
+    const users = await this.storage.getUsers(order.tenantId);
+    const ancestors = UserHierarchy.getAncestors(order.userId, users)
+      .filter(user => COMMISSION_ROLES.includes(user.role))
+      .reverse();
+    if (ancestors.length === 0) {
+      return [];
+    }
+
+    // Rule amounts are in the service's currency; the debit is in the order's
+    const quote = order.priceCurrency && order.exchangeRate
+      ? { from: order.priceCurrency, to: order.currency, rate: order.exchangeRate }
+      : undefined;
+    const rules = (await this.storage.getPricingRules(order.tenantId, order.serviceId))
+      .map(rule => PricingEngine.fromRecord(rule))
+      .map(rule => quote ? PricingEngine.convertRule(rule, quote) : rule);
+    const distribution = PricingEngine.calculateProfitDistribution(
+      debit.metadata?.providerCost ?? 0,
+      debit.amount,
+      ancestors.map(user => ({ role: user.role, userId: user.id })),
+      rules
+    );
+
+    const ledger = new WalletLedger(this.storage);
+    const credited: Transaction[] = [];
+    for (const share of distribution) {
+      if (share.profit <= 0) {
+        continue;
+      }
+
+      const wallet = await this.getWallet(order, ancestors.find(user => user.id === share.userId)!);
+      const [commission] = await ledger.append(order.tenantId, wallet.id, async () => [
+        await WalletManager.credit({
+          tenantId: order.tenantId,
+          walletId: wallet.id,
+          type: 'credit',
+          amount: share.profit,
+          currency: order.currency,
+          referenceType: 'commission',
+          referenceId: order.id,
+          description: `Commission on order ${order.orderNumber}`,
+          metadata: {
+            debitTransactionId: debit.id,
+            orderItemId: debit.metadata?.orderItemId,
+            buyerId: order.userId,
+            role: share.role,
+          },
+          createdBy: actorId,
+        }),
+      ]);
+
+      await EventBus.record(this.storage, EventBus.createEvent('wallet.credited', order.tenantId, {
+        walletId: wallet.id,
+        transaction: commission,
+      }, {
+        actorId,
+        audit: [AuditLogger.logWallet(order.tenantId, actorId, 'credit', wallet.id, share.profit, {
+          transactionId: commission.id,
+          commission: true,
+          orderId: order.id,
+        })],
+      }));
+      credited.push(commission);
+    }
+
+    return credited;
+  }
+
+  /**
+   * Reverse the commissions of a debit in proportion to a refund of it
+   * `fullyRefunded` reverses whatever is left, so rounding never strands a remainder.
+   * @throws WalletError COMMISSION_SPENT when an ancestor no longer has the funds
+   */
+  async reverse(
+    order: Order,
+    debit: Transaction,
+    refundAmount: number,
+    fullyRefunded: boolean,
+    actorId: string
+  ): Promise<Transaction[]> {
+    const related = await this.storage.getTransactions(order.tenantId, {
+      referenceType: 'commission',
+      referenceId: order.id,
+    });
+    const commissions = related.filter(transaction =>
+      transaction.type === 'credit' && transaction.metadata?.debitTransactionId === debit.id
+    );
+
+    const ledger = new WalletLedger(this.storage);
+    const reversed: Transaction[] = [];
+    for (const commission of commissions) {
+      const remaining = commission.amount - related
+        .filter(transaction => transaction.type === 'debit' && transaction.parentTransactionId === commission.id)
+        .reduce((sum, transaction) => sum + transaction.amount, 0);
+      const amount = fullyRefunded
+        ? remaining
+        : Math.min(remaining, Math.round(commission.amount * refundAmount / debit.amount));
+      if (amount <= 0) {
+        continue;
+      }
+
+      const [reversal] = await ledger.append(order.tenantId, commission.walletId, async ({ balance }) => [
+        await WalletManager.reverseCommission(
+          {
+            tenantId: order.tenantId,
+            walletId: commission.walletId,
+            type: 'debit',
+            amount,
+            currency: commission.currency,
+            description: `Commission reversed, order ${order.orderNumber} refunded`,
+            metadata: { debitTransactionId: debit.id, orderItemId: commission.metadata?.orderItemId },
+            createdBy: actorId,
+          },
+          commission,
+          remaining,
+          balance
+        ),
+      ]);
+
+      await EventBus.record(this.storage, EventBus.createEvent('wallet.debited', order.tenantId, {
+        walletId: commission.walletId,
+        transaction: reversal,
+      }, {
+        actorId,
+        audit: [AuditLogger.logWallet(order.tenantId, actorId, 'debit', commission.walletId, amount, {
+          transactionId: reversal.id,
+          commissionTransactionId: commission.id,
+          orderId: order.id,
+        })],
+      }));
+      reversed.push(reversal);
+    }
+
+    return reversed;
+  }
+
+  /**
+   * Commissions credited and reversed in the user's wallets between `from` (inclusive) and `to`
+   * The period defaults to the current UTC month so far.
+   */
+  async statement(
+    tenantId: string,
+    userId: string,
+    from: string = startOfUtcMonth(),
+    to: string = new Date().toISOString()
+  ): Promise<CommissionStatement> {
+    const wallets = await this.storage.getWallets(tenantId, userId);
+    const transactions = await this.storage.getTransactions(tenantId, {
+      walletIds: wallets.map(wallet => wallet.id),
+      referenceType: 'commission',
+      from,
+      to,
+    });
+
+    const entries: CommissionStatementEntry[] = transactions
+      .filter(transaction => transaction.status === 'completed')
+      .map(transaction => ({
+        transactionId: transaction.id,
+        orderId: transaction.referenceId!,
+        orderItemId: transaction.metadata?.orderItemId,
+        kind: transaction.type === 'credit' ? 'commission' : 'reversal',
+        amount: transaction.type === 'credit' ? transaction.amount : -transaction.amount,
+        currency: transaction.currency,
+        completedAt: transaction.completedAt,
+      }));
+
+    const currencies = entries
+      .map(entry => entry.currency)
+      .filter((currency, index, all) => all.indexOf(currency) === index);
+
+    return {
+      userId,
+      from,
+      to,
+      entries,
+      totals: currencies.map(currency => {
+        const rows = entries.filter(entry => entry.currency === currency);
+        const earned = rows.filter(entry => entry.amount > 0).reduce((sum, entry) => sum + entry.amount, 0);
+        const reversed = rows.filter(entry => entry.amount < 0).reduce((sum, entry) => sum - entry.amount, 0);
+        return { currency, earned, reversed, net: earned - reversed };
+      }),
+    };
+  }
+
+  /**
+   * The ancestor's wallet in the order's currency, opened on their first commission
+   */
+  private async getWallet(order: Order, user: User): Promise<Wallet> {
+    return await this.storage.getWalletByUser(order.tenantId, user.id, order.currency)
+      ?? await this.storage.createWallet({ tenantId: order.tenantId, userId: user.id, currency: order.currency });
+  }
+}
+
+function startOfUtcMonth(now: Date = new Date()): string {
+  return new Date(Date.UTC(now.getUTCFullYear(), now.getUTCMonth(), 1)).toISOString();
+}
@@ -0,0 +1,107 @@
+// Crypto Helpers
+// WebCrypto primitives shared by auth, API keys and webhook signing (no Node APIs)
+
+const encoder = new TextEncoder();
+
+/**
+ * Encode bytes as standard, padded base64
+ */
+export function toBase64(bytes: Uint8Array): string {
+  let binary = '';
+  for (let i = 0; i < bytes.length; i++) {
+    binary += String.fromCharCode(bytes[i]);
+  }
+  return btoa(binary);
+}
+
+/**
+ * Encode bytes as base64url without padding
+ */
+export function toBase64Url(bytes: Uint8Array): string {
+  return toBase64(bytes).replace(/\+/g, '-').replace(/\//g, '_').replace(/=+$/, '');
+}
+
+/**
+ * Decode base64url (padding optional)
+ * @throws Error on malformed input
+ */
+export function fromBase64Url(value: string): Uint8Array {
+  const base64 = value.replace(/-/g, '+').replace(/_/g, '/');
+  const binary = atob(base64 + '='.repeat((4 - (base64.length % 4)) % 4));
+  const bytes = new Uint8Array(binary.length);
+  for (let i = 0; i < binary.length; i++) {
+    bytes[i] = binary.charCodeAt(i);
+  }
+  return bytes;
+}
+
+export function toHex(bytes: Uint8Array): string {
+  return Array.from(bytes, b => b.toString(16).padStart(2, '0')).join('');
+}
+
+export function utf8(value: string): Uint8Array {
+  return encoder.encode(value);
+}
+
+/**
+ * Cryptographically random bytes
+ */
+export function randomBytes(length: number): Uint8Array {
+  const bytes = new Uint8Array(length);
+  crypto.getRandomValues(bytes);
+  return bytes;
+}
+
+/**
+ * Random URL-safe token with `byteLength` bytes of entropy
+ */
+export function randomToken(byteLength: number = 32): string {
+  return toBase64Url(randomBytes(byteLength));
+}
+
+/**
+ * Compare two byte arrays without short-circuiting on the first difference
+ */
+export function timingSafeEqual(a: Uint8Array, b: Uint8Array): boolean {
+  let diff = a.length ^ b.length;
+  const length = Math.max(a.length, b.length);
+  for (let i = 0; i < length; i++) {
+    diff |= (a[i] ?? 0) ^ (b[i] ?? 0);
+  }
+  return diff === 0;
+}
+
+/**
+ * Constant-time comparison of two strings
+ */
+export function timingSafeEqualString(a: string, b: string): boolean {
+  return timingSafeEqual(utf8(a), utf8(b));
+}
+
+/**
+ * SHA-256 digest as lowercase hex
+ */
+export async function sha256Hex(value: string): Promise<string> {
+  const digest = await crypto.subtle.digest('SHA-256', utf8(value));
+  return toHex(new Uint8Array(digest));
+}
+
+function importHmacKey(secret: string, usages: KeyUsage[]): Promise<CryptoKey> {
+  return crypto.subtle.importKey('raw', utf8(secret), { name: 'HMAC', hash: 'SHA-256' }, false, usages);
+}
+
+/**
+ * HMAC-SHA256 of `value` keyed by `secret`
+ */
+export async function hmacSha256(secret: string, value: string): Promise<Uint8Array> {
+  const key = await importHmacKey(secret, ['sign']);
+  return new Uint8Array(await crypto.subtle.sign('HMAC', key, utf8(value)));
+}
+
+/**
+ * Verify an HMAC-SHA256 signature in constant time
+ */
+export async function verifyHmacSha256(secret: string, value: string, signature: Uint8Array): Promise<boolean> {
+  const key = await importHmacKey(secret, ['verify']);
+  return crypto.subtle.verify('HMAC', key, signature, utf8(value));
+}
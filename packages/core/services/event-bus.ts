@@ -0,0 +1,266 @@
+// Domain Event Bus
+// Typed in-process events, made durable through the event outbox
+
+import type { EventOutboxEntry, Invoice, Order, Service, Transaction } from '../../../shared/schema';
+import type { IStorage } from '../../../server/storage';
+import type { EventPayload } from '../types';
+import type { AuditLogEntry } from './audit-logger';
+import type { PublicUser } from './user-manager';
+
+/**
+ * Payload carried by each domain event
+ * Keys match the events webhooks can subscribe to (WebhookManager.getAvailableEvents)
+ */
+export interface DomainEventMap {
+  'order.created': { order: Order };
+  'order.updated': { order: Order; previousStatus: string };
+  'order.completed': { order: Order; previousStatus: string };
+  'order.failed': { order: Order; previousStatus: string; reason?: string };
+  'order.refunded': { order: Order; previousStatus: string; amount: number };
+  // Fired by the `record_event` state hook
+  'order.state_changed': {
+    order: Order;
+    previousStatus: string;
+    state: string;
+    phase: 'enter' | 'exit';
+    config: Record<string, any>;
+  };
+  'payment.received': { invoice: Invoice };
+  'payment.failed': { invoice: Invoice; reason?: string };
+  'user.created': { user: PublicUser };
+  'user.updated': { user: PublicUser };
+  'wallet.credited': { walletId: string; transaction: Transaction };
+  'wallet.debited': { walletId: string; transaction: Transaction };
+  'wallet.transfer': {
+    reference: string;
+    fromWalletId: string;
+    toWalletId: string;
+    amount: number;
+    currency: string;
+    debit: Transaction;
+    credit: Transaction;
+  };
+  'service.created': { service: Service };
+  'service.updated': { service: Service };
+}
+
+export type DomainEventType = keyof DomainEventMap;
+
+export interface DomainEvent<T extends DomainEventType = DomainEventType>
+  extends Omit<EventPayload, 'type' | 'data' | 'timestamp'> {
+  id: string;
+  type: T;
+  data: DomainEventMap[T];
+  timestamp: string; // ISO, so the event survives the outbox round trip
+  actorId?: string;
+  // Audit entries persisted by the audit subscriber
+  audit?: AuditLogEntry[];
+}
+
+export interface EventHandlerContext {
+  storage: IStorage;
+}
+
+export type EventHandler<T extends DomainEventType = DomainEventType> = (
+  event: DomainEvent<T>,
+  context: EventHandlerContext
+) => Promise<void>;
+
+export class EventBusError extends Error {
+  constructor(message: string, public code: string) {
+    super(message);
+    this.name = 'EventBusError';
+  }
+}
+
+interface Subscription {
+  name: string;
+  handler: EventHandler<any>;
+}
+
+// An outbox event is marked failed after this many attempts
+export const OUTBOX_MAX_ATTEMPTS = 10;
+
+const BASE_RETRY_DELAY_MS = 10_000;
+const MAX_RETRY_DELAY_MS = 60 * 60 * 1000;
+// Events being handled are pushed this far into the future so concurrent processors skip them
+const PROCESSING_LEASE_MS = 60_000;
+
+/**
+ * Typed event bus
+ *
+ * Flows never call subscribers directly. They `record` events into the outbox
+ * with the transaction that made the change, so an event exists if and only if
+ * the change was committed. `processOutbox` later hands each event to the
+ * subscribers. Subscribers are named, and the outbox row keeps the ones that
+ * handled the event, so a retry after a failure only reruns the subscribers
+ * that have not succeeded yet. Delivery is still at-least-once per subscriber
+ * (a processor can stop between a handler and the outbox update).
+ */
+export class EventBus {
+  private handlers = new Map<DomainEventType | '*', Subscription[]>();
+
+  /**
+   * Build an event
+   */
+  static createEvent<T extends DomainEventType>(
+    type: T,
+    tenantId: string,
+    data: DomainEventMap[T],
+    options: { actorId?: string; source?: string; audit?: AuditLogEntry[] } = {}
+  ): DomainEvent<T> {
+    return {
+      id: crypto.randomUUID(),
+      type,
+      tenantId,
+      data,
+      timestamp: new Date().toISOString(),
+      source: options.source ?? 'core',
+      actorId: options.actorId,
+      audit: options.audit,
+    };
+  }
+
+  /**
+   * Write an event to the outbox
+   * Pass the transaction handle so the event commits or rolls back with the change
+   */
+  static async record(storage: IStorage, event: DomainEvent): Promise<void> {
+    await storage.createOutboxEvent({
+      tenantId: event.tenantId,
+      type: event.type,
+      payload: event,
+      status: 'pending',
+      attempts: 0,
+      availableAt: event.timestamp,
+    });
+  }
+
+  /**
+   * Delay before an outbox event is retried: exponential and capped
+   */
+  static getRetryDelay(attempt: number): number {
+    return Math.min(MAX_RETRY_DELAY_MS, BASE_RETRY_DELAY_MS * 2 ** Math.max(0, attempt - 1));
+  }
+
+  /**
+   * Register a handler for one event type, or '*' for all of them
+   * The name identifies the subscriber in the outbox, so it must stay stable across deploys.
+   * @throws EventBusError DUPLICATE_SUBSCRIBER
+   */
+  subscribe<T extends DomainEventType>(type: T | '*', name: string, handler: EventHandler<T>): this {
+    if (this.getSubscriptions().some(subscription => subscription.name === name)) {
+      throw new EventBusError(`Subscriber '${name}' is already registered`, 'DUPLICATE_SUBSCRIBER');
+    }
+
+    const subscriptions = this.handlers.get(type) ?? [];
+    subscriptions.push({ name, handler });
+    this.handlers.set(type, subscriptions);
+    return this;
+  }
+
+  /**
+   * Run every matching handler for an event in-process
+   * @throws EventBusError HANDLER_FAILED with the failures when any handler throws
+   */
+  async dispatch(event: DomainEvent, context: EventHandlerContext): Promise<void> {
+    const { failures } = await this.run(event, context, []);
+    if (failures.length > 0) {
+      throw new EventBusError(failures.join('; '), 'HANDLER_FAILED');
+    }
+  }
+
+  /**
+   * Hand pending outbox events to the subscribers and record the outcome
+   * Events leased by a concurrent processor are skipped and left out of the result.
+   */
+  async processOutbox(
+    storage: IStorage,
+    options: { tenantId?: string; limit?: number; now?: Date } = {}
+  ): Promise<EventOutboxEntry[]> {
+    const now = options.now ?? new Date();
+    const pending = await storage.getPendingOutboxEvents(now.toISOString(), options.limit ?? 50, options.tenantId);
+
+    const results: EventOutboxEntry[] = [];
+    for (const entry of pending) {
+      const processed = await this.processEntry(storage, entry);
+      if (processed) {
+        results.push(processed);
+      }
+    }
+    return results;
+  }
+
+  private async processEntry(storage: IStorage, entry: EventOutboxEntry): Promise<EventOutboxEntry | undefined> {
+    const claimed = await storage.claimOutboxEvent(
+      entry,
+      new Date(Date.now() + PROCESSING_LEASE_MS).toISOString()
+    );
+    if (!claimed) {
+      return undefined; // another processor has it
+    }
+
+    const attempts = claimed.attempts + 1;
+    const { completed, failures } = await this.run(
+      claimed.payload as DomainEvent,
+      { storage },
+      claimed.completedSubscribers ?? []
+    );
+
+    // A failure is kept on the row (lastError, then status 'failed'), where the outbox is monitored
+    let updates: Partial<EventOutboxEntry>;
+    if (failures.length === 0) {
+      updates = {
+        status: 'processed',
+        attempts,
+        lastError: null,
+        completedSubscribers: completed,
+        processedAt: new Date().toISOString(),
+      };
+    } else {
+      const lastError = failures.join('; ');
+      updates = attempts >= OUTBOX_MAX_ATTEMPTS
+        ? { status: 'failed', attempts, lastError, completedSubscribers: completed }
+        : {
+          attempts,
+          lastError,
+          completedSubscribers: completed,
+          availableAt: new Date(Date.now() + EventBus.getRetryDelay(attempts)).toISOString(),
+        };
+    }
+
+    return (await storage.updateOutboxEvent(claimed.id, updates)) ?? { ...claimed, ...updates };
+  }
+
+  /**
+   * Run the matching handlers not in `skip`
+   * @returns the subscribers that have handled the event, `skip` included, and the failure messages
+   */
+  private async run(
+    event: DomainEvent,
+    context: EventHandlerContext,
+    skip: string[]
+  ): Promise<{ completed: string[]; failures: string[] }> {
+    const subscriptions = (this.handlers.get(event.type) ?? []).concat(this.handlers.get('*') ?? [])
+      .filter(subscription => skip.indexOf(subscription.name) === -1);
+    const results = await Promise.allSettled(subscriptions.map(subscription => subscription.handler(event, context)));
+
+    const completed = skip.slice();
+    const failures: string[] = [];
+    results.forEach((result, index) => {
+      const name = subscriptions[index].name;
+      if (result.status === 'fulfilled') {
+        completed.push(name);
+      } else {
+        failures.push(`${name}: ${(result.reason as Error)?.message ?? String(result.reason)}`);
+      }
+    });
+    return { completed, failures };
+  }
+
+  private getSubscriptions(): Subscription[] {
+    const all: Subscription[] = [];
+    this.handlers.forEach(subscriptions => all.push(...subscriptions));
+    return all;
+  }
+}
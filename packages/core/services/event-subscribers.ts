@@ -0,0 +1,69 @@
+// Event Subscribers
+// Standard EventBus handlers: webhook fan-out, audit persistence, notifications
+
+import type { DomainEvent, DomainEventType, EventHandler } from './event-bus';
+import { WebhookDispatcher } from './webhook-dispatcher';
+import { WebhookManager } from './webhook-manager';
+
+/**
+ * A destination for user-facing notifications (email, SMS, push, ...)
+ */
+export interface NotificationChannel {
+  name: string;
+  // Event types this channel cares about
+  events: DomainEventType[];
+  send(event: DomainEvent): Promise<void>;
+}
+
+/**
+ * Queue the event for every webhook subscribed to it and attempt delivery
+ * The subscriber succeeds once the deliveries are queued: failed deliveries are
+ * retried by the webhook queue, not by the event bus, which would queue them twice.
+ */
+export function createWebhookSubscriber(): EventHandler {
+  const available = new Set(WebhookManager.getAvailableEvents());
+
+  return async (event, { storage }) => {
+    if (!available.has(event.type)) {
+      return;
+    }
+
+    const dispatcher = new WebhookDispatcher(storage);
+    const queued = await dispatcher.enqueue(event.tenantId, event.type, {
+      ...event.data,
+      eventId: event.id,
+    });
+    await dispatcher.deliverQueued(event.tenantId, queued).catch(error => {
+      console.error(`[Webhooks] delivering ${event.type} (${event.id}) failed, left to the retry queue:`, error);
+    });
+  };
+}
+
+/**
+ * Persist the audit entries attached to the event
+ * All or none, so a retry does not write an entry twice
+ */
+export function createAuditSubscriber(): EventHandler {
+  return async (event, { storage }) => {
+    const entries = event.audit ?? [];
+    if (entries.length === 0) {
+      return;
+    }
+
+    await storage.transaction(async tx => {
+      for (const entry of entries) {
+        await tx.createAuditLog(entry);
+      }
+    });
+  };
+}
+
+/**
+ * Fan the event out to the notification channels that want it
+ */
+export function createNotificationSubscriber(channels: NotificationChannel[]): EventHandler {
+  return async (event) => {
+    const targets = channels.filter(channel => channel.events.includes(event.type));
+    await Promise.all(targets.map(channel => channel.send(event)));
+  };
+}
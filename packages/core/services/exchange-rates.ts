@@ -0,0 +1,322 @@
+// Exchange Rates
+// Manual and imported currency rates, conversion between currencies and multi-currency reports
+
+import type { ExchangeRate, Service, Tenant, Wallet } from '../../../shared/schema';
+import type { IStorage } from '../../../server/storage';
+import { AuditLogger } from './audit-logger';
+import { WalletLedger } from './wallet-ledger';
+import type { WalletBalance } from './wallet-manager';
+
+export interface ExchangeRateInput {
+  base: string;
+  quote: string;
+  rate: number; // quote per one base, in major units
+  effectiveAt?: string; // default: now
+}
+
+// A rate feed as most providers publish it: every quote against one base
+export interface ExchangeRateImport {
+  base: string;
+  rates: Record<string, number>;
+  effectiveAt?: string;
+}
+
+export interface ExchangeQuote {
+  from: string;
+  to: string;
+  rate: number; // `to` per one `from`
+  rateId: string | null; // stored rate used, possibly of the inverse pair; null for the same currency
+  effectiveAt: string;
+}
+
+export interface DisplayPrice {
+  currency: string;
+  baseCost: number;
+  exchangeRate: number;
+}
+
+export type CatalogService = Service & { display?: DisplayPrice | null };
+
+export interface ConvertedWalletBalance extends WalletBalance {
+  walletId: string;
+  userId: string;
+  exchangeRate: number | null;
+  converted: { available: number; locked: number; total: number } | null; // null without a rate
+}
+
+export interface BalanceReport {
+  currency: string;
+  wallets: ConvertedWalletBalance[];
+  totals: { available: number; locked: number; total: number }; // of the wallets that could be converted
+  missingRates: string[]; // wallet currencies with no rate to `currency`
+}
+
+export class ExchangeRateError extends Error {
+  constructor(message: string, public code: string) {
+    super(message);
+    this.name = 'ExchangeRateError';
+  }
+}
+
+/**
+ * Exchange rates per tenant
+ *
+ * Every rate set or imported is kept; a pair's rate is its latest row in
+ * effect. A pair can be converted both ways, using whichever direction was
+ * stored last. Amounts are in each currency's smallest unit, rates in major
+ * units, so conversion accounts for currencies with other than two decimals.
+ */
+export class ExchangeRates {
+  constructor(private readonly storage: IStorage) {}
+
+  /**
+   * @throws ExchangeRateError INVALID_CURRENCY, INVALID_RATE
+   */
+  async setRate(tenantId: string, actorId: string, input: ExchangeRateInput): Promise<ExchangeRate> {
+    const [rate] = await this.saveRates(tenantId, actorId, 'manual', input.base, { [input.quote]: input.rate }, input.effectiveAt);
+    return rate;
+  }
+
+  /**
+   * Store a feed of rates against one base in one go
+   * @throws ExchangeRateError INVALID_CURRENCY, INVALID_RATE
+   */
+  async importRates(tenantId: string, actorId: string, feed: ExchangeRateImport): Promise<ExchangeRate[]> {
+    return this.saveRates(tenantId, actorId, 'import', feed.base, feed.rates, feed.effectiveAt);
+  }
+
+  /**
+   * The rate in effect for every stored pair
+   */
+  async getCurrentRates(tenantId: string, at: string = new Date().toISOString()): Promise<ExchangeRate[]> {
+    const seen: string[] = [];
+    return (await this.storage.getExchangeRates(tenantId)).filter(rate => {
+      const pair = `${rate.baseCurrency}/${rate.quoteCurrency}`;
+      if (rate.effectiveAt > at || seen.indexOf(pair) !== -1) {
+        return false;
+      }
+      seen.push(pair);
+      return true;
+    });
+  }
+
+  /**
+   * The rate to convert `from` into `to` at a point in time
+   * @throws ExchangeRateError RATE_NOT_FOUND when neither direction has a rate in effect
+   */
+  async quote(tenantId: string, from: string, to: string, at: string = new Date().toISOString()): Promise<ExchangeQuote> {
+    const source = ExchangeRates.normalize(from);
+    const target = ExchangeRates.normalize(to);
+    if (source === target) {
+      return { from: source, to: target, rate: 1, rateId: null, effectiveAt: at };
+    }
+
+    const direct = await this.storage.getExchangeRate(tenantId, source, target, at);
+    const inverse = await this.storage.getExchangeRate(tenantId, target, source, at);
+
+    if (direct && (!inverse || direct.effectiveAt >= inverse.effectiveAt)) {
+      return { from: source, to: target, rate: direct.rate, rateId: direct.id, effectiveAt: direct.effectiveAt };
+    }
+    if (inverse) {
+      return { from: source, to: target, rate: 1 / inverse.rate, rateId: inverse.id, effectiveAt: inverse.effectiveAt };
+    }
+
+    throw new ExchangeRateError(`No exchange rate from ${source} to ${target}`, 'RATE_NOT_FOUND');
+  }
+
+  /**
+   * Wallet balances in their own currency and converted into `currency`
+   * (default: the tenant's display currency, else USD). Wallets whose currency
+   * has no rate are listed with `converted: null` and left out of the totals.
+   */
+  async balanceReport(tenantId: string, wallets: Wallet[], currency?: string): Promise<BalanceReport> {
+    const target = ExchangeRates.normalize(
+      currency ?? ExchangeRates.getDisplayCurrency(await this.storage.getTenant(tenantId)) ?? 'USD'
+    );
+    const ledger = new WalletLedger(this.storage);
+    const quotes: Record<string, ExchangeQuote | null> = {};
+    const totals = { available: 0, locked: 0, total: 0 };
+
+    const balances: ConvertedWalletBalance[] = [];
+    for (const wallet of wallets) {
+      const balance = await ledger.getBalance(tenantId, wallet.id);
+      const quote = await this.cachedQuote(quotes, tenantId, wallet.currency, target);
+      const converted = quote && {
+        available: ExchangeRates.convert(balance.available, quote),
+        locked: ExchangeRates.convert(balance.locked, quote),
+        total: ExchangeRates.convert(balance.total, quote),
+      };
+      if (converted) {
+        totals.available += converted.available;
+        totals.locked += converted.locked;
+        totals.total += converted.total;
+      }
+
+      balances.push({
+        ...balance,
+        currency: wallet.currency,
+        walletId: wallet.id,
+        userId: wallet.userId,
+        exchangeRate: quote ? quote.rate : null,
+        converted,
+      });
+    }
+
+    return {
+      currency: target,
+      wallets: balances,
+      totals,
+      missingRates: Object.keys(quotes).filter(code => quotes[code] === null),
+    };
+  }
+
+  /**
+   * Services with their base cost in the tenant's display currency, when it has one
+   * `display` is null for a service whose currency has no rate to it.
+   */
+  async withDisplayPrices(tenant: Tenant | undefined, services: Service[]): Promise<CatalogService[]> {
+    const displayCurrency = ExchangeRates.getDisplayCurrency(tenant);
+    if (!tenant || !displayCurrency) {
+      return services;
+    }
+
+    const quotes: Record<string, ExchangeQuote | null> = {};
+    const priced: CatalogService[] = [];
+    for (const service of services) {
+      const quote = await this.cachedQuote(quotes, tenant.id, service.currency, displayCurrency);
+      priced.push({
+        ...service,
+        display: quote && {
+          currency: displayCurrency,
+          baseCost: ExchangeRates.convert(service.baseCost, quote),
+          exchangeRate: quote.rate,
+        },
+      });
+    }
+    return priced;
+  }
+
+  /**
+   * Set or clear (null) the currency the tenant's catalog is shown in
+   * @throws ExchangeRateError INVALID_CURRENCY
+   */
+  async setDisplayCurrency(tenantId: string, actorId: string, currency: string | null): Promise<Tenant | undefined> {
+    const displayCurrency = currency === null ? null : ExchangeRates.normalize(currency);
+
+    return this.storage.transaction(async tx => {
+      const tenant = await tx.getTenant(tenantId);
+      if (!tenant) {
+        return undefined;
+      }
+
+      const updated = await tx.updateTenant(tenantId, { config: { ...tenant.config, displayCurrency } });
+      await tx.createAuditLog(AuditLogger.logConfigChange(
+        tenantId,
+        actorId,
+        'displayCurrency',
+        ExchangeRates.getDisplayCurrency(tenant),
+        displayCurrency
+      ));
+      return updated;
+    });
+  }
+
+  /**
+   * Convert an amount in the quote's `from` currency into its `to` currency, in smallest units
+   */
+  static convert(amount: number, quote: Pick<ExchangeQuote, 'from' | 'to' | 'rate'>): number {
+    if (quote.from === quote.to) {
+      return amount;
+    }
+    const scale = Math.pow(10, this.minorUnits(quote.to) - this.minorUnits(quote.from));
+    return Math.round(amount * quote.rate * scale);
+  }
+
+  /**
+   * Decimal places of a currency's smallest unit (2 for USD, 0 for JPY)
+   * @throws ExchangeRateError INVALID_CURRENCY
+   */
+  static minorUnits(currency: string): number {
+    try {
+      return new Intl.NumberFormat('en', { style: 'currency', currency }).resolvedOptions().maximumFractionDigits ?? 2;
+    } catch {
+      throw new ExchangeRateError(`Invalid currency code '${currency}'`, 'INVALID_CURRENCY');
+    }
+  }
+
+  /**
+   * Upper-cased ISO 4217 code
+   * @throws ExchangeRateError INVALID_CURRENCY
+   */
+  static normalize(currency: string): string {
+    const code = currency.trim().toUpperCase();
+    if (!/^[A-Z]{3}$/.test(code)) {
+      throw new ExchangeRateError(`Invalid currency code '${currency}'`, 'INVALID_CURRENCY');
+    }
+    this.minorUnits(code);
+    return code;
+  }
+
+  static getDisplayCurrency(tenant: Tenant | undefined): string | null {
+    return tenant?.config?.displayCurrency ?? null;
+  }
+
+  /**
+   * `quote` once per source currency, null when there is no rate
+   */
+  private async cachedQuote(
+    quotes: Record<string, ExchangeQuote | null>,
+    tenantId: string,
+    from: string,
+    to: string
+  ): Promise<ExchangeQuote | null> {
+    if (quotes[from] === undefined) {
+      quotes[from] = await this.quote(tenantId, from, to).catch(error => {
+        if (error instanceof ExchangeRateError) {
+          return null;
+        }
+        throw error;
+      });
+    }
+    return quotes[from];
+  }
+
+  private async saveRates(
+    tenantId: string,
+    actorId: string,
+    source: 'manual' | 'import',
+    base: string,
+    rates: Record<string, number>,
+    effectiveAt: string = new Date().toISOString()
+  ): Promise<ExchangeRate[]> {
+    const baseCurrency = ExchangeRates.normalize(base);
+    const createdAt = new Date().toISOString();
+
+    const rows = Object.keys(rates).map(quote => {
+      const quoteCurrency = ExchangeRates.normalize(quote);
+      const rate = rates[quote];
+      if (quoteCurrency === baseCurrency) {
+        throw new ExchangeRateError(`${baseCurrency} cannot be quoted against itself`, 'INVALID_RATE');
+      }
+      if (!(rate > 0) || !isFinite(rate)) {
+        throw new ExchangeRateError(`Rate for ${baseCurrency}/${quoteCurrency} must be a positive number`, 'INVALID_RATE');
+      }
+      return { tenantId, baseCurrency, quoteCurrency, rate, source, effectiveAt, createdBy: actorId, createdAt };
+    });
+    if (rows.length === 0) {
+      throw new ExchangeRateError('No rates given', 'INVALID_RATE');
+    }
+
+    return this.storage.transaction(async tx => {
+      const created = await tx.createExchangeRates(rows);
+      await tx.createAuditLog(AuditLogger.logConfigChange(
+        tenantId,
+        actorId,
+        `exchangeRates.${source}`,
+        null,
+        { base: baseCurrency, rates, effectiveAt }
+      ));
+      return created;
+    });
+  }
+}
@@ -219,7 +219,7 @@ export class InvoiceManager {
       errors.push('Subtotal must be a positive number');
     }
 
-    if (invoice.tax !== undefined && invoice.tax < 0) {
+    if (invoice.tax !== undefined && invoice.tax !== null && invoice.tax < 0) {
       errors.push('Tax cannot be negative');
     }
 
@@ -228,7 +228,7 @@ export class InvoiceManager {
     }
 
     if (invoice.subtotal && invoice.tax !== undefined && invoice.total) {
-      if (invoice.subtotal + invoice.tax !== invoice.total) {
+      if (invoice.subtotal + (invoice.tax ?? 0) !== invoice.total) {
         errors.push('Total must equal subtotal plus tax');
       }
     }
@@ -0,0 +1,161 @@
+// Journal
+// Double-entry postings behind the wallet ledger
+
+import type { InsertJournalLine, Transaction } from '../../../shared/schema';
+import type { JournalTotal } from '../../../server/storage';
+
+// Customer funds, per wallet: spendable and reserved for orders
+export type WalletAccount = 'wallet_available' | 'wallet_locked';
+
+// Tenant-level accounts
+// - revenue: what the tenant earned on orders, net of refunds
+// - provider_payables: supplier cost of delivered orders, owed to providers
+// - fees: wallet debits that are not order payments
+// - suspense: funds credited to wallets whose source is not booked elsewhere
+// - transfer_clearing: wallet-to-wallet transfers; zero once both sides are posted
+// - commissions: paid to distributors and resellers on their sub-users' orders, net of reversals
+export type SystemAccount = 'revenue' | 'provider_payables' | 'fees' | 'suspense' | 'transfer_clearing' | 'commissions';
+
+export type JournalAccount = WalletAccount | SystemAccount;
+
+export const SYSTEM_ACCOUNTS: SystemAccount[] = [
+  'revenue',
+  'provider_payables',
+  'fees',
+  'suspense',
+  'transfer_clearing',
+  'commissions',
+];
+
+export interface TrialBalanceAccount extends JournalTotal {
+  balance: number; // debit - credit
+}
+
+export interface TrialBalance {
+  accounts: TrialBalanceAccount[];
+  totals: Array<{ currency: string; debit: number; credit: number; balanced: boolean }>;
+  balanced: boolean; // every currency's debits equal its credits
+}
+
+// Where a credit with this reference type comes from, and a debit with it goes back to
+const CREDIT_SOURCES: Record<string, SystemAccount> = {
+  transfer: 'transfer_clearing',
+  commission: 'commissions',
+};
+
+export class JournalError extends Error {
+  constructor(message: string, public code: string) {
+    super(message);
+    this.name = 'JournalError';
+  }
+}
+
+export class Journal {
+  /**
+   * The balanced entry for a wallet transaction
+   *
+   * - credit: suspense to the wallet
+   * - lock / unlock: between the wallet's available and locked funds
+   * - debit for an order: the wallet to provider payables (`metadata.providerCost`)
+   *   and revenue (the rest); any other debit goes to fees
+   * - transfer debit / credit: through transfer clearing
+   * - commission credit / reversal: from / back to commissions
+   * - refund: back to the wallet from provider payables (`metadata.providerCost`,
+   *   the refund's share of the debit's) and revenue (the rest); commissions are
+   *   reversed by their own transactions
+   *
+   * Transactions that are not completed post nothing.
+   * @throws JournalError UNBALANCED_ENTRY if the lines do not balance
+   */
+  static linesFor(transaction: Transaction): InsertJournalLine[] {
+    if (transaction.status !== 'completed') {
+      return [];
+    }
+
+    const amount = transaction.amount;
+    const postings: Array<{ account: JournalAccount; debit?: number; credit?: number }> = [];
+
+    switch (transaction.type) {
+      case 'credit':
+        postings.push(
+          { account: CREDIT_SOURCES[transaction.referenceType ?? ''] ?? 'suspense', debit: amount },
+          { account: 'wallet_available', credit: amount }
+        );
+        break;
+      case 'lock':
+        postings.push({ account: 'wallet_available', debit: amount }, { account: 'wallet_locked', credit: amount });
+        break;
+      case 'unlock':
+        postings.push({ account: 'wallet_locked', debit: amount }, { account: 'wallet_available', credit: amount });
+        break;
+      case 'debit':
+        postings.push({ account: 'wallet_available', debit: amount });
+        if (transaction.referenceType === 'order') {
+          const cost = Math.min(Math.max(transaction.metadata?.providerCost ?? 0, 0), amount);
+          postings.push({ account: 'provider_payables', credit: cost }, { account: 'revenue', credit: amount - cost });
+        } else if (CREDIT_SOURCES[transaction.referenceType ?? '']) {
+          postings.push({ account: CREDIT_SOURCES[transaction.referenceType!], credit: amount });
+        } else {
+          postings.push({ account: 'fees', credit: amount });
+        }
+        break;
+      case 'refund': {
+        const cost = Math.min(Math.max(transaction.metadata?.providerCost ?? 0, 0), amount);
+        postings.push(
+          { account: 'provider_payables', debit: cost },
+          { account: 'revenue', debit: amount - cost },
+          { account: 'wallet_available', credit: amount }
+        );
+        break;
+      }
+      default:
+        throw new JournalError(`No postings defined for '${transaction.type}' transactions`, 'UNKNOWN_TRANSACTION_TYPE');
+    }
+
+    const createdAt = new Date().toISOString();
+    const lines: InsertJournalLine[] = postings
+      .filter(posting => (posting.debit ?? 0) > 0 || (posting.credit ?? 0) > 0)
+      .map(posting => ({
+        tenantId: transaction.tenantId,
+        transactionId: transaction.id,
+        account: posting.account,
+        walletId: posting.account.startsWith('wallet_') ? transaction.walletId : null,
+        debit: posting.debit ?? 0,
+        credit: posting.credit ?? 0,
+        currency: transaction.currency,
+        createdAt,
+      }));
+
+    if (!this.isBalanced(lines)) {
+      throw new JournalError(`Entry for transaction ${transaction.id} does not balance`, 'UNBALANCED_ENTRY');
+    }
+    return lines;
+  }
+
+  static isBalanced(lines: Array<{ debit?: number; credit?: number }>): boolean {
+    return lines.reduce((sum, line) => sum + (line.debit ?? 0) - (line.credit ?? 0), 0) === 0;
+  }
+
+  /**
+   * Trial balance from per-account totals; the books balance when each
+   * currency's debits equal its credits
+   */
+  static trialBalance(totals: JournalTotal[]): TrialBalance {
+    const currencies = totals
+      .map(total => total.currency)
+      .filter((currency, index, all) => all.indexOf(currency) === index);
+
+    const byCurrency = currencies.map(currency => {
+      const rows = totals.filter(total => total.currency === currency);
+      const debit = rows.reduce((sum, row) => sum + row.debit, 0);
+      const credit = rows.reduce((sum, row) => sum + row.credit, 0);
+      return { currency, debit, credit, balanced: debit === credit };
+    });
+
+    return {
+      accounts: totals.map(total => ({ ...total, balance: total.debit - total.credit })),
+      totals: byCurrency,
+      balanced: byCurrency.every(total => total.balanced),
+    };
+  }
+}
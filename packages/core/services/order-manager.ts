@@ -1,11 +1,12 @@
 // Order Management
 // Order placement, fulfillment, and lifecycle management
 
-import type { Order, Service, Provider } from '../../../shared/schema';
-import { OrderStateMachine, type OrderStatus } from './order-state-machine';
-import { PricingEngine, type PricingRule } from './pricing-engine';
+import type { Order, OrderItem, Service, Provider } from '../../../shared/schema';
+import { OrderItemStateMachine, OrderStateMachine, type OrderItemStatus, type OrderStatus } from './order-state-machine';
+import type { ExchangeQuote } from './exchange-rates';
+import { PricingEngine, type PriceCalculation, type PricingRule } from './pricing-engine';
 import { ServiceManager } from './service-manager';
-import { ProviderRegistry, type ProviderConfig } from '../providers';
+import { ProviderRegistry } from '../providers';
 
 export interface OrderCreateInput {
   tenantId: string;
@@ -13,6 +14,7 @@ export interface OrderCreateInput {
   serviceId: string;
   inputData: Record<string, any>;
   userRole: string;
+  currency?: string; // wallet currency to pay in (default: the service's)
   metadata?: Record<string, any>;
 }
 
@@ -29,6 +31,8 @@ export interface OrderPlacementResult {
 export interface OrderFulfillmentResult {
   success: boolean;
   status: OrderStatus;
+  providerOrderId?: string;
+  providerStatus?: string;
   outputData?: Record<string, any>;
   error?: {
     code: string;
@@ -39,11 +43,13 @@ export interface OrderFulfillmentResult {
 export class OrderManager {
   /**
    * Place a new order
+   * With a `quote`, the price is converted into the quote's currency and its rate locked onto the order.
    */
   static async placeOrder(
     input: OrderCreateInput,
     service: Service,
-    pricingRules: PricingRule[]
+    pricingRules: PricingRule[],
+    quote?: ExchangeQuote
   ): Promise<OrderPlacementResult> {
     // Validate input against service schema
     const validation = ServiceManager.validateOrderInput(service, input.inputData);
@@ -71,16 +77,16 @@ export class OrderManager {
     }
 
     // Calculate pricing
-    const pricing = PricingEngine.calculatePrice(
+    const pricing = convertPrice(PricingEngine.calculatePrice(
       service.baseCost,
       pricingRules,
       input.userRole,
       1,
       service.currency
-    );
+    ), 1, quote);
 
     // Generate order number
-    const orderNumber = this.generateOrderNumber();
+    const orderNumber = generateOrderNumber();
 
     // Determine initial status
     const initialStatus: OrderStatus = service.requiresApproval 
@@ -94,11 +100,11 @@ export class OrderManager {
       orderNumber,
       status: initialStatus,
       inputData: validation.data!,
-      baseCost: service.baseCost,
+      baseCost: pricing.baseCost,
       markup: pricing.markup,
       totalAmount: pricing.totalAmount,
       paidAmount: 0,
-      currency: service.currency,
+      ...currencyFields(pricing, quote),
       metadata: input.metadata || {},
     };
 
@@ -110,24 +116,20 @@ export class OrderManager {
 
   /**
    * Execute order with provider
+   * `providerServiceId` is the supplier's own service ID from the mapping;
+   * it falls back to our service ID when the provider has no mapping.
+   * Aborting `signal` cancels the provider's request.
    */
   static async fulfillOrder(
     order: Order,
     service: Service,
-    provider: Provider
+    provider: Provider,
+    providerServiceId?: string,
+    signal?: AbortSignal
   ): Promise<OrderFulfillmentResult> {
     try {
       // Create provider instance
-      const providerConfig: ProviderConfig = {
-        id: provider.id,
-        name: provider.name,
-        type: provider.type as any,
-        credentials: provider.credentials,
-        config: provider.config,
-        statusMapping: provider.statusMapping,
-      };
-
-      const providerInstance = ProviderRegistry.create(providerConfig);
+      const providerInstance = ProviderRegistry.fromRecord(provider);
 
       // Validate input with provider
       const inputValidation = await providerInstance.validateInput(order.inputData);
@@ -144,15 +146,18 @@ export class OrderManager {
 
       // Place order with provider
       const providerResponse = await providerInstance.placeOrder({
-        serviceId: service.id,
+        serviceId: providerServiceId ?? service.id,
         inputData: order.inputData,
-        metadata: order.metadata,
+        metadata: order.metadata ?? undefined,
+        reference: order.id,
+        signal,
       });
 
       if (!providerResponse.success) {
         return {
           success: false,
           status: 'failed',
+          providerStatus: providerResponse.status,
           error: providerResponse.error,
         };
       }
@@ -163,6 +168,8 @@ export class OrderManager {
       return {
         success: true,
         status: this.mapProviderStatusToOrderStatus(normalizedStatus),
+        providerOrderId: providerResponse.providerOrderId,
+        providerStatus: providerResponse.status,
         outputData: providerResponse.data,
       };
     } catch (error: any) {
@@ -179,13 +186,15 @@ export class OrderManager {
 
   /**
    * Transition order to new status
+   * `machine` is the tenant's state machine; the built-in one when omitted
    */
   static transitionOrder(
-    currentStatus: OrderStatus,
-    newStatus: OrderStatus,
-    userRole?: string
+    currentStatus: string,
+    newStatus: string,
+    userRole?: string,
+    machine: OrderStateMachine = OrderStateMachine.default
   ): { allowed: boolean; reason?: string } {
-    return OrderStateMachine.canTransition(currentStatus, newStatus, userRole);
+    return machine.canTransition(currentStatus, newStatus, userRole);
   }
 
   /**
@@ -193,40 +202,30 @@ export class OrderManager {
    */
   static getAvailableTransitions(
     order: Order,
-    userRole?: string
-  ): OrderStatus[] {
-    return OrderStateMachine.getAvailableTransitions(order.status as OrderStatus, userRole);
+    userRole?: string,
+    machine: OrderStateMachine = OrderStateMachine.default
+  ): string[] {
+    return machine.getAvailableTransitions(order.status, userRole);
   }
 
   /**
    * Check if order is in terminal state
    */
-  static isTerminal(order: Order): boolean {
-    return OrderStateMachine.isTerminalState(order.status as OrderStatus);
+  static isTerminal(order: Order, machine: OrderStateMachine = OrderStateMachine.default): boolean {
+    return machine.isTerminalState(order.status);
   }
 
   /**
-   * Approve order (admin only)
+   * Approve order
+   * The roles allowed to approve come from the state machine (admins by default)
    */
   static approveOrder(
     order: Order,
     approvedBy: string,
-    userRole: string
+    userRole: string,
+    machine: OrderStateMachine = OrderStateMachine.default
   ): { allowed: boolean; reason?: string } {
-    if (userRole !== 'super_admin' && userRole !== 'admin') {
-      return {
-        allowed: false,
-        reason: 'Only admins can approve orders',
-      };
-    }
-
-    const transition = this.transitionOrder(
-      order.status as OrderStatus,
-      'approved',
-      userRole
-    );
-
-    return transition;
+    return this.transitionOrder(order.status, 'approved', userRole, machine);
   }
 
   /**
@@ -234,42 +233,29 @@ export class OrderManager {
    */
   static cancelOrder(
     order: Order,
-    userRole: string
+    userRole: string,
+    machine: OrderStateMachine = OrderStateMachine.default
   ): { allowed: boolean; reason?: string } {
-    return this.transitionOrder(
-      order.status as OrderStatus,
-      'cancelled',
-      userRole
-    );
+    return this.transitionOrder(order.status, 'cancelled', userRole, machine);
   }
 
   /**
    * Refund order
+   * `partial` when some of the paid amount stays with the order
    */
   static refundOrder(
     order: Order,
-    userRole: string
+    userRole: string,
+    partial: boolean = false,
+    machine: OrderStateMachine = OrderStateMachine.default
   ): { allowed: boolean; reason?: string } {
-    return this.transitionOrder(
-      order.status as OrderStatus,
-      'refunded',
-      userRole
-    );
+    return this.transitionOrder(order.status, partial ? 'partially_refunded' : 'refunded', userRole, machine);
   }
 
   /**
-   * Generate unique order number
+   * Map a normalized provider status to order status
    */
-  private static generateOrderNumber(): string {
-    const timestamp = Date.now();
-    const random = Math.floor(Math.random() * 10000).toString().padStart(4, '0');
-    return `ORD-${timestamp}-${random}`;
-  }
-
-  /**
-   * Map provider status to order status
-   */
-  private static mapProviderStatusToOrderStatus(providerStatus: string): OrderStatus {
+  static mapProviderStatusToOrderStatus(providerStatus: string): OrderStatus {
     const statusMap: Record<string, OrderStatus> = {
       'pending': 'processing',
       'processing': 'processing',
@@ -284,16 +270,32 @@ export class OrderManager {
 }
 
 // Bulk order management
+
+// Lines accepted in one bulk order
+export const MAX_BULK_ITEMS = 500;
+
+export interface BulkOrderItemDraft {
+  inputData: Record<string, any>;
+  amount: number; // share of the order's totalAmount
+}
+
+export interface BulkOrderPlacementResult extends OrderPlacementResult {
+  items?: BulkOrderItemDraft[];
+}
+
 export class BulkOrderManager {
   /**
    * Place bulk order
+   * The order is priced for the whole quantity; each line gets its share of the total.
+   * A `quote` converts the price as in `OrderManager.placeOrder`.
    */
   static async placeBulkOrder(
     input: OrderCreateInput,
     service: Service,
     pricingRules: PricingRule[],
-    items: Array<Record<string, any>>
-  ): Promise<OrderPlacementResult> {
+    items: Array<Record<string, any>>,
+    quote?: ExchangeQuote
+  ): Promise<BulkOrderPlacementResult> {
     if (!service.supportsBulk) {
       return {
         success: false,
@@ -304,13 +306,36 @@ export class BulkOrderManager {
       };
     }
 
+    if (items.length === 0 || items.length > MAX_BULK_ITEMS) {
+      return {
+        success: false,
+        error: {
+          code: 'BULK_SIZE_ERROR',
+          message: `Bulk orders take between 1 and ${MAX_BULK_ITEMS} items`,
+        },
+      };
+    }
+
+    if (!ServiceManager.canAccessService(service, input.userRole)) {
+      return {
+        success: false,
+        error: {
+          code: 'ACCESS_DENIED',
+          message: 'Service not available for your role',
+        },
+      };
+    }
+
     // Validate all items
     const validationErrors: Array<{ index: number; errors: Record<string, string[]> }> = [];
+    const inputs: Array<Record<string, any>> = [];
     
     for (let i = 0; i < items.length; i++) {
       const validation = ServiceManager.validateOrderInput(service, items[i]);
       if (!validation.valid && validation.errors) {
         validationErrors.push({ index: i, errors: validation.errors });
+      } else {
+        inputs.push(validation.data ?? items[i]);
       }
     }
 
@@ -329,15 +354,15 @@ export class BulkOrderManager {
     }
 
     // Calculate total pricing
-    const pricing = PricingEngine.calculatePrice(
+    const pricing = convertPrice(PricingEngine.calculatePrice(
       service.baseCost,
       pricingRules,
       input.userRole,
       items.length,
       service.currency
-    );
+    ), items.length, quote);
 
-    const orderNumber = OrderManager['generateOrderNumber']();
+    const orderNumber = generateOrderNumber();
 
     const order: Partial<Order> = {
       tenantId: input.tenantId,
@@ -346,11 +371,11 @@ export class BulkOrderManager {
       orderNumber,
       status: service.requiresApproval ? 'pending' : 'payment_confirmed',
       inputData: { bulkCount: items.length },
-      baseCost: service.baseCost * items.length,
+      baseCost: pricing.baseCost * items.length,
       markup: pricing.markup,
       totalAmount: pricing.totalAmount,
       paidAmount: 0,
-      currency: service.currency,
+      ...currencyFields(pricing, quote),
       metadata: {
         ...input.metadata,
         isBulk: true,
@@ -358,9 +383,94 @@ export class BulkOrderManager {
       },
     };
 
+    const amounts = this.splitAmount(pricing.totalAmount, inputs.length);
+
     return {
       success: true,
       order: order as Order,
+      items: inputs.map((inputData, index) => ({ inputData, amount: amounts[index] })),
     };
   }
+
+  static isBulk(order: Order): boolean {
+    return order.metadata?.isBulk === true;
+  }
+
+  /**
+   * Split a total into `count` whole-cent shares that add up to it exactly
+   * The first shares absorb the remainder.
+   */
+  static splitAmount(total: number, count: number): number[] {
+    const share = Math.floor(total / count);
+    const remainder = total - share * count;
+    return Array.from({ length: count }, (_, index) => share + (index < remainder ? 1 : 0));
+  }
+
+  /**
+   * The parent order status implied by its items
+   * Items still in flight keep the order processing; once all are settled it is
+   * delivered, failed, or partially delivered when both outcomes occurred.
+   */
+  static aggregateStatus(items: Array<Pick<OrderItem, 'status'>>): OrderStatus {
+    const statuses = items.map(item => item.status as OrderItemStatus);
+
+    if (statuses.some(status => !OrderItemStateMachine.isTerminalState(status))) {
+      return 'processing';
+    }
+    if (statuses.every(status => status === 'delivered')) {
+      return 'delivered';
+    }
+    if (statuses.every(status => status === 'failed')) {
+      return 'failed';
+    }
+    return 'partially_delivered';
+  }
+
+  /**
+   * The parent order as seen by a provider for one item
+   * Providers place, reference and report on the item, not the whole order.
+   */
+  static itemView(order: Order, item: OrderItem): Order {
+    return {
+      ...order,
+      id: item.id,
+      status: item.status,
+      inputData: item.inputData,
+      providerId: item.providerId ?? order.providerId,
+      providerOrderId: item.providerOrderId,
+      providerStatus: item.providerStatus,
+      providerAttempts: item.providerAttempts ?? [],
+    };
+  }
+}
+
+/**
+ * The price in the quote's currency, when the order is paid in another currency than the service's
+ */
+function convertPrice(pricing: PriceCalculation, quantity: number, quote?: ExchangeQuote): PriceCalculation {
+  return quote ? PricingEngine.convertPrice(pricing, quote, quantity) : pricing;
+}
+
+/**
+ * The order's currency and, when converted, the rate locked onto it
+ */
+function currencyFields(pricing: PriceCalculation, quote?: ExchangeQuote): Partial<Order> {
+  if (!pricing.priceCurrency) {
+    return { currency: pricing.currency };
+  }
+  return {
+    currency: pricing.currency,
+    priceCurrency: pricing.priceCurrency,
+    exchangeRate: pricing.exchangeRate,
+    exchangeRateId: quote?.rateId ?? null,
+  };
+}
+
+/**
+ * Generate unique order number
+ */
+function generateOrderNumber(): string {
+  const timestamp = Date.now();
+  const random = Math.floor(Math.random() * 10000).toString().padStart(4, '0');
+  return `ORD-${timestamp}-${random}`;
 }
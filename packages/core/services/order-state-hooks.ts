@@ -0,0 +1,98 @@
+// Order State Hooks
+// Named actions a tenant's state machine runs when an order enters or leaves a state
+
+import type { Order } from '../../../shared/schema';
+import type { IStorage } from '../../../server/storage';
+import { AuditLogger } from './audit-logger';
+import { EventBus } from './event-bus';
+import type { OrderStateMachine, StateHookRef } from './order-state-machine';
+
+export interface StateHookContext {
+  tx: IStorage;
+  order: Order; // as saved with its new status
+  from: string;
+  to: string;
+  state: string; // the state entered or left
+  phase: 'enter' | 'exit';
+  config: Record<string, any>;
+  actorId: string;
+}
+
+export type StateHook = (context: StateHookContext) => Promise<void>;
+
+/**
+ * Registry of the hooks state definitions may name in `onEnter` / `onExit`
+ *
+ * Hooks run inside the transaction that changes the order's status, so a
+ * failing hook rolls the change back. Built-in hooks:
+ * - `record_event`: records `order.state_changed` (webhook subscribers get it)
+ * - `audit`: writes an audit entry, with `config.message` if given
+ */
+export class OrderStateHooks {
+  private static hooks: Map<string, StateHook> = new Map();
+
+  static {
+    OrderStateHooks.register('record_event', async ({ tx, order, from, state, phase, config, actorId }) => {
+      await EventBus.record(tx, EventBus.createEvent('order.state_changed', order.tenantId, {
+        order,
+        previousStatus: from,
+        state,
+        phase,
+        config,
+      }, { actorId }));
+    });
+
+    OrderStateHooks.register('audit', async ({ tx, order, from, to, state, phase, config, actorId }) => {
+      await tx.createAuditLog(AuditLogger.logOrder(order.tenantId, actorId, 'update', order.id, {
+        from,
+        to,
+        hook: `${phase}:${state}`,
+        message: config.message,
+      }));
+    });
+  }
+
+  static register(name: string, hook: StateHook): void {
+    this.hooks.set(name, hook);
+  }
+
+  static getNames(): string[] {
+    return Array.from(this.hooks.keys());
+  }
+
+  /**
+   * Run the hooks for each step of a status change, in order
+   * `path` starts with the status the order left; each step runs the exit hooks
+   * of its source state, then the enter hooks of its target.
+   */
+  static async run(
+    tx: IStorage,
+    machine: OrderStateMachine,
+    order: Order,
+    path: string[],
+    actorId: string
+  ): Promise<void> {
+    for (let index = 1; index < path.length; index++) {
+      const from = path[index - 1];
+      const to = path[index];
+      if (from === to) {
+        continue;
+      }
+
+      const steps: Array<{ state: string; phase: 'enter' | 'exit'; refs: StateHookRef[] }> = [
+        { state: from, phase: 'exit', refs: machine.getState(from)?.onExit ?? [] },
+        { state: to, phase: 'enter', refs: machine.getState(to)?.onEnter ?? [] },
+      ];
+
+      for (const step of steps) {
+        for (const ref of step.refs) {
+          const hook = this.hooks.get(ref.hook);
+          if (!hook) {
+            throw new Error(`State hook '${ref.hook}' is not registered`);
+          }
+          await hook({ tx, order, from, to, state: step.state, phase: step.phase, config: ref.config ?? {}, actorId });
+        }
+      }
+    }
+  }
+}
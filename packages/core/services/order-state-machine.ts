@@ -1,67 +1,152 @@
 // Order State Machine
 // Enforces valid state transitions and prevents illegal changes
 
+import type {
+  OrderStateDefinition,
+  OrderStateMachineDefinition,
+  OrderStateTransition,
+  StateHookRef,
+} from '../../../shared/schema';
+
 export type OrderStatus =
   | 'pending'
   | 'payment_confirmed'
   | 'approved'
   | 'processing'
   | 'delivered'
+  | 'partially_delivered' // bulk orders where some items failed
   | 'failed'
+  | 'partially_refunded' // part of what was paid went back to the wallet
   | 'refunded'
   | 'cancelled';
 
-export interface StateTransition {
-  from: OrderStatus;
-  to: OrderStatus;
-  requiresRole?: string[];
-  requiresApproval?: boolean;
-}
+export type StateTransition = OrderStateTransition;
+
+export type { OrderStateDefinition, OrderStateMachineDefinition, StateHookRef };
 
 export interface TransitionResult {
   allowed: boolean;
   reason?: string;
 }
 
+const ADMIN_ROLES = ['super_admin', 'admin'];
+
+// Roles a transition may require (see RoleType)
+const TRANSITION_ROLES = ['super_admin', 'admin', 'distributor', 'reseller', 'web_owner', 'customer'];
+
+const STATE_NAME_PATTERN = /^[a-z][a-z0-9_]*$/;
+
+// Orders are created in this state
+const INITIAL_STATE: OrderStatus = 'pending';
+
+const BUILT_IN_STATES: OrderStateDefinition[] = [
+  { name: 'pending' },
+  { name: 'payment_confirmed' },
+  { name: 'approved' },
+  { name: 'processing' },
+  { name: 'delivered', terminal: true },
+  { name: 'partially_delivered', terminal: true },
+  { name: 'failed' },
+  { name: 'partially_refunded', terminal: true },
+  { name: 'refunded', terminal: true },
+  { name: 'cancelled', terminal: true },
+];
+
+const BUILT_IN_TRANSITIONS: StateTransition[] = [
+  // Initial transitions
+  { from: 'pending', to: 'payment_confirmed' },
+  { from: 'pending', to: 'cancelled' },
+
+  // Payment confirmed transitions
+  { from: 'payment_confirmed', to: 'approved', requiresRole: ADMIN_ROLES },
+  { from: 'payment_confirmed', to: 'processing' }, // Auto-approve if not required
+  { from: 'payment_confirmed', to: 'cancelled', requiresRole: ADMIN_ROLES },
+
+  // Approved transitions
+  { from: 'approved', to: 'processing' },
+  { from: 'approved', to: 'cancelled', requiresRole: ADMIN_ROLES },
+
+  // Processing transitions
+  { from: 'processing', to: 'delivered' },
+  { from: 'processing', to: 'partially_delivered' },
+  { from: 'processing', to: 'failed' },
+
+  // Failed transitions
+  { from: 'failed', to: 'processing' }, // Retry
+  { from: 'failed', to: 'refunded', requiresRole: ADMIN_ROLES },
+  { from: 'failed', to: 'cancelled', requiresRole: ADMIN_ROLES },
+
+  // Delivered transitions
+  { from: 'delivered', to: 'refunded', requiresRole: ADMIN_ROLES },
+  { from: 'delivered', to: 'partially_refunded', requiresRole: ADMIN_ROLES },
+  { from: 'partially_delivered', to: 'refunded', requiresRole: ADMIN_ROLES },
+  { from: 'partially_delivered', to: 'partially_refunded', requiresRole: ADMIN_ROLES },
+
+  // Partially refunded transitions
+  { from: 'partially_refunded', to: 'refunded', requiresRole: ADMIN_ROLES },
+];
+
+/**
+ * The lifecycle every tenant starts with
+ */
+export const DEFAULT_ORDER_STATE_MACHINE: OrderStateMachineDefinition = {
+  states: BUILT_IN_STATES,
+  transitions: BUILT_IN_TRANSITIONS,
+};
+
+/**
+ * Order lifecycle rules for one definition
+ *
+ * `OrderStateMachine.default` holds the built-in definition; the static
+ * methods delegate to it. Tenants may store their own definition (see
+ * `TenantStateMachineManager`), which must pass `validateDefinition`.
+ */
 export class OrderStateMachine {
-  private static readonly transitions: StateTransition[] = [
-    // Initial transitions
-    { from: 'pending', to: 'payment_confirmed' },
-    { from: 'pending', to: 'cancelled' },
-    
-    // Payment confirmed transitions
-    { from: 'payment_confirmed', to: 'approved', requiresRole: ['super_admin', 'admin'] },
-    { from: 'payment_confirmed', to: 'processing' }, // Auto-approve if not required
-    { from: 'payment_confirmed', to: 'cancelled', requiresRole: ['super_admin', 'admin'] },
-    
-    // Approved transitions
-    { from: 'approved', to: 'processing' },
-    { from: 'approved', to: 'cancelled', requiresRole: ['super_admin', 'admin'] },
-    
-    // Processing transitions
-    { from: 'processing', to: 'delivered' },
-    { from: 'processing', to: 'failed' },
-    
-    // Failed transitions
-    { from: 'failed', to: 'processing' }, // Retry
-    { from: 'failed', to: 'refunded', requiresRole: ['super_admin', 'admin'] },
-    { from: 'failed', to: 'cancelled', requiresRole: ['super_admin', 'admin'] },
-    
-    // Delivered transitions
-    { from: 'delivered', to: 'refunded', requiresRole: ['super_admin', 'admin'] },
-  ];
+  static readonly default = new OrderStateMachine(DEFAULT_ORDER_STATE_MACHINE);
+
+  constructor(readonly definition: OrderStateMachineDefinition) {}
 
   static canTransition(
     from: OrderStatus,
     to: OrderStatus,
     userRole?: string
   ): TransitionResult {
+    return this.default.canTransition(from, to, userRole);
+  }
+
+  static getAvailableTransitions(
+    currentStatus: OrderStatus,
+    userRole?: string
+  ): OrderStatus[] {
+    return this.default.getAvailableTransitions(currentStatus, userRole) as OrderStatus[];
+  }
+
+  static isTerminalState(status: OrderStatus): boolean {
+    return this.default.isTerminalState(status);
+  }
+
+  static requiresApproval(status: OrderStatus): boolean {
+    return status === 'payment_confirmed';
+  }
+
+  static getAllStates(): OrderStatus[] {
+    return BUILT_IN_STATES.map(state => state.name as OrderStatus);
+  }
+
+  /**
+   * States the workflow itself moves orders through; any other state is tenant-defined
+   */
+  static isBuiltInState(status: string): status is OrderStatus {
+    return BUILT_IN_STATES.some(state => state.name === status);
+  }
+
+  canTransition(from: string, to: string, userRole?: string): TransitionResult {
     // Same state is always allowed (idempotent)
     if (from === to) {
       return { allowed: true };
     }
 
-    const transition = this.transitions.find(
+    const transition = this.definition.transitions.find(
       t => t.from === from && t.to === to
     );
 
@@ -85,11 +170,8 @@ export class OrderStateMachine {
     return { allowed: true };
   }
 
-  static getAvailableTransitions(
-    currentStatus: OrderStatus,
-    userRole?: string
-  ): OrderStatus[] {
-    return this.transitions
+  getAvailableTransitions(currentStatus: string, userRole?: string): string[] {
+    return this.definition.transitions
       .filter(t => t.from === currentStatus)
       .filter(t => {
         if (!t.requiresRole || !userRole) return true;
@@ -98,27 +180,134 @@ export class OrderStateMachine {
       .map(t => t.to);
   }
 
-  static isTerminalState(status: OrderStatus): boolean {
-    const terminalStates: OrderStatus[] = ['delivered', 'refunded', 'cancelled'];
-    return terminalStates.includes(status);
+  isTerminalState(status: string): boolean {
+    return this.getState(status)?.terminal === true;
   }
 
-  static requiresApproval(status: OrderStatus): boolean {
-    return status === 'payment_confirmed';
+  getState(status: string): OrderStateDefinition | undefined {
+    return this.definition.states.find(state => state.name === status);
   }
 
-  static getAllStates(): OrderStatus[] {
-    return [
-      'pending',
-      'payment_confirmed',
-      'approved',
-      'processing',
-      'delivered',
-      'failed',
-      'refunded',
-      'cancelled',
-    ];
+  getAllStates(): string[] {
+    return this.definition.states.map(state => state.name);
   }
+
+  /**
+   * Check a definition before it replaces a tenant's lifecycle
+   * The built-in states and transitions must stay, since the workflow relies on
+   * them; only the roles of built-in transitions may change. Tenant states must
+   * be reachable from `pending`, and every state that is not terminal must have
+   * a way to a terminal state.
+   */
+  static validateDefinition(
+    definition: OrderStateMachineDefinition,
+    hookNames: string[] = []
+  ): { valid: boolean; errors?: string[] } {
+    const errors: string[] = [];
+    const states = definition.states ?? [];
+    const transitions = definition.transitions ?? [];
+    const names = states.map(state => state.name);
+
+    names.forEach((name, index) => {
+      if (!STATE_NAME_PATTERN.test(name ?? '')) {
+        errors.push(`State name '${name}' must be lowercase snake_case`);
+      } else if (names.indexOf(name) !== index) {
+        errors.push(`State '${name}' is defined more than once`);
+      }
+    });
+
+    for (const builtIn of BUILT_IN_STATES) {
+      const state = states.find(s => s.name === builtIn.name);
+      if (!state) {
+        errors.push(`Built-in state '${builtIn.name}' is missing`);
+      } else if ((state.terminal === true) !== (builtIn.terminal === true)) {
+        errors.push(`Built-in state '${builtIn.name}' must ${builtIn.terminal ? '' : 'not '}be terminal`);
+      }
+    }
+
+    for (const state of states) {
+      for (const ref of [...(state.onEnter ?? []), ...(state.onExit ?? [])]) {
+        if (!hookNames.includes(ref.hook)) {
+          errors.push(`State '${state.name}' uses unknown hook '${ref.hook}'`);
+        }
+      }
+    }
+
+    transitions.forEach((transition, index) => {
+      const label = `${transition.from} -> ${transition.to}`;
+      if (!names.includes(transition.from) || !names.includes(transition.to)) {
+        errors.push(`Transition ${label} references an undefined state`);
+      }
+      if (transition.from === transition.to) {
+        errors.push(`Transition ${label} does not change state`);
+      }
+      if (transitions.findIndex(t => t.from === transition.from && t.to === transition.to) !== index) {
+        errors.push(`Transition ${label} is defined more than once`);
+      }
+      if (
+        OrderStateMachine.isBuiltInState(transition.from)
+        && OrderStateMachine.isBuiltInState(transition.to)
+        && !BUILT_IN_TRANSITIONS.some(t => t.from === transition.from && t.to === transition.to)
+      ) {
+        errors.push(`Transition ${label} between built-in states is not supported`);
+      }
+      for (const role of transition.requiresRole ?? []) {
+        if (!TRANSITION_ROLES.includes(role)) {
+          errors.push(`Transition ${label} requires unknown role '${role}'`);
+        }
+      }
+    });
+
+    for (const builtIn of BUILT_IN_TRANSITIONS) {
+      const transition = transitions.find(t => t.from === builtIn.from && t.to === builtIn.to);
+      if (!transition) {
+        errors.push(`Built-in transition ${builtIn.from} -> ${builtIn.to} is missing`);
+      } else if (builtIn.requiresRole && !(transition.requiresRole && transition.requiresRole.length > 0)) {
+        errors.push(`Built-in transition ${builtIn.from} -> ${builtIn.to} must require at least one role`);
+      }
+    }
+
+    if (errors.length > 0) {
+      return { valid: false, errors };
+    }
+
+    const reachable = reachableFrom([INITIAL_STATE], transitions, 'forward');
+    const terminal = states.filter(state => state.terminal).map(state => state.name);
+    const finishing = reachableFrom(terminal, transitions, 'backward');
+
+    for (const state of states) {
+      if (!reachable.includes(state.name)) {
+        errors.push(`State '${state.name}' cannot be reached from '${INITIAL_STATE}'`);
+      }
+      if (!state.terminal && !transitions.some(t => t.from === state.name)) {
+        errors.push(`State '${state.name}' has no outgoing transition and is not terminal`);
+      } else if (!finishing.includes(state.name)) {
+        errors.push(`State '${state.name}' cannot reach a terminal state`);
+      }
+    }
+
+    return errors.length > 0 ? { valid: false, errors } : { valid: true };
+  }
+}
+
+/**
+ * States reachable from the given ones, following transitions forward or backward
+ */
+function reachableFrom(start: string[], transitions: StateTransition[], direction: 'forward' | 'backward'): string[] {
+  const seen = start.slice();
+
+  for (let index = 0; index < seen.length; index++) {
+    for (const transition of transitions) {
+      const [source, target] = direction === 'forward'
+        ? [transition.from, transition.to]
+        : [transition.to, transition.from];
+      if (source === seen[index] && !seen.includes(target)) {
+        seen.push(target);
+      }
+    }
+  }
+
+  return seen;
 }
 
 // State machine for order items (bulk orders)
@@ -126,7 +315,8 @@ export type OrderItemStatus =
   | 'pending'
   | 'processing'
   | 'delivered'
-  | 'failed';
+  | 'failed'
+  | 'refunded';
 
 export class OrderItemStateMachine {
   private static readonly transitions: Array<{ from: OrderItemStatus; to: OrderItemStatus }> = [
@@ -134,6 +324,7 @@ export class OrderItemStateMachine {
     { from: 'processing', to: 'delivered' },
     { from: 'processing', to: 'failed' },
     { from: 'failed', to: 'processing' }, // Retry
+    { from: 'delivered', to: 'refunded' },
   ];
 
   static canTransition(from: OrderItemStatus, to: OrderItemStatus): TransitionResult {
@@ -162,6 +353,6 @@ export class OrderItemStateMachine {
   }
 
   static isTerminalState(status: OrderItemStatus): boolean {
-    return status === 'delivered' || status === 'failed';
+    return status === 'delivered' || status === 'failed' || status === 'refunded';
   }
 }
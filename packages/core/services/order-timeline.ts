@@ -0,0 +1,107 @@
+// Order Timeline
+// Builds the order_events rows that record what happened to an order, when and why
+
+import type { InsertOrderEvent, Order, OrderItem, ProviderAttempt } from '../../../shared/schema';
+
+export type OrderEventType = 'created' | 'status_changed' | 'provider_response' | 'sync' | 'note';
+
+// What caused the event: a user request, a provider report (callback or results
+// file), the scheduled status sync, or the platform itself
+export type OrderEventSource = 'user' | 'provider' | 'sync' | 'system';
+
+// Event types every caller who can see the order may read; the rest are for admins
+const CUSTOMER_EVENT_TYPES: string[] = ['created', 'status_changed'];
+
+export class OrderTimeline {
+  static created(order: Order, actorId: string): InsertOrderEvent {
+    return this.entry(order, 'created', 'user', actorId, {
+      toStatus: order.status,
+      data: { orderNumber: order.orderNumber, totalAmount: order.totalAmount },
+    });
+  }
+
+  /**
+   * One step of a status change of the order, or of one of its bulk items
+   * A path through several states is one entry per step.
+   */
+  static transition(
+    order: Order,
+    fromStatus: string,
+    toStatus: string,
+    source: OrderEventSource,
+    actorId: string | null,
+    data: Record<string, any> = {},
+    item?: OrderItem
+  ): InsertOrderEvent {
+    return this.entry(order, 'status_changed', source, actorId, { orderItemId: item?.id, fromStatus, toStatus, data });
+  }
+
+  /**
+   * What a provider answered for the order or one of its bulk items
+   */
+  static providerResponse(
+    order: Order,
+    item: OrderItem | undefined,
+    source: OrderEventSource,
+    actorId: string | null,
+    response: {
+      providerId: string;
+      providerOrderId?: string | null;
+      providerStatus?: string | null;
+      error?: { code: string; message: string };
+      attempts?: ProviderAttempt[];
+    }
+  ): InsertOrderEvent {
+    return this.entry(order, 'provider_response', source, actorId, {
+      orderItemId: item?.id,
+      data: {
+        providerId: response.providerId,
+        providerOrderId: response.providerOrderId ?? undefined,
+        providerStatus: response.providerStatus ?? undefined,
+        error: response.error,
+        attempts: response.attempts?.length,
+      },
+    });
+  }
+
+  /**
+   * A status check made by the scheduled sync that did not move the order
+   */
+  static syncResult(
+    order: Order,
+    item: OrderItem | undefined,
+    result: { providerId: string; providerStatus?: string; error?: string }
+  ): InsertOrderEvent {
+    return this.entry(order, 'sync', 'sync', null, { orderItemId: item?.id, data: result });
+  }
+
+  static note(order: Order, actorId: string, note: string): InsertOrderEvent {
+    return this.entry(order, 'note', 'user', actorId, { data: { note } });
+  }
+
+  /**
+   * Whether a non-admin may see the event
+   */
+  static isCustomerVisible(event: { type: string }): boolean {
+    return CUSTOMER_EVENT_TYPES.includes(event.type);
+  }
+
+  private static entry(
+    order: Order,
+    type: OrderEventType,
+    source: OrderEventSource,
+    actorId: string | null,
+    fields: Partial<InsertOrderEvent>
+  ): InsertOrderEvent {
+    return {
+      tenantId: order.tenantId,
+      orderId: order.id,
+      type,
+      source,
+      actorId,
+      data: {},
+      ...fields,
+      createdAt: new Date().toISOString(),
+    };
+  }
+}
@@ -0,0 +1,1362 @@
+// Order Workflow
+// Persisted order pipeline: validation, pricing, fund locking and provider dispatch
+
+import type { Order, OrderItem, Provider, ProviderAttempt, Service, Transaction } from '../../../shared/schema';
+import type { IStorage } from '../../../server/storage';
+import {
+  BulkOrderManager,
+  OrderManager,
+  type OrderCreateInput,
+  type OrderFulfillmentResult,
+  type OrderPlacementResult,
+} from './order-manager';
+import { OrderItemStateMachine, OrderStateMachine, type OrderItemStatus, type OrderStatus } from './order-state-machine';
+import { PricingEngine } from './pricing-engine';
+import { CommissionPayouts } from './commissions';
+import { ExchangeRateError, ExchangeRates, type ExchangeQuote } from './exchange-rates';
+import { WalletLedger } from './wallet-ledger';
+import { WalletManager, WalletError } from './wallet-manager';
+import { AuditLogger, type AuditLogEntry } from './audit-logger';
+import { EventBus, type DomainEventType } from './event-bus';
+import { OrderStateHooks } from './order-state-hooks';
+import { OrderTimeline, type OrderEventSource } from './order-timeline';
+import { TenantStateMachineManager } from './tenant-state-machine';
+import { ProviderRouter, type ProviderRoute, type RoutedFulfillment } from './provider-router';
+import type { OrderSyncUpdate } from './provider-sync';
+import { mapConcurrently } from './concurrency';
+import { ProviderRegistry, type ProviderStatusResponse } from '../providers';
+
+// Provider outcomes with a dedicated event; anything else is `order.updated`
+const ORDER_OUTCOME_EVENTS: Partial<Record<OrderStatus, DomainEventType>> = {
+  delivered: 'order.completed',
+  partially_delivered: 'order.completed',
+  failed: 'order.failed',
+};
+
+// Provider status of an order or item whose provider may or may not have taken it
+export const OUTCOME_UNKNOWN = 'unknown';
+
+// Built-in states in which the order's funds are still locked in full
+const LOCKED_STATES: string[] = ['pending', 'payment_confirmed', 'approved'];
+
+// Bulk items sent to providers at once
+export const DEFAULT_BULK_CONCURRENCY = 5;
+
+export interface OrderWorkflowOptions {
+  bulkConcurrency?: number; // bulk items in flight at once (default DEFAULT_BULK_CONCURRENCY)
+}
+
+// What to do with a provider report repeating the status the order or item already has
+export type RepeatedReport = 'ignore' | 'reject';
+
+export interface OrderRefundRequest {
+  amount?: number; // defaults to everything not yet refunded
+  itemIds?: string[]; // bulk orders: refund these delivered items in full
+  reason?: string;
+}
+
+// One refund transaction to write: part or all of what is left of a debit
+interface RefundEntry {
+  debit: Transaction;
+  amount: number;
+  itemId?: string;
+}
+
+export class OrderWorkflowError extends Error {
+  constructor(message: string, public code: string) {
+    super(message);
+    this.name = 'OrderWorkflowError';
+  }
+}
+
+/**
+ * Storage-backed order pipeline
+ *
+ * Placement runs in two units of work. The first validates and prices the
+ * order, locks the funds, inserts the order row and records the transition.
+ * If any step fails, the whole unit rolls back, so no lock is left behind.
+ * Provider I/O cannot be held open inside a SQLite/D1 transaction, so the
+ * order is first moved to `processing` by a conditional update, which only one
+ * dispatch can win, and the result is written in a later unit. That unit
+ * converts the lock into a debit on delivery, or releases it when the provider fails.
+ * Dispatch goes through `ProviderRouter`, which falls back to the service's
+ * other providers when one refuses the order. When a provider times out or
+ * its answer leaves open whether it took the order, the order stays in
+ * `processing` with provider status `unknown` and its funds locked.
+ *
+ * Bulk orders lock their total once and keep one `orderItems` row per line.
+ * Items are dispatched individually, `bulkConcurrency` at a time; each item
+ * settles its own share of the lock (debit when delivered, release when
+ * failed) and the order's status is aggregated from its items.
+ *
+ * Transitions are checked against the tenant's state machine. Every status
+ * change is written to the order's timeline (`order_events`) and runs the hooks
+ * of the states left and entered (`OrderStateHooks`) in the same transaction;
+ * provider responses are put on the timeline as well.
+ */
+export class OrderWorkflow {
+  constructor(
+    private readonly storage: IStorage,
+    private readonly options: OrderWorkflowOptions = {}
+  ) {}
+
+  /**
+   * Place an order and dispatch it to the mapped provider
+   */
+  async placeOrder(input: OrderCreateInput): Promise<OrderPlacementResult> {
+    try {
+      const service = await this.getActiveService(input.tenantId, input.serviceId);
+
+      const rules = (await this.storage.getPricingRules(input.tenantId, service.id))
+        .map(rule => PricingEngine.fromRecord(rule));
+
+      const draft = await OrderManager.placeOrder(input, service, rules, await this.quote(input, service));
+
+      if (!draft.success || !draft.order) {
+        return draft;
+      }
+
+      const routes = await this.resolveRoutes(service);
+
+      const order = await this.storage.transaction(tx =>
+        this.reserve(tx, draft.order!, routes[0].provider, input.userId)
+      );
+
+      // Orders that need approval wait for an admin before dispatch
+      if (order.status === 'pending') {
+        return { success: true, order };
+      }
+
+      return await this.dispatch(order, service, routes, input.userId);
+    } catch (error) {
+      return this.toFailure(error);
+    }
+  }
+
+  /**
+   * Place a bulk order: one item per line, priced and locked as a whole, then dispatched item by item
+   * A validation error on any line rejects the whole order.
+   */
+  async placeBulkOrder(input: OrderCreateInput, items: Array<Record<string, any>>): Promise<OrderPlacementResult> {
+    try {
+      const service = await this.getActiveService(input.tenantId, input.serviceId);
+
+      const rules = (await this.storage.getPricingRules(input.tenantId, service.id))
+        .map(rule => PricingEngine.fromRecord(rule));
+
+      const draft = await BulkOrderManager.placeBulkOrder(input, service, rules, items, await this.quote(input, service));
+
+      if (!draft.success || !draft.order || !draft.items) {
+        return { success: false, error: draft.error };
+      }
+
+      const routes = await this.resolveRoutes(service);
+
+      const order = await this.storage.transaction(async tx => {
+        const reserved = await this.reserve(tx, draft.order!, routes[0].provider, input.userId);
+        await tx.createOrderItems(draft.items!.map(item => ({
+          tenantId: reserved.tenantId,
+          orderId: reserved.id,
+          inputData: item.inputData,
+          amount: item.amount,
+          status: 'pending',
+        })));
+        return reserved;
+      });
+
+      // Orders that need approval wait for an admin before dispatch
+      if (order.status === 'pending') {
+        return { success: true, order };
+      }
+
+      return await this.dispatchItems(order, service, routes, input.userId);
+    } catch (error) {
+      return this.toFailure(error);
+    }
+  }
+
+  /**
+   * Dispatch a reserved order (e.g. after admin approval)
+   */
+  async dispatchOrder(
+    tenantId: string,
+    orderId: string,
+    actorId: string
+  ): Promise<OrderPlacementResult> {
+    try {
+      const order = await this.storage.getOrder(tenantId, orderId);
+
+      if (!order) {
+        throw new OrderWorkflowError('Order not found', 'ORDER_NOT_FOUND');
+      }
+
+      const machine = await this.stateMachine(this.storage, tenantId);
+      const transition = machine.canTransition(order.status, 'processing');
+      if (!transition.allowed || order.status === 'processing') {
+        throw new OrderWorkflowError(
+          `Order in status '${order.status}' cannot be dispatched`,
+          'INVALID_TRANSITION'
+        );
+      }
+
+      const service = await this.storage.getService(tenantId, order.serviceId);
+      if (!service) {
+        throw new OrderWorkflowError('Service not found', 'SERVICE_NOT_FOUND');
+      }
+
+      const routes = await this.resolveRoutes(service, order.providerId);
+
+      if (BulkOrderManager.isBulk(order)) {
+        return await this.dispatchItems(order, service, routes, actorId);
+      }
+
+      return await this.dispatch(order, service, routes, actorId);
+    } catch (error) {
+      return this.toFailure(error);
+    }
+  }
+
+  /**
+   * Approve an order held for review and dispatch it
+   */
+  async approveOrder(
+    tenantId: string,
+    orderId: string,
+    actorId: string,
+    actorRole: string
+  ): Promise<OrderPlacementResult> {
+    try {
+      const order = await this.storage.getOrder(tenantId, orderId);
+
+      if (!order) {
+        throw new OrderWorkflowError('Order not found', 'ORDER_NOT_FOUND');
+      }
+
+      const machine = await this.stateMachine(this.storage, tenantId);
+      const approval = OrderManager.approveOrder(order, actorId, actorRole, machine);
+      // Funds are locked at placement, so a pending order is already paid for
+      const path: OrderStatus[] = order.status === 'pending'
+        ? ['payment_confirmed', 'approved']
+        : ['approved'];
+
+      if (order.status !== 'pending' && !approval.allowed) {
+        throw new OrderWorkflowError(approval.reason!, 'INVALID_TRANSITION');
+      }
+
+      await this.storage.transaction(async tx => {
+        let from = order.status;
+        for (const to of path) {
+          const transition = machine.canTransition(from, to, actorRole);
+          if (!transition.allowed) {
+            throw new OrderWorkflowError(transition.reason!, 'INVALID_TRANSITION');
+          }
+          from = to;
+        }
+
+        const approved = await tx.updateOrder(tenantId, orderId, {
+          status: 'approved',
+          approvedBy: actorId,
+          approvedAt: new Date().toISOString(),
+        });
+        await EventBus.record(tx, EventBus.createEvent('order.updated', tenantId, {
+          order: approved!,
+          previousStatus: order.status,
+        }, {
+          actorId,
+          audit: [AuditLogger.logOrder(tenantId, actorId, 'approve', orderId, { from: order.status, to: 'approved' })],
+        }));
+        await this.recordTransition(tx, machine, approved!, [order.status, ...path], actorId);
+      });
+
+      return await this.dispatchOrder(tenantId, orderId, actorId);
+    } catch (error) {
+      return this.toFailure(error);
+    }
+  }
+
+  /**
+   * Cancel an order and release its locked funds
+   */
+  async cancelOrder(
+    tenantId: string,
+    orderId: string,
+    actorId: string,
+    actorRole: string
+  ): Promise<OrderPlacementResult> {
+    try {
+      const order = await this.storage.getOrder(tenantId, orderId);
+
+      if (!order) {
+        throw new OrderWorkflowError('Order not found', 'ORDER_NOT_FOUND');
+      }
+
+      const machine = await this.stateMachine(this.storage, tenantId);
+      const transition = OrderManager.cancelOrder(order, actorRole, machine);
+      if (!transition.allowed || order.status === 'cancelled') {
+        throw new OrderWorkflowError(
+          transition.reason || 'Order is already cancelled',
+          'INVALID_TRANSITION'
+        );
+      }
+
+      // A tenant-defined state holds the funds of the built-in state the order left
+      const funded = this.getBuiltInStatus(order);
+      if (funded === 'processing') {
+        throw new OrderWorkflowError('Orders sent to a provider cannot be cancelled', 'INVALID_TRANSITION');
+      }
+
+      const cancelled = await this.storage.transaction(async tx => {
+        // Failed orders have already had their lock released
+        if (LOCKED_STATES.indexOf(funded) !== -1) {
+          await this.releasePayment(tx, order, actorId);
+        }
+
+        const updated = await tx.updateOrder(tenantId, orderId, { status: 'cancelled' });
+        await EventBus.record(tx, EventBus.createEvent('order.updated', tenantId, {
+          order: updated!,
+          previousStatus: order.status,
+        }, {
+          actorId,
+          audit: [AuditLogger.logOrder(tenantId, actorId, 'cancel', orderId, { from: order.status, to: 'cancelled' })],
+        }));
+        await this.recordTransition(tx, machine, updated!, [order.status, 'cancelled'], actorId);
+
+        return updated;
+      });
+
+      return { success: true, order: cancelled };
+    } catch (error) {
+      return this.toFailure(error);
+    }
+  }
+
+  /**
+   * Move an order into or out of a tenant-defined state (e.g. on_hold, disputed)
+   * Built-in states are entered through their own flows (approval, cancellation,
+   * refunds, provider outcomes). An order leaving a tenant-defined state for a
+   * built-in one may only resume the state it left, kept in `metadata.resumeStatus`;
+   * resuming `approved` dispatches the order.
+   */
+  async transitionOrder(
+    tenantId: string,
+    orderId: string,
+    to: string,
+    actorId: string,
+    actorRole: string,
+    note?: string
+  ): Promise<OrderPlacementResult> {
+    try {
+      const moved = await this.storage.transaction(async tx => {
+        const order = await tx.getOrder(tenantId, orderId);
+
+        if (!order) {
+          throw new OrderWorkflowError('Order not found', 'ORDER_NOT_FOUND');
+        }
+
+        const machine = await this.stateMachine(tx, tenantId);
+        const resuming = OrderStateMachine.isBuiltInState(to);
+        if (!machine.getState(to) || (resuming && to !== order.metadata?.resumeStatus)) {
+          throw new OrderWorkflowError(`Orders cannot be moved to '${to}' directly`, 'INVALID_TRANSITION');
+        }
+
+        const transition = machine.canTransition(order.status, to, actorRole);
+        if (!transition.allowed || order.status === to) {
+          throw new OrderWorkflowError(
+            transition.reason || `Order is already '${to}'`,
+            'INVALID_TRANSITION'
+          );
+        }
+
+        const { resumeStatus, ...metadata } = order.metadata ?? {};
+        const updated = await tx.updateOrder(tenantId, orderId, {
+          status: to,
+          metadata: resuming
+            ? metadata
+            : { ...metadata, resumeStatus: OrderStateMachine.isBuiltInState(order.status) ? order.status : resumeStatus },
+        });
+        await EventBus.record(tx, EventBus.createEvent('order.updated', tenantId, {
+          order: updated!,
+          previousStatus: order.status,
+        }, {
+          actorId,
+          audit: [AuditLogger.logOrder(tenantId, actorId, 'update', orderId, { from: order.status, to, note })],
+        }));
+        await this.recordTransition(tx, machine, updated!, [order.status, to], actorId, 'user', { note });
+
+        return updated!;
+      });
+
+      if (moved.status === 'approved') {
+        return await this.dispatchOrder(tenantId, orderId, actorId);
+      }
+
+      return { success: true, order: moved };
+    } catch (error) {
+      return this.toFailure(error);
+    }
+  }
+
+  /**
+   * Refund what was paid for an order, in full or in part
+   * Each refund names the debit it returns as its parent, so no debit is ever
+   * refunded beyond its amount. Bulk orders were debited item by item:
+   * `itemIds` refunds those items, an `amount` is taken from their debits in turn.
+   */
+  async refundOrder(
+    tenantId: string,
+    orderId: string,
+    actorId: string,
+    actorRole: string,
+    request: OrderRefundRequest = {}
+  ): Promise<OrderPlacementResult> {
+    try {
+      if (request.amount !== undefined && request.itemIds) {
+        throw new OrderWorkflowError('Refund either an amount or a list of items', 'INVALID_REFUND');
+      }
+
+      const refunded = await this.storage.transaction(async tx => {
+        const order = await tx.getOrder(tenantId, orderId);
+
+        if (!order) {
+          throw new OrderWorkflowError('Order not found', 'ORDER_NOT_FOUND');
+        }
+
+        const { walletId } = this.getPaymentReferences(order);
+        const ledger = await tx.getWalletTransactions(tenantId, walletId);
+        const debits = ledger.filter(transaction =>
+          transaction.type === 'debit'
+          && transaction.status === 'completed'
+          && transaction.referenceType === 'order'
+          && transaction.referenceId === order.id
+        );
+        const remaining = debits.reduce((sum, debit) => sum + WalletManager.getRefundableAmount(debit, ledger), 0);
+
+        const entries = request.itemIds
+          ? await this.planItemRefunds(tx, order, request.itemIds, debits, ledger)
+          : this.planAmountRefunds(request.amount ?? remaining, debits, ledger);
+        const total = entries.reduce((sum, entry) => sum + entry.amount, 0);
+
+        if (total === 0) {
+          throw new OrderWorkflowError('Nothing is left to refund on this order', 'NOTHING_TO_REFUND');
+        }
+
+        const partial = total < remaining;
+        const machine = await this.stateMachine(tx, tenantId);
+        const transition = OrderManager.refundOrder(order, actorRole, partial, machine);
+        if (!transition.allowed) {
+          throw new OrderWorkflowError(transition.reason!, 'INVALID_TRANSITION');
+        }
+
+        const walletLedger = new WalletLedger(tx);
+        const commissions = new CommissionPayouts(tx);
+        for (const entry of entries) {
+          const [refund] = await walletLedger.append(tenantId, walletId, async () => {
+            const transaction = await WalletManager.refundOrder(
+              walletId,
+              tenantId,
+              order.id,
+              entry.amount,
+              entry.debit,
+              actorId,
+              ledger
+            );
+            return [{
+              ...transaction,
+              currency: order.currency,
+              metadata: { ...transaction.metadata, orderItemId: entry.itemId, reason: request.reason },
+            }];
+          });
+          ledger.push(refund);
+
+          const fullyRefunded = WalletManager.getRefundableAmount(entry.debit, ledger) === 0;
+          await commissions.reverse(order, entry.debit, entry.amount, fullyRefunded, actorId);
+
+          if (entry.itemId && fullyRefunded) {
+            const item = await tx.updateOrderItem(tenantId, entry.itemId, { status: 'refunded' });
+            await tx.createOrderEvent(OrderTimeline.transition(order, 'delivered', 'refunded', 'user', actorId, {}, item));
+          }
+        }
+
+        const status: OrderStatus = partial ? 'partially_refunded' : 'refunded';
+        const updated = await tx.updateOrder(tenantId, order.id, {
+          status,
+          refundedAmount: order.refundedAmount + total,
+        });
+        await EventBus.record(tx, EventBus.createEvent('order.refunded', tenantId, {
+          order: updated!,
+          previousStatus: order.status,
+          amount: total,
+        }, {
+          actorId,
+          audit: [
+            AuditLogger.logOrder(tenantId, actorId, 'refund', order.id, {
+              from: order.status,
+              to: status,
+              amount: total,
+              itemIds: request.itemIds,
+              reason: request.reason,
+            }),
+          ],
+        }));
+        await this.recordTransition(tx, machine, updated!, [order.status, status], actorId, 'user', {
+          amount: total,
+          reason: request.reason,
+        });
+
+        return updated!;
+      });
+
+      return { success: true, order: refunded };
+    } catch (error) {
+      return this.toFailure(error);
+    }
+  }
+
+  /**
+   * Apply a status reported by the provider (callback, poll or results file) to a dispatched order
+   * The provider's statusMapping normalizes the report. Repeating the status the
+   * order already has is a no-op, so a results file may be imported twice; pass
+   * `repeats: 'reject'` for pushed reports (callbacks), which must not be replayed.
+   */
+  async applyProviderStatus(
+    order: Order,
+    provider: Provider,
+    report: ProviderStatusResponse,
+    source: OrderEventSource = 'provider',
+    repeats: RepeatedReport = 'ignore'
+  ): Promise<OrderPlacementResult> {
+    const instance = ProviderRegistry.fromRecord(provider);
+    const target = OrderManager.mapProviderStatusToOrderStatus(instance.normalizeStatus(report.status));
+
+    return this.applyProviderOutcome(order, provider, target, report, source, repeats);
+  }
+
+  /**
+   * Apply a status found by the background sync (`ProviderSync.syncOrder`)
+   */
+  async applySyncUpdate(order: Order, provider: Provider, update: OrderSyncUpdate): Promise<OrderPlacementResult> {
+    return this.applyProviderOutcome(order, provider, update.normalizedStatus, {
+      providerOrderId: order.providerOrderId!,
+      status: update.providerStatus,
+      data: update.outputData,
+      completedAt: update.completedAt,
+    }, 'sync');
+  }
+
+  /**
+   * Apply a status reported for a bulk item (callback, poll or results file)
+   * Like `applyProviderStatus`, repeating the item's current status is a no-op
+   * unless `repeats` is 'reject'.
+   */
+  async applyItemStatus(
+    item: OrderItem,
+    provider: Provider,
+    report: ProviderStatusResponse,
+    source: OrderEventSource = 'provider',
+    repeats: RepeatedReport = 'ignore'
+  ): Promise<OrderPlacementResult> {
+    try {
+      const order = await this.storage.getOrder(item.tenantId, item.orderId);
+      if (!order) {
+        throw new OrderWorkflowError('Order not found', 'ORDER_NOT_FOUND');
+      }
+
+      const instance = ProviderRegistry.fromRecord(provider);
+      const target = OrderManager.mapProviderStatusToOrderStatus(instance.normalizeStatus(report.status));
+
+      const result = this.toReportedResult(target, report);
+      const updated = await this.storage.transaction(async tx => {
+        if (repeats === 'reject') {
+          const current = await tx.getOrderItem(item.tenantId, item.id);
+          if (current && current.status === (result.success ? result.status : 'failed')) {
+            throw new OrderWorkflowError(`Item is already '${current.status}'`, 'ALREADY_APPLIED');
+          }
+        }
+        // Provider updates act on behalf of the customer who placed the order
+        return this.recordItemOutcome(tx, item, provider, result, order.userId, source);
+      });
+
+      return { success: true, order: updated };
+    } catch (error) {
+      return this.toFailure(error);
+    }
+  }
+
+  /**
+   * Move a dispatched order to the status its provider reported, settling the funds
+   */
+  private async applyProviderOutcome(
+    order: Order,
+    provider: Provider,
+    target: OrderStatus,
+    report: ProviderStatusResponse,
+    source: OrderEventSource,
+    repeats: RepeatedReport = 'ignore'
+  ): Promise<OrderPlacementResult> {
+    try {
+      const result = this.toReportedResult(target, report);
+
+      const updated = await this.storage.transaction(async tx => {
+        // Re-read so concurrent reports for the same order cannot both settle it
+        const current = await tx.getOrder(order.tenantId, order.id);
+        if (!current) {
+          throw new OrderWorkflowError('Order not found', 'ORDER_NOT_FOUND');
+        }
+
+        if (current.status !== 'processing') {
+          if (current.status === target) {
+            if (repeats === 'reject') {
+              throw new OrderWorkflowError(`Order is already '${current.status}'`, 'ALREADY_APPLIED');
+            }
+            return current;
+          }
+          throw new OrderWorkflowError(
+            `Order in status '${current.status}' is not awaiting its provider`,
+            'INVALID_TRANSITION'
+          );
+        }
+
+        // Provider updates act on behalf of the customer who placed the order
+        return this.recordFulfillment(tx, current, provider, result, current.userId, source);
+      });
+
+      return { success: true, order: updated };
+    } catch (error) {
+      return this.toFailure(error);
+    }
+  }
+
+  /**
+   * The router's result, or for an unknown outcome a `processing` one: the provider
+   * may have the order, so it keeps its funds locked until an admin reconciles it
+   */
+  private toRecordedResult(routed: RoutedFulfillment): OrderFulfillmentResult {
+    if (routed.stopped !== 'unknown') {
+      return routed.result;
+    }
+    return {
+      success: true,
+      status: 'processing',
+      providerStatus: OUTCOME_UNKNOWN,
+      error: routed.result.error,
+    };
+  }
+
+  private toReportedResult(target: OrderStatus, report: ProviderStatusResponse): OrderFulfillmentResult {
+    return {
+      success: target !== 'failed',
+      status: target,
+      providerOrderId: report.providerOrderId,
+      providerStatus: report.status,
+      outputData: report.data,
+      error: target === 'failed'
+        ? { code: 'PROVIDER_FAILED', message: `Provider reported '${report.status}'` }
+        : undefined,
+    };
+  }
+
+  /**
+   * The rate from the service's currency into the one the order is paid in, if they differ
+   * @throws ExchangeRateError INVALID_CURRENCY, RATE_NOT_FOUND
+   */
+  private async quote(input: OrderCreateInput, service: Service): Promise<ExchangeQuote | undefined> {
+    if (!input.currency || ExchangeRates.normalize(input.currency) === service.currency) {
+      return undefined;
+    }
+    return new ExchangeRates(this.storage).quote(input.tenantId, service.currency, input.currency);
+  }
+
+  private async getActiveService(tenantId: string, serviceId: string): Promise<Service> {
+    const service = await this.storage.getService(tenantId, serviceId);
+
+    if (!service || !service.isActive) {
+      throw new OrderWorkflowError('Service not found', 'SERVICE_NOT_FOUND');
+    }
+    return service;
+  }
+
+  /**
+   * Providers to try for the service, in the order its routing strategy picks
+   * The provider the order was reserved with, if any, goes first.
+   */
+  async resolveRoutes(service: Service, preferredProviderId?: string | null): Promise<ProviderRoute[]> {
+    const routes = await new ProviderRouter(this.storage).getRoutes(service, preferredProviderId);
+
+    if (routes.length === 0) {
+      throw new OrderWorkflowError('No active provider is mapped to this service', 'NO_PROVIDER');
+    }
+    return routes;
+  }
+
+  /**
+   * Lock funds, insert the order row and record its initial state
+   */
+  private async reserve(
+    tx: IStorage,
+    draft: Order,
+    provider: Provider,
+    actorId: string
+  ): Promise<Order> {
+    const wallet = await tx.getWalletByUser(draft.tenantId, draft.userId, draft.currency);
+
+    if (!wallet) {
+      throw new WalletError(`No ${draft.currency} wallet found for user`, 'WALLET_NOT_FOUND');
+    }
+
+    const created = await tx.createOrder({ ...draft, providerId: provider.id });
+
+    const [lockTransaction] = await new WalletLedger(tx).append(created.tenantId, wallet.id, async ({ balance }) => [{
+      ...(await WalletManager.processOrderPayment(
+        wallet.id,
+        created.tenantId,
+        created.id,
+        created.totalAmount,
+        actorId,
+        balance
+      )),
+      currency: created.currency,
+    }]);
+
+    const order = await tx.updateOrder(created.tenantId, created.id, {
+      metadata: {
+        ...created.metadata,
+        walletId: wallet.id,
+        lockTransactionId: lockTransaction.id,
+      },
+    });
+
+    await tx.createOrderEvent(OrderTimeline.created(order!, actorId));
+    await EventBus.record(tx, EventBus.createEvent('order.created', created.tenantId, { order: order! }, {
+      actorId,
+      audit: [
+        AuditLogger.logOrder(created.tenantId, actorId, 'create', created.id, {
+          orderNumber: created.orderNumber,
+          status: created.status,
+          totalAmount: created.totalAmount,
+        }),
+      ],
+    }));
+
+    return order!;
+  }
+
+  /**
+   * Send the order to the first provider that accepts it and persist the outcome
+   */
+  private async dispatch(
+    order: Order,
+    service: Service,
+    routes: ProviderRoute[],
+    actorId: string
+  ): Promise<OrderPlacementResult> {
+    const processing = await this.claim(order, routes[0].provider, actorId);
+    const routed = await new ProviderRouter(this.storage).fulfill(
+      processing,
+      service,
+      routes,
+      async () => (await this.storage.getOrder(order.tenantId, order.id))?.status === 'processing'
+    );
+    const { route, attempts } = routed;
+    const result = this.toRecordedResult(routed);
+
+    let updated: Order;
+    try {
+      updated = await this.storage.transaction(async tx => {
+        // A provider callback may have settled the order while the call was in flight
+        const current = await tx.getOrder(order.tenantId, order.id);
+        if (current && current.status !== 'processing') {
+          return (await tx.updateOrder(order.tenantId, order.id, {
+            providerOrderId: current.providerOrderId ?? result.providerOrderId,
+            providerAttempts: attempts,
+          }))!;
+        }
+        return this.recordFulfillment(tx, current ?? processing, route.provider, result, actorId, 'user', attempts);
+      });
+    } catch (error) {
+      // Never leave the funds locked behind an order we could not record
+      try {
+        await this.storage.transaction(async tx => {
+          await this.releasePayment(tx, processing, actorId);
+          const failed = await tx.updateOrder(order.tenantId, order.id, {
+            status: 'failed',
+            providerResponse: { error: (error as Error).message },
+            providerAttempts: attempts,
+          });
+          await EventBus.record(tx, EventBus.createEvent('order.failed', order.tenantId, {
+            order: failed!,
+            previousStatus: processing.status,
+            reason: (error as Error).message,
+          }, { actorId }));
+          await tx.createOrderEvent(OrderTimeline.transition(processing, processing.status, 'failed', 'system', null, {
+            reason: (error as Error).message,
+          }));
+        });
+      } catch (releaseError) {
+        // The order stays in processing with its funds locked; callers see why it could not be recorded
+        console.error(`[OrderWorkflow] releasing the funds of order ${order.id} failed:`, releaseError);
+      }
+      throw error;
+    }
+
+    if (updated.status === 'failed') {
+      return {
+        success: false,
+        order: updated,
+        error: result.error ?? {
+          code: 'PROVIDER_FAILED',
+          message: 'Provider reported the order as failed',
+        },
+      };
+    }
+
+    return { success: true, order: updated };
+  }
+
+  /**
+   * Move a reserved order to processing before anything is sent to a provider
+   * The update is conditional on the status it was read in, so of two
+   * concurrent or retried dispatches only one gets to send the order.
+   * @throws OrderWorkflowError INVALID_TRANSITION when the order has moved on
+   */
+  private async claim(order: Order, provider: Provider, actorId: string, data: Record<string, any> = {}): Promise<Order> {
+    return this.storage.transaction(async tx => {
+      const machine = await this.stateMachine(tx, order.tenantId);
+      const transition = machine.canTransition(order.status, 'processing');
+      if (!transition.allowed) {
+        throw new OrderWorkflowError(transition.reason!, 'INVALID_TRANSITION');
+      }
+
+      const updated = await tx.updateOrderIfStatus(order.tenantId, order.id, order.status, {
+        status: 'processing',
+        providerId: provider.id,
+      });
+      if (!updated) {
+        throw new OrderWorkflowError('Order is already being dispatched', 'INVALID_TRANSITION');
+      }
+
+      await EventBus.record(tx, EventBus.createEvent('order.updated', order.tenantId, {
+        order: updated,
+        previousStatus: order.status,
+      }, {
+        actorId,
+        audit: [
+          AuditLogger.logOrder(order.tenantId, actorId, 'update', order.id, {
+            from: order.status,
+            to: 'processing',
+            providerId: provider.id,
+            ...data,
+          }),
+        ],
+      }));
+      await this.recordTransition(tx, machine, updated, [order.status, 'processing'], actorId);
+
+      return updated;
+    });
+  }
+
+  /**
+   * Move a bulk order to processing and send its pending items, a few at a time
+   * @throws OrderWorkflowError INVALID_TRANSITION when no item is left to send
+   */
+  private async dispatchItems(
+    order: Order,
+    service: Service,
+    routes: ProviderRoute[],
+    actorId: string
+  ): Promise<OrderPlacementResult> {
+    const items = (await this.storage.getOrderItems(order.tenantId, order.id))
+      .filter(item => item.status === 'pending');
+
+    // Failed items were refunded individually; sending them again would need a new lock
+    if (items.length === 0) {
+      throw new OrderWorkflowError('Bulk order has no pending items to dispatch', 'INVALID_TRANSITION');
+    }
+
+    const processing = await this.claim(order, routes[0].provider, actorId, { itemCount: items.length });
+
+    const router = new ProviderRouter(this.storage);
+    await mapConcurrently(
+      items,
+      this.options.bulkConcurrency ?? DEFAULT_BULK_CONCURRENCY,
+      item => this.dispatchItem(router, processing, service, routes, item, actorId)
+    );
+
+    const updated = (await this.storage.getOrder(order.tenantId, order.id))!;
+    if (updated.status === 'failed') {
+      return {
+        success: false,
+        order: updated,
+        error: {
+          code: 'PROVIDER_FAILED',
+          message: 'Every item of the bulk order failed',
+        },
+      };
+    }
+
+    return { success: true, order: updated };
+  }
+
+  /**
+   * Send one bulk item to the first provider that accepts it and persist the outcome
+   */
+  private async dispatchItem(
+    router: ProviderRouter,
+    order: Order,
+    service: Service,
+    routes: ProviderRoute[],
+    item: OrderItem,
+    actorId: string
+  ): Promise<void> {
+    const routed = await router.fulfill(
+      BulkOrderManager.itemView(order, item),
+      service,
+      routes,
+      async () => (await this.storage.getOrderItem(item.tenantId, item.id))?.status === 'pending'
+    );
+    if (routed.stopped === 'settled') {
+      return;
+    }
+    const { route, attempts } = routed;
+    const result = this.toRecordedResult(routed);
+
+    try {
+      await this.storage.transaction(tx =>
+        this.recordItemOutcome(tx, item, route.provider, result, actorId, 'user', attempts)
+      );
+    } catch (error) {
+      // Never leave the item's share locked behind an outcome we could not record
+      await this.storage.transaction(tx =>
+        this.recordItemOutcome(tx, item, route.provider, {
+          success: false,
+          status: 'failed',
+          error: { code: 'DISPATCH_ERROR', message: (error as Error).message },
+        }, actorId, 'user', attempts)
+      );
+    }
+  }
+
+  /**
+   * Walk a bulk item through its state machine, settle its share of the lock
+   * and bring the order's status in line with its items
+   */
+  private async recordItemOutcome(
+    tx: IStorage,
+    item: OrderItem,
+    provider: Provider,
+    result: OrderFulfillmentResult,
+    actorId: string,
+    source: OrderEventSource,
+    attempts?: ProviderAttempt[]
+  ): Promise<Order> {
+    // Re-read so concurrent reports for the same item cannot both settle it
+    const current = await tx.getOrderItem(item.tenantId, item.id);
+    const order = await tx.getOrder(item.tenantId, item.orderId);
+    if (!current || !order) {
+      throw new OrderWorkflowError('Order not found', 'ORDER_NOT_FOUND');
+    }
+
+    const target = (result.success ? result.status : 'failed') as OrderItemStatus;
+    if (current.status === target) {
+      return order;
+    }
+    if (OrderItemStateMachine.isTerminalState(current.status as OrderItemStatus)) {
+      throw new OrderWorkflowError(
+        `Item in status '${current.status}' is not awaiting its provider`,
+        'INVALID_TRANSITION'
+      );
+    }
+
+    let from = current.status as OrderItemStatus;
+    for (const to of this.transitionPath(from, target) as OrderItemStatus[]) {
+      const transition = OrderItemStateMachine.canTransition(from, to);
+      if (!transition.allowed) {
+        throw new OrderWorkflowError(transition.reason!, 'INVALID_TRANSITION');
+      }
+      from = to;
+    }
+
+    const updates: Partial<OrderItem> = {
+      status: target,
+      providerId: provider.id,
+      providerOrderId: result.providerOrderId ?? current.providerOrderId,
+      providerStatus: result.providerStatus ?? current.providerStatus,
+      providerResponse: result.outputData ?? (result.error ? { error: result.error } : current.providerResponse),
+      providerAttempts: attempts ?? current.providerAttempts,
+    };
+
+    let paidAmount = order.paidAmount ?? 0;
+    // Lines of a free or heavily discounted order can have a zero share
+    if (target === 'delivered') {
+      updates.outputData = result.outputData;
+      if (current.amount > 0) {
+        const [, debit] = await this.settlePayment(tx, order, actorId, current);
+        await EventBus.record(tx, EventBus.createEvent('wallet.debited', order.tenantId, {
+          walletId: debit.walletId,
+          transaction: debit,
+        }, { actorId }));
+        paidAmount += current.amount;
+      }
+    } else if (target === 'failed' && current.amount > 0) {
+      await this.releasePayment(tx, order, actorId, current);
+    }
+
+    await tx.updateOrderItem(item.tenantId, item.id, updates);
+
+    const timelineActor = source === 'user' ? actorId : null;
+    await tx.createOrderEvent(OrderTimeline.providerResponse(order, current, source, timelineActor, {
+      providerId: provider.id,
+      providerOrderId: updates.providerOrderId,
+      providerStatus: result.providerStatus,
+      error: result.error,
+      attempts,
+    }));
+    await tx.createOrderEvent(OrderTimeline.transition(order, current.status, target, source, timelineActor, {}, current));
+
+    const audit = [
+      AuditLogger.logOrder(order.tenantId, actorId, 'update', order.id, {
+        orderItemId: item.id,
+        from: current.status,
+        to: target,
+        providerId: provider.id,
+        providerStatus: result.providerStatus,
+        amount: current.amount,
+      }),
+    ];
+
+    return this.aggregateItems(tx, { ...order, paidAmount }, actorId, source, audit, result.error?.message);
+  }
+
+  /**
+   * Set a bulk order's status from its items, recording an event when it changes
+   */
+  private async aggregateItems(
+    tx: IStorage,
+    order: Order,
+    actorId: string,
+    source: OrderEventSource,
+    audit: AuditLogEntry[],
+    reason?: string
+  ): Promise<Order> {
+    const status = BulkOrderManager.aggregateStatus(await tx.getOrderItems(order.tenantId, order.id));
+
+    if (status === order.status) {
+      const updated = await tx.updateOrder(order.tenantId, order.id, { paidAmount: order.paidAmount });
+      for (const entry of audit) {
+        await tx.createAuditLog(entry);
+      }
+      return updated!;
+    }
+
+    const machine = await this.stateMachine(tx, order.tenantId);
+    const transition = machine.canTransition(order.status, status);
+    if (!transition.allowed) {
+      throw new OrderWorkflowError(transition.reason!, 'INVALID_TRANSITION');
+    }
+
+    const updates: Partial<Order> = { status, paidAmount: order.paidAmount };
+    if (status !== 'failed') {
+      updates.completedAt = new Date().toISOString();
+    }
+
+    const updated = await tx.updateOrder(order.tenantId, order.id, updates);
+    await EventBus.record(tx, EventBus.createEvent(ORDER_OUTCOME_EVENTS[status] ?? 'order.updated', order.tenantId, {
+      order: updated!,
+      previousStatus: order.status,
+      reason: status === 'failed' ? reason : undefined,
+    }, {
+      actorId,
+      audit: [
+        ...audit,
+        AuditLogger.logOrder(order.tenantId, actorId, 'update', order.id, { from: order.status, to: status }),
+      ],
+    }));
+    await this.recordTransition(tx, machine, updated!, [order.status, status], actorId, source);
+
+    return updated!;
+  }
+
+  /**
+   * Walk the order through the state machine and settle the locked funds
+   */
+  private async recordFulfillment(
+    tx: IStorage,
+    order: Order,
+    provider: Provider,
+    result: OrderFulfillmentResult,
+    actorId: string,
+    source: OrderEventSource,
+    attempts?: ProviderAttempt[]
+  ): Promise<Order> {
+    const target: OrderStatus = result.success ? result.status : 'failed';
+    const path = this.transitionPath(order.status as OrderStatus, target);
+
+    const machine = await this.stateMachine(tx, order.tenantId);
+    const audit: AuditLogEntry[] = [];
+    let from = order.status;
+    for (const to of path) {
+      const transition = machine.canTransition(from, to);
+      if (!transition.allowed) {
+        throw new OrderWorkflowError(transition.reason!, 'INVALID_TRANSITION');
+      }
+
+      audit.push(
+        AuditLogger.logOrder(order.tenantId, actorId, 'update', order.id, {
+          from,
+          to,
+          providerId: provider.id,
+          providerStatus: result.providerStatus,
+        })
+      );
+      from = to;
+    }
+
+    const updates: Partial<Order> = {
+      status: target,
+      providerId: provider.id,
+      providerOrderId: result.providerOrderId ?? order.providerOrderId,
+      providerStatus: result.providerStatus ?? order.providerStatus,
+      providerResponse: result.outputData ?? (result.error ? { error: result.error } : order.providerResponse),
+      providerAttempts: attempts ?? order.providerAttempts,
+    };
+
+    if (target === 'delivered') {
+      const [, debit] = await this.settlePayment(tx, order, actorId);
+      await EventBus.record(tx, EventBus.createEvent('wallet.debited', order.tenantId, {
+        walletId: debit.walletId,
+        transaction: debit,
+      }, { actorId }));
+      updates.outputData = result.outputData;
+      updates.paidAmount = order.totalAmount;
+      updates.completedAt = new Date().toISOString();
+    } else if (target === 'failed') {
+      await this.releasePayment(tx, order, actorId);
+    }
+
+    const updated = (await tx.updateOrder(order.tenantId, order.id, updates))!;
+    await EventBus.record(tx, EventBus.createEvent(ORDER_OUTCOME_EVENTS[target] ?? 'order.updated', order.tenantId, {
+      order: updated,
+      previousStatus: order.status,
+      reason: result.error?.message,
+    }, { actorId, audit }));
+    await tx.createOrderEvent(OrderTimeline.providerResponse(order, undefined, source, source === 'user' ? actorId : null, {
+      providerId: provider.id,
+      providerOrderId: updates.providerOrderId,
+      providerStatus: result.providerStatus,
+      error: result.error,
+      attempts,
+    }));
+    await this.recordTransition(tx, machine, updated, [order.status, ...path], actorId, source);
+
+    return updated;
+  }
+
+  /**
+   * Refund the named items of a bulk order, each for what is left of its debit
+   */
+  private async planItemRefunds(
+    tx: IStorage,
+    order: Order,
+    itemIds: string[],
+    debits: Transaction[],
+    ledger: Transaction[]
+  ): Promise<RefundEntry[]> {
+    if (!BulkOrderManager.isBulk(order)) {
+      throw new OrderWorkflowError('Only bulk orders have items to refund', 'INVALID_REFUND');
+    }
+
+    const entries: RefundEntry[] = [];
+    for (const itemId of itemIds.filter((id, index) => itemIds.indexOf(id) === index)) {
+      const item = await tx.getOrderItem(order.tenantId, itemId);
+
+      if (!item || item.orderId !== order.id) {
+        throw new OrderWorkflowError(`Item ${itemId} is not part of this order`, 'ORDER_ITEM_NOT_FOUND');
+      }
+
+      const transition = OrderItemStateMachine.canTransition(item.status as OrderItemStatus, 'refunded');
+      if (!transition.allowed || item.status === 'refunded') {
+        throw new OrderWorkflowError(
+          `Item ${itemId} in status '${item.status}' cannot be refunded`,
+          'INVALID_TRANSITION'
+        );
+      }
+
+      // Items with a zero share were never debited
+      const debit = debits.find(transaction => transaction.metadata?.orderItemId === item.id);
+      if (debit) {
+        entries.push({ debit, amount: WalletManager.getRefundableAmount(debit, ledger), itemId: item.id });
+      }
+    }
+
+    return entries;
+  }
+
+  /**
+   * Spread an amount over the order's debits, in ledger order
+   * @throws WalletError REFUND_EXCEEDS_PAID when the debits cannot cover it
+   */
+  private planAmountRefunds(amount: number, debits: Transaction[], ledger: Transaction[]): RefundEntry[] {
+    const entries: RefundEntry[] = [];
+    let left = amount;
+
+    for (const debit of debits) {
+      const share = Math.min(left, WalletManager.getRefundableAmount(debit, ledger));
+      if (share > 0) {
+        entries.push({ debit, amount: share, itemId: debit.metadata?.orderItemId });
+        left -= share;
+      }
+    }
+
+    if (left > 0) {
+      throw new WalletError(`Refund of ${amount} exceeds the ${amount - left} left to refund`, 'REFUND_EXCEEDS_PAID');
+    }
+
+    return entries;
+  }
+
+  /**
+   * Convert the order's fund lock, or a bulk item's share of it, into a debit
+   * and credit the commissions earned on it
+   */
+  private async settlePayment(tx: IStorage, order: Order, actorId: string, item?: OrderItem): Promise<Transaction[]> {
+    const { walletId, lockTransactionId } = this.getPaymentReferences(order);
+
+    const settled = await new WalletLedger(tx).append(order.tenantId, walletId, async ({ balance }) => {
+      const { unlock, debit } = await WalletManager.completeOrderPayment(
+        walletId,
+        order.tenantId,
+        order.id,
+        item?.amount ?? order.totalAmount,
+        lockTransactionId,
+        actorId,
+        balance
+      );
+      const metadata = item ? { orderItemId: item.id } : unlock.metadata;
+      // The supplier's part of the payment, booked to provider payables
+      const providerCost = order.totalAmount > 0
+        ? Math.round(order.baseCost * debit.amount / order.totalAmount)
+        : 0;
+
+      return [
+        { ...unlock, metadata, currency: order.currency },
+        { ...debit, metadata: { ...metadata, providerCost }, currency: order.currency },
+      ];
+    });
+
+    await new CommissionPayouts(tx).credit(order, settled[1], actorId);
+    return settled;
+  }
+
+  /**
+   * Release the order's fund lock, or a failed bulk item's share of it, back to the available balance
+   */
+  private async releasePayment(tx: IStorage, order: Order, actorId: string, item?: OrderItem): Promise<Transaction> {
+    const { walletId, lockTransactionId } = this.getPaymentReferences(order);
+
+    const [released] = await new WalletLedger(tx).append(order.tenantId, walletId, async ({ balance }) => {
+      const unlock = await WalletManager.cancelOrderPayment(
+        walletId,
+        order.tenantId,
+        order.id,
+        item?.amount ?? order.totalAmount,
+        lockTransactionId,
+        actorId,
+        balance
+      );
+
+      return [item
+        ? {
+          ...unlock,
+          description: `Refund for failed item ${item.id} of order ${order.id}`,
+          metadata: { orderItemId: item.id },
+          currency: order.currency,
+        }
+        : { ...unlock, currency: order.currency }];
+    });
+    return released;
+  }
+
+  /**
+   * Put each step of a status change on the order's timeline and run the state hooks
+   * Only changes a user asked for name the actor; provider and sync outcomes act
+   * on behalf of the customer but were not made by them.
+   */
+  private async recordTransition(
+    tx: IStorage,
+    machine: OrderStateMachine,
+    order: Order,
+    path: string[],
+    actorId: string,
+    source: OrderEventSource = 'user',
+    data: Record<string, any> = {}
+  ): Promise<void> {
+    for (let index = 1; index < path.length; index++) {
+      if (path[index - 1] !== path[index]) {
+        await tx.createOrderEvent(OrderTimeline.transition(
+          order,
+          path[index - 1],
+          path[index],
+          source,
+          source === 'user' ? actorId : null,
+          data
+        ));
+      }
+    }
+
+    await OrderStateHooks.run(tx, machine, order, path, actorId);
+  }
+
+  private stateMachine(storage: IStorage, tenantId: string): Promise<OrderStateMachine> {
+    return new TenantStateMachineManager(storage).get(tenantId);
+  }
+
+  /**
+   * The order's status, or for a tenant-defined state the built-in one it left
+   */
+  private getBuiltInStatus(order: Order): string {
+    return OrderStateMachine.isBuiltInState(order.status)
+      ? order.status
+      : order.metadata?.resumeStatus ?? order.status;
+  }
+
+  private getPaymentReferences(order: Order): { walletId: string; lockTransactionId: string } {
+    const walletId = order.metadata?.walletId;
+    const lockTransactionId = order.metadata?.lockTransactionId;
+
+    if (!walletId || !lockTransactionId) {
+      throw new OrderWorkflowError('Order has no fund lock to settle', 'NO_FUND_LOCK');
+    }
+
+    return { walletId, lockTransactionId };
+  }
+
+  /**
+   * Intermediate states between the reserved status and the provider outcome
+   */
+  private transitionPath(from: OrderStatus, target: OrderStatus): OrderStatus[] {
+    const path: OrderStatus[] = [];
+
+    if (from !== 'processing') {
+      path.push('processing');
+    }
+
+    if (target !== 'processing') {
+      path.push(target);
+    }
+
+    return path;
+  }
+
+  private toFailure(error: unknown): OrderPlacementResult {
+    if (error instanceof OrderWorkflowError || error instanceof WalletError || error instanceof ExchangeRateError) {
+      return {
+        success: false,
+        error: {
+          code: error.code,
+          message: error.message,
+        },
+      };
+    }
+
+    throw error;
+  }
+}
@@ -0,0 +1,81 @@
+// Password Hashing
+// PBKDF2-SHA256 via WebCrypto so the same hashes verify on every edge runtime
+
+import { fromBase64Url, randomBytes, timingSafeEqual, toBase64Url, utf8 } from './crypto';
+
+// Cloudflare Workers rejects PBKDF2 above 100k iterations
+const ITERATIONS = 100_000;
+const SALT_BYTES = 16;
+const KEY_BYTES = 32;
+const ALGORITHM = 'pbkdf2-sha256';
+
+export class PasswordHasher {
+  /**
+   * Hash a password
+   * Format: `pbkdf2-sha256$<iterations>$<salt>$<hash>` (base64url)
+   */
+  static async hash(password: string): Promise<string> {
+    const salt = randomBytes(SALT_BYTES);
+    const derived = await this.derive(password, salt, ITERATIONS);
+    return [ALGORITHM, ITERATIONS, toBase64Url(salt), toBase64Url(derived)].join('$');
+  }
+
+  /**
+   * Verify a password against a stored hash
+   * Unknown or malformed hashes never verify
+   */
+  static async verify(password: string, stored: string): Promise<boolean> {
+    const parsed = this.parse(stored);
+    if (!parsed) {
+      return false;
+    }
+
+    const derived = await this.derive(password, parsed.salt, parsed.iterations);
+    return timingSafeEqual(derived, parsed.hash);
+  }
+
+  /**
+   * Whether a stored hash was produced with weaker parameters than the current ones
+   */
+  static needsRehash(stored: string): boolean {
+    const parsed = this.parse(stored);
+    return !parsed || parsed.iterations < ITERATIONS;
+  }
+
+  /**
+   * Burn the same work as a real verification, so unknown accounts
+   * cannot be told apart from wrong passwords by response time
+   */
+  static async dummyVerify(password: string): Promise<void> {
+    await this.derive(password, new Uint8Array(SALT_BYTES), ITERATIONS);
+  }
+
+  private static parse(stored: string): { iterations: number; salt: Uint8Array; hash: Uint8Array } | null {
+    const [algorithm, iterations, salt, hash] = stored.split('$');
+
+    if (algorithm !== ALGORITHM || !salt || !hash) {
+      return null;
+    }
+
+    const count = Number(iterations);
+    if (!Number.isInteger(count) || count <= 0 || count > ITERATIONS) {
+      return null;
+    }
+
+    try {
+      return { iterations: count, salt: fromBase64Url(salt), hash: fromBase64Url(hash) };
+    } catch {
+      return null;
+    }
+  }
+
+  private static async derive(password: string, salt: Uint8Array, iterations: number): Promise<Uint8Array> {
+    const key = await crypto.subtle.importKey('raw', utf8(password), 'PBKDF2', false, ['deriveBits']);
+    const bits = await crypto.subtle.deriveBits(
+      { name: 'PBKDF2', hash: 'SHA-256', salt, iterations },
+      key,
+      KEY_BYTES * 8
+    );
+    return new Uint8Array(bits);
+  }
+}
@@ -0,0 +1,214 @@
+// Pending Order Sync
+// Background polling of dispatched orders, per provider, persisted through the order workflow
+
+import type { Order, OrderItem, Provider } from '../../../shared/schema';
+import type { IStorage } from '../../../server/storage';
+import { mapConcurrently, sleep } from './concurrency';
+import { BulkOrderManager } from './order-manager';
+import { OrderTimeline } from './order-timeline';
+import { OrderWorkflow } from './order-workflow';
+import { ProviderHealthTracker } from './provider-health';
+import { ProviderSync } from './provider-sync';
+
+/**
+ * Polling settings; providers override them with `config.statusSync`
+ */
+export interface StatusSyncConfig {
+  intervalMinutes: number; // time between syncs of the same provider
+  requestsPerMinute: number; // status checks sent to the provider
+  maxOrders: number; // orders and bulk items checked per sync, oldest first
+}
+
+export const DEFAULT_STATUS_SYNC: StatusSyncConfig = {
+  intervalMinutes: 5,
+  requestsPerMinute: 60,
+  maxOrders: 50,
+};
+
+// Outcomes of these providers only arrive by other means (admins, results files)
+const UNPOLLED_PROVIDER_TYPES = ['manual', 'file_based'];
+
+export interface PendingOrderSyncOptions {
+  concurrency?: number; // providers synced at once (default 4)
+  sleep?: (ms: number) => Promise<void>;
+}
+
+export interface PendingOrderSyncResult {
+  providerId: string;
+  checked: number;
+  updated: number;
+  failed: number;
+  errors?: Array<{ orderId: string; error: string }>; // order or bulk item ID
+}
+
+/**
+ * Storage-backed counterpart of `ProviderSync` for scheduled runs
+ *
+ * Each due provider's processing orders, then its processing bulk items, are
+ * checked one at a time, spaced to the provider's `requestsPerMinute`. Status checks go through the provider's
+ * circuit breaker; an open circuit ends that provider's run. Updates are
+ * applied with `OrderWorkflow.applySyncUpdate` (orders) or `applyItemStatus`
+ * (items), so the state machine decides and delivery or failure settles the
+ * locked funds. Checks that fail, or report a new provider status without
+ * moving the order, are put on the order's timeline as `sync` events.
+ */
+export class PendingOrderSync {
+  private readonly health: ProviderHealthTracker;
+  private readonly workflow: OrderWorkflow;
+
+  constructor(
+    private readonly storage: IStorage,
+    private readonly options: PendingOrderSyncOptions = {}
+  ) {
+    this.health = new ProviderHealthTracker(storage);
+    this.workflow = new OrderWorkflow(storage);
+  }
+
+  /**
+   * Sync the tenant's active providers whose `intervalMinutes` elapsed
+   * Providers claimed by an overlapping run are left out of the results.
+   */
+  async syncDueProviders(tenantId: string, now: Date = new Date()): Promise<PendingOrderSyncResult[]> {
+    const due = (await this.storage.getProviders(tenantId)).filter(provider =>
+      provider.isActive
+      && !UNPOLLED_PROVIDER_TYPES.includes(provider.type)
+      && isDue(provider, PendingOrderSync.getConfig(provider).intervalMinutes, now)
+    );
+
+    const results = await mapConcurrently(due, this.options.concurrency ?? 4, provider => this.syncProvider(provider, now));
+    return results.filter((result): result is PendingOrderSyncResult => result !== undefined);
+  }
+
+  /**
+   * Check the provider's processing orders and apply what changed
+   * Returns undefined when another run claimed the provider since it was read.
+   */
+  async syncProvider(provider: Provider, now: Date = new Date()): Promise<PendingOrderSyncResult | undefined> {
+    const config = PendingOrderSync.getConfig(provider);
+    // Claimed up front so an overlapping run skips this provider
+    if (!(await this.storage.claimProviderStatusSync(provider, now.toISOString()))) {
+      return undefined;
+    }
+
+    const orders: Array<Order | OrderItem> = ProviderSync.getOrdersRequiringSync(
+      await this.storage.getOrders(provider.tenantId, { providerId: provider.id, status: 'processing' }),
+      provider.id
+    ).reverse();
+    const items = (await this.storage.getProviderOrderItems(provider.tenantId, provider.id, 'processing'))
+      .filter(item => item.providerOrderId);
+    const pending = orders.concat(items).slice(0, config.maxOrders);
+
+    const result: PendingOrderSyncResult = { providerId: provider.id, checked: 0, updated: 0, failed: 0 };
+    const errors: Array<{ orderId: string; error: string }> = [];
+    const spacingMs = 60_000 / Math.max(config.requestsPerMinute, 1);
+
+    for (let index = 0; index < pending.length; index++) {
+      const next = pending[index];
+      if (index > 0) {
+        await (this.options.sleep ?? sleep)(spacingMs);
+      }
+
+      if (!(await this.health.acquire(provider))) {
+        errors.push({ orderId: next.id, error: 'Provider circuit is open' });
+        result.failed++;
+        break;
+      }
+
+      result.checked++;
+      const outcome = 'orderId' in next
+        ? await this.syncItem(next, provider)
+        : await this.syncOrder(next, provider);
+      if (outcome.error) {
+        errors.push({ orderId: next.id, error: outcome.error });
+        result.failed++;
+      } else if (outcome.updated) {
+        result.updated++;
+      }
+    }
+
+    return errors.length > 0 ? { ...result, errors } : result;
+  }
+
+  static getConfig(provider: Provider): StatusSyncConfig {
+    return { ...DEFAULT_STATUS_SYNC, ...(provider.config?.statusSync ?? {}) };
+  }
+
+  private async syncOrder(order: Order, provider: Provider): Promise<{ updated: boolean; error?: string }> {
+    const sync = await ProviderSync.syncOrder(order, provider, this.health);
+    if (!sync.success || !sync.update) {
+      const error = sync.error ?? 'Unknown error';
+      await this.storage.createOrderEvent(OrderTimeline.syncResult(order, undefined, { providerId: provider.id, error }));
+      return { updated: false, error };
+    }
+
+    // Still processing at the provider
+    if (sync.update.normalizedStatus === order.status) {
+      await this.recordProgress(order, undefined, order.providerStatus, sync.update.providerStatus, provider);
+      return { updated: false };
+    }
+
+    const applied = await this.workflow.applySyncUpdate(order, provider, sync.update);
+    return applied.success
+      ? { updated: true }
+      : { updated: false, error: applied.error?.message ?? 'Unknown error' };
+  }
+
+  private async syncItem(item: OrderItem, provider: Provider): Promise<{ updated: boolean; error?: string }> {
+    const order = await this.storage.getOrder(item.tenantId, item.orderId);
+    if (!order) {
+      return { updated: false, error: 'Order not found' };
+    }
+
+    const sync = await ProviderSync.syncOrder(BulkOrderManager.itemView(order, item), provider, this.health);
+    if (!sync.success || !sync.update) {
+      const error = sync.error ?? 'Unknown error';
+      await this.storage.createOrderEvent(OrderTimeline.syncResult(order, item, { providerId: provider.id, error }));
+      return { updated: false, error };
+    }
+
+    if (sync.update.normalizedStatus === item.status) {
+      await this.recordProgress(order, item, item.providerStatus, sync.update.providerStatus, provider);
+      return { updated: false };
+    }
+
+    const applied = await this.workflow.applyItemStatus(item, provider, {
+      providerOrderId: item.providerOrderId!,
+      status: sync.update.providerStatus,
+      data: sync.update.outputData,
+      completedAt: sync.update.completedAt,
+    }, 'sync');
+    return applied.success
+      ? { updated: true }
+      : { updated: false, error: applied.error?.message ?? 'Unknown error' };
+  }
+
+  /**
+   * Keep the provider's own status on the order or item when it changes without
+   * moving it (e.g. `queued` to `in_progress`), so unchanged polls add nothing
+   */
+  private async recordProgress(
+    order: Order,
+    item: OrderItem | undefined,
+    previous: string | null,
+    providerStatus: string,
+    provider: Provider
+  ): Promise<void> {
+    if (providerStatus === previous) {
+      return;
+    }
+
+    await this.storage.transaction(async tx => {
+      if (item) {
+        await tx.updateOrderItem(item.tenantId, item.id, { providerStatus });
+      } else {
+        await tx.updateOrder(order.tenantId, order.id, { providerStatus });
+      }
+      await tx.createOrderEvent(OrderTimeline.syncResult(order, item, { providerId: provider.id, providerStatus }));
+    });
+  }
+}
+
+function isDue(provider: Provider, intervalMinutes: number, now: Date): boolean {
+  return !provider.statusSyncAt
+    || now.getTime() - new Date(provider.statusSyncAt).getTime() >= intervalMinutes * 60 * 1000;
+}
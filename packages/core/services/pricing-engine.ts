@@ -1,6 +1,9 @@
 // Role-Based Pricing Engine
 // Calculates final price based on base cost and role-specific markup rules
 
+import type { PricingRule as PricingRuleRecord } from '../../../shared/schema';
+import { ExchangeRates, type ExchangeQuote } from './exchange-rates';
+
 export type MarkupType = 'fixed' | 'percentage' | 'tiered';
 
 export interface PricingRule {
@@ -29,9 +32,32 @@ export interface PriceCalculation {
   profit: number;
   currency: string;
   appliedRule?: PricingRule;
+  priceCurrency?: string; // the currency the price was calculated in, when converted
+  exchangeRate?: number; // currency per priceCurrency
 }
 
+// Stored rule columns the engine needs (id is absent before insert)
+export type PricingRuleFields =
+  Pick<PricingRuleRecord, 'serviceId' | 'role' | 'markupType' | 'markupValue'> &
+  Partial<Pick<PricingRuleRecord, 'id' | 'minProfit' | 'maxProfit' | 'tierConfig'>>;
+
 export class PricingEngine {
+  /**
+   * Convert a stored pricing rule row into an engine rule
+   */
+  static fromRecord(record: PricingRuleFields): PricingRule {
+    return {
+      id: record.id ?? '',
+      serviceId: record.serviceId,
+      role: record.role,
+      markupType: record.markupType as MarkupType,
+      markupValue: record.markupValue,
+      minProfit: record.minProfit ?? undefined,
+      maxProfit: record.maxProfit ?? undefined,
+      tierConfig: (record.tierConfig as TierConfig | null) ?? undefined,
+    };
+  }
+
   /**
    * Calculate price for a service based on role and quantity
    */
@@ -97,6 +123,55 @@ export class PricingEngine {
     };
   }
 
+  /**
+   * Convert a price calculated in the quote's `from` currency into its `to` currency
+   * Unit cost and markup are converted and the total rebuilt from them, so
+   * `totalAmount` stays `(baseCost + markup) * quantity` in the new currency.
+   */
+  static convertPrice(
+    calculation: PriceCalculation,
+    quote: Pick<ExchangeQuote, 'from' | 'to' | 'rate'>,
+    quantity: number = 1
+  ): PriceCalculation {
+    if (quote.from === quote.to) {
+      return calculation;
+    }
+
+    const baseCost = ExchangeRates.convert(calculation.baseCost, quote);
+    const markup = ExchangeRates.convert(calculation.markup, quote);
+
+    return {
+      ...calculation,
+      baseCost,
+      markup,
+      totalAmount: (baseCost + markup) * quantity,
+      profit: markup * quantity,
+      currency: quote.to,
+      priceCurrency: quote.from,
+      exchangeRate: quote.rate,
+    };
+  }
+
+  /**
+   * A rule with its amounts converted from the quote's `from` currency into its `to` currency
+   * Fixed markups and the profit limits are amounts; percentages and tiers are not.
+   */
+  static convertRule(rule: PricingRule, quote: Pick<ExchangeQuote, 'from' | 'to' | 'rate'>): PricingRule {
+    if (quote.from === quote.to) {
+      return rule;
+    }
+
+    const convert = (amount: number | undefined) =>
+      amount === undefined ? undefined : ExchangeRates.convert(amount, quote);
+
+    return {
+      ...rule,
+      markupValue: rule.markupType === 'fixed' ? ExchangeRates.convert(rule.markupValue, quote) : rule.markupValue,
+      minProfit: convert(rule.minProfit),
+      maxProfit: convert(rule.maxProfit),
+    };
+  }
+
   /**
    * Calculate tiered markup based on quantity
    */
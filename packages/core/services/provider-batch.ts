@@ -0,0 +1,220 @@
+// Provider Batches
+// Export queued orders to file-based providers and apply their results files
+
+import type { Order, Provider, ProviderBatch } from '../../../shared/schema';
+import type { IStorage } from '../../../server/storage';
+import type { BlobStore } from '../types';
+import {
+  FILE_BATCH_EXPORTED,
+  FILE_BATCH_QUEUED,
+  FileBasedProvider,
+  ProviderRegistry,
+  type FileBatchLine,
+} from '../providers';
+import { OrderWorkflow } from './order-workflow';
+import { AuditLogger } from './audit-logger';
+
+export class ProviderBatchError extends Error {
+  constructor(message: string, public code: string) {
+    super(message);
+    this.name = 'ProviderBatchError';
+  }
+}
+
+export interface ProviderBatchImportResult {
+  batch: ProviderBatch;
+  applied: number;
+  errors: Array<{ reference?: string; error: string }>;
+}
+
+/**
+ * File round trips with file-based providers
+ *
+ * Orders and bulk items routed to a file-based provider wait in `processing`
+ * with provider status `queued`. `exportPending` writes them to a file in the
+ * blob store and marks them `exported`.
+ * `importResults` matches each row of the supplier's results file to an order
+ * or item by providerOrderId and applies its status.
+ */
+export class ProviderBatchManager {
+  constructor(
+    private readonly storage: IStorage,
+    private readonly blobs: BlobStore
+  ) {}
+
+  /**
+   * Write every queued order and bulk item for the provider to an export file
+   * @throws ProviderBatchError NOT_FILE_BASED | NOTHING_TO_EXPORT
+   */
+  async exportPending(provider: Provider, actorId: string): Promise<ProviderBatch> {
+    const instance = this.getFileProvider(provider);
+    const tenantId = provider.tenantId;
+
+    const orders = (await this.storage.getOrders(tenantId, { providerId: provider.id, status: 'processing' }))
+      .filter(order => order.providerStatus === FILE_BATCH_QUEUED && order.providerOrderId);
+    const items = (await this.storage.getProviderOrderItems(tenantId, provider.id, 'processing'))
+      .filter(item => item.providerStatus === FILE_BATCH_QUEUED && item.providerOrderId);
+
+    if (orders.length === 0 && items.length === 0) {
+      throw new ProviderBatchError('No orders are waiting to be exported', 'NOTHING_TO_EXPORT');
+    }
+
+    const serviceIds = new Map<string, string>();
+    const lines: FileBatchLine[] = [];
+    for (const order of orders) {
+      lines.push({
+        reference: order.providerOrderId!,
+        service: await this.getProviderServiceId(provider, order.serviceId, serviceIds),
+        inputData: order.inputData,
+      });
+    }
+    for (const item of items) {
+      const parent = await this.getOrder(tenantId, item.orderId);
+      lines.push({
+        reference: item.providerOrderId!,
+        service: await this.getProviderServiceId(provider, parent.serviceId, serviceIds),
+        inputData: item.inputData,
+      });
+    }
+
+    const file = instance.buildExport(lines);
+    const key = this.blobKey(provider, 'exports', file.extension);
+    await this.blobs.put(key, file.content, { contentType: file.contentType });
+
+    // The file is written first: if recording fails, the lines stay queued for the next export
+    return this.storage.transaction(async tx => {
+      for (const order of orders) {
+        await tx.updateOrder(tenantId, order.id, { providerStatus: FILE_BATCH_EXPORTED });
+      }
+      for (const item of items) {
+        await tx.updateOrderItem(tenantId, item.id, { providerStatus: FILE_BATCH_EXPORTED });
+      }
+
+      const batch = await tx.createProviderBatch({
+        tenantId,
+        providerId: provider.id,
+        direction: 'export',
+        blobKey: key,
+        format: instance.getFormat(),
+        lineCount: lines.length,
+        appliedCount: 0,
+        errors: [],
+        createdBy: actorId,
+      });
+      await tx.createAuditLog(
+        AuditLogger.logProvider(tenantId, actorId, 'sync', provider.id, {
+          direction: 'export',
+          batchId: batch.id,
+          lineCount: lines.length,
+        })
+      );
+
+      return batch;
+    });
+  }
+
+  /**
+   * Store a results file and apply each row to its order or item
+   * Rows that cannot be applied are reported, not fatal
+   * @throws ProviderBatchError NOT_FILE_BASED | ProviderError INVALID_RESULTS_FILE
+   */
+  async importResults(provider: Provider, content: string, actorId: string): Promise<ProviderBatchImportResult> {
+    const instance = this.getFileProvider(provider);
+    const tenantId = provider.tenantId;
+    const results = instance.parseResults(content);
+
+    const format = instance.getFormat();
+    const key = this.blobKey(provider, 'results', format);
+    await this.blobs.put(key, content, { contentType: format === 'json' ? 'application/json' : 'text/csv' });
+
+    const workflow = new OrderWorkflow(this.storage);
+    const errors: ProviderBatchImportResult['errors'] = [];
+    let applied = 0;
+
+    for (const result of results) {
+      if (!result.report) {
+        errors.push({ error: `Row ${result.row}: ${result.error}` });
+        continue;
+      }
+
+      const reference = result.report.providerOrderId;
+      try {
+        const order = await this.storage.getOrderByProviderOrderId(tenantId, provider.id, reference);
+        const item = order
+          ? undefined
+          : await this.storage.getOrderItemByProviderOrderId(tenantId, provider.id, reference);
+        if (!order && !item) {
+          throw new ProviderBatchError('No order or item has this reference', 'UNKNOWN_REFERENCE');
+        }
+
+        const outcome = order
+          ? await workflow.applyProviderStatus(order, provider, result.report)
+          : await workflow.applyItemStatus(item!, provider, result.report);
+        if (!outcome.order) {
+          throw new ProviderBatchError(outcome.error?.message ?? 'Status could not be applied', 'APPLY_FAILED');
+        }
+        applied++;
+      } catch (error) {
+        errors.push({ reference, error: (error as Error).message });
+      }
+    }
+
+    const batch = await this.storage.createProviderBatch({
+      tenantId,
+      providerId: provider.id,
+      direction: 'import',
+      blobKey: key,
+      format,
+      lineCount: results.length,
+      appliedCount: applied,
+      errors,
+      createdBy: actorId,
+    });
+    await this.storage.createAuditLog(
+      AuditLogger.logProvider(tenantId, actorId, 'sync', provider.id, {
+        direction: 'import',
+        batchId: batch.id,
+        applied,
+        failed: errors.length,
+      })
+    );
+
+    return { batch, applied, errors };
+  }
+
+  private getFileProvider(provider: Provider): FileBasedProvider {
+    const instance = ProviderRegistry.fromRecord(provider);
+    if (!(instance instanceof FileBasedProvider)) {
+      throw new ProviderBatchError(`Provider type '${provider.type}' does not exchange files`, 'NOT_FILE_BASED');
+    }
+    return instance;
+  }
+
+  private async getOrder(tenantId: string, orderId: string): Promise<Order> {
+    const order = await this.storage.getOrder(tenantId, orderId);
+    if (!order) {
+      throw new ProviderBatchError(`Order ${orderId} not found`, 'ORDER_NOT_FOUND');
+    }
+    return order;
+  }
+
+  /**
+   * The supplier's service ID from the mapping, falling back to ours
+   */
+  private async getProviderServiceId(
+    provider: Provider,
+    serviceId: string,
+    cache: Map<string, string>
+  ): Promise<string> {
+    if (!cache.has(serviceId)) {
+      const mappings = await this.storage.getProviderServiceMappings(provider.tenantId, serviceId);
+      cache.set(serviceId, mappings.find(mapping => mapping.providerId === provider.id)?.providerServiceId ?? serviceId);
+    }
+    return cache.get(serviceId)!;
+  }
+
+  private blobKey(provider: Provider, folder: 'exports' | 'results', extension: string): string {
+    const stamp = new Date().toISOString().replace(/[:.]/g, '-');
+    return `tenants/${provider.tenantId}/providers/${provider.id}/${folder}/${stamp}-${crypto.randomUUID()}.${extension}`;
+  }
+}
@@ -0,0 +1,470 @@
+// Provider Catalog
+// Import a supplier's service list and keep services in step with its prices
+
+import type {
+  CatalogSync,
+  CatalogSyncChange,
+  Provider,
+  ProviderServiceMapping,
+  Service,
+  ServiceGroup,
+} from '../../../shared/schema';
+import type { IStorage } from '../../../server/storage';
+import {
+  ProviderRegistry,
+  supportsBalance,
+  supportsCatalog,
+  type ProviderBalance,
+  type ProviderCatalogEntry,
+} from '../providers';
+import { AuditLogger } from './audit-logger';
+import { EventBus } from './event-bus';
+import { ServiceManager } from './service-manager';
+
+export class ProviderCatalogError extends Error {
+  constructor(message: string, public code: string) {
+    super(message);
+    this.name = 'ProviderCatalogError';
+  }
+}
+
+export interface ProviderCatalogImportResult {
+  imported: Service[];
+  skipped: string[]; // provider service IDs that were already mapped
+}
+
+/**
+ * `providers.config.catalogSync`
+ */
+export interface CatalogSyncConfig {
+  intervalHours?: number; // scheduled syncs; providers without it are only synced on demand
+  autoAdjust?: boolean; // apply cost changes within the band without approval
+  band?: number; // percent of the current base cost
+}
+
+export interface CatalogSyncRunResult {
+  providerId: string;
+  sync?: CatalogSync;
+  error?: string;
+}
+
+/**
+ * Supplier catalogs
+ *
+ * `importServices` creates a service, and a mapping to the supplier's ID, for
+ * every listed service the provider is not mapped to yet. Imported services
+ * start inactive at the supplier's cost, so prices can be reviewed first.
+ * Supplier groups become service groups, matched by slug.
+ *
+ * `syncCatalog` compares the supplier's list with our mappings and records a
+ * report: services added upstream, services gone upstream and cost changes.
+ * Cost changes flag `services.costDrift`; with `autoAdjust` those within the
+ * band update `baseCost` right away. Everything else waits for an admin to
+ * approve the report. Costs are only compared on a service's primary mapping.
+ */
+export class ProviderCatalogManager {
+  constructor(private readonly storage: IStorage) {}
+
+  /**
+   * @throws ProviderCatalogError NOT_SUPPORTED when the provider has no balance lookup
+   */
+  async getBalance(provider: Provider): Promise<ProviderBalance> {
+    const instance = ProviderRegistry.fromRecord(provider);
+    if (!supportsBalance(instance)) {
+      throw new ProviderCatalogError(`Provider type '${provider.type}' does not report a balance`, 'NOT_SUPPORTED');
+    }
+    return instance.getBalance();
+  }
+
+  /**
+   * The supplier's service list
+   * @throws ProviderCatalogError NOT_SUPPORTED when the provider has no service list
+   */
+  async listServices(provider: Provider): Promise<ProviderCatalogEntry[]> {
+    const instance = ProviderRegistry.fromRecord(provider);
+    if (!supportsCatalog(instance)) {
+      throw new ProviderCatalogError(`Provider type '${provider.type}' does not list services`, 'NOT_SUPPORTED');
+    }
+    return instance.listServices();
+  }
+
+  /**
+   * Create services and mappings for the supplier services not mapped yet
+   * @throws ProviderCatalogError NOT_SUPPORTED
+   */
+  async importServices(provider: Provider, actorId: string): Promise<ProviderCatalogImportResult> {
+    const tenantId = provider.tenantId;
+    const entries = await this.listServices(provider);
+
+    const mapped = new Set(
+      (await this.storage.getProviderServiceMappingsByProvider(tenantId, provider.id))
+        .map(mapping => mapping.providerServiceId)
+    );
+    const pending = entries.filter(entry => !mapped.has(entry.providerServiceId));
+    const skipped = entries
+      .filter(entry => mapped.has(entry.providerServiceId))
+      .map(entry => entry.providerServiceId);
+
+    const imported = await this.storage.transaction(async tx => {
+      const groups = new Map((await tx.getServiceGroups(tenantId)).map(group => [group.slug, group]));
+      const created: Service[] = [];
+
+      for (const entry of pending) {
+        created.push(await this.createFromEntry(tx, provider, entry, groups, actorId));
+      }
+
+      await tx.createAuditLog(
+        AuditLogger.logProvider(tenantId, actorId, 'sync', provider.id, {
+          catalog: { imported: created.length, skipped: skipped.length },
+        })
+      );
+
+      return created;
+    });
+
+    return { imported, skipped };
+  }
+
+  /**
+   * Compare the supplier's catalog with ours and record the differences
+   * @throws ProviderCatalogError NOT_SUPPORTED
+   */
+  async syncCatalog(provider: Provider, actorId?: string): Promise<CatalogSync> {
+    const tenantId = provider.tenantId;
+    const entries = await this.listServices(provider);
+    const settings: CatalogSyncConfig = provider.config?.catalogSync ?? {};
+    const now = new Date().toISOString();
+
+    return this.storage.transaction(async tx => {
+      // A newer report replaces any still waiting for review
+      for (const previous of await tx.getCatalogSyncs(tenantId, provider.id)) {
+        if (previous.status === 'pending') {
+          await tx.updateCatalogSync(tenantId, previous.id, { status: 'superseded' });
+        }
+      }
+
+      const mappings = new Map(
+        (await tx.getProviderServiceMappingsByProvider(tenantId, provider.id))
+          .map(mapping => [mapping.providerServiceId, mapping])
+      );
+      const changes: CatalogSyncChange[] = [];
+
+      for (const entry of entries) {
+        const mapping = mappings.get(entry.providerServiceId);
+        mappings.delete(entry.providerServiceId);
+
+        if (!mapping) {
+          changes.push(this.change('added', entry.providerServiceId, entry.name, {
+            upstreamCost: entry.cost,
+            entry: { ...entry },
+          }));
+          continue;
+        }
+
+        await tx.updateProviderServiceMapping(tenantId, mapping.id, {
+          upstreamCost: entry.cost,
+          upstreamSyncedAt: now,
+        });
+
+        const change = await this.compareCost(tx, mapping, entry, settings, actorId);
+        if (change) {
+          changes.push(change);
+        }
+      }
+
+      for (const mapping of Array.from(mappings.values())) {
+        if (mapping.isActive) {
+          const service = await tx.getService(tenantId, mapping.serviceId);
+          changes.push(this.change('removed', mapping.providerServiceId, service?.name ?? mapping.providerServiceId, {
+            serviceId: mapping.serviceId,
+            mappingId: mapping.id,
+          }));
+        }
+      }
+
+      const sync = await tx.createCatalogSync({
+        tenantId,
+        providerId: provider.id,
+        status: changes.some(change => change.status === 'pending') ? 'pending' : 'applied',
+        changes,
+        createdBy: actorId,
+      });
+
+      if (actorId) {
+        await tx.createAuditLog(
+          AuditLogger.logProvider(tenantId, actorId, 'sync', provider.id, {
+            catalogSync: sync.id,
+            changes: changes.length,
+          })
+        );
+      }
+
+      return sync;
+    });
+  }
+
+  /**
+   * Apply a pending report; with `changeIds`, only those changes and the rest are rejected
+   * Changes overtaken since the sync (service edited, mapping added) are skipped
+   * @throws ProviderCatalogError INVALID_STATUS when the report is not pending
+   */
+  async approveSync(sync: CatalogSync, actorId: string, changeIds?: string[]): Promise<CatalogSync> {
+    this.assertPending(sync);
+    const tenantId = sync.tenantId;
+    const provider = await this.storage.getProvider(tenantId, sync.providerId);
+    if (!provider) {
+      throw new ProviderCatalogError('Provider not found', 'PROVIDER_NOT_FOUND');
+    }
+
+    return this.storage.transaction(async tx => {
+      const groups = new Map((await tx.getServiceGroups(tenantId)).map(group => [group.slug, group]));
+      const mapped = new Set(
+        (await tx.getProviderServiceMappingsByProvider(tenantId, provider.id)).map(mapping => mapping.providerServiceId)
+      );
+      const changes: CatalogSyncChange[] = [];
+
+      for (const change of sync.changes) {
+        if (change.status !== 'pending') {
+          changes.push(change);
+        } else if (changeIds && !changeIds.includes(change.id)) {
+          changes.push({ ...change, status: 'rejected' });
+        } else {
+          changes.push(await this.applyChange(tx, provider, change, groups, mapped, actorId));
+        }
+      }
+
+      const updated = await tx.updateCatalogSync(tenantId, sync.id, {
+        status: 'applied',
+        changes,
+        reviewedBy: actorId,
+        reviewedAt: new Date().toISOString(),
+      });
+
+      await tx.createAuditLog(
+        AuditLogger.logProvider(tenantId, actorId, 'sync', provider.id, {
+          catalogSync: sync.id,
+          applied: changes.filter(change => change.status === 'applied').length,
+        })
+      );
+
+      return updated ?? sync;
+    });
+  }
+
+  /**
+   * Discard a pending report; cost drift stays flagged on the services
+   * @throws ProviderCatalogError INVALID_STATUS when the report is not pending
+   */
+  async rejectSync(sync: CatalogSync, actorId: string): Promise<CatalogSync> {
+    this.assertPending(sync);
+
+    const updated = await this.storage.updateCatalogSync(sync.tenantId, sync.id, {
+      status: 'rejected',
+      changes: sync.changes.map(change => change.status === 'pending' ? { ...change, status: 'rejected' } : change),
+      reviewedBy: actorId,
+      reviewedAt: new Date().toISOString(),
+    });
+    await this.storage.createAuditLog(
+      AuditLogger.logProvider(sync.tenantId, actorId, 'sync', sync.providerId, { catalogSync: sync.id, rejected: true })
+    );
+
+    return updated ?? sync;
+  }
+
+  /**
+   * Sync every active provider whose `catalogSync.intervalHours` has elapsed
+   * A failing provider is reported and does not stop the others
+   */
+  async syncDueCatalogs(tenantId: string, now: Date = new Date()): Promise<CatalogSyncRunResult[]> {
+    const results: CatalogSyncRunResult[] = [];
+
+    for (const provider of await this.storage.getProviders(tenantId)) {
+      const intervalHours = (provider.config?.catalogSync as CatalogSyncConfig | undefined)?.intervalHours;
+      if (!provider.isActive || !intervalHours || !supportsCatalog(ProviderRegistry.fromRecord(provider))) {
+        continue;
+      }
+
+      const [latest] = await this.storage.getCatalogSyncs(tenantId, provider.id);
+      if (latest?.createdAt && now.getTime() - new Date(latest.createdAt).getTime() < intervalHours * 60 * 60 * 1000) {
+        continue;
+      }
+
+      try {
+        results.push({ providerId: provider.id, sync: await this.syncCatalog(provider) });
+      } catch (error) {
+        results.push({ providerId: provider.id, error: (error as Error).message });
+      }
+    }
+
+    return results;
+  }
+
+  /**
+   * Flag or auto-adjust a cost change on the service behind a mapping
+   */
+  private async compareCost(
+    tx: IStorage,
+    mapping: ProviderServiceMapping,
+    entry: ProviderCatalogEntry,
+    settings: CatalogSyncConfig,
+    actorId?: string
+  ): Promise<CatalogSyncChange | undefined> {
+    const service = await tx.getService(mapping.tenantId, mapping.serviceId);
+    if (!service || !(await this.isPrimaryMapping(tx, mapping))) {
+      return undefined;
+    }
+
+    if (entry.cost === service.baseCost) {
+      if (service.costDrift !== null) {
+        await tx.updateService(service.tenantId, service.id, { costDrift: null });
+      }
+      return undefined;
+    }
+
+    const details = {
+      serviceId: service.id,
+      mappingId: mapping.id,
+      previousCost: service.baseCost,
+      upstreamCost: entry.cost,
+    };
+
+    if (settings.autoAdjust && ProviderCatalogManager.isWithinBand(service.baseCost, entry.cost, settings.band)) {
+      await this.updateBaseCost(tx, service, entry.cost, actorId);
+      return { ...this.change('cost_changed', entry.providerServiceId, service.name, details), status: 'auto_applied' };
+    }
+
+    await tx.updateService(service.tenantId, service.id, { costDrift: entry.cost - service.baseCost });
+    return this.change('cost_changed', entry.providerServiceId, service.name, details);
+  }
+
+  /**
+   * Whether a new cost is within `band` percent of the current one
+   */
+  static isWithinBand(currentCost: number, newCost: number, band: number = 0): boolean {
+    return currentCost > 0 && Math.abs(newCost - currentCost) * 100 <= band * currentCost;
+  }
+
+  private async applyChange(
+    tx: IStorage,
+    provider: Provider,
+    change: CatalogSyncChange,
+    groups: Map<string, ServiceGroup>,
+    mapped: Set<string>,
+    actorId: string
+  ): Promise<CatalogSyncChange> {
+    const skip = (reason: string): CatalogSyncChange => ({ ...change, status: 'skipped', reason });
+
+    switch (change.type) {
+      case 'added': {
+        if (mapped.has(change.providerServiceId)) {
+          return skip('Already mapped');
+        }
+        const service = await this.createFromEntry(tx, provider, change.entry as ProviderCatalogEntry, groups, actorId);
+        mapped.add(change.providerServiceId);
+        return { ...change, status: 'applied', serviceId: service.id };
+      }
+
+      case 'removed': {
+        const mapping = await tx.updateProviderServiceMapping(provider.tenantId, change.mappingId!, { isActive: false });
+        return mapping ? { ...change, status: 'applied' } : skip('Mapping no longer exists');
+      }
+
+      case 'cost_changed': {
+        const service = await tx.getService(provider.tenantId, change.serviceId!);
+        if (!service) {
+          return skip('Service no longer exists');
+        }
+        if (service.baseCost !== change.previousCost) {
+          return skip('Base cost changed since the sync');
+        }
+        await this.updateBaseCost(tx, service, change.upstreamCost!, actorId);
+        return { ...change, status: 'applied' };
+      }
+    }
+  }
+
+  private async updateBaseCost(tx: IStorage, service: Service, baseCost: number, actorId?: string): Promise<void> {
+    const updated = await tx.updateService(service.tenantId, service.id, { baseCost, costDrift: null });
+    if (updated) {
+      await EventBus.record(tx, EventBus.createEvent('service.updated', service.tenantId, { service: updated }, { actorId }));
+    }
+  }
+
+  /**
+   * The active mapping tried first for the service
+   */
+  private async isPrimaryMapping(tx: IStorage, mapping: ProviderServiceMapping): Promise<boolean> {
+    const [primary] = (await tx.getProviderServiceMappings(mapping.tenantId, mapping.serviceId))
+      .filter(candidate => candidate.isActive);
+    return primary?.id === mapping.id;
+  }
+
+  private async createFromEntry(
+    tx: IStorage,
+    provider: Provider,
+    entry: ProviderCatalogEntry,
+    groups: Map<string, ServiceGroup>,
+    actorId?: string
+  ): Promise<Service> {
+    const tenantId = provider.tenantId;
+    const group = entry.group ? await this.getGroup(tx, tenantId, entry.group, groups) : undefined;
+    const service = await tx.createService({
+      tenantId,
+      groupId: group?.id,
+      name: entry.name,
+      slug: ServiceManager.generateSlug(`${provider.slug} ${entry.providerServiceId} ${entry.name}`),
+      description: entry.description,
+      inputSchema: { fields: entry.fields },
+      baseCost: entry.cost,
+      currency: entry.currency ?? 'USD',
+      isActive: false,
+      metadata: {
+        importedFrom: provider.id,
+        providerServiceId: entry.providerServiceId,
+        deliveryTime: entry.deliveryTime,
+      },
+    });
+
+    await tx.createProviderServiceMapping({
+      tenantId,
+      serviceId: service.id,
+      providerId: provider.id,
+      providerServiceId: entry.providerServiceId,
+      upstreamCost: entry.cost,
+      upstreamSyncedAt: new Date().toISOString(),
+    });
+    await EventBus.record(tx, EventBus.createEvent('service.created', tenantId, { service }, { actorId }));
+
+    return service;
+  }
+
+  private change(
+    type: CatalogSyncChange['type'],
+    providerServiceId: string,
+    name: string,
+    details: Partial<CatalogSyncChange> = {}
+  ): CatalogSyncChange {
+    return { id: crypto.randomUUID(), type, status: 'pending', providerServiceId, name, ...details };
+  }
+
+  private assertPending(sync: CatalogSync): void {
+    if (sync.status !== 'pending') {
+      throw new ProviderCatalogError(`Catalog sync is already ${sync.status}`, 'INVALID_STATUS');
+    }
+  }
+
+  private async getGroup(
+    storage: IStorage,
+    tenantId: string,
+    name: string,
+    groups: Map<string, ServiceGroup>
+  ): Promise<ServiceGroup> {
+    const slug = ServiceManager.generateSlug(name);
+    let group = groups.get(slug);
+    if (!group) {
+      group = await storage.createServiceGroup({ tenantId, name, slug });
+      groups.set(slug, group);
+    }
+    return group;
+  }
+}
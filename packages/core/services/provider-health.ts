@@ -0,0 +1,242 @@
+// Provider Health
+// Rolling error rates and latencies per provider, with a circuit breaker in front of its calls
+
+import type { Provider, ProviderHealth, ProviderHealthSample } from '../../../shared/schema';
+import type { IStorage } from '../../../server/storage';
+
+export type CircuitState = 'closed' | 'open' | 'half_open';
+
+export type ProviderOperation = ProviderHealthSample['operation'];
+
+/**
+ * Breaker settings; providers override them with `config.circuitBreaker`
+ */
+export interface CircuitBreakerConfig {
+  failureRate: number; // percent of failed calls in the window that opens the circuit
+  minimumCalls: number; // calls the window needs before the rate counts
+  windowSize: number; // most recent calls kept
+  windowSeconds: number; // calls older than this drop out of the window
+  openSeconds: number; // how long an open circuit rejects calls before probing
+  halfOpenProbes: number; // successful probes needed to close the circuit again
+}
+
+export const DEFAULT_CIRCUIT_BREAKER: CircuitBreakerConfig = {
+  failureRate: 50,
+  minimumCalls: 5,
+  windowSize: 20,
+  windowSeconds: 300,
+  openSeconds: 60,
+  halfOpenProbes: 2,
+};
+
+export interface ProviderHealthReport {
+  providerId: string;
+  state: CircuitState;
+  calls: number;
+  failures: number;
+  errorRate: number; // percent
+  averageLatencyMs: number;
+  p95LatencyMs: number;
+  openedAt: string | null;
+  retryAt: string | null; // open: when the first probe is let through
+  lastError: ProviderHealth['lastError'];
+  config: CircuitBreakerConfig;
+}
+
+/**
+ * Circuit breaker per provider
+ *
+ * Calls are recorded in a rolling window. Once the window holds
+ * `minimumCalls` and `failureRate` percent of them failed, the circuit opens
+ * and calls are refused for `openSeconds`. It then half-opens: up to
+ * `halfOpenProbes` calls go through as probes. Any failed probe opens the
+ * circuit again; when every probe succeeds it closes with an empty window.
+ * State lives in storage so every worker sees the same breaker.
+ */
+export class ProviderHealthTracker {
+  constructor(
+    private readonly storage: IStorage,
+    private readonly now: () => Date = () => new Date()
+  ) {}
+
+  /**
+   * Whether a call may go to the provider now, without claiming a probe
+   * Used to rank providers; `acquire` decides on the call itself.
+   */
+  async isAvailable(provider: Provider): Promise<boolean> {
+    const health = await this.storage.getProviderHealth(provider.tenantId, provider.id);
+    const config = ProviderHealthTracker.getConfig(provider);
+    const now = this.now().getTime();
+
+    switch (health?.state) {
+      case 'open':
+        return now >= elapsedAt(health.openedAt, config.openSeconds);
+      case 'half_open':
+        return health.probesStarted < config.halfOpenProbes
+          || now >= elapsedAt(health.probeStartedAt, config.openSeconds);
+      default:
+        return true;
+    }
+  }
+
+  /**
+   * Ask to call the provider; half-open circuits hand out a limited number of probes
+   * @returns false when the circuit refuses the call
+   */
+  async acquire(provider: Provider): Promise<boolean> {
+    return this.storage.transaction(async tx => {
+      const health = await tx.getProviderHealth(provider.tenantId, provider.id);
+      const config = ProviderHealthTracker.getConfig(provider);
+      const now = this.now();
+
+      if (!health || health.state === 'closed') {
+        return true;
+      }
+
+      const probe = {
+        state: 'half_open',
+        probeStartedAt: now.toISOString(),
+        updatedAt: now.toISOString(),
+      };
+
+      if (health.state === 'open') {
+        if (now.getTime() < elapsedAt(health.openedAt, config.openSeconds)) {
+          return false;
+        }
+        await tx.saveProviderHealth({ ...health, ...probe, probesStarted: 1, probeSuccesses: 0 });
+        return true;
+      }
+
+      if (health.probesStarted < config.halfOpenProbes) {
+        await tx.saveProviderHealth({ ...health, probesStarted: health.probesStarted + 1, updatedAt: now.toISOString() });
+        return true;
+      }
+
+      // Probes that never reported back (e.g. the worker died) are given up on
+      if (now.getTime() >= elapsedAt(health.probeStartedAt, config.openSeconds)) {
+        await tx.saveProviderHealth({ ...health, ...probe, probesStarted: 1, probeSuccesses: 0 });
+        return true;
+      }
+
+      return false;
+    });
+  }
+
+  /**
+   * Record the outcome of a call and move the circuit accordingly
+   */
+  async record(
+    provider: Provider,
+    operation: ProviderOperation,
+    outcome: { success: boolean; durationMs: number; error?: { code: string; message: string } }
+  ): Promise<ProviderHealth> {
+    return this.storage.transaction(async tx => {
+      const config = ProviderHealthTracker.getConfig(provider);
+      const now = this.now();
+      const health = await tx.getProviderHealth(provider.tenantId, provider.id);
+
+      const sample: ProviderHealthSample = {
+        at: now.toISOString(),
+        operation,
+        success: outcome.success,
+        durationMs: outcome.durationMs,
+        error: outcome.error?.code,
+      };
+
+      const next: Omit<ProviderHealth, 'id'> & { id?: string } = {
+        id: health?.id,
+        tenantId: provider.tenantId,
+        providerId: provider.id,
+        state: health?.state ?? 'closed',
+        samples: ProviderHealthTracker.window([...(health?.samples ?? []), sample], config, now),
+        openedAt: health?.openedAt ?? null,
+        probesStarted: health?.probesStarted ?? 0,
+        probeSuccesses: health?.probeSuccesses ?? 0,
+        probeStartedAt: health?.probeStartedAt ?? null,
+        lastError: outcome.error
+          ? { ...outcome.error, at: now.toISOString() }
+          : health?.lastError ?? null,
+        updatedAt: now.toISOString(),
+      };
+
+      const opened = { state: 'open', openedAt: now.toISOString(), probesStarted: 0, probeSuccesses: 0 };
+
+      if (next.state === 'half_open') {
+        if (!outcome.success) {
+          Object.assign(next, opened);
+        } else if (next.probeSuccesses + 1 >= config.halfOpenProbes) {
+          Object.assign(next, { state: 'closed', samples: [], openedAt: null, probesStarted: 0, probeSuccesses: 0 });
+        } else {
+          next.probeSuccesses += 1;
+        }
+      } else if (next.state === 'closed' && ProviderHealthTracker.shouldOpen(next.samples, config)) {
+        Object.assign(next, opened);
+      }
+
+      return tx.saveProviderHealth(next);
+    });
+  }
+
+  /**
+   * Current state and window statistics for the admin endpoint
+   */
+  async getReport(provider: Provider): Promise<ProviderHealthReport> {
+    const config = ProviderHealthTracker.getConfig(provider);
+    const health = await this.storage.getProviderHealth(provider.tenantId, provider.id);
+    const samples = ProviderHealthTracker.window(health?.samples ?? [], config, this.now());
+    const failures = samples.filter(sample => !sample.success).length;
+    const latencies = samples.map(sample => sample.durationMs).sort((a, b) => a - b);
+    const state = (health?.state ?? 'closed') as CircuitState;
+
+    return {
+      providerId: provider.id,
+      state,
+      calls: samples.length,
+      failures,
+      errorRate: samples.length > 0 ? Math.round((failures / samples.length) * 100) : 0,
+      averageLatencyMs: latencies.length > 0
+        ? Math.round(latencies.reduce((sum, latency) => sum + latency, 0) / latencies.length)
+        : 0,
+      p95LatencyMs: latencies.length > 0 ? latencies[Math.ceil(latencies.length * 0.95) - 1] : 0,
+      openedAt: health?.openedAt ?? null,
+      retryAt: state === 'open'
+        ? new Date(elapsedAt(health!.openedAt, config.openSeconds)).toISOString()
+        : null,
+      lastError: health?.lastError ?? null,
+      config,
+    };
+  }
+
+  static getConfig(provider: Provider): CircuitBreakerConfig {
+    return { ...DEFAULT_CIRCUIT_BREAKER, ...(provider.config?.circuitBreaker ?? {}) };
+  }
+
+  /**
+   * Whether the window's failure rate trips the breaker
+   */
+  static shouldOpen(samples: ProviderHealthSample[], config: CircuitBreakerConfig): boolean {
+    if (samples.length < config.minimumCalls) {
+      return false;
+    }
+    const failures = samples.filter(sample => !sample.success).length;
+    return (failures / samples.length) * 100 >= config.failureRate;
+  }
+
+  /**
+   * The most recent samples that are still inside the window
+   */
+  private static window(
+    samples: ProviderHealthSample[],
+    config: CircuitBreakerConfig,
+    now: Date
+  ): ProviderHealthSample[] {
+    const since = now.getTime() - config.windowSeconds * 1000;
+    return samples
+      .filter(sample => new Date(sample.at).getTime() >= since)
+      .slice(-config.windowSize);
+  }
+}
+
+function elapsedAt(from: string | null, seconds: number): number {
+  return (from ? new Date(from).getTime() : 0) + seconds * 1000;
+}
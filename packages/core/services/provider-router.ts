@@ -0,0 +1,248 @@
+// Provider Router
+// Route orders across the providers mapped to a service, falling back when one refuses
+
+import type { Order, Provider, ProviderAttempt, ProviderServiceMapping, Service } from '../../../shared/schema';
+import { ROUTING_STRATEGIES } from '../../../shared/schema';
+import type { IStorage } from '../../../server/storage';
+import { OrderManager, type OrderFulfillmentResult } from './order-manager';
+import { ProviderHealthTracker } from './provider-health';
+
+export type RoutingStrategy = typeof ROUTING_STRATEGIES[number];
+
+export interface ProviderRoute {
+  provider: Provider;
+  mapping?: ProviderServiceMapping;
+}
+
+export interface RoutedFulfillment {
+  route: ProviderRoute; // the provider that fulfilled the order, or the last one tried
+  result: OrderFulfillmentResult;
+  attempts: ProviderAttempt[];
+  // Why routing stopped before a provider accepted: `unknown` when the last provider
+  // may have taken the order, `settled` when the order was settled by other means
+  stopped?: 'unknown' | 'settled';
+}
+
+// Providers can override this with `config.timeoutMs`
+export const DEFAULT_PROVIDER_TIMEOUT_MS = 30_000;
+
+// Failures that prove the provider did not take the order, so the next one may be tried.
+// Anything else (a timeout, a dropped connection, an answer without an order ID)
+// leaves the outcome unknown.
+export const REFUSAL_ERROR_CODES = ['CIRCUIT_OPEN', 'PROVIDER_VALIDATION_ERROR', 'API_ERROR', 'PROVIDER_ERROR'];
+
+const CIRCUIT_OPEN: OrderFulfillmentResult = {
+  success: false,
+  status: 'failed',
+  error: { code: 'CIRCUIT_OPEN', message: 'Provider is unavailable until its circuit breaker recovers' },
+};
+
+/**
+ * Multi-provider routing
+ *
+ * `getRoutes` lists the active providers mapped to a service in the order the
+ * service's strategy picks: `priority` (mapping priority), `weighted` (random,
+ * in proportion to mapping weights) or `cheapest` (lowest upstream cost).
+ * `fulfill` tries them in turn until one accepts the order. Only a provider
+ * that refused the order (REFUSAL_ERROR_CODES) is skipped. A provider that
+ * accepts and reports the order failed ends the attempt, and one that times
+ * out or fails in a way that does not rule out acceptance ends it with an
+ * unknown outcome: retrying elsewhere could fulfil the order twice. Before each
+ * fallback the caller's `isOpen` check confirms the order is still waiting,
+ * since a callback may have settled it. Every attempt is returned for the order's record.
+ *
+ * Providers whose circuit breaker is open are tried last and skipped while
+ * the breaker refuses calls; every call's outcome feeds the breaker.
+ */
+export class ProviderRouter {
+  private readonly health: ProviderHealthTracker;
+
+  constructor(
+    private readonly storage: IStorage,
+    private readonly random: () => number = Math.random
+  ) {
+    this.health = new ProviderHealthTracker(storage);
+  }
+
+  /**
+   * Routes to try for a service; a preferred provider (e.g. the one reserved
+   * at placement) goes first even if it is not mapped
+   */
+  async getRoutes(service: Service, preferredProviderId?: string | null): Promise<ProviderRoute[]> {
+    const routes: ProviderRoute[] = [];
+
+    for (const mapping of await this.storage.getProviderServiceMappings(service.tenantId, service.id)) {
+      if (!mapping.isActive) {
+        continue;
+      }
+
+      const provider = await this.storage.getProvider(service.tenantId, mapping.providerId);
+      if (provider?.isActive) {
+        routes.push({ provider, mapping });
+      }
+    }
+
+    const ordered = await this.deprioritizeUnavailable(
+      ProviderRouter.orderRoutes(routes, service.routingStrategy, this.random)
+    );
+
+    if (preferredProviderId) {
+      const index = ordered.findIndex(route => route.provider.id === preferredProviderId);
+      if (index > 0) {
+        ordered.unshift(...ordered.splice(index, 1));
+      } else if (index === -1) {
+        const provider = await this.storage.getProvider(service.tenantId, preferredProviderId);
+        if (provider?.isActive) {
+          ordered.unshift({ provider });
+        }
+      }
+    }
+
+    return ordered;
+  }
+
+  /**
+   * Order routes by strategy; routes arrive in priority order, which breaks ties
+   */
+  static orderRoutes(
+    routes: ProviderRoute[],
+    strategy: RoutingStrategy = 'priority',
+    random: () => number = Math.random
+  ): ProviderRoute[] {
+    switch (strategy) {
+      case 'weighted': {
+        // Weighted random order (Efraimidis-Spirakis): smaller keys go first,
+        // zero-weight routes only as a last resort
+        const keyed = routes.map(route => {
+          const weight = route.mapping?.weight ?? 1;
+          return { route, key: weight > 0 ? -Math.log(1 - random()) / weight : Infinity };
+        });
+        return keyed.sort((a, b) => a.key - b.key).map(entry => entry.route);
+      }
+
+      case 'cheapest':
+        return [...routes].sort((a, b) =>
+          (a.mapping?.upstreamCost ?? Infinity) - (b.mapping?.upstreamCost ?? Infinity)
+        );
+
+      default:
+        return [...routes];
+    }
+  }
+
+  /**
+   * Try each route until a provider accepts the order or may have
+   * Attempts already on the order are kept ahead of the new ones
+   */
+  async fulfill(
+    order: Order,
+    service: Service,
+    routes: ProviderRoute[],
+    isOpen: () => Promise<boolean> = async () => true
+  ): Promise<RoutedFulfillment> {
+    const attempts: ProviderAttempt[] = [...(order.providerAttempts ?? [])];
+    let outcome: { route: ProviderRoute; result: OrderFulfillmentResult } | undefined;
+    let stopped: RoutedFulfillment['stopped'];
+
+    for (const route of routes) {
+      if (outcome && !(await isOpen())) {
+        stopped = 'settled';
+        break;
+      }
+
+      const startedAt = new Date();
+      const result = await this.health.acquire(route.provider)
+        ? await this.attempt(order, service, route)
+        : CIRCUIT_OPEN;
+
+      attempts.push({
+        providerId: route.provider.id,
+        mappingId: route.mapping?.id,
+        providerServiceId: route.mapping?.providerServiceId,
+        startedAt: startedAt.toISOString(),
+        durationMs: Date.now() - startedAt.getTime(),
+        success: result.success,
+        providerOrderId: result.providerOrderId,
+        providerStatus: result.providerStatus,
+        error: result.error,
+      });
+
+      outcome = { route, result };
+      if (result.success) {
+        break;
+      }
+      if (!ProviderRouter.isRefusal(result)) {
+        stopped = 'unknown';
+        break;
+      }
+    }
+
+    if (!outcome) {
+      throw new Error('No provider routes to try');
+    }
+
+    return { ...outcome, attempts, stopped };
+  }
+
+  /**
+   * Whether a failed attempt proves the provider did not take the order
+   */
+  static isRefusal(result: OrderFulfillmentResult): boolean {
+    return !result.success && REFUSAL_ERROR_CODES.includes(result.error?.code ?? '');
+  }
+
+  /**
+   * Providers the breaker refuses go behind the others, keeping their order
+   */
+  private async deprioritizeUnavailable(routes: ProviderRoute[]): Promise<ProviderRoute[]> {
+    const available: ProviderRoute[] = [];
+    const unavailable: ProviderRoute[] = [];
+
+    for (const route of routes) {
+      (await this.health.isAvailable(route.provider) ? available : unavailable).push(route);
+    }
+
+    return [...available, ...unavailable];
+  }
+
+  /**
+   * One provider call, abandoned after the provider's timeout
+   * The outcome is recorded with the provider's health unless the call never went out.
+   */
+  private async attempt(order: Order, service: Service, route: ProviderRoute): Promise<OrderFulfillmentResult> {
+    const timeoutMs = Number(route.provider.config?.timeoutMs) || DEFAULT_PROVIDER_TIMEOUT_MS;
+    const controller = new AbortController();
+    let timer: ReturnType<typeof setTimeout> | undefined;
+
+    const timeout = new Promise<OrderFulfillmentResult>(resolve => {
+      timer = setTimeout(() => {
+        controller.abort();
+        resolve({
+          success: false,
+          status: 'failed',
+          error: { code: 'TIMEOUT', message: `Provider did not answer within ${timeoutMs}ms` },
+        });
+      }, timeoutMs);
+    });
+
+    const startedAt = Date.now();
+    let result: OrderFulfillmentResult;
+    try {
+      result = await Promise.race([
+        OrderManager.fulfillOrder(order, service, route.provider, route.mapping?.providerServiceId, controller.signal),
+        timeout,
+      ]);
+    } finally {
+      clearTimeout(timer);
+    }
+
+    if (result.error?.code !== 'PROVIDER_VALIDATION_ERROR') {
+      await this.health.record(route.provider, 'placeOrder', {
+        success: result.success,
+        durationMs: Date.now() - startedAt,
+        error: result.error,
+      });
+    }
+    return result;
+  }
+}
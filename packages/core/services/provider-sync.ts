@@ -2,8 +2,9 @@
 // Admin-only provider status sync and order updates
 
 import type { Provider, Order } from '../../../shared/schema';
-import { ProviderRegistry, type ProviderConfig } from '../providers';
+import { ProviderRegistry } from '../providers';
 import { OrderStateMachine, type OrderStatus } from './order-state-machine';
+import type { ProviderHealthTracker } from './provider-health';
 
 export interface SyncResult {
   success: boolean;
@@ -33,10 +34,12 @@ export class ProviderSyncError extends Error {
 export class ProviderSync {
   /**
    * Sync single order status with provider
+   * With a health tracker the status check is recorded with the provider's health.
    */
   static async syncOrder(
     order: Order,
-    provider: Provider
+    provider: Provider,
+    health?: ProviderHealthTracker
   ): Promise<{ success: boolean; update?: OrderSyncUpdate; error?: string }> {
     try {
       if (!order.providerOrderId) {
@@ -47,20 +50,28 @@ export class ProviderSync {
       }
 
       // Create provider instance
-      const providerConfig: ProviderConfig = {
-        id: provider.id,
-        name: provider.name,
-        type: provider.type as any,
-        credentials: provider.credentials,
-        config: provider.config,
-        statusMapping: provider.statusMapping,
-      };
-
-      const providerInstance = ProviderRegistry.create(providerConfig);
+      const providerInstance = ProviderRegistry.fromRecord(provider);
 
       // Check status with provider
+      const startedAt = Date.now();
       const statusResponse = await providerInstance.checkStatus(order.providerOrderId);
 
+      // Providers report a failed status check as `error` with the reason in data
+      const checkFailed = statusResponse.status === 'error' && statusResponse.data?.error !== undefined;
+      await health?.record(provider, 'checkStatus', {
+        success: !checkFailed,
+        durationMs: Date.now() - startedAt,
+        error: checkFailed ? { code: 'STATUS_CHECK_FAILED', message: String(statusResponse.data!.error) } : undefined,
+      });
+
+      // The supplier could not be asked; the order's own status is unknown, not failed
+      if (checkFailed) {
+        return {
+          success: false,
+          error: `Status check failed: ${statusResponse.data!.error}`,
+        };
+      }
+
       // Normalize status
       const normalizedStatus = providerInstance.normalizeStatus(statusResponse.status);
       const orderStatus = this.mapProviderStatusToOrderStatus(normalizedStatus);
@@ -98,17 +109,25 @@ export class ProviderSync {
 
   /**
    * Sync multiple orders with provider
+   * With a health tracker, orders are not checked while the provider's circuit is open.
    */
   static async syncOrders(
     orders: Order[],
-    provider: Provider
+    provider: Provider,
+    health?: ProviderHealthTracker
   ): Promise<SyncResult> {
     const errors: Array<{ orderId: string; error: string }> = [];
     let syncedCount = 0;
     let failedCount = 0;
 
     for (const order of orders) {
-      const result = await this.syncOrder(order, provider);
+      if (health && !(await health.acquire(provider))) {
+        failedCount++;
+        errors.push({ orderId: order.id, error: 'Provider circuit is open' });
+        continue;
+      }
+
+      const result = await this.syncOrder(order, provider, health);
 
       if (result.success) {
         syncedCount++;
@@ -134,7 +153,8 @@ export class ProviderSync {
    */
   static async syncPendingOrders(
     orders: Order[],
-    provider: Provider
+    provider: Provider,
+    health?: ProviderHealthTracker
   ): Promise<SyncResult> {
     // Filter orders that need syncing
     const pendingOrders = orders.filter(order => 
@@ -143,7 +163,7 @@ export class ProviderSync {
       !OrderStateMachine.isTerminalState(order.status as OrderStatus)
     );
 
-    return this.syncOrders(pendingOrders, provider);
+    return this.syncOrders(pendingOrders, provider, health);
   }
 
   /**
@@ -256,7 +276,8 @@ export class ProviderSync {
     orders: Order[],
     provider: Provider,
     batchSize: number = 10,
-    delayMs: number = 1000
+    delayMs: number = 1000,
+    health?: ProviderHealthTracker
   ): Promise<SyncResult> {
     const batches: Order[][] = [];
     
@@ -271,7 +292,7 @@ export class ProviderSync {
 
     // Process batches with delay
     for (const batch of batches) {
-      const result = await this.syncOrders(batch, provider);
+      const result = await this.syncOrders(batch, provider, health);
       
       totalSynced += result.syncedCount;
       totalFailed += result.failedCount;
@@ -339,9 +360,7 @@ export class ScheduledSync {
    * Stop all scheduled syncs
    */
   static stopAllSyncs(): void {
-    for (const [providerId, interval] of this.syncIntervals.entries()) {
-      clearInterval(interval);
-    }
+    this.syncIntervals.forEach(interval => clearInterval(interval));
     this.syncIntervals.clear();
   }
 
@@ -0,0 +1,124 @@
+// Tenant State Machines
+// Per-tenant order lifecycle definitions, stored in the database
+
+import type { OrderStateMachineRecord } from '../../../shared/schema';
+import type { IStorage } from '../../../server/storage';
+import { AuditLogger } from './audit-logger';
+import {
+  DEFAULT_ORDER_STATE_MACHINE,
+  OrderStateMachine,
+  type OrderStateMachineDefinition,
+} from './order-state-machine';
+import { OrderStateHooks } from './order-state-hooks';
+
+export class OrderStateMachineError extends Error {
+  constructor(message: string, public code: string) {
+    super(message);
+    this.name = 'OrderStateMachineError';
+  }
+}
+
+export interface TenantStateMachineView {
+  definition: OrderStateMachineDefinition;
+  version: number; // 0 while the tenant uses the built-in definition
+  isDefault: boolean;
+  hooks: string[]; // hook names states may use
+}
+
+/**
+ * Storage-backed lookup and replacement of a tenant's order state machine
+ * Tenants without a stored definition use `DEFAULT_ORDER_STATE_MACHINE`.
+ */
+export class TenantStateMachineManager {
+  constructor(private readonly storage: IStorage) {}
+
+  async get(tenantId: string): Promise<OrderStateMachine> {
+    const record = await this.storage.getOrderStateMachine(tenantId);
+    return record ? new OrderStateMachine(record.definition) : OrderStateMachine.default;
+  }
+
+  async describe(tenantId: string): Promise<TenantStateMachineView> {
+    return this.toView(await this.storage.getOrderStateMachine(tenantId));
+  }
+
+  /**
+   * Validate and store the tenant's definition
+   * @throws OrderStateMachineError INVALID_STATE_MACHINE listing every problem found
+   * @throws OrderStateMachineError STATE_IN_USE when a removed state still holds orders
+   */
+  async save(tenantId: string, definition: OrderStateMachineDefinition, actorId: string): Promise<TenantStateMachineView> {
+    const validation = OrderStateMachine.validateDefinition(definition, OrderStateHooks.getNames());
+    if (!validation.valid) {
+      throw new OrderStateMachineError(
+        `Invalid state machine: ${validation.errors!.join('; ')}`,
+        'INVALID_STATE_MACHINE'
+      );
+    }
+
+    const saved = await this.storage.transaction(async tx => {
+      const current = await tx.getOrderStateMachine(tenantId);
+      await this.assertRemovedStatesUnused(tx, tenantId, current, definition);
+      const record = await tx.saveOrderStateMachine({
+        tenantId,
+        definition,
+        version: (current?.version ?? 0) + 1,
+        updatedBy: actorId,
+        updatedAt: new Date().toISOString(),
+      });
+      await tx.createAuditLog(AuditLogger.logConfigChange(
+        tenantId,
+        actorId,
+        'order_state_machine',
+        current?.definition ?? null,
+        definition
+      ));
+      return record;
+    });
+
+    return this.toView(saved);
+  }
+
+  /**
+   * Go back to the built-in definition
+   * @throws OrderStateMachineError STATE_IN_USE when orders are in a tenant-defined state
+   */
+  async reset(tenantId: string, actorId: string): Promise<TenantStateMachineView> {
+    await this.storage.transaction(async tx => {
+      const current = await tx.getOrderStateMachine(tenantId);
+      if (!current) {
+        return;
+      }
+      await this.assertRemovedStatesUnused(tx, tenantId, current, DEFAULT_ORDER_STATE_MACHINE);
+      await tx.deleteOrderStateMachine(tenantId);
+      await tx.createAuditLog(AuditLogger.logConfigChange(tenantId, actorId, 'order_state_machine', current.definition, null));
+    });
+
+    return this.toView(undefined);
+  }
+
+  private async assertRemovedStatesUnused(
+    tx: IStorage,
+    tenantId: string,
+    current: OrderStateMachineRecord | undefined,
+    next: OrderStateMachineDefinition
+  ): Promise<void> {
+    const removed = (current?.definition.states ?? [])
+      .map(state => state.name)
+      .filter(name => !next.states.some(state => state.name === name));
+
+    for (const status of removed) {
+      if ((await tx.getOrders(tenantId, { status })).length > 0) {
+        throw new OrderStateMachineError(`Orders are still in state '${status}'`, 'STATE_IN_USE');
+      }
+    }
+  }
+
+  private toView(record: OrderStateMachineRecord | undefined): TenantStateMachineView {
+    return {
+      definition: record?.definition ?? DEFAULT_ORDER_STATE_MACHINE,
+      version: record?.version ?? 0,
+      isDefault: !record,
+      hooks: OrderStateHooks.getNames(),
+    };
+  }
+}
@@ -23,6 +23,9 @@ export interface UserCreateInput {
   role: RoleType;
 }
 
+// User as returned to clients (credentials stripped)
+export type PublicUser = Omit<User, 'passwordHash'>;
+
 export interface UserUpdateInput {
   name?: string;
   username?: string;
@@ -375,4 +378,12 @@ export class UserManager {
       errors: errors.length > 0 ? errors : undefined,
     };
   }
+
+  /**
+   * Strip credentials before returning a user to a client
+   */
+  static toPublicUser(user: User): PublicUser {
+    const { passwordHash: _passwordHash, ...rest } = user;
+    return rest;
+  }
 }
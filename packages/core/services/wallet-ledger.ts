@@ -0,0 +1,199 @@
+// Wallet Ledger
+// Storage-backed wallet balances and serialized ledger writes
+
+import type { InsertJournalLine, InsertTransaction, Transaction, Wallet, WalletCheckpoint } from '../../../shared/schema';
+import type { IStorage } from '../../../server/storage';
+import { Journal } from './journal';
+import { WalletError, WalletManager, type WalletBalance } from './wallet-manager';
+
+export interface WalletLedgerOptions {
+  checkpointInterval?: number; // transactions between balance checkpoints (default 100)
+  maxAttempts?: number; // appends tried before giving up on a contended wallet (default 5)
+}
+
+// A transaction as built by `WalletManager`; the ledger assigns its sequence
+export type LedgerEntry = Omit<InsertTransaction, 'sequence'>;
+
+export interface WalletState {
+  balance: WalletBalance;
+  sequence: number; // last transaction in the ledger, 0 when empty
+  checkpointSequence: number; // last transaction covered by a checkpoint
+}
+
+export interface CheckpointMismatch {
+  sequence: number;
+  recorded: { available: number; locked: number };
+  calculated: { available: number; locked: number };
+}
+
+export interface WalletReconciliation {
+  walletId: string;
+  sequence: number;
+  balance: WalletBalance; // calculateBalance over the full ledger
+  checkpointBalance: WalletBalance; // latest checkpoint plus the transactions after it
+  checkpoints: number;
+  mismatches: CheckpointMismatch[];
+  balanced: boolean;
+}
+
+const DEFAULT_CHECKPOINT_INTERVAL = 100;
+const DEFAULT_MAX_ATTEMPTS = 5;
+
+/**
+ * Reads and writes of a wallet's ledger
+ *
+ * Every transaction takes the next `sequence` of its wallet and the pair is
+ * unique, so appends are conditional inserts: a writer that read a stale
+ * balance loses the race, re-reads and re-checks instead of overdrawing. This
+ * holds on SQLite and on D1, where requests are not serialized by a shared
+ * connection. Every `checkpointInterval` transactions the balance is saved,
+ * so reads start from the latest checkpoint rather than the first transaction.
+ * Each appended transaction is posted to the journal as a balanced entry
+ * (see `Journal.linesFor`). Entries must be in the wallet's currency; amounts
+ * in another currency are converted before they reach the ledger.
+ */
+export class WalletLedger {
+  constructor(
+    private readonly storage: IStorage,
+    private readonly options: WalletLedgerOptions = {}
+  ) {}
+
+  /**
+   * @throws WalletError WALLET_NOT_FOUND
+   */
+  async getState(tenantId: string, walletId: string): Promise<WalletState> {
+    const wallet = await this.getWallet(tenantId, walletId);
+    const checkpoint = await this.storage.getLatestWalletCheckpoint(tenantId, walletId);
+    const checkpointSequence = checkpoint?.sequence ?? 0;
+    const tail = await this.storage.getWalletTransactions(tenantId, walletId, checkpointSequence);
+
+    return {
+      balance: WalletManager.calculateBalance(tail, wallet.currency, checkpoint ? toBalance(checkpoint) : undefined),
+      sequence: tail.length > 0 ? tail[tail.length - 1].sequence : checkpointSequence,
+      checkpointSequence,
+    };
+  }
+
+  async getBalance(tenantId: string, walletId: string): Promise<WalletBalance> {
+    return (await this.getState(tenantId, walletId)).balance;
+  }
+
+  /**
+   * Append the transactions `build` returns for the wallet's current state
+   * `build` validates against the balance it is given (e.g. `WalletManager.lock`)
+   * and is called again with a fresh state when another writer appended first.
+   * @throws WalletError CURRENCY_MISMATCH when an entry is not in the wallet's currency
+   * @throws WalletError WALLET_BUSY when the wallet kept changing for `maxAttempts` tries
+   */
+  async append(
+    tenantId: string,
+    walletId: string,
+    build: (state: WalletState) => Promise<LedgerEntry[]>
+  ): Promise<Transaction[]> {
+    const maxAttempts = this.options.maxAttempts ?? DEFAULT_MAX_ATTEMPTS;
+
+    for (let attempt = 1; attempt <= maxAttempts; attempt++) {
+      const state = await this.getState(tenantId, walletId);
+      const entries = await build(state);
+      const foreign = entries.find(entry => entry.currency !== state.balance.currency);
+      if (foreign) {
+        throw new WalletError(
+          `Cannot append a ${foreign.currency} transaction to a ${state.balance.currency} wallet`,
+          'CURRENCY_MISMATCH'
+        );
+      }
+      const appended = await this.storage.appendWalletTransactions(
+        entries.map((entry, index) => ({ ...entry, tenantId, walletId, sequence: state.sequence + index + 1 }))
+      );
+
+      if (appended) {
+        await this.storage.createJournalLines(
+          appended.reduce((lines, transaction) => lines.concat(Journal.linesFor(transaction)), [] as InsertJournalLine[])
+        );
+        await this.checkpoint(tenantId, walletId, state, appended);
+        return appended;
+      }
+    }
+
+    throw new WalletError('Wallet is being updated concurrently, try again', 'WALLET_BUSY');
+  }
+
+  /**
+   * Recalculate the balance from the full ledger and compare it with every checkpoint
+   */
+  async reconcile(tenantId: string, walletId: string): Promise<WalletReconciliation> {
+    const { currency } = await this.getWallet(tenantId, walletId);
+    const ledger = await this.storage.getWalletTransactions(tenantId, walletId);
+    const checkpoints = await this.storage.getWalletCheckpoints(tenantId, walletId);
+    const balance = WalletManager.calculateBalance(ledger, currency);
+
+    const mismatches: CheckpointMismatch[] = [];
+    for (const checkpoint of checkpoints) {
+      const calculated = WalletManager.calculateBalance(
+        ledger.filter(transaction => transaction.sequence <= checkpoint.sequence),
+        currency
+      );
+      if (calculated.available !== checkpoint.available || calculated.locked !== checkpoint.locked) {
+        mismatches.push({
+          sequence: checkpoint.sequence,
+          recorded: { available: checkpoint.available, locked: checkpoint.locked },
+          calculated: { available: calculated.available, locked: calculated.locked },
+        });
+      }
+    }
+
+    const { balance: checkpointBalance, sequence } = await this.getState(tenantId, walletId);
+
+    return {
+      walletId,
+      sequence,
+      balance,
+      checkpointBalance,
+      checkpoints: checkpoints.length,
+      mismatches,
+      balanced: mismatches.length === 0
+        && balance.available === checkpointBalance.available
+        && balance.locked === checkpointBalance.locked,
+    };
+  }
+
+  private async getWallet(tenantId: string, walletId: string): Promise<Wallet> {
+    const wallet = await this.storage.getWallet(tenantId, walletId);
+    if (!wallet) {
+      throw new WalletError('Wallet not found', 'WALLET_NOT_FOUND');
+    }
+    return wallet;
+  }
+
+  private async checkpoint(
+    tenantId: string,
+    walletId: string,
+    state: WalletState,
+    appended: Transaction[]
+  ): Promise<void> {
+    const sequence = appended[appended.length - 1].sequence;
+    if (sequence - state.checkpointSequence < (this.options.checkpointInterval ?? DEFAULT_CHECKPOINT_INTERVAL)) {
+      return;
+    }
+
+    const balance = WalletManager.calculateBalance(appended, state.balance.currency, state.balance);
+    await this.storage.createWalletCheckpoint({
+      tenantId,
+      walletId,
+      sequence,
+      available: balance.available,
+      locked: balance.locked,
+      currency: balance.currency,
+      createdAt: new Date().toISOString(),
+    });
+  }
+}
+
+function toBalance(checkpoint: WalletCheckpoint): WalletBalance {
+  return {
+    available: checkpoint.available,
+    locked: checkpoint.locked,
+    total: checkpoint.available + checkpoint.locked,
+    currency: checkpoint.currency,
+  };
+}
@@ -19,6 +19,17 @@ export interface TransactionCreateInput {
   createdBy: string;
 }
 
+export interface TransferInput {
+  tenantId: string;
+  fromWalletId: string;
+  toWalletId: string;
+  amount: number;
+  currency: string;
+  reference: string; // shared by the debit and the credit
+  description?: string;
+  createdBy: string;
+}
+
 export interface WalletBalance {
   available: number;
   locked: number;
@@ -36,15 +47,25 @@ export class WalletError extends Error {
 export class WalletManager {
   /**
    * Calculate wallet balance from transaction ledger
+   * `currency` is the wallet's. `opening` is the balance before the first of
+   * `transactions`, e.g. a checkpoint when only the transactions after it are passed.
+   * @throws WalletError CURRENCY_MISMATCH if the opening balance or a transaction is in another currency
    */
-  static calculateBalance(transactions: Transaction[]): WalletBalance {
-    let available = 0;
-    let locked = 0;
+  static calculateBalance(transactions: Transaction[], currency: string, opening?: WalletBalance): WalletBalance {
+    if (opening && opening.currency !== currency) {
+      throw new WalletError(`Opening balance is in ${opening.currency}, not ${currency}`, 'CURRENCY_MISMATCH');
+    }
+
+    let available = opening?.available ?? 0;
+    let locked = opening?.locked ?? 0;
 
     for (const tx of transactions) {
       if (tx.status !== 'completed') {
         continue;
       }
+      if (tx.currency !== currency) {
+        throw new WalletError(`Transaction ${tx.id} is in ${tx.currency}, not ${currency}`, 'CURRENCY_MISMATCH');
+      }
 
       switch (tx.type) {
         case 'credit':
@@ -71,7 +92,7 @@ export class WalletManager {
       available,
       locked,
       total: available + locked,
-      currency: transactions[0]?.currency || 'USD',
+      currency,
     };
   }
 
@@ -206,15 +227,24 @@ export class WalletManager {
 
   /**
    * Refund (return funds)
+   * `refundable` is what is left of the original transaction (see getRefundableAmount)
    */
   static async refund(
     input: TransactionCreateInput,
-    originalTransactionId: string
+    originalTransactionId: string,
+    refundable: number
   ): Promise<Transaction> {
     if (input.amount <= 0) {
       throw new WalletError('Refund amount must be positive', 'INVALID_AMOUNT');
     }
 
+    if (input.amount > refundable) {
+      throw new WalletError(
+        `Refund of ${input.amount} exceeds the ${refundable} left to refund`,
+        'REFUND_EXCEEDS_PAID'
+      );
+    }
+
     const transaction: Partial<Transaction> = {
       tenantId: input.tenantId,
       walletId: input.walletId,
@@ -234,6 +264,116 @@ export class WalletManager {
     return transaction as Transaction;
   }
 
+  /**
+   * Transfer between two wallets of the same currency (paired debit and credit)
+   * `transferredToday` is what the sending wallet already transferred since the
+   * start of the UTC day; `dailyLimit` of null means no limit.
+   */
+  static async transfer(
+    input: TransferInput,
+    fromBalance: WalletBalance,
+    transferredToday: number = 0,
+    dailyLimit: number | null = null
+  ): Promise<{ debit: Transaction; credit: Transaction }> {
+    if (input.amount <= 0) {
+      throw new WalletError('Transfer amount must be positive', 'INVALID_AMOUNT');
+    }
+
+    if (input.fromWalletId === input.toWalletId) {
+      throw new WalletError('Cannot transfer to the same wallet', 'INVALID_TRANSFER');
+    }
+
+    if (dailyLimit !== null && transferredToday + input.amount > dailyLimit) {
+      throw new WalletError(
+        `Transfer exceeds the daily limit of ${dailyLimit} (${transferredToday} already transferred today)`,
+        'TRANSFER_LIMIT_EXCEEDED'
+      );
+    }
+
+    const debit = await this.debit(
+      {
+        tenantId: input.tenantId,
+        walletId: input.fromWalletId,
+        type: 'debit',
+        amount: input.amount,
+        currency: input.currency,
+        referenceType: 'transfer',
+        referenceId: input.reference,
+        description: input.description || 'Transfer sent',
+        metadata: { counterpartyWalletId: input.toWalletId },
+        createdBy: input.createdBy,
+      },
+      fromBalance
+    );
+
+    const credit = await this.credit({
+      tenantId: input.tenantId,
+      walletId: input.toWalletId,
+      type: 'credit',
+      amount: input.amount,
+      currency: input.currency,
+      referenceType: 'transfer',
+      referenceId: input.reference,
+      description: input.description || 'Transfer received',
+      metadata: { counterpartyWalletId: input.fromWalletId },
+      createdBy: input.createdBy,
+    });
+
+    return { debit, credit };
+  }
+
+  /**
+   * Take back a commission credit, or part of it, when its order is refunded
+   * Like a debit it needs the funds to be available: a wallet never goes
+   * negative to return a commission that was already spent.
+   */
+  static async reverseCommission(
+    input: TransactionCreateInput,
+    commission: Transaction,
+    reversible: number,
+    currentBalance: WalletBalance
+  ): Promise<Transaction> {
+    if (input.amount <= 0) {
+      throw new WalletError('Reversal amount must be positive', 'INVALID_AMOUNT');
+    }
+
+    if (commission.type !== 'credit' || commission.referenceType !== 'commission' || commission.status !== 'completed') {
+      throw new WalletError('Only completed commission credits can be reversed', 'INVALID_REVERSAL');
+    }
+
+    if (input.amount > reversible) {
+      throw new WalletError(
+        `Reversal of ${input.amount} exceeds the ${reversible} left of the commission`,
+        'REVERSAL_EXCEEDS_COMMISSION'
+      );
+    }
+
+    if (currentBalance.available < input.amount) {
+      throw new WalletError(
+        `Commission reversal of ${input.amount} exceeds the ${currentBalance.available} available in wallet ${input.walletId}`,
+        'COMMISSION_SPENT'
+      );
+    }
+
+    const transaction: Partial<Transaction> = {
+      tenantId: input.tenantId,
+      walletId: input.walletId,
+      type: 'debit',
+      amount: input.amount,
+      currency: input.currency || commission.currency,
+      status: 'completed',
+      referenceType: 'commission',
+      referenceId: commission.referenceId,
+      parentTransactionId: commission.id,
+      description: input.description || 'Commission reversed',
+      metadata: input.metadata,
+      createdBy: input.createdBy,
+      completedAt: new Date().toISOString(),
+    };
+
+    return transaction as Transaction;
+  }
+
   /**
    * Process order payment (lock funds)
    */
@@ -339,15 +479,40 @@ export class WalletManager {
 
   /**
    * Refund order (return funds)
+   * Partial refunds are allowed; together they never exceed the original debit.
+   * Each refund carries its share of the debit's `metadata.providerCost`, the
+   * last one what is left of it, so the journal can reverse provider payables.
    */
   static async refundOrder(
     walletId: string,
     tenantId: string,
     orderId: string,
     amount: number,
-    originalTransactionId: string,
-    userId: string
+    originalTransaction: Transaction,
+    userId: string,
+    walletTransactions: Transaction[]
   ): Promise<Transaction> {
+    if (
+      originalTransaction.type !== 'debit'
+      || originalTransaction.status !== 'completed'
+      || originalTransaction.referenceId !== orderId
+    ) {
+      throw new WalletError('Only completed debits of the order can be refunded', 'INVALID_REFUND');
+    }
+
+    const refundable = this.getRefundableAmount(originalTransaction, walletTransactions);
+    const cost = originalTransaction.metadata?.providerCost ?? 0;
+    const costLeft = cost - walletTransactions
+      .filter(tx =>
+        tx.type === 'refund'
+        && tx.status === 'completed'
+        && tx.parentTransactionId === originalTransaction.id
+      )
+      .reduce((sum, tx) => sum + (tx.metadata?.providerCost ?? 0), 0);
+    const providerCost = amount >= refundable
+      ? costLeft
+      : Math.min(costLeft, Math.round(cost * amount / originalTransaction.amount));
+
     return this.refund(
       {
         tenantId,
@@ -357,12 +522,29 @@ export class WalletManager {
         referenceType: 'order',
         referenceId: orderId,
         description: `Refund for order ${orderId}`,
+        metadata: { providerCost },
         createdBy: userId,
       },
-      originalTransactionId
+      originalTransaction.id,
+      refundable
     );
   }
 
+  /**
+   * What is left to refund of a transaction, after the refunds that name it as their parent
+   */
+  static getRefundableAmount(original: Transaction, transactions: Transaction[]): number {
+    const refunded = transactions
+      .filter(tx =>
+        tx.type === 'refund'
+        && tx.status === 'completed'
+        && tx.parentTransactionId === original.id
+      )
+      .reduce((sum, tx) => sum + tx.amount, 0);
+
+    return Math.max(original.amount - refunded, 0);
+  }
+
   /**
    * Validate transaction integrity
    */
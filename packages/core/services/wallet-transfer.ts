@@ -0,0 +1,146 @@
+// Wallet Transfers
+// Credit moved down the reseller hierarchy, from a user's wallet to a sub-user's
+
+import type { Tenant, Transaction } from '../../../shared/schema';
+import type { IStorage } from '../../../server/storage';
+import { AccessDeniedError } from '../middleware/role-guard';
+import type { RoleType } from '../policies/access';
+import { AuditLogger } from './audit-logger';
+import { EventBus } from './event-bus';
+import { UserHierarchy } from './user-hierarchy';
+import { WalletLedger, type LedgerEntry } from './wallet-ledger';
+import { WalletError, WalletManager } from './wallet-manager';
+
+/**
+ * Most a role may transfer per UTC day, in the smallest currency unit
+ * (null: no limit). Tenants override them with `config.transferLimits`.
+ */
+export const DEFAULT_TRANSFER_LIMITS: Record<RoleType, number | null> = {
+  super_admin: null,
+  admin: null,
+  distributor: 1_000_000,
+  reseller: 250_000,
+  web_owner: 100_000,
+  customer: 0,
+};
+
+export interface WalletTransferRequest {
+  toUserId: string;
+  amount: number;
+  currency: string;
+  description?: string;
+}
+
+export interface WalletTransferResult {
+  reference: string;
+  debit: Transaction;
+  credit: Transaction;
+}
+
+/**
+ * Transfers from the caller's wallet to the same-currency wallet of a user they manage
+ *
+ * Only users `UserHierarchy.canManageUser` lets the caller manage can receive.
+ * Both sides are appended in one transaction and share `referenceId`; the
+ * sender's daily total is checked against the ledger the debit is appended to,
+ * so concurrent transfers cannot together exceed the limit.
+ */
+export class WalletTransfers {
+  constructor(private readonly storage: IStorage) {}
+
+  /**
+   * @throws AccessDeniedError when the recipient is not managed by the caller
+   * @throws WalletError WALLET_NOT_FOUND, INSUFFICIENT_BALANCE, TRANSFER_LIMIT_EXCEEDED
+   */
+  async transfer(
+    tenantId: string,
+    actorId: string,
+    actorRole: RoleType,
+    request: WalletTransferRequest
+  ): Promise<WalletTransferResult> {
+    const users = await this.storage.getUsers(tenantId);
+    const recipient = users.find(user => user.id === request.toUserId);
+
+    if (!recipient) {
+      throw new WalletError('Recipient not found', 'NOT_FOUND');
+    }
+    if (recipient.id === actorId || !UserHierarchy.canManageUser(actorId, recipient.id, actorRole, users)) {
+      throw new AccessDeniedError('Transfers can only go to users you manage');
+    }
+
+    const dailyLimit = WalletTransfers.getDailyLimit(await this.storage.getTenant(tenantId), actorRole);
+    const currency = request.currency.toUpperCase();
+
+    return this.storage.transaction(async tx => {
+      const from = await tx.getWalletByUser(tenantId, actorId, currency);
+      const to = await tx.getWalletByUser(tenantId, recipient.id, currency);
+      if (!from || !to) {
+        throw new WalletError(`Both users need a ${currency} wallet`, 'WALLET_NOT_FOUND');
+      }
+
+      const reference = crypto.randomUUID();
+      const ledger = new WalletLedger(tx);
+      let credit: LedgerEntry | undefined;
+
+      const [debit] = await ledger.append(tenantId, from.id, async ({ balance }) => {
+        const pair = await WalletManager.transfer(
+          {
+            tenantId,
+            fromWalletId: from.id,
+            toWalletId: to.id,
+            amount: request.amount,
+            currency,
+            reference,
+            description: request.description,
+            createdBy: actorId,
+          },
+          balance,
+          await tx.getTransferredAmount(tenantId, from.id, startOfUtcDay()),
+          dailyLimit
+        );
+        credit = pair.credit;
+        return [pair.debit];
+      });
+      const [credited] = await ledger.append(tenantId, to.id, async () => [credit!]);
+
+      await EventBus.record(tx, EventBus.createEvent('wallet.transfer', tenantId, {
+        reference,
+        fromWalletId: from.id,
+        toWalletId: to.id,
+        amount: request.amount,
+        currency,
+        debit,
+        credit: credited,
+      }, {
+        actorId,
+        audit: [
+          AuditLogger.logWallet(tenantId, actorId, 'transfer', from.id, request.amount, {
+            reference,
+            direction: 'out',
+            transactionId: debit.id,
+            counterpartyWalletId: to.id,
+            counterpartyUserId: recipient.id,
+          }),
+          AuditLogger.logWallet(tenantId, actorId, 'transfer', to.id, request.amount, {
+            reference,
+            direction: 'in',
+            transactionId: credited.id,
+            counterpartyWalletId: from.id,
+            counterpartyUserId: actorId,
+          }),
+        ],
+      }));
+
+      return { reference, debit, credit: credited };
+    });
+  }
+
+  static getDailyLimit(tenant: Tenant | undefined, role: RoleType): number | null {
+    const limits = { ...DEFAULT_TRANSFER_LIMITS, ...(tenant?.config?.transferLimits ?? {}) };
+    return limits[role] === undefined ? 0 : limits[role];
+  }
+}
+
+function startOfUtcDay(now: Date = new Date()): string {
+  return new Date(Date.UTC(now.getUTCFullYear(), now.getUTCMonth(), now.getUTCDate())).toISOString();
+}
@@ -0,0 +1,218 @@
+// Webhook Dispatcher
+// Durable webhook delivery: queued rows, retries with backoff, auto-disable
+
+import type { Webhook, WebhookDelivery } from '../../../shared/schema';
+import type { IStorage } from '../../../server/storage';
+import { WebhookError, WebhookManager } from './webhook-manager';
+
+// A delivery is given up after this many attempts
+export const WEBHOOK_MAX_ATTEMPTS = 8;
+// A webhook is disabled after this many failed attempts in a row, across deliveries
+export const WEBHOOK_DISABLE_AFTER_FAILURES = 20;
+
+const BASE_RETRY_DELAY_MS = 30_000;
+const MAX_RETRY_DELAY_MS = 6 * 60 * 60 * 1000;
+// Deliveries being sent are claimed by pushing their retry time this far into
+// the future, so concurrent processors skip them; a crashed attempt is retried after it
+const DELIVERY_LEASE_MS = 60_000;
+
+export type WebhookDeliveryStatus = 'pending' | 'succeeded' | 'failed';
+
+/**
+ * Storage-backed webhook delivery
+ *
+ * Events are written to `webhook_deliveries` before any request is made, so
+ * a receiver that is down gets the event on a later attempt. Callers
+ * `enqueue` inside the request and run `deliverQueued` through the runtime's
+ * `waitUntil`. Retries are picked up by `processDue`, which runs after each
+ * dispatch and can also be scheduled.
+ */
+export class WebhookDispatcher {
+  constructor(private readonly storage: IStorage) {}
+
+  /**
+   * Delay before the next attempt: exponential, capped, with equal jitter
+   * (half fixed, half random) so failing receivers are not hit in lockstep
+   */
+  static getRetryDelay(attempt: number, random: () => number = Math.random): number {
+    const exponential = Math.min(MAX_RETRY_DELAY_MS, BASE_RETRY_DELAY_MS * 2 ** Math.max(0, attempt - 1));
+    return Math.round(exponential / 2 + random() * (exponential / 2));
+  }
+
+  /**
+   * Queue an event for every active webhook subscribed to it
+   * All deliveries are queued in one transaction, or none are
+   */
+  async enqueue(tenantId: string, event: string, data: Record<string, any>): Promise<WebhookDelivery[]> {
+    const webhooks = WebhookManager.getByEvent(
+      WebhookManager.getActive(await this.storage.getWebhooks(tenantId)),
+      event
+    );
+    const now = new Date().toISOString();
+
+    return this.storage.transaction(tx => Promise.all(
+      webhooks.map(webhook =>
+        tx.createWebhookDelivery({
+          tenantId,
+          webhookId: webhook.id,
+          event,
+          payload: WebhookManager.buildPayload(webhook, event, data),
+          status: 'pending',
+          attempts: 0,
+          nextRetryAt: now,
+        })
+      )
+    ));
+  }
+
+  /**
+   * Queue an event, attempt it right away, then work through due retries
+   */
+  async dispatch(tenantId: string, event: string, data: Record<string, any>): Promise<WebhookDelivery[]> {
+    return this.deliverQueued(tenantId, await this.enqueue(tenantId, event, data));
+  }
+
+  /**
+   * Attempt freshly queued deliveries, then work through the tenant's due retries
+   */
+  async deliverQueued(tenantId: string, queued: WebhookDelivery[]): Promise<WebhookDelivery[]> {
+    const delivered = await Promise.all(queued.map(delivery => this.deliver(delivery)));
+    await this.processDue({ tenantId });
+    return delivered;
+  }
+
+  /**
+   * Attempt every pending delivery whose retry time has passed
+   */
+  async processDue(options: { tenantId?: string; limit?: number; now?: Date } = {}): Promise<WebhookDelivery[]> {
+    const now = (options.now ?? new Date()).toISOString();
+    const due = await this.storage.getDueWebhookDeliveries(now, options.limit ?? 50, options.tenantId);
+
+    const results: WebhookDelivery[] = [];
+    for (const delivery of due) {
+      results.push(await this.deliver(delivery));
+    }
+    return results;
+  }
+
+  /**
+   * Send a failed or pending delivery again now
+   * Works on auto-disabled webhooks; a success re-enables them
+   * @throws WebhookError DELIVERY_NOT_FOUND | ALREADY_DELIVERED | NOT_APPROVED | DELIVERY_IN_PROGRESS
+   */
+  async redeliver(tenantId: string, deliveryId: string): Promise<WebhookDelivery> {
+    const delivery = await this.storage.getWebhookDelivery(tenantId, deliveryId);
+    if (!delivery) {
+      throw new WebhookError('Webhook delivery not found', 'DELIVERY_NOT_FOUND');
+    }
+
+    if (delivery.status === 'succeeded') {
+      throw new WebhookError('Webhook delivery already succeeded', 'ALREADY_DELIVERED');
+    }
+
+    return this.deliver(delivery, { manual: true });
+  }
+
+  /**
+   * Make one attempt and record the outcome on the delivery and webhook
+   * The delivery is claimed first with a conditional update on the status and
+   * retry time it was read with; a delivery another processor claimed is skipped.
+   * @throws WebhookError NOT_APPROVED | DELIVERY_IN_PROGRESS (manual attempts only)
+   */
+  async deliver(delivery: WebhookDelivery, options: { manual?: boolean } = {}): Promise<WebhookDelivery> {
+    const webhook = await this.storage.getWebhook(delivery.tenantId, delivery.webhookId);
+
+    if (options.manual && webhook?.requiresApproval && !webhook.approvedBy) {
+      throw new WebhookError('Webhook has not been approved', 'NOT_APPROVED');
+    }
+
+    const claimed = await this.storage.claimWebhookDelivery(
+      delivery,
+      new Date(Date.now() + DELIVERY_LEASE_MS).toISOString()
+    );
+    if (!claimed) {
+      if (options.manual) {
+        throw new WebhookError('Webhook delivery is already being sent', 'DELIVERY_IN_PROGRESS');
+      }
+      return delivery;
+    }
+
+    if (!webhook) {
+      return this.finish(delivery, { status: 'failed', lastError: 'Webhook no longer exists' });
+    }
+
+    if (!options.manual && !WebhookManager.canReceiveEvents(webhook)) {
+      return this.finish(delivery, { status: 'failed', lastError: 'Webhook is not active or not approved' });
+    }
+
+    const result = await WebhookManager.send(webhook, delivery.event, delivery.payload);
+    const attempts = delivery.attempts + 1;
+    const now = new Date();
+
+    const outcome: Partial<WebhookDelivery> = {
+      attempts,
+      lastStatusCode: result.statusCode ?? null,
+      lastResponseTime: result.responseTime ?? null,
+      lastError: result.error ?? null,
+    };
+
+    if (result.success) {
+      await this.recordSuccess(webhook, now);
+      return this.finish(delivery, {
+        ...outcome,
+        status: 'succeeded',
+        deliveredAt: now.toISOString(),
+      });
+    }
+
+    const disabled = await this.recordFailure(webhook, now);
+    if (disabled || attempts >= WEBHOOK_MAX_ATTEMPTS) {
+      return this.finish(delivery, { ...outcome, status: 'failed' });
+    }
+
+    return this.finish(delivery, {
+      ...outcome,
+      status: 'pending',
+      nextRetryAt: new Date(now.getTime() + WebhookDispatcher.getRetryDelay(attempts)).toISOString(),
+    });
+  }
+
+  private async finish(
+    delivery: WebhookDelivery,
+    updates: Partial<WebhookDelivery> & { status: WebhookDeliveryStatus }
+  ): Promise<WebhookDelivery> {
+    const final = updates.status === 'pending' ? updates : { ...updates, nextRetryAt: null };
+    const updated = await this.storage.updateWebhookDelivery(delivery.tenantId, delivery.id, final);
+    return updated ?? { ...delivery, ...final };
+  }
+
+  private async recordSuccess(webhook: Webhook, now: Date): Promise<void> {
+    await this.storage.updateWebhook(webhook.tenantId, webhook.id, {
+      consecutiveFailures: 0,
+      lastTriggeredAt: now.toISOString(),
+      // A manual redelivery that gets through brings an auto-disabled webhook back
+      ...(webhook.disabledAt ? { isActive: true, disabledAt: null } : {}),
+    });
+  }
+
+  /**
+   * Count the failure against the webhook
+   * The count is incremented by storage, so concurrent deliveries each add theirs
+   * and whichever reaches the threshold disables the webhook.
+   * @returns true when the webhook is (now) disabled
+   */
+  private async recordFailure(webhook: Webhook, now: Date): Promise<boolean> {
+    const counted = await this.storage.recordWebhookFailure(webhook.tenantId, webhook.id, now.toISOString());
+    // Deleted meanwhile: nothing left to deliver to
+    if (!counted) {
+      return true;
+    }
+
+    if (counted.isActive && counted.consecutiveFailures >= WEBHOOK_DISABLE_AFTER_FAILURES) {
+      await this.storage.updateWebhook(webhook.tenantId, webhook.id, { isActive: false, disabledAt: now.toISOString() });
+      return true;
+    }
+
+    return !counted.isActive;
+  }
+}
@@ -2,6 +2,19 @@
 // Webhook registration, triggering, and admin approval
 
 import type { Webhook } from '../../../shared/schema';
+import {
+  WEBHOOK_SIGNATURE_HEADER,
+  signWebhookPayload,
+  verifyWebhookSignature,
+  type WebhookVerificationResult,
+} from './webhook-signature';
+
+// How long the previous secret keeps signing deliveries after a rotation
+export const DEFAULT_SECRET_GRACE_SECONDS = 24 * 60 * 60;
+export const MAX_SECRET_GRACE_SECONDS = 7 * 24 * 60 * 60;
+
+// Receivers that take longer than this count as failed deliveries
+const DELIVERY_TIMEOUT_MS = 10_000;
 
 export interface WebhookPayload {
   event: string;
@@ -35,12 +48,14 @@ export class WebhookManager {
       'order.completed',
       'order.failed',
       'order.refunded',
+      'order.state_changed',
       'payment.received',
       'payment.failed',
       'user.created',
       'user.updated',
       'wallet.credited',
       'wallet.debited',
+      'wallet.transfer',
       'service.created',
       'service.updated',
     ];
@@ -116,20 +131,71 @@ export class WebhookManager {
   }
 
   /**
-   * Generate webhook signature
+   * Generate webhook signature header (`t=<timestamp>,v1=<hmac>`)
+   * HMAC-SHA256 over `<timestamp>.<payload>`, one `v1` per secret
+   */
+  static generateSignature(
+    payload: string,
+    secrets: string | string[],
+    timestamp?: number
+  ): Promise<string> {
+    return signWebhookPayload(payload, secrets, timestamp);
+  }
+
+  /**
+   * Verify webhook signature header
+   * Rejects timestamps outside the tolerance window (default 5 minutes)
+   */
+  static verifySignature(
+    payload: string,
+    signature: string,
+    secrets: string | string[],
+    toleranceSeconds?: number
+  ): Promise<WebhookVerificationResult> {
+    return verifyWebhookSignature(payload, signature, secrets, { toleranceSeconds });
+  }
+
+  /**
+   * Secrets deliveries are signed with: the current one, plus the
+   * previous one until its grace period ends
    */
-  static generateSignature(payload: string, secret: string): string {
-    // In production, use HMAC-SHA256
-    // This is a placeholder
-    return Buffer.from(`${secret}:${payload}`).toString('base64');
+  static getSigningSecrets(webhook: Webhook, now: Date = new Date()): string[] {
+    const secrets = [webhook.secret];
+
+    if (
+      webhook.previousSecret &&
+      webhook.previousSecretExpiresAt &&
+      new Date(webhook.previousSecretExpiresAt) > now
+    ) {
+      secrets.push(webhook.previousSecret);
+    }
+
+    return secrets;
   }
 
   /**
-   * Verify webhook signature
+   * Rotate the signing secret
+   * The old secret stays valid for `graceSeconds` so receivers can switch over
    */
-  static verifySignature(payload: string, signature: string, secret: string): boolean {
-    const expectedSignature = this.generateSignature(payload, secret);
-    return signature === expectedSignature;
+  static rotateSecret(
+    webhook: Webhook,
+    graceSeconds: number = DEFAULT_SECRET_GRACE_SECONDS
+  ): Partial<Webhook> {
+    if (graceSeconds < 0 || graceSeconds > MAX_SECRET_GRACE_SECONDS) {
+      throw new WebhookError(
+        `Grace period must be between 0 and ${MAX_SECRET_GRACE_SECONDS} seconds`,
+        'INVALID_GRACE_PERIOD'
+      );
+    }
+
+    const now = Date.now();
+
+    return {
+      secret: this.generateSecret(),
+      previousSecret: graceSeconds > 0 ? webhook.secret : null,
+      previousSecretExpiresAt: graceSeconds > 0 ? new Date(now + graceSeconds * 1000).toISOString() : null,
+      updatedAt: new Date(now).toISOString(),
+    };
   }
 
   /**
@@ -203,6 +269,14 @@ export class WebhookManager {
       };
     }
 
+    return this.send(webhook, event, this.buildPayload(webhook, event, data));
+  }
+
+  /**
+   * Serialize the body for an event
+   * The exact string is stored with queued deliveries so retries are signed over identical bytes
+   */
+  static buildPayload(webhook: Webhook, event: string, data: Record<string, any>): string {
     const payload: WebhookPayload = {
       event,
       timestamp: new Date().toISOString(),
@@ -210,9 +284,15 @@ export class WebhookManager {
       webhookId: webhook.id,
     };
 
-    const payloadString = JSON.stringify(payload);
-    const signature = this.generateSignature(payloadString, webhook.secret);
+    return JSON.stringify(payload);
+  }
 
+  /**
+   * POST a signed payload to the webhook endpoint
+   * Never throws; network errors and timeouts are reported in the result
+   */
+  static async send(webhook: Webhook, event: string, payload: string): Promise<WebhookDeliveryResult> {
+    const signature = await this.generateSignature(payload, this.getSigningSecrets(webhook));
     const startTime = Date.now();
 
     try {
@@ -220,11 +300,12 @@ export class WebhookManager {
         method: 'POST',
         headers: {
           'Content-Type': 'application/json',
-          'X-Webhook-Signature': signature,
+          [WEBHOOK_SIGNATURE_HEADER]: signature,
           'X-Webhook-Event': event,
           'X-Webhook-ID': webhook.id,
         },
-        body: payloadString,
+        body: payload,
+        signal: AbortSignal.timeout(DELIVERY_TIMEOUT_MS),
       });
 
       const responseTime = Date.now() - startTime;
@@ -256,6 +337,7 @@ export class WebhookManager {
 
   /**
    * Trigger webhooks for event
+   * Results are not persisted; use WebhookDispatcher for retried, logged delivery
    */
   static async triggerAll(
     webhooks: Webhook[],
@@ -373,48 +455,10 @@ export class WebhookManager {
    * Test webhook delivery
    */
   static async test(webhook: Webhook): Promise<WebhookDeliveryResult> {
-    const testPayload: WebhookPayload = {
-      event: 'webhook.test',
-      timestamp: new Date().toISOString(),
-      data: {
-        message: 'This is a test webhook delivery',
-      },
-      webhookId: webhook.id,
-    };
-
-    const payloadString = JSON.stringify(testPayload);
-    const signature = this.generateSignature(payloadString, webhook.secret);
-
-    const startTime = Date.now();
-
-    try {
-      const response = await fetch(webhook.url, {
-        method: 'POST',
-        headers: {
-          'Content-Type': 'application/json',
-          'X-Webhook-Signature': signature,
-          'X-Webhook-Event': 'webhook.test',
-          'X-Webhook-ID': webhook.id,
-        },
-        body: payloadString,
-      });
-
-      const responseTime = Date.now() - startTime;
+    const payload = this.buildPayload(webhook, 'webhook.test', {
+      message: 'This is a test webhook delivery',
+    });
 
-      return {
-        success: response.ok,
-        statusCode: response.status,
-        responseTime,
-        error: response.ok ? undefined : `HTTP ${response.status}`,
-      };
-    } catch (error: any) {
-      const responseTime = Date.now() - startTime;
-      
-      return {
-        success: false,
-        responseTime,
-        error: error.message,
-      };
-    }
+    return this.send(webhook, 'webhook.test', payload);
   }
 }
@@ -0,0 +1,126 @@
+// Webhook Signatures
+// Stripe-style `t=<timestamp>,v1=<hmac>` headers over `<timestamp>.<payload>`.
+// Only depends on WebCrypto so receivers can import it (or copy it) as-is.
+
+export const WEBHOOK_SIGNATURE_HEADER = 'X-Webhook-Signature';
+export const WEBHOOK_SIGNATURE_SCHEME = 'v1';
+export const DEFAULT_WEBHOOK_TOLERANCE_SECONDS = 5 * 60;
+
+export interface ParsedWebhookSignature {
+  timestamp: number;
+  signatures: string[];
+}
+
+export interface WebhookVerificationResult {
+  valid: boolean;
+  error?: string;
+}
+
+const encoder = new TextEncoder();
+
+async function hmacHex(secret: string, value: string): Promise<string> {
+  const key = await crypto.subtle.importKey(
+    'raw',
+    encoder.encode(secret),
+    { name: 'HMAC', hash: 'SHA-256' },
+    false,
+    ['sign']
+  );
+  const signature = new Uint8Array(await crypto.subtle.sign('HMAC', key, encoder.encode(value)));
+  return Array.from(signature, b => b.toString(16).padStart(2, '0')).join('');
+}
+
+function timingSafeEqual(a: string, b: string): boolean {
+  let diff = a.length ^ b.length;
+  const length = Math.max(a.length, b.length);
+  for (let i = 0; i < length; i++) {
+    diff |= (a.charCodeAt(i) || 0) ^ (b.charCodeAt(i) || 0);
+  }
+  return diff === 0;
+}
+
+/**
+ * Build the signature header for a payload
+ * One `v1` entry is added per secret, so receivers on either side of a
+ * secret rotation can verify the delivery
+ */
+export async function signWebhookPayload(
+  payload: string,
+  secrets: string | string[],
+  timestamp: number = Math.floor(Date.now() / 1000)
+): Promise<string> {
+  const signed = `${timestamp}.${payload}`;
+  const signatures = await Promise.all(
+    (Array.isArray(secrets) ? secrets : [secrets]).map(secret => hmacHex(secret, signed))
+  );
+  return [`t=${timestamp}`, ...signatures.map(sig => `${WEBHOOK_SIGNATURE_SCHEME}=${sig}`)].join(',');
+}
+
+/**
+ * Parse a `t=...,v1=...` header; unknown schemes are ignored
+ */
+export function parseWebhookSignature(header: string): ParsedWebhookSignature | null {
+  let timestamp: number | undefined;
+  const signatures: string[] = [];
+
+  for (const part of header.split(',')) {
+    const separator = part.indexOf('=');
+    if (separator === -1) {
+      continue;
+    }
+
+    const key = part.slice(0, separator).trim();
+    const value = part.slice(separator + 1).trim();
+
+    if (key === 't') {
+      timestamp = Number(value);
+    } else if (key === WEBHOOK_SIGNATURE_SCHEME && value) {
+      signatures.push(value);
+    }
+  }
+
+  if (timestamp === undefined || !Number.isInteger(timestamp) || signatures.length === 0) {
+    return null;
+  }
+
+  return { timestamp, signatures };
+}
+
+/**
+ * Verify a webhook delivery
+ * `payload` must be the raw request body. Deliveries whose timestamp is
+ * outside the tolerance window are rejected to prevent replays.
+ * Pass both secrets while rotating.
+ */
+export async function verifyWebhookSignature(
+  payload: string,
+  header: string | null | undefined,
+  secrets: string | string[],
+  options: { toleranceSeconds?: number; now?: number } = {}
+): Promise<WebhookVerificationResult> {
+  const parsed = header ? parseWebhookSignature(header) : null;
+  if (!parsed) {
+    return { valid: false, error: 'Missing or malformed signature header' };
+  }
+
+  const tolerance = options.toleranceSeconds ?? DEFAULT_WEBHOOK_TOLERANCE_SECONDS;
+  const now = Math.floor((options.now ?? Date.now()) / 1000);
+  if (Math.abs(now - parsed.timestamp) > tolerance) {
+    return { valid: false, error: 'Signature timestamp is outside the tolerance window' };
+  }
+
+  const signed = `${parsed.timestamp}.${payload}`;
+  for (const secret of Array.isArray(secrets) ? secrets : [secrets]) {
+    const expected = await hmacHex(secret, signed);
+    // Check every presented signature so timing does not reveal which one matched
+    let matched = false;
+    for (const signature of parsed.signatures) {
+      matched = timingSafeEqual(expected, signature) || matched;
+    }
+    if (matched) {
+      return { valid: true };
+    }
+  }
+
+  return { valid: false, error: 'No matching signature' };
+}
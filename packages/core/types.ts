@@ -18,6 +18,34 @@ export interface RuntimeAdapter {
   isDevelopment(): boolean;
 }
 
+/**
+ * Object storage for files exchanged with providers
+ * Implemented per runtime (local disk on Node, R2 on Workers)
+ */
+export interface BlobStore {
+  put(key: string, body: string, options?: { contentType?: string }): Promise<void>;
+  // null when the key does not exist
+  get(key: string): Promise<string | null>;
+  delete(key: string): Promise<void>;
+  list(prefix: string): Promise<string[]>;
+}
+
+/**
+ * Recurring background work, run every `intervalMs`
+ */
+export interface ScheduledJob {
+  name: string;
+  intervalMs: number;
+  run(now: Date): Promise<unknown>;
+}
+
+/**
+ * Runs scheduled jobs; implemented per runtime
+ */
+export interface Scheduler {
+  schedule(job: ScheduledJob): void;
+}
+
 export interface RequestMetadata {
   tenantId: string;
   userId?: string;
@@ -0,0 +1,18 @@
+// tRPC Context
+// Request-scoped values every procedure runs with
+
+import type { TenantContext } from '@edge/core/middleware';
+import type { RoleType } from '@edge/core/policies/access';
+import type { IStorage } from '../../server/storage';
+
+export interface TrpcContext {
+  // Tenant resolved by the tenant isolation middleware
+  tenant: TenantContext;
+  userRole?: RoleType;
+  // Scopes of the API key that authenticated the request; undefined for session callers
+  apiKeyScopes?: string[];
+  // Contract version the client was built against, if it sent one
+  clientContractVersion?: string;
+  // Storage injected by the runtime adapter
+  storage?: IStorage;
+}
@@ -1,3 +1,7 @@
-export const TRPC_CONTRACT_VERSION = '1.0.0';
-// This package will hold the shared tRPC router type definition
-// which the frontend imports to get full type safety without importing backend code.
+// @edge/trpc-contracts
+// The frontend imports `AppRouter` as a type only; the server mounts `appRouter`
+
+export { TRPC_CONTRACT_VERSION, TRPC_CONTRACT_VERSION_HEADER, isCompatibleContract } from './version';
+export { appRouter, type AppRouter, type Router } from './router';
+export type { TrpcContext } from './context';
+export type { PublicUser } from '@edge/core/services/user-manager';
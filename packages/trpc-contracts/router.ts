@@ -2,11 +2,22 @@
 // Provides type-safe contracts between frontend and backend
 // Imported by frontend for full type safety without importing server code
 
-import { z } from 'zod';
+import { router } from './trpc';
+import { ordersRouter } from './routers/orders';
+import { servicesRouter } from './routers/services';
+import { walletRouter } from './routers/wallet';
+import { usersRouter } from './routers/users';
+import { webhooksRouter } from './routers/webhooks';
 
-// Placeholder for tRPC initialization
-// Full implementation in Phase 2
+export const appRouter = router({
+  orders: ordersRouter,
+  services: servicesRouter,
+  wallet: walletRouter,
+  users: usersRouter,
+  webhooks: webhooksRouter,
+});
 
-// Router type definition (implemented in Phase 2 with full tRPC setup)
-// For Phase 1, we use REST endpoints via Hono
-export type Router = any;
+export type AppRouter = typeof appRouter;
+
+// Kept for code written against the Phase 1 placeholder
+export type Router = AppRouter;
@@ -0,0 +1,198 @@
+// Orders Router
+// Order placement and lifecycle through the persisted order workflow
+
+import { z } from 'zod';
+import { TRPCError } from '@trpc/server';
+import { api } from '../../../shared/routes';
+import { RoleGuard } from '@edge/core/middleware';
+import { canAccess } from '@edge/core/policies/access';
+import { OrderManager, type OrderPlacementResult } from '@edge/core/services/order-manager';
+import { OrderTimeline } from '@edge/core/services/order-timeline';
+import { OrderWorkflow } from '@edge/core/services/order-workflow';
+import { TenantStateMachineManager } from '@edge/core/services/tenant-state-machine';
+import { adminProcedure, found, isAdminRole, protectedProcedure, requireScope, router } from '../trpc';
+
+const readProcedure = protectedProcedure.use(requireScope('orders:read'));
+const updateProcedure = protectedProcedure.use(requireScope('orders:update'));
+
+/**
+ * Return the workflow's order, or raise its error
+ */
+function unwrap(result: OrderPlacementResult) {
+  if (result.order) {
+    return result.order;
+  }
+
+  const error = result.error ?? { code: 'ORDER_FAILED', message: 'Order could not be processed' };
+  throw new TRPCError({
+    code: error.code === 'ORDER_NOT_FOUND' || error.code === 'ORDER_ITEM_NOT_FOUND'
+      ? 'NOT_FOUND'
+      : error.code === 'INVALID_TRANSITION' ? 'CONFLICT' : 'BAD_REQUEST',
+    message: error.message,
+    cause: Object.assign(new Error(error.message), { code: error.code }),
+  });
+}
+
+export const ordersRouter = router({
+  list: readProcedure
+    .input(z.object({ status: z.string().optional(), userId: z.string().optional() }).optional())
+    .query(({ ctx, input }) => {
+      return ctx.storage.getOrders(ctx.tenant.tenantId, {
+        status: input?.status,
+        userId: isAdminRole(ctx.userRole) ? input?.userId : ctx.userId,
+      });
+    }),
+
+  get: readProcedure
+    .input(z.object({ id: z.string() }))
+    .query(async ({ ctx, input }) => {
+      const order = found(await ctx.storage.getOrder(ctx.tenant.tenantId, input.id), 'Order');
+      RoleGuard.validateResourceOwnership(order.userId, ctx.userId, ctx.userRole);
+      return order;
+    }),
+
+  transitions: readProcedure
+    .input(z.object({ id: z.string() }))
+    .query(async ({ ctx, input }) => {
+      const order = found(await ctx.storage.getOrder(ctx.tenant.tenantId, input.id), 'Order');
+      RoleGuard.validateResourceOwnership(order.userId, ctx.userId, ctx.userRole);
+      const machine = await new TenantStateMachineManager(ctx.storage).get(ctx.tenant.tenantId);
+      return {
+        status: order.status,
+        transitions: OrderManager.getAvailableTransitions(order, ctx.userRole, machine),
+      };
+    }),
+
+  timeline: readProcedure
+    .input(z.object({ id: z.string() }))
+    .query(async ({ ctx, input }) => {
+      const order = found(await ctx.storage.getOrder(ctx.tenant.tenantId, input.id), 'Order');
+      RoleGuard.validateResourceOwnership(order.userId, ctx.userId, ctx.userRole);
+      const events = await ctx.storage.getOrderEvents(ctx.tenant.tenantId, order.id);
+      return isAdminRole(ctx.userRole) ? events : events.filter(event => OrderTimeline.isCustomerVisible(event));
+    }),
+
+  addNote: adminProcedure
+    .use(requireScope('orders:update'))
+    .input(z.object({ id: z.string(), note: z.string().min(1).max(2000) }))
+    .mutation(async ({ ctx, input }) => {
+      const order = found(await ctx.storage.getOrder(ctx.tenant.tenantId, input.id), 'Order');
+      return ctx.storage.createOrderEvent(OrderTimeline.note(order, ctx.userId, input.note));
+    }),
+
+  create: protectedProcedure
+    .use(requireScope('orders:create'))
+    .input(z.object({
+      serviceId: z.string(),
+      inputData: z.record(z.any()),
+      currency: z.string().length(3).optional(),
+      metadata: z.record(z.any()).optional(),
+    }))
+    .mutation(async ({ ctx, input }) => {
+      if (!canAccess(ctx.userRole, 'order', 'create')) {
+        throw new TRPCError({ code: 'FORBIDDEN', message: 'Role cannot place orders' });
+      }
+
+      const result = await new OrderWorkflow(ctx.storage).placeOrder({
+        tenantId: ctx.tenant.tenantId,
+        userId: ctx.userId,
+        userRole: ctx.userRole,
+        serviceId: input.serviceId,
+        inputData: input.inputData,
+        currency: input.currency,
+        metadata: input.metadata,
+      });
+
+      return unwrap(result);
+    }),
+
+  createBulk: protectedProcedure
+    .use(requireScope('orders:create'))
+    .input(z.object({
+      serviceId: z.string(),
+      items: z.array(z.record(z.any())).min(1),
+      currency: z.string().length(3).optional(),
+      metadata: z.record(z.any()).optional(),
+    }))
+    .mutation(async ({ ctx, input }) => {
+      if (!canAccess(ctx.userRole, 'order', 'create')) {
+        throw new TRPCError({ code: 'FORBIDDEN', message: 'Role cannot place orders' });
+      }
+
+      const result = await new OrderWorkflow(ctx.storage).placeBulkOrder({
+        tenantId: ctx.tenant.tenantId,
+        userId: ctx.userId,
+        userRole: ctx.userRole,
+        serviceId: input.serviceId,
+        inputData: {},
+        currency: input.currency,
+        metadata: input.metadata,
+      }, input.items);
+
+      return unwrap(result);
+    }),
+
+  // The tenant's state machine decides which roles may approve
+  approve: updateProcedure
+    .input(z.object({ id: z.string() }))
+    .mutation(async ({ ctx, input }) => {
+      const result = await new OrderWorkflow(ctx.storage)
+        .approveOrder(ctx.tenant.tenantId, input.id, ctx.userId, ctx.userRole);
+      return unwrap(result);
+    }),
+
+  refund: adminProcedure
+    .use(requireScope('orders:update'))
+    .input(z.object({
+      id: z.string(),
+      amount: z.number().int().positive().optional(),
+      itemIds: z.array(z.string()).min(1).optional(),
+      reason: z.string().optional(),
+    }))
+    .mutation(async ({ ctx, input }) => {
+      const { id, ...request } = input;
+      const result = await new OrderWorkflow(ctx.storage)
+        .refundOrder(ctx.tenant.tenantId, id, ctx.userId, ctx.userRole, request);
+      return unwrap(result);
+    }),
+
+  transition: updateProcedure
+    .input(z.object({ id: z.string(), to: z.string(), note: z.string().optional() }))
+    .mutation(async ({ ctx, input }) => {
+      const order = found(await ctx.storage.getOrder(ctx.tenant.tenantId, input.id), 'Order');
+      RoleGuard.validateResourceOwnership(order.userId, ctx.userId, ctx.userRole);
+
+      const result = await new OrderWorkflow(ctx.storage)
+        .transitionOrder(ctx.tenant.tenantId, order.id, input.to, ctx.userId, ctx.userRole, input.note);
+      return unwrap(result);
+    }),
+
+  stateMachine: adminProcedure
+    .query(({ ctx }) => {
+      return new TenantStateMachineManager(ctx.storage).describe(ctx.tenant.tenantId);
+    }),
+
+  saveStateMachine: adminProcedure
+    .use(requireScope('orders:update'))
+    .input(api.orderStateMachine.update.input)
+    .mutation(({ ctx, input }) => {
+      return new TenantStateMachineManager(ctx.storage).save(ctx.tenant.tenantId, input, ctx.userId);
+    }),
+
+  resetStateMachine: adminProcedure
+    .use(requireScope('orders:update'))
+    .mutation(({ ctx }) => {
+      return new TenantStateMachineManager(ctx.storage).reset(ctx.tenant.tenantId, ctx.userId);
+    }),
+
+  cancel: updateProcedure
+    .input(z.object({ id: z.string() }))
+    .mutation(async ({ ctx, input }) => {
+      const order = found(await ctx.storage.getOrder(ctx.tenant.tenantId, input.id), 'Order');
+      RoleGuard.validateResourceOwnership(order.userId, ctx.userId, ctx.userRole);
+
+      const result = await new OrderWorkflow(ctx.storage)
+        .cancelOrder(ctx.tenant.tenantId, order.id, ctx.userId, ctx.userRole);
+      return unwrap(result);
+    }),
+});
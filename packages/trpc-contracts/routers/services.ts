@@ -0,0 +1,44 @@
+// Services Router
+// Service catalog as visible to the caller's role
+
+import { z } from 'zod';
+import { ExchangeRates } from '@edge/core/services/exchange-rates';
+import { ServiceManager } from '@edge/core/services/service-manager';
+import { found, isAdminRole, protectedProcedure, requireScope, router } from '../trpc';
+
+const readProcedure = protectedProcedure.use(requireScope('services:read'));
+
+export const servicesRouter = router({
+  groups: readProcedure.query(async ({ ctx }) => {
+    const groups = await ctx.storage.getServiceGroups(ctx.tenant.tenantId);
+    return isAdminRole(ctx.userRole) ? groups : groups.filter(g => g.isActive);
+  }),
+
+  list: readProcedure
+    .input(z.object({ groupId: z.string().optional() }).optional())
+    .query(async ({ ctx, input }) => {
+      const services = isAdminRole(ctx.userRole)
+        ? await ctx.storage.getServices(ctx.tenant.tenantId, { groupId: input?.groupId })
+        : ServiceManager.filterByRole(
+          await ctx.storage.getServices(ctx.tenant.tenantId, { groupId: input?.groupId, isActive: true }),
+          ctx.userRole
+        );
+
+      const tenant = await ctx.storage.getTenant(ctx.tenant.tenantId);
+      return new ExchangeRates(ctx.storage).withDisplayPrices(tenant, services);
+    }),
+
+  get: readProcedure
+    .input(z.object({ id: z.string() }))
+    .query(async ({ ctx, input }) => {
+      const service = found(await ctx.storage.getService(ctx.tenant.tenantId, input.id), 'Service');
+
+      if (!isAdminRole(ctx.userRole) && (!service.isActive || !ServiceManager.canAccessService(service, ctx.userRole))) {
+        return found(undefined, 'Service');
+      }
+
+      const tenant = await ctx.storage.getTenant(ctx.tenant.tenantId);
+      const [priced] = await new ExchangeRates(ctx.storage).withDisplayPrices(tenant, [service]);
+      return priced;
+    }),
+});
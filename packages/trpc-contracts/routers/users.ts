@@ -0,0 +1,27 @@
+// Users Router
+// Current user and the sub-user hierarchy
+
+import { UserHierarchy } from '@edge/core/services/user-hierarchy';
+import { UserManager } from '@edge/core/services/user-manager';
+import { adminProcedure, found, protectedProcedure, requireScope, router } from '../trpc';
+
+const readProcedure = protectedProcedure.use(requireScope('users:read'));
+
+export const usersRouter = router({
+  me: readProcedure.query(async ({ ctx }) => {
+    const user = await ctx.storage.getUser(ctx.userId);
+    return UserManager.toPublicUser(found(user?.tenantId === ctx.tenant.tenantId ? user : undefined, 'User'));
+  }),
+
+  list: adminProcedure
+    .use(requireScope('users:read'))
+    .query(async ({ ctx }) => {
+      const users = await ctx.storage.getUsers(ctx.tenant.tenantId);
+      return users.map(UserManager.toPublicUser);
+    }),
+
+  children: readProcedure.query(async ({ ctx }) => {
+    const users = await ctx.storage.getUsers(ctx.tenant.tenantId);
+    return UserHierarchy.getChildren(ctx.userId, users).map(UserManager.toPublicUser);
+  }),
+});
@@ -0,0 +1,110 @@
+// Wallet Router
+// Wallet balances, ledger history, transfers, reconciliation and the trial balance
+
+import { z } from 'zod';
+import { api } from '../../../shared/routes';
+import type { Wallet } from '../../../shared/schema';
+import type { IStorage } from '../../../server/storage';
+import { RoleGuard } from '@edge/core/middleware';
+import type { RoleType } from '@edge/core/policies/access';
+import { CommissionPayouts } from '@edge/core/services/commissions';
+import { ExchangeRates } from '@edge/core/services/exchange-rates';
+import { Journal } from '@edge/core/services/journal';
+import { WalletLedger } from '@edge/core/services/wallet-ledger';
+import { WalletTransfers } from '@edge/core/services/wallet-transfer';
+import { adminProcedure, found, isAdminRole, protectedProcedure, requireScope, router } from '../trpc';
+
+const readProcedure = protectedProcedure.use(requireScope('wallet:read'));
+const transferProcedure = protectedProcedure.use(requireScope('wallet:transfer'));
+
+async function loadWallet(
+  storage: IStorage,
+  tenantId: string,
+  walletId: string,
+  userId: string,
+  userRole: RoleType
+): Promise<Wallet> {
+  const wallet = found(await storage.getWallet(tenantId, walletId), 'Wallet');
+  RoleGuard.validateResourceOwnership(wallet.userId, userId, userRole);
+  return wallet;
+}
+
+export const walletRouter = router({
+  list: readProcedure
+    .input(z.object({ userId: z.string().optional() }).optional())
+    .query(({ ctx, input }) => {
+      return ctx.storage.getWallets(
+        ctx.tenant.tenantId,
+        isAdminRole(ctx.userRole) ? input?.userId : ctx.userId
+      );
+    }),
+
+  balances: readProcedure
+    .input(api.wallets.balances.input)
+    .query(async ({ ctx, input }) => {
+      const wallets = await ctx.storage.getWallets(
+        ctx.tenant.tenantId,
+        isAdminRole(ctx.userRole) ? input?.userId : ctx.userId
+      );
+      return new ExchangeRates(ctx.storage).balanceReport(ctx.tenant.tenantId, wallets, input?.currency);
+    }),
+
+  get: readProcedure
+    .input(z.object({ id: z.string() }))
+    .query(async ({ ctx, input }) => {
+      const wallet = await loadWallet(ctx.storage, ctx.tenant.tenantId, input.id, ctx.userId, ctx.userRole);
+      const balance = await new WalletLedger(ctx.storage).getBalance(wallet.tenantId, wallet.id);
+      return { wallet, balance: { ...balance, currency: wallet.currency } };
+    }),
+
+  transactions: readProcedure
+    .input(z.object({ walletId: z.string() }))
+    .query(async ({ ctx, input }) => {
+      const wallet = await loadWallet(ctx.storage, ctx.tenant.tenantId, input.walletId, ctx.userId, ctx.userRole);
+      return ctx.storage.getWalletTransactions(wallet.tenantId, wallet.id);
+    }),
+
+  transfer: transferProcedure
+    .input(api.wallets.transfer.input)
+    .mutation(({ ctx, input }) => {
+      return new WalletTransfers(ctx.storage).transfer(ctx.tenant.tenantId, ctx.userId, ctx.userRole, input);
+    }),
+
+  commissionStatement: readProcedure
+    .input(api.commissions.statement.input)
+    .query(({ ctx, input }) => {
+      return new CommissionPayouts(ctx.storage).statement(
+        ctx.tenant.tenantId,
+        isAdminRole(ctx.userRole) ? input?.userId ?? ctx.userId : ctx.userId,
+        input?.from,
+        input?.to
+      );
+    }),
+
+  reconcile: adminProcedure
+    .input(z.object({ walletId: z.string() }))
+    .query(async ({ ctx, input }) => {
+      const wallet = found(await ctx.storage.getWallet(ctx.tenant.tenantId, input.walletId), 'Wallet');
+      return new WalletLedger(ctx.storage).reconcile(wallet.tenantId, wallet.id);
+    }),
+
+  exchangeRates: readProcedure.query(({ ctx }) => {
+    return new ExchangeRates(ctx.storage).getCurrentRates(ctx.tenant.tenantId);
+  }),
+
+  setExchangeRate: adminProcedure
+    .input(api.exchangeRates.create.input)
+    .mutation(({ ctx, input }) => {
+      return new ExchangeRates(ctx.storage).setRate(ctx.tenant.tenantId, ctx.userId, input);
+    }),
+
+  importExchangeRates: adminProcedure
+    .input(api.exchangeRates.import.input)
+    .mutation(({ ctx, input }) => {
+      return new ExchangeRates(ctx.storage).importRates(ctx.tenant.tenantId, ctx.userId, input);
+    }),
+
+  trialBalance: adminProcedure.query(async ({ ctx }) => {
+    return Journal.trialBalance(await ctx.storage.getJournalTotals(ctx.tenant.tenantId));
+  }),
+});
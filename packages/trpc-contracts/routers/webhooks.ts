@@ -0,0 +1,106 @@
+// Webhooks Router
+// Webhook registration, test deliveries and the delivery log for the caller
+
+import { z } from 'zod';
+import { TRPCError } from '@trpc/server';
+import type { Webhook } from '../../../shared/schema';
+import { RoleGuard } from '@edge/core/middleware';
+import { WebhookManager } from '@edge/core/services/webhook-manager';
+import { WebhookDispatcher } from '@edge/core/services/webhook-dispatcher';
+import { AuditLogger } from '@edge/core/services/audit-logger';
+import { found, isAdminRole, protectedProcedure, requireScope, router } from '../trpc';
+
+const readProcedure = protectedProcedure.use(requireScope('webhooks:read'));
+const writeProcedure = protectedProcedure.use(requireScope('webhooks:create'));
+
+// The signing secret is only returned by `create` and `rotateSecret`
+function redact(webhook: Webhook): Webhook {
+  return { ...webhook, secret: '********', previousSecret: webhook.previousSecret ? '********' : null };
+}
+
+export const webhooksRouter = router({
+  list: readProcedure.query(async ({ ctx }) => {
+    const webhooks = await ctx.storage.getWebhooks(
+      ctx.tenant.tenantId,
+      isAdminRole(ctx.userRole) ? undefined : ctx.userId
+    );
+    return webhooks.map(redact);
+  }),
+
+  events: readProcedure.query(() => WebhookManager.getAvailableEvents()),
+
+  create: writeProcedure
+    .input(z.object({ url: z.string().url(), events: z.array(z.string()).min(1) }))
+    .mutation(async ({ ctx, input }) => {
+      const validation = WebhookManager.validateCreate(input.url, input.events);
+      if (!validation.valid) {
+        throw new TRPCError({ code: 'BAD_REQUEST', message: validation.errors!.join('; ') });
+      }
+
+      const webhook = await ctx.storage.createWebhook({
+        tenantId: ctx.tenant.tenantId,
+        userId: ctx.userId,
+        url: input.url,
+        events: input.events,
+        secret: WebhookManager.generateSecret(),
+        isActive: false,
+        requiresApproval: true,
+      });
+      await ctx.storage.createAuditLog(
+        AuditLogger.logWebhook(ctx.tenant.tenantId, ctx.userId, 'create', webhook.id, { url: webhook.url })
+      );
+
+      return webhook;
+    }),
+
+  rotateSecret: writeProcedure
+    .input(z.object({ id: z.string(), graceSeconds: z.number().int().min(0).optional() }))
+    .mutation(async ({ ctx, input }) => {
+      const webhook = found(await ctx.storage.getWebhook(ctx.tenant.tenantId, input.id), 'Webhook');
+      RoleGuard.validateResourceOwnership(webhook.userId, ctx.userId, ctx.userRole);
+
+      const rotated = WebhookManager.rotateSecret(webhook, input.graceSeconds);
+      const updated = found(await ctx.storage.updateWebhook(ctx.tenant.tenantId, webhook.id, rotated), 'Webhook');
+      await ctx.storage.createAuditLog(
+        AuditLogger.logWebhook(ctx.tenant.tenantId, ctx.userId, 'update', webhook.id, { secretRotated: true })
+      );
+
+      return { ...redact(updated), secret: updated.secret };
+    }),
+
+  deliveries: readProcedure
+    .input(z.object({ id: z.string(), status: z.enum(['pending', 'succeeded', 'failed']).optional() }))
+    .query(async ({ ctx, input }) => {
+      const webhook = found(await ctx.storage.getWebhook(ctx.tenant.tenantId, input.id), 'Webhook');
+      RoleGuard.validateResourceOwnership(webhook.userId, ctx.userId, ctx.userRole);
+      return ctx.storage.getWebhookDeliveries(ctx.tenant.tenantId, { webhookId: webhook.id, status: input.status });
+    }),
+
+  redeliver: writeProcedure
+    .input(z.object({ id: z.string(), deliveryId: z.string() }))
+    .mutation(async ({ ctx, input }) => {
+      const webhook = found(await ctx.storage.getWebhook(ctx.tenant.tenantId, input.id), 'Webhook');
+      RoleGuard.validateResourceOwnership(webhook.userId, ctx.userId, ctx.userRole);
+
+      const delivery = await ctx.storage.getWebhookDelivery(ctx.tenant.tenantId, input.deliveryId);
+      found(delivery?.webhookId === webhook.id ? delivery : undefined, 'Webhook delivery');
+
+      const result = await new WebhookDispatcher(ctx.storage).redeliver(ctx.tenant.tenantId, input.deliveryId);
+      await ctx.storage.createAuditLog(
+        AuditLogger.logWebhook(ctx.tenant.tenantId, ctx.userId, 'trigger', webhook.id, {
+          deliveryId: input.deliveryId,
+          status: result.status,
+        })
+      );
+
+      return result;
+    }),
+
+  test: writeProcedure
+    .input(z.object({ id: z.string() }))
+    .mutation(async ({ ctx, input }) => {
+      const webhook = found(await ctx.storage.getWebhook(ctx.tenant.tenantId, input.id), 'Webhook');
+      RoleGuard.validateResourceOwnership(webhook.userId, ctx.userId, ctx.userRole);
+      return WebhookManager.test(webhook);
+    }),
+});
@@ -0,0 +1,167 @@
+// tRPC Initialization
+// Procedure builders with tenant, role and API key scope enforcement
+
+import { initTRPC, TRPCError } from '@trpc/server';
+import { AccessDeniedError, TenantIsolationError } from '@edge/core/middleware';
+import type { RoleType } from '@edge/core/policies/access';
+import { ApiKeyManager } from '@edge/core/services/api-key-manager';
+import type { TrpcContext } from './context';
+import { TRPC_CONTRACT_VERSION, isCompatibleContract } from './version';
+
+const t = initTRPC.context<TrpcContext>().create({
+  errorFormatter({ shape, error }) {
+    const domainCode = (error.cause as { code?: unknown } | undefined)?.code;
+    return {
+      ...shape,
+      data: {
+        ...shape.data,
+        domainCode: typeof domainCode === 'string' ? domainCode : undefined,
+        contractVersion: TRPC_CONTRACT_VERSION,
+      },
+    };
+  },
+});
+
+// Domain error codes that map to something more specific than BAD_REQUEST
+const NOT_FOUND_CODES = new Set(['NOT_FOUND', 'ORDER_NOT_FOUND', 'SERVICE_NOT_FOUND', 'WALLET_NOT_FOUND', 'DELIVERY_NOT_FOUND']);
+const CONFLICT_CODES = new Set([
+  'INVALID_STATUS',
+  'INVALID_TRANSITION',
+  'ALREADY_APPROVED',
+  'ALREADY_APPLIED',
+  'CANNOT_CANCEL',
+  'NO_APPROVAL_REQUIRED',
+  'ALREADY_EXISTS',
+  'ALREADY_DELIVERED',
+  'DELIVERY_IN_PROGRESS',
+  'STATE_IN_USE',
+  'WALLET_BUSY',
+  'COMMISSION_SPENT',
+]);
+
+/**
+ * Map core domain errors thrown by resolvers to tRPC error codes
+ */
+export function toTRPCError(error: TRPCError): TRPCError {
+  const cause = error.cause;
+
+  if (error.code !== 'INTERNAL_SERVER_ERROR' || !cause) {
+    return error;
+  }
+
+  if (cause instanceof AccessDeniedError || cause instanceof TenantIsolationError) {
+    return new TRPCError({ code: 'FORBIDDEN', message: cause.message, cause });
+  }
+
+  const domainCode = (cause as { code?: unknown }).code;
+  if (typeof domainCode === 'string') {
+    const code = NOT_FOUND_CODES.has(domainCode)
+      ? 'NOT_FOUND'
+      : CONFLICT_CODES.has(domainCode)
+        ? 'CONFLICT'
+        : 'BAD_REQUEST';
+    return new TRPCError({ code, message: cause.message, cause });
+  }
+
+  return error;
+}
+
+const mapDomainErrors = t.middleware(async ({ next }) => {
+  const result = await next();
+  if (!result.ok) {
+    throw toTRPCError(result.error);
+  }
+  return result;
+});
+
+const enforceContractVersion = t.middleware(({ ctx, next }) => {
+  if (ctx.clientContractVersion && !isCompatibleContract(ctx.clientContractVersion)) {
+    throw new TRPCError({
+      code: 'PRECONDITION_FAILED',
+      message: `Client contract ${ctx.clientContractVersion} is incompatible with server contract ${TRPC_CONTRACT_VERSION}`,
+    });
+  }
+  return next();
+});
+
+const enforceAuthenticated = t.middleware(({ ctx, next }) => {
+  const { userId } = ctx.tenant;
+
+  if (!userId || !ctx.userRole) {
+    throw new TRPCError({ code: 'UNAUTHORIZED', message: 'Authentication required' });
+  }
+
+  if (!ctx.storage) {
+    throw new TRPCError({ code: 'INTERNAL_SERVER_ERROR', message: 'Storage is not configured for this runtime' });
+  }
+
+  return next({
+    ctx: {
+      ...ctx,
+      tenant: { ...ctx.tenant, userId },
+      userId,
+      userRole: ctx.userRole,
+      storage: ctx.storage,
+    },
+  });
+});
+
+export const router = t.router;
+export const middleware = t.middleware;
+
+/**
+ * Procedure open to any caller within a tenant
+ */
+export const publicProcedure = t.procedure.use(mapDomainErrors).use(enforceContractVersion);
+
+/**
+ * Procedure requiring an authenticated user and bound storage
+ */
+export const protectedProcedure = publicProcedure.use(enforceAuthenticated);
+
+/**
+ * Procedure restricted to the given roles
+ */
+export function roleProcedure(...roles: RoleType[]) {
+  return protectedProcedure.use(({ ctx, next }) => {
+    if (!roles.includes(ctx.userRole)) {
+      throw new TRPCError({ code: 'FORBIDDEN', message: 'Insufficient permissions' });
+    }
+    return next();
+  });
+}
+
+/**
+ * Procedure restricted to tenant admins
+ */
+export const adminProcedure = roleProcedure('super_admin', 'admin');
+
+/**
+ * Require an API key scope when the request was authenticated by an API key.
+ * Session callers are governed by their role alone.
+ */
+export function requireScope(scope: string) {
+  return t.middleware(({ ctx, next }) => {
+    if (ctx.apiKeyScopes) {
+      const validation = ApiKeyManager.validateScope(scope, ctx.apiKeyScopes);
+      if (!validation.valid) {
+        throw new TRPCError({ code: 'FORBIDDEN', message: validation.error! });
+      }
+    }
+    return next();
+  });
+}
+
+/**
+ * Throw NOT_FOUND when a tenant-scoped lookup came back empty
+ */
+export function found<T>(value: T | undefined | null, resource: string): T {
+  if (value === undefined || value === null) {
+    throw new TRPCError({ code: 'NOT_FOUND', message: `${resource} not found` });
+  }
+  return value;
+}
+
+export function isAdminRole(role: RoleType): boolean {
+  return role === 'super_admin' || role === 'admin';
+}
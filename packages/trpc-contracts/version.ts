@@ -0,0 +1,14 @@
+// Contract Version
+// Bumped on every breaking change to procedure names, inputs or outputs
+
+export const TRPC_CONTRACT_VERSION = '1.0.0';
+
+// Header clients send so the server can reject an incompatible contract
+export const TRPC_CONTRACT_VERSION_HEADER = 'x-trpc-contract-version';
+
+/**
+ * Contracts are compatible when their major versions match
+ */
+export function isCompatibleContract(clientVersion: string, serverVersion: string = TRPC_CONTRACT_VERSION): boolean {
+  return clientVersion.split('.')[0] === serverVersion.split('.')[0];
+}
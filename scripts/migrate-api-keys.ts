@@ -0,0 +1,37 @@
+#!/usr/bin/env tsx
+/**
+ * API Key Hash Migration
+ *
+ * Re-hashes API keys still stored with the legacy base64 encoding.
+ * Legacy hashes are reversible, so every row can be upgraded without the
+ * original key; keys that are used before this runs are upgraded on first use.
+ * Set API_KEY_PEPPER to the value the API runs with.
+ *
+ * Usage: DATABASE_URL=sqlite.db npx tsx scripts/migrate-api-keys.ts
+ */
+
+import { eq } from 'drizzle-orm';
+import { db } from '../server/db';
+import { apiKeys } from '../shared/schema';
+import { ApiKeyManager } from '../packages/core/services/api-key-manager';
+
+async function main() {
+  const pepper = process.env.API_KEY_PEPPER;
+  const rows = await db.select().from(apiKeys);
+  let migrated = 0;
+
+  for (const row of rows) {
+    const keyHash = await ApiKeyManager.migrateLegacyHash(row.keyHash, pepper);
+    if (keyHash) {
+      await db.update(apiKeys).set({ keyHash }).where(eq(apiKeys.id, row.id));
+      migrated++;
+    }
+  }
+
+  console.log(`Migrated ${migrated} of ${rows.length} API keys${pepper ? ' (peppered)' : ''}`);
+}
+
+main().catch((error) => {
+  console.error('API key migration failed:', error);
+  process.exit(1);
+});
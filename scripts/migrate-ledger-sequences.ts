@@ -0,0 +1,33 @@
+#!/usr/bin/env tsx
+/**
+ * Ledger Sequence Migration
+ *
+ * Numbers the transactions of every wallet (`transactions.sequence`) in a
+ * database created before wallet ledgers were sequenced. Run it before
+ * `npm run db:push`, which cannot add the NOT NULL column to a table that
+ * already holds rows. Databases that have the column are left alone.
+ *
+ * Usage: DATABASE_URL=sqlite.db npx tsx scripts/migrate-ledger-sequences.ts
+ */
+
+import Database from 'better-sqlite3';
+import { migrateLedgerSequences } from '../server/migrations/ledger-sequences';
+
+function main() {
+  const connection = new Database(process.env.DATABASE_URL || 'sqlite.db');
+  try {
+    const { numbered, skipped } = migrateLedgerSequences(connection);
+    console.log(skipped
+      ? 'Transactions are already sequenced; nothing to do'
+      : `Numbered ${numbered} transactions`);
+  } finally {
+    connection.close();
+  }
+}
+
+try {
+  main();
+} catch (error) {
+  console.error('Ledger sequence migration failed:', error);
+  process.exit(1);
+}
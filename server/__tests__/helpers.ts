@@ -0,0 +1,25 @@
+import Database from "better-sqlite3";
+import { drizzle } from "drizzle-orm/better-sqlite3";
+import { generateSQLiteDrizzleJson, generateSQLiteMigration } from "drizzle-kit/api";
+import * as schema from "@shared/schema";
+import { DatabaseStorage, serialized, type IStorage } from "../storage";
+
+let statements: Promise<string[]> | undefined;
+
+// CREATE statements for the current schema, generated once per test file
+function schemaStatements(): Promise<string[]> {
+  statements ??= Promise.all([generateSQLiteDrizzleJson({}), generateSQLiteDrizzleJson(schema)])
+    .then(([empty, current]) => generateSQLiteMigration(empty, current));
+  return statements;
+}
+
+/**
+ * Storage over a fresh in-memory database with the schema applied
+ */
+export async function createTestStorage(): Promise<{ storage: IStorage; connection: Database.Database }> {
+  const connection = new Database(":memory:");
+  for (const statement of await schemaStatements()) {
+    connection.exec(statement);
+  }
+  return { storage: serialized(new DatabaseStorage(drizzle(connection, { schema }))), connection };
+}
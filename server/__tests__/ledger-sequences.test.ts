@@ -0,0 +1,59 @@
+import { describe, it, expect, beforeEach } from 'vitest';
+import Database from 'better-sqlite3';
+import { migrateLedgerSequences } from '../migrations/ledger-sequences';
+
+describe('migrateLedgerSequences', () => {
+  let connection: Database.Database;
+
+  const insert = (id: string, walletId: string, createdAt: string) => connection
+    .prepare('INSERT INTO transactions (id, wallet_id, amount, created_at) VALUES (?, ?, 100, ?)')
+    .run(id, walletId, createdAt);
+  const sequences = () => connection
+    .prepare('SELECT id, sequence FROM transactions ORDER BY wallet_id, sequence')
+    .all() as Array<{ id: string; sequence: number }>;
+
+  beforeEach(() => {
+    // The ledger as it was before transactions had a sequence
+    connection = new Database(':memory:');
+    connection.exec(`CREATE TABLE transactions (
+      id text PRIMARY KEY NOT NULL,
+      wallet_id text NOT NULL,
+      amount integer NOT NULL,
+      created_at text DEFAULT (CURRENT_TIMESTAMP)
+    )`);
+  });
+
+  it('numbers each wallet from 1 in creation order, insertion order breaking ties', () => {
+    insert('a-late', 'wallet-a', '2026-01-03T00:00:00.000Z');
+    insert('b-first', 'wallet-b', '2026-01-01T00:00:00.000Z');
+    insert('a-tie-1', 'wallet-a', '2026-01-01T00:00:00.000Z');
+    insert('a-tie-2', 'wallet-a', '2026-01-01T00:00:00.000Z');
+
+    expect(migrateLedgerSequences(connection)).toEqual({ numbered: 4, skipped: false });
+
+    expect(sequences()).toEqual([
+      { id: 'a-tie-1', sequence: 1 },
+      { id: 'a-tie-2', sequence: 2 },
+      { id: 'a-late', sequence: 3 },
+      { id: 'b-first', sequence: 1 },
+    ]);
+  });
+
+  it('adds the unique wallet sequence index', () => {
+    insert('a-1', 'wallet-a', '2026-01-01T00:00:00.000Z');
+    migrateLedgerSequences(connection);
+
+    expect(() => connection
+      .prepare("INSERT INTO transactions (id, wallet_id, amount, sequence) VALUES ('a-2', 'wallet-a', 100, 1)")
+      .run()
+    ).toThrow(/UNIQUE/);
+  });
+
+  it('leaves a sequenced ledger alone', () => {
+    insert('a-1', 'wallet-a', '2026-01-01T00:00:00.000Z');
+    migrateLedgerSequences(connection);
+
+    expect(migrateLedgerSequences(connection)).toEqual({ numbered: 0, skipped: true });
+    expect(sequences()).toEqual([{ id: 'a-1', sequence: 1 }]);
+  });
+});
@@ -0,0 +1,79 @@
+import { describe, it, expect, beforeEach } from 'vitest';
+import type { IStorage } from '../storage';
+import { createTestStorage } from './helpers';
+
+describe('DatabaseStorage.transaction', () => {
+  let storage: IStorage;
+
+  beforeEach(async () => {
+    ({ storage } = await createTestStorage());
+  });
+
+  const slugs = async () => (await storage.getTenants()).map(tenant => tenant.slug).sort();
+
+  it('commits writes made through tx', async () => {
+    await storage.transaction(async tx => {
+      await tx.createTenant({ name: 'A', slug: 'a' });
+      await tx.createTenant({ name: 'B', slug: 'b' });
+    });
+
+    expect(await slugs()).toEqual(['a', 'b']);
+  });
+
+  it('rolls back every write when the callback throws', async () => {
+    await expect(storage.transaction(async tx => {
+      await tx.createTenant({ name: 'A', slug: 'a' });
+      throw new Error('boom');
+    })).rejects.toThrow('boom');
+
+    expect(await slugs()).toEqual([]);
+  });
+
+  it('keeps writes from other callers out of an open transaction', async () => {
+    let release!: () => void;
+    const paused = new Promise<void>(resolve => { release = resolve; });
+
+    const failing = storage.transaction(async tx => {
+      await tx.createTenant({ name: 'A', slug: 'a' });
+      await paused;
+      throw new Error('boom');
+    });
+    // Made while the transaction is open; must neither join it nor be rolled back with it
+    const outside = storage.createTenant({ name: 'B', slug: 'b' });
+    release();
+
+    await expect(failing).rejects.toThrow('boom');
+    await outside;
+    expect(await slugs()).toEqual(['b']);
+  });
+
+  it('runs root storage calls made inside the callback in the transaction', async () => {
+    await expect(storage.transaction(async () => {
+      await storage.createTenant({ name: 'A', slug: 'a' });
+      await storage.transaction(async () => {
+        await storage.createTenant({ name: 'B', slug: 'b' });
+      });
+      throw new Error('boom');
+    })).rejects.toThrow('boom');
+
+    expect(await slugs()).toEqual([]);
+  });
+
+  it('queues work started by a callback after its transaction commits', async () => {
+    let later: Promise<unknown> | undefined;
+    await storage.transaction(async tx => {
+      await tx.createTenant({ name: 'A', slug: 'a' });
+      later = Promise.resolve().then(() => new Promise(resolve => setTimeout(resolve, 5)))
+        .then(() => storage.createTenant({ name: 'B', slug: 'b' }));
+    });
+
+    await expect(storage.transaction(async tx => {
+      await tx.createTenant({ name: 'C', slug: 'c' });
+      await new Promise(resolve => setTimeout(resolve, 20));
+      throw new Error('boom');
+    })).rejects.toThrow('boom');
+    await later;
+
+    expect(await slugs()).toEqual(['a', 'b']);
+  });
+});
@@ -1,7 +1,7 @@
 import express, { type Request, Response, NextFunction } from "express";
 import { registerRoutes } from "./routes";
 import { serveStatic } from "./static";
-import { createServer } from "http";
+import { createServer, type IncomingMessage } from "http";
 
 const app = express();
 const httpServer = createServer(app);
@@ -12,15 +12,17 @@ declare module "http" {
   }
 }
 
-app.use(
-  express.json({
-    verify: (req, _res, buf) => {
-      req.rawBody = buf;
-    },
-  }),
-);
+// The core app re-reads the exact bytes (signature checks, uploaded files)
+const captureRawBody = (req: IncomingMessage, _res: unknown, buf: Buffer) => {
+  req.rawBody = buf;
+};
+
+app.use(express.json({ verify: captureRawBody }));
+
+app.use(express.urlencoded({ extended: false, verify: captureRawBody }));
 
-app.use(express.urlencoded({ extended: false }));
+// Provider results files
+app.use(express.text({ type: ["text/csv", "text/plain"], limit: "10mb", verify: captureRawBody }));
 
 export function log(message: string, source = "express") {
   const formattedTime = new Date().toLocaleTimeString("en-US", {
@@ -0,0 +1,39 @@
+import type Database from "better-sqlite3";
+
+export interface LedgerSequenceMigrationResult {
+  numbered: number; // transactions given a sequence
+  skipped: boolean; // the column was already there
+}
+
+/**
+ * Add `transactions.sequence` to a database created before wallet ledgers were
+ * sequenced, numbering each wallet's transactions from 1 in the order they
+ * were created (insertion order breaks ties), then add the unique
+ * `(wallet_id, sequence)` index the ledger's conditional inserts rely on.
+ *
+ * Runs in one transaction; a database that already has the column is left alone.
+ */
+export function migrateLedgerSequences(connection: Database.Database): LedgerSequenceMigrationResult {
+  const columns = connection.prepare("PRAGMA table_info(transactions)").all() as Array<{ name: string }>;
+  if (columns.some(column => column.name === "sequence")) {
+    return { numbered: 0, skipped: true };
+  }
+
+  return connection.transaction(() => {
+    // SQLite only adds NOT NULL columns with a default; every row is numbered below
+    connection.exec("ALTER TABLE transactions ADD COLUMN sequence integer NOT NULL DEFAULT 0");
+    const { changes } = connection.prepare(`
+      UPDATE transactions
+      SET sequence = numbered.position
+      FROM (
+        SELECT rowid AS row, ROW_NUMBER() OVER (PARTITION BY wallet_id ORDER BY created_at, rowid) AS position
+        FROM transactions
+      ) AS numbered
+      WHERE numbered.row = transactions.rowid
+    `).run();
+    connection.exec(
+      "CREATE UNIQUE INDEX IF NOT EXISTS transactions_wallet_sequence_idx ON transactions (wallet_id, sequence)"
+    );
+    return { numbered: changes, skipped: false };
+  })();
+}
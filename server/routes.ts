@@ -2,8 +2,24 @@ import type { Express } from "express";
 import type { Server } from "http";
 import { storage } from "./storage";
 import { api } from "@shared/routes";
-import { z } from "zod";
 import coreApp from "../apps/api/src/index"; // Import the Hono core app
+import { registerScheduledJobs } from "../apps/api/src/jobs";
+import { PasswordHasher } from "@edge/core/services/password-hasher";
+import { randomToken } from "@edge/core/services/crypto";
+import { IntervalScheduler, NodeAdapter, type RuntimeEnv } from "@edge/adapters";
+import { DiskBlobStore } from "@edge/adapters/base/disk-blob-store";
+
+// Access tokens are signed with JWT_SECRET. Development falls back to a
+// per-process secret, so sessions do not survive a restart.
+const jwtSecret = process.env.JWT_SECRET
+  || (process.env.NODE_ENV === "production" ? undefined : randomToken(32));
+
+// Background work (webhook delivery) keeps running after the response in Node
+const runtime = new NodeAdapter(process.env as RuntimeEnv);
+const blobs = new DiskBlobStore(process.env.BLOB_STORAGE_DIR || "data/blobs");
+
+// Background jobs (pending provider order sync, catalog sync) run on timers in Node
+const scheduler = new IntervalScheduler();
 
 export async function registerRoutes(
   httpServer: Server,
@@ -58,51 +74,43 @@ export async function registerRoutes(
     res.json({ status: 'ok', runtime: 'node-adapter' });
   });
 
-  // 2. Tenants
-  app.get(api.tenants.list.path, async (req, res) => {
-    const tenants = await storage.getTenants();
-    res.json(tenants);
-  });
-
-  app.post(api.tenants.create.path, async (req, res) => {
+  // 2. Tenants, users and the GSMFlow resources are served by the Hono core app with Node storage injected
+  app.use('/api', async (req, res, next) => {
     try {
-      const input = api.tenants.create.input.parse(req.body);
-      const tenant = await storage.createTenant(input);
-      res.status(201).json(tenant);
-    } catch (e) {
-      if (e instanceof z.ZodError) {
-        res.status(400).json({ message: e.errors[0].message });
-      } else {
-        res.status(500).json({ message: "Internal Server Error" });
+      const headers = new Headers();
+      for (const [key, value] of Object.entries(req.headers)) {
+        if (typeof value === 'string') headers.set(key, value);
+        else if (Array.isArray(value)) headers.set(key, value.join(', '));
       }
-    }
-  });
-
-  app.get(api.tenants.get.path, async (req, res) => {
-    const tenant = await storage.getTenant(req.params.id);
-    if (!tenant) return res.status(404).json({ message: "Tenant not found" });
-    res.json(tenant);
-  });
 
-  // 3. Users
-  app.get(api.users.list.path, async (req, res) => {
-    const users = await storage.getUsers(req.query.tenantId as string);
-    res.json(users);
-  });
+      const hasBody = req.method !== 'GET' && req.method !== 'HEAD' && req.rawBody instanceof Buffer;
+      const request = new Request(`${req.protocol}://${req.get('host')}${req.originalUrl}`, {
+        method: req.method,
+        headers,
+        body: hasBody ? (req.rawBody as Buffer) : undefined,
+      });
 
-  app.post(api.users.create.path, async (req, res) => {
-    try {
-      const input = api.users.create.input.parse(req.body);
-      const user = await storage.createUser(input);
-      res.status(201).json(user);
-    } catch (e) {
-      res.status(400).json({ message: "Validation error" });
+      const response = await coreApp.fetch(request, {
+        storage,
+        JWT_SECRET: jwtSecret,
+        API_KEY_PEPPER: process.env.API_KEY_PEPPER,
+        runtime,
+        blobs,
+      });
+      res.status(response.status);
+      response.headers.forEach((value, key) => res.setHeader(key, value));
+      res.send(Buffer.from(await response.arrayBuffer()));
+    } catch (error) {
+      next(error);
     }
   });
 
   // Seed Data
   await seedDatabase();
 
+  registerScheduledJobs(scheduler, storage);
+  httpServer.on("close", () => scheduler.stop());
+
   return httpServer;
 }
 
@@ -110,21 +118,42 @@ async function seedDatabase() {
   const tenants = await storage.getTenants();
   if (tenants.length === 0) {
     console.log("Seeding database...");
-    const tenant = await storage.createTenant({
+    await storage.createTenant({
       name: "Acme Corp",
       slug: "acme-corp",
       status: "active",
       config: { region: "us-east" } as any
     });
+    console.log("Database seeded!");
+  }
 
-    await storage.createUser({
-      tenantId: tenant.id,
-      email: "admin@acme.com",
-      name: "Admin User",
-      role: "owner",
-      passwordHash: "hashed_secret" // Foundation only
-    });
+  await seedAdmin();
+}
 
-    console.log("Database seeded!");
+// The admin can only log in with a password chosen by the operator, so it is
+// only seeded when SEED_ADMIN_PASSWORD is set and never echoed
+async function seedAdmin() {
+  const email = "admin@acme.com";
+  const password = process.env.SEED_ADMIN_PASSWORD;
+  if (await storage.getUserByEmail(email)) {
+    return;
+  }
+  if (!password) {
+    console.log(`Set SEED_ADMIN_PASSWORD to seed the ${email} admin user`);
+    return;
+  }
+
+  const tenant = await storage.getTenantBySlug("acme-corp");
+  if (!tenant) {
+    return;
   }
+
+  await storage.createUser({
+    tenantId: tenant.id,
+    email,
+    name: "Admin User",
+    role: "admin",
+    passwordHash: await PasswordHasher.hash(password),
+  });
+  console.log(`Seeded ${email}`);
 }
@@ -1,16 +1,121 @@
+import { AsyncLocalStorage } from "node:async_hooks";
 import { db } from "./db";
 import {
   tenants,
   users,
   apiKeys,
+  sessions,
+  auditLogs,
+  wallets,
+  transactions,
+  walletCheckpoints,
+  journalLines,
+  exchangeRates,
+  providers,
+  services,
+  providerServiceMappings,
+  pricingRules,
+  orders,
+  orderItems,
+  orderEvents,
+  serviceGroups,
+  invoices,
+  paymentMethods,
+  webhooks,
+  webhookDeliveries,
+  eventOutbox,
+  providerBatches,
+  catalogSyncs,
+  providerHealth,
+  orderStateMachines,
   type InsertTenant,
   type InsertUser,
   type InsertApiKey,
+  type InsertSession,
+  type Session,
+  type InsertTransaction,
+  type InsertOrder,
   type Tenant,
   type User,
-  type ApiKey
+  type ApiKey,
+  type AuditLog,
+  type InsertAuditLog,
+  type Wallet,
+  type Transaction,
+  type WalletCheckpoint,
+  type JournalLine,
+  type InsertJournalLine,
+  type InsertWalletCheckpoint,
+  type ExchangeRate,
+  type InsertExchangeRate,
+  type Provider,
+  type Service,
+  type ProviderServiceMapping,
+  type PricingRule,
+  type Order,
+  type OrderItem,
+  type InsertOrderItem,
+  type OrderEvent,
+  type InsertOrderEvent,
+  type ServiceGroup,
+  type Invoice,
+  type PaymentMethod,
+  type Webhook,
+  type InsertWallet,
+  type InsertProvider,
+  type InsertServiceGroup,
+  type InsertService,
+  type InsertProviderServiceMapping,
+  type InsertPricingRule,
+  type InsertInvoice,
+  type InsertPaymentMethod,
+  type InsertWebhook,
+  type WebhookDelivery,
+  type EventOutboxEntry,
+  type InsertEventOutboxEntry,
+  type InsertWebhookDelivery,
+  type ProviderBatch,
+  type InsertProviderBatch,
+  type CatalogSync,
+  type InsertCatalogSync,
+  type ProviderHealth,
+  type InsertProviderHealth,
+  type OrderStateMachineRecord,
+  type InsertOrderStateMachineRecord,
 } from "@shared/schema";
-import { eq } from "drizzle-orm";
+import { and, asc, desc, eq, gt, gte, inArray, isNull, lt, lte, sql } from "drizzle-orm";
+
+export interface ServiceFilter {
+  groupId?: string;
+  isActive?: boolean;
+}
+
+export interface OrderFilter {
+  userId?: string;
+  status?: string;
+  providerId?: string;
+}
+
+export interface WebhookDeliveryFilter {
+  webhookId?: string;
+  status?: string;
+  limit?: number;
+}
+
+export interface TransactionFilter {
+  walletIds?: string[];
+  referenceType?: string;
+  referenceId?: string;
+  from?: string; // completedAt at or after
+  to?: string; // completedAt before
+}
+
+export interface JournalTotal {
+  account: string;
+  currency: string;
+  debit: number;
+  credit: number;
+}
 
 // Adapter Interface (Node.js Implementation)
 // In a full edge deployment, this would be injected via the 'packages/adapters' layer
@@ -20,71 +125,1180 @@ export interface IStorage {
   getTenant(id: string): Promise<Tenant | undefined>;
   getTenantBySlug(slug: string): Promise<Tenant | undefined>;
   createTenant(tenant: InsertTenant): Promise<Tenant>;
+  updateTenant(id: string, updates: Partial<InsertTenant>): Promise<Tenant | undefined>;
 
   // User Operations
   getUsers(tenantId?: string): Promise<User[]>;
   getUser(id: string): Promise<User | undefined>;
   getUserByEmail(email: string): Promise<User | undefined>;
   createUser(user: InsertUser): Promise<User>;
+  updateUser(id: string, updates: Partial<InsertUser>): Promise<User | undefined>;
+
+  // Session Operations
+  getSession(id: string): Promise<Session | undefined>;
+  createSession(session: InsertSession): Promise<Session>;
+  updateSession(id: string, updates: Partial<InsertSession>): Promise<Session | undefined>;
+  // Replaces the refresh token only if the live session still holds
+  // `refreshTokenHash`; undefined when another refresh rotated it first
+  rotateSession(id: string, refreshTokenHash: string, updates: Partial<InsertSession>): Promise<Session | undefined>;
 
   // API Key Operations
   createApiKey(key: InsertApiKey): Promise<ApiKey>;
   listApiKeys(tenantId: string): Promise<ApiKey[]>;
+  getApiKeysByPrefix(keyPrefix: string): Promise<ApiKey[]>;
+  updateApiKey(id: string, updates: Partial<ApiKey>): Promise<ApiKey | undefined>;
+
+  // Audit Log Operations
+  createAuditLog(entry: InsertAuditLog): Promise<AuditLog>;
+
+  // Service Catalog Operations
+  getServiceGroups(tenantId: string): Promise<ServiceGroup[]>;
+  getServiceGroup(tenantId: string, id: string): Promise<ServiceGroup | undefined>;
+  createServiceGroup(group: InsertServiceGroup): Promise<ServiceGroup>;
+  updateServiceGroup(tenantId: string, id: string, updates: Partial<InsertServiceGroup>): Promise<ServiceGroup | undefined>;
+  getServices(tenantId: string, filter?: ServiceFilter): Promise<Service[]>;
+  getService(tenantId: string, id: string): Promise<Service | undefined>;
+  createService(service: InsertService): Promise<Service>;
+  updateService(tenantId: string, id: string, updates: Partial<InsertService>): Promise<Service | undefined>;
+  getPricingRules(tenantId: string, serviceId: string): Promise<PricingRule[]>;
+  getPricingRule(tenantId: string, id: string): Promise<PricingRule | undefined>;
+  createPricingRule(rule: InsertPricingRule): Promise<PricingRule>;
+  updatePricingRule(tenantId: string, id: string, updates: Partial<InsertPricingRule>): Promise<PricingRule | undefined>;
+
+  // Provider Operations
+  getProviders(tenantId: string): Promise<Provider[]>;
+  getProvider(tenantId: string, id: string): Promise<Provider | undefined>;
+  getProviderBySlug(tenantId: string, slug: string): Promise<Provider | undefined>;
+  createProvider(provider: InsertProvider): Promise<Provider>;
+  updateProvider(tenantId: string, id: string, updates: Partial<Provider>): Promise<Provider | undefined>;
+  // Sets statusSyncAt only if it still holds the value `provider` was read with;
+  // undefined when another run changed it first
+  claimProviderStatusSync(provider: Provider, claimedAt: string): Promise<Provider | undefined>;
+  getProviderServiceMappings(tenantId: string, serviceId: string): Promise<ProviderServiceMapping[]>;
+  getProviderServiceMappingsByProvider(tenantId: string, providerId: string): Promise<ProviderServiceMapping[]>;
+  createProviderServiceMapping(mapping: InsertProviderServiceMapping): Promise<ProviderServiceMapping>;
+  updateProviderServiceMapping(tenantId: string, id: string, updates: Partial<InsertProviderServiceMapping>): Promise<ProviderServiceMapping | undefined>;
+
+  // Wallet Operations
+  getWallets(tenantId: string, userId?: string): Promise<Wallet[]>;
+  getWallet(tenantId: string, id: string): Promise<Wallet | undefined>;
+  getWalletByUser(tenantId: string, userId: string, currency: string): Promise<Wallet | undefined>;
+  createWallet(wallet: InsertWallet): Promise<Wallet>;
+  // In ledger order; `afterSequence` skips what a checkpoint already covers
+  getWalletTransactions(tenantId: string, walletId: string, afterSequence?: number): Promise<Transaction[]>;
+  // Conditional insert: undefined, and nothing written, when one of the
+  // sequences is already taken in its wallet
+  appendWalletTransactions(entries: InsertTransaction[]): Promise<Transaction[] | undefined>;
+  // Across wallets, oldest first
+  getTransactions(tenantId: string, filter?: TransactionFilter): Promise<Transaction[]>;
+  // Sum of the wallet's outgoing transfers completed at or after `since`
+  getTransferredAmount(tenantId: string, walletId: string, since: string): Promise<number>;
+  getWalletCheckpoints(tenantId: string, walletId: string): Promise<WalletCheckpoint[]>;
+  getLatestWalletCheckpoint(tenantId: string, walletId: string): Promise<WalletCheckpoint | undefined>;
+  createWalletCheckpoint(checkpoint: InsertWalletCheckpoint): Promise<void>;
+
+  // Journal Operations
+  getJournalLines(tenantId: string, transactionId: string): Promise<JournalLine[]>;
+  createJournalLines(lines: InsertJournalLine[]): Promise<void>;
+  // Debits and credits summed per account and currency, across all wallets
+  getJournalTotals(tenantId: string): Promise<JournalTotal[]>;
+
+  // Exchange Rate Operations
+  // Newest first; with a pair, only that pair's history
+  getExchangeRates(tenantId: string, pair?: { base: string; quote: string }): Promise<ExchangeRate[]>;
+  // The pair's latest rate in effect at `at`
+  getExchangeRate(tenantId: string, base: string, quote: string, at: string): Promise<ExchangeRate | undefined>;
+  createExchangeRates(rates: InsertExchangeRate[]): Promise<ExchangeRate[]>;
+
+  // Order Operations
+  getOrders(tenantId: string, filter?: OrderFilter): Promise<Order[]>;
+  getOrder(tenantId: string, id: string): Promise<Order | undefined>;
+  getOrderByProviderOrderId(tenantId: string, providerId: string, providerOrderId: string): Promise<Order | undefined>;
+  createOrder(order: InsertOrder): Promise<Order>;
+  updateOrder(tenantId: string, id: string, updates: Partial<InsertOrder>): Promise<Order | undefined>;
+  // Applies `updates` only while the order is still in `status`; undefined once it has moved on
+  updateOrderIfStatus(tenantId: string, id: string, status: string, updates: Partial<InsertOrder>): Promise<Order | undefined>;
+  getOrderItems(tenantId: string, orderId: string): Promise<OrderItem[]>;
+  getOrderItem(tenantId: string, id: string): Promise<OrderItem | undefined>;
+  // Items dispatched to the provider, oldest first
+  getProviderOrderItems(tenantId: string, providerId: string, status: string): Promise<OrderItem[]>;
+  getOrderItemByProviderOrderId(tenantId: string, providerId: string, providerOrderId: string): Promise<OrderItem | undefined>;
+  createOrderItems(items: InsertOrderItem[]): Promise<OrderItem[]>;
+  updateOrderItem(tenantId: string, id: string, updates: Partial<InsertOrderItem>): Promise<OrderItem | undefined>;
+  // Oldest first
+  getOrderEvents(tenantId: string, orderId: string): Promise<OrderEvent[]>;
+  createOrderEvent(event: InsertOrderEvent): Promise<OrderEvent>;
+
+  // Invoice Operations
+  getInvoices(tenantId: string, userId?: string): Promise<Invoice[]>;
+  getInvoice(tenantId: string, id: string): Promise<Invoice | undefined>;
+  createInvoice(invoice: InsertInvoice): Promise<Invoice>;
+  updateInvoice(tenantId: string, id: string, updates: Partial<InsertInvoice>): Promise<Invoice | undefined>;
+
+  // Payment Method Operations
+  getPaymentMethods(tenantId: string): Promise<PaymentMethod[]>;
+  createPaymentMethod(method: InsertPaymentMethod): Promise<PaymentMethod>;
+  updatePaymentMethod(tenantId: string, id: string, updates: Partial<InsertPaymentMethod>): Promise<PaymentMethod | undefined>;
+
+  // Webhook Operations
+  getWebhooks(tenantId: string, userId?: string): Promise<Webhook[]>;
+  getWebhook(tenantId: string, id: string): Promise<Webhook | undefined>;
+  createWebhook(webhook: InsertWebhook): Promise<Webhook>;
+  updateWebhook(tenantId: string, id: string, updates: Partial<Webhook>): Promise<Webhook | undefined>;
+  // Increments consecutiveFailures in place, so concurrent failures all count
+  recordWebhookFailure(tenantId: string, id: string, failedAt: string): Promise<Webhook | undefined>;
+
+  // Webhook Delivery Operations
+  getWebhookDeliveries(tenantId: string, filter?: WebhookDeliveryFilter): Promise<WebhookDelivery[]>;
+  getWebhookDelivery(tenantId: string, id: string): Promise<WebhookDelivery | undefined>;
+  // Pending deliveries whose retry time has passed, oldest first
+  getDueWebhookDeliveries(now: string, limit: number, tenantId?: string): Promise<WebhookDelivery[]>;
+  createWebhookDelivery(delivery: InsertWebhookDelivery): Promise<WebhookDelivery>;
+  updateWebhookDelivery(tenantId: string, id: string, updates: Partial<WebhookDelivery>): Promise<WebhookDelivery | undefined>;
+  // Moves nextRetryAt to `leaseUntil` while the delivery still has the status and
+  // nextRetryAt it was read with; undefined when another processor claimed it first
+  claimWebhookDelivery(delivery: WebhookDelivery, leaseUntil: string): Promise<WebhookDelivery | undefined>;
+
+  // Provider Batch Operations
+  getProviderBatches(tenantId: string, providerId: string): Promise<ProviderBatch[]>;
+  getProviderBatch(tenantId: string, id: string): Promise<ProviderBatch | undefined>;
+  createProviderBatch(batch: InsertProviderBatch): Promise<ProviderBatch>;
+
+  // Catalog Sync Operations
+  // Newest first
+  getCatalogSyncs(tenantId: string, providerId: string): Promise<CatalogSync[]>;
+  getCatalogSync(tenantId: string, id: string): Promise<CatalogSync | undefined>;
+  createCatalogSync(sync: InsertCatalogSync): Promise<CatalogSync>;
+  updateCatalogSync(tenantId: string, id: string, updates: Partial<InsertCatalogSync>): Promise<CatalogSync | undefined>;
+
+  // Provider Health Operations
+  getProviderHealth(tenantId: string, providerId: string): Promise<ProviderHealth | undefined>;
+  // Insert or replace the provider's row
+  saveProviderHealth(health: InsertProviderHealth): Promise<ProviderHealth>;
+
+  // Order State Machine Operations
+  getOrderStateMachine(tenantId: string): Promise<OrderStateMachineRecord | undefined>;
+  // Insert or replace the tenant's row
+  saveOrderStateMachine(machine: InsertOrderStateMachineRecord): Promise<OrderStateMachineRecord>;
+  deleteOrderStateMachine(tenantId: string): Promise<void>;
+
+  // Event Outbox Operations
+  createOutboxEvent(entry: InsertEventOutboxEntry): Promise<EventOutboxEntry>;
+  // Pending events whose availableAt has passed, oldest first
+  getPendingOutboxEvents(now: string, limit: number, tenantId?: string): Promise<EventOutboxEntry[]>;
+  // Lease a pending event, only if no other processor leased it since it was read
+  claimOutboxEvent(entry: EventOutboxEntry, leaseUntil: string): Promise<EventOutboxEntry | undefined>;
+  updateOutboxEvent(id: string, updates: Partial<EventOutboxEntry>): Promise<EventOutboxEntry | undefined>;
+
+  // Run a unit of work atomically. Writes made through `tx` are committed
+  // together or rolled back together if the callback throws.
+  transaction<T>(fn: (tx: IStorage) => Promise<T>): Promise<T>;
+}
+
+type Database = typeof db;
+
+interface OpenTransaction {
+  storage: DatabaseStorage;
+  open: boolean;
 }
 
+// The transaction whose callback the current async call chain is running in
+const currentTransaction = new AsyncLocalStorage<OpenTransaction>();
+
 export class DatabaseStorage implements IStorage {
+  // Serializes work on the shared SQLite connection: transactions and, through
+  // `serialized`, every call made outside of one
+  private queue: Promise<unknown> = Promise.resolve();
+
+  constructor(
+    private readonly database: Database = db,
+    private readonly inTransaction: boolean = false
+  ) {}
+
   // Tenants
   async getTenants(): Promise<Tenant[]> {
-    return await db.select().from(tenants);
+    return await this.database.select().from(tenants);
   }
 
   async getTenant(id: string): Promise<Tenant | undefined> {
-    const [tenant] = await db.select().from(tenants).where(eq(tenants.id, id));
+    const [tenant] = await this.database.select().from(tenants).where(eq(tenants.id, id));
     return tenant;
   }
 
   async getTenantBySlug(slug: string): Promise<Tenant | undefined> {
-    const [tenant] = await db.select().from(tenants).where(eq(tenants.slug, slug));
+    const [tenant] = await this.database.select().from(tenants).where(eq(tenants.slug, slug));
     return tenant;
   }
 
   async createTenant(tenant: InsertTenant): Promise<Tenant> {
-    const [newTenant] = await db.insert(tenants).values(tenant).returning();
+    const [newTenant] = await this.database.insert(tenants).values(tenant).returning();
     return newTenant;
   }
 
+  async updateTenant(id: string, updates: Partial<InsertTenant>): Promise<Tenant | undefined> {
+    const [tenant] = await this.database
+      .update(tenants)
+      .set({ ...updates, updatedAt: new Date().toISOString() })
+      .where(eq(tenants.id, id))
+      .returning();
+    return tenant;
+  }
+
   // Users
   async getUsers(tenantId?: string): Promise<User[]> {
     if (tenantId) {
-      return await db.select().from(users).where(eq(users.tenantId, tenantId));
+      return await this.database.select().from(users).where(eq(users.tenantId, tenantId));
     }
-    return await db.select().from(users);
+    return await this.database.select().from(users);
   }
 
   async getUser(id: string): Promise<User | undefined> {
-    const [user] = await db.select().from(users).where(eq(users.id, id));
+    const [user] = await this.database.select().from(users).where(eq(users.id, id));
     return user;
   }
 
   async getUserByEmail(email: string): Promise<User | undefined> {
-    const [user] = await db.select().from(users).where(eq(users.email, email));
+    const [user] = await this.database.select().from(users).where(eq(users.email, email));
     return user;
   }
 
   async createUser(user: InsertUser): Promise<User> {
-    const [newUser] = await db.insert(users).values(user).returning();
+    const [newUser] = await this.database.insert(users).values(user).returning();
     return newUser;
   }
 
+  async updateUser(id: string, updates: Partial<InsertUser>): Promise<User | undefined> {
+    const [user] = await this.database
+      .update(users)
+      .set({ ...updates, updatedAt: new Date().toISOString() })
+      .where(eq(users.id, id))
+      .returning();
+    return user;
+  }
+
+  // Sessions
+  async getSession(id: string): Promise<Session | undefined> {
+    const [session] = await this.database.select().from(sessions).where(eq(sessions.id, id));
+    return session;
+  }
+
+  async createSession(session: InsertSession): Promise<Session> {
+    const [newSession] = await this.database.insert(sessions).values(session).returning();
+    return newSession;
+  }
+
+  async updateSession(id: string, updates: Partial<InsertSession>): Promise<Session | undefined> {
+    const [session] = await this.database
+      .update(sessions)
+      .set(updates)
+      .where(eq(sessions.id, id))
+      .returning();
+    return session;
+  }
+
+  async rotateSession(id: string, refreshTokenHash: string, updates: Partial<InsertSession>): Promise<Session | undefined> {
+    const [session] = await this.database
+      .update(sessions)
+      .set(updates)
+      .where(and(
+        eq(sessions.id, id),
+        eq(sessions.refreshTokenHash, refreshTokenHash),
+        isNull(sessions.revokedAt),
+      ))
+      .returning();
+    return session;
+  }
+
   // API Keys
   async createApiKey(key: InsertApiKey): Promise<ApiKey> {
-    const [newKey] = await db.insert(apiKeys).values(key).returning();
+    const [newKey] = await this.database.insert(apiKeys).values(key).returning();
     return newKey;
   }
 
   async listApiKeys(tenantId: string): Promise<ApiKey[]> {
-    return await db.select().from(apiKeys).where(eq(apiKeys.tenantId, tenantId));
+    return await this.database.select().from(apiKeys).where(eq(apiKeys.tenantId, tenantId));
+  }
+
+  async getApiKeysByPrefix(keyPrefix: string): Promise<ApiKey[]> {
+    return await this.database.select().from(apiKeys).where(eq(apiKeys.keyPrefix, keyPrefix));
+  }
+
+  async updateApiKey(id: string, updates: Partial<ApiKey>): Promise<ApiKey | undefined> {
+    const [key] = await this.database
+      .update(apiKeys)
+      .set(updates)
+      .where(eq(apiKeys.id, id))
+      .returning();
+    return key;
+  }
+
+  // Audit Logs
+  async createAuditLog(entry: InsertAuditLog): Promise<AuditLog> {
+    const [log] = await this.database.insert(auditLogs).values(entry).returning();
+    return log;
+  }
+
+  // Service Groups
+  async getServiceGroups(tenantId: string): Promise<ServiceGroup[]> {
+    return await this.database
+      .select()
+      .from(serviceGroups)
+      .where(eq(serviceGroups.tenantId, tenantId))
+      .orderBy(asc(serviceGroups.sortOrder));
+  }
+
+  async getServiceGroup(tenantId: string, id: string): Promise<ServiceGroup | undefined> {
+    const [group] = await this.database
+      .select()
+      .from(serviceGroups)
+      .where(and(eq(serviceGroups.tenantId, tenantId), eq(serviceGroups.id, id)));
+    return group;
+  }
+
+  async createServiceGroup(group: InsertServiceGroup): Promise<ServiceGroup> {
+    const [newGroup] = await this.database.insert(serviceGroups).values(group).returning();
+    return newGroup;
+  }
+
+  async updateServiceGroup(tenantId: string, id: string, updates: Partial<InsertServiceGroup>): Promise<ServiceGroup | undefined> {
+    const [group] = await this.database
+      .update(serviceGroups)
+      .set({ ...updates, updatedAt: new Date().toISOString() })
+      .where(and(eq(serviceGroups.tenantId, tenantId), eq(serviceGroups.id, id)))
+      .returning();
+    return group;
+  }
+
+  // Services
+  async getServices(tenantId: string, filter: ServiceFilter = {}): Promise<Service[]> {
+    const conditions = [eq(services.tenantId, tenantId)];
+    if (filter.groupId) conditions.push(eq(services.groupId, filter.groupId));
+    if (filter.isActive !== undefined) conditions.push(eq(services.isActive, filter.isActive));
+
+    return await this.database.select().from(services).where(and(...conditions));
+  }
+
+  async getService(tenantId: string, id: string): Promise<Service | undefined> {
+    const [service] = await this.database
+      .select()
+      .from(services)
+      .where(and(eq(services.tenantId, tenantId), eq(services.id, id)));
+    return service;
+  }
+
+  async createService(service: InsertService): Promise<Service> {
+    const [newService] = await this.database.insert(services).values(service).returning();
+    return newService;
+  }
+
+  async updateService(tenantId: string, id: string, updates: Partial<InsertService>): Promise<Service | undefined> {
+    const [service] = await this.database
+      .update(services)
+      .set({ ...updates, updatedAt: new Date().toISOString() })
+      .where(and(eq(services.tenantId, tenantId), eq(services.id, id)))
+      .returning();
+    return service;
+  }
+
+  // Pricing Rules
+  async getPricingRules(tenantId: string, serviceId: string): Promise<PricingRule[]> {
+    return await this.database
+      .select()
+      .from(pricingRules)
+      .where(and(
+        eq(pricingRules.tenantId, tenantId),
+        eq(pricingRules.serviceId, serviceId),
+        eq(pricingRules.isActive, true)
+      ));
+  }
+
+  async getPricingRule(tenantId: string, id: string): Promise<PricingRule | undefined> {
+    const [rule] = await this.database
+      .select()
+      .from(pricingRules)
+      .where(and(eq(pricingRules.tenantId, tenantId), eq(pricingRules.id, id)));
+    return rule;
+  }
+
+  async createPricingRule(rule: InsertPricingRule): Promise<PricingRule> {
+    const [newRule] = await this.database.insert(pricingRules).values(rule).returning();
+    return newRule;
+  }
+
+  async updatePricingRule(tenantId: string, id: string, updates: Partial<InsertPricingRule>): Promise<PricingRule | undefined> {
+    const [rule] = await this.database
+      .update(pricingRules)
+      .set({ ...updates, updatedAt: new Date().toISOString() })
+      .where(and(eq(pricingRules.tenantId, tenantId), eq(pricingRules.id, id)))
+      .returning();
+    return rule;
+  }
+
+  // Providers
+  async getProviders(tenantId: string): Promise<Provider[]> {
+    return await this.database.select().from(providers).where(eq(providers.tenantId, tenantId));
+  }
+
+  async getProvider(tenantId: string, id: string): Promise<Provider | undefined> {
+    const [provider] = await this.database
+      .select()
+      .from(providers)
+      .where(and(eq(providers.tenantId, tenantId), eq(providers.id, id)));
+    return provider;
+  }
+
+  async getProviderBySlug(tenantId: string, slug: string): Promise<Provider | undefined> {
+    const [provider] = await this.database
+      .select()
+      .from(providers)
+      .where(and(eq(providers.tenantId, tenantId), eq(providers.slug, slug)));
+    return provider;
+  }
+
+  async createProvider(provider: InsertProvider): Promise<Provider> {
+    const [newProvider] = await this.database.insert(providers).values(provider).returning();
+    return newProvider;
+  }
+
+  async updateProvider(tenantId: string, id: string, updates: Partial<Provider>): Promise<Provider | undefined> {
+    const [provider] = await this.database
+      .update(providers)
+      .set({ ...updates, updatedAt: new Date().toISOString() })
+      .where(and(eq(providers.tenantId, tenantId), eq(providers.id, id)))
+      .returning();
+    return provider;
+  }
+
+  async claimProviderStatusSync(provider: Provider, claimedAt: string): Promise<Provider | undefined> {
+    const [claimed] = await this.database
+      .update(providers)
+      .set({ statusSyncAt: claimedAt, updatedAt: new Date().toISOString() })
+      .where(and(
+        eq(providers.tenantId, provider.tenantId),
+        eq(providers.id, provider.id),
+        provider.statusSyncAt === null
+          ? isNull(providers.statusSyncAt)
+          : eq(providers.statusSyncAt, provider.statusSyncAt),
+      ))
+      .returning();
+    return claimed;
+  }
+
+  async getProviderServiceMappings(tenantId: string, serviceId: string): Promise<ProviderServiceMapping[]> {
+    return await this.database
+      .select()
+      .from(providerServiceMappings)
+      .where(and(
+        eq(providerServiceMappings.tenantId, tenantId),
+        eq(providerServiceMappings.serviceId, serviceId)
+      ))
+      .orderBy(asc(providerServiceMappings.priority));
+  }
+
+  async getProviderServiceMappingsByProvider(tenantId: string, providerId: string): Promise<ProviderServiceMapping[]> {
+    return await this.database
+      .select()
+      .from(providerServiceMappings)
+      .where(and(
+        eq(providerServiceMappings.tenantId, tenantId),
+        eq(providerServiceMappings.providerId, providerId)
+      ));
+  }
+
+  async createProviderServiceMapping(mapping: InsertProviderServiceMapping): Promise<ProviderServiceMapping> {
+    const [newMapping] = await this.database.insert(providerServiceMappings).values(mapping).returning();
+    return newMapping;
+  }
+
+  async updateProviderServiceMapping(tenantId: string, id: string, updates: Partial<InsertProviderServiceMapping>): Promise<ProviderServiceMapping | undefined> {
+    const [mapping] = await this.database
+      .update(providerServiceMappings)
+      .set(updates)
+      .where(and(eq(providerServiceMappings.tenantId, tenantId), eq(providerServiceMappings.id, id)))
+      .returning();
+    return mapping;
+  }
+
+  // Wallets
+  async getWallets(tenantId: string, userId?: string): Promise<Wallet[]> {
+    const conditions = [eq(wallets.tenantId, tenantId)];
+    if (userId) conditions.push(eq(wallets.userId, userId));
+
+    return await this.database.select().from(wallets).where(and(...conditions));
+  }
+
+  async getWallet(tenantId: string, id: string): Promise<Wallet | undefined> {
+    const [wallet] = await this.database
+      .select()
+      .from(wallets)
+      .where(and(eq(wallets.tenantId, tenantId), eq(wallets.id, id)));
+    return wallet;
+  }
+
+  async getWalletByUser(tenantId: string, userId: string, currency: string): Promise<Wallet | undefined> {
+    const [wallet] = await this.database
+      .select()
+      .from(wallets)
+      .where(and(
+        eq(wallets.tenantId, tenantId),
+        eq(wallets.userId, userId),
+        eq(wallets.currency, currency)
+      ));
+    return wallet;
+  }
+
+  async createWallet(wallet: InsertWallet): Promise<Wallet> {
+    const [newWallet] = await this.database.insert(wallets).values(wallet).returning();
+    return newWallet;
+  }
+
+  async getWalletTransactions(tenantId: string, walletId: string, afterSequence: number = 0): Promise<Transaction[]> {
+    return await this.database
+      .select()
+      .from(transactions)
+      .where(and(
+        eq(transactions.tenantId, tenantId),
+        eq(transactions.walletId, walletId),
+        gt(transactions.sequence, afterSequence)
+      ))
+      .orderBy(asc(transactions.sequence));
+  }
+
+  async appendWalletTransactions(entries: InsertTransaction[]): Promise<Transaction[] | undefined> {
+    // One statement, so a taken sequence rejects every row (SQLite and D1 alike)
+    try {
+      return await this.database.insert(transactions).values(entries).returning();
+    } catch (error) {
+      if (isUniqueViolation(error)) {
+        return undefined;
+      }
+      throw error;
+    }
+  }
+
+  async getTransactions(tenantId: string, filter: TransactionFilter = {}): Promise<Transaction[]> {
+    if (filter.walletIds && filter.walletIds.length === 0) {
+      return [];
+    }
+
+    const conditions = [eq(transactions.tenantId, tenantId)];
+    if (filter.walletIds) conditions.push(inArray(transactions.walletId, filter.walletIds));
+    if (filter.referenceType) conditions.push(eq(transactions.referenceType, filter.referenceType));
+    if (filter.referenceId) conditions.push(eq(transactions.referenceId, filter.referenceId));
+    if (filter.from) conditions.push(gte(transactions.completedAt, filter.from));
+    if (filter.to) conditions.push(lt(transactions.completedAt, filter.to));
+
+    return await this.database
+      .select()
+      .from(transactions)
+      .where(and(...conditions))
+      .orderBy(asc(transactions.completedAt), asc(sql`rowid`));
+  }
+
+  async getTransferredAmount(tenantId: string, walletId: string, since: string): Promise<number> {
+    const [row] = await this.database
+      .select({ amount: sql<number>`coalesce(sum(${transactions.amount}), 0)` })
+      .from(transactions)
+      .where(and(
+        eq(transactions.tenantId, tenantId),
+        eq(transactions.walletId, walletId),
+        eq(transactions.type, 'debit'),
+        eq(transactions.referenceType, 'transfer'),
+        eq(transactions.status, 'completed'),
+        gte(transactions.completedAt, since)
+      ));
+    return row?.amount ?? 0;
+  }
+
+  async getWalletCheckpoints(tenantId: string, walletId: string): Promise<WalletCheckpoint[]> {
+    return await this.database
+      .select()
+      .from(walletCheckpoints)
+      .where(and(eq(walletCheckpoints.tenantId, tenantId), eq(walletCheckpoints.walletId, walletId)))
+      .orderBy(asc(walletCheckpoints.sequence));
+  }
+
+  async getLatestWalletCheckpoint(tenantId: string, walletId: string): Promise<WalletCheckpoint | undefined> {
+    const [checkpoint] = await this.database
+      .select()
+      .from(walletCheckpoints)
+      .where(and(eq(walletCheckpoints.tenantId, tenantId), eq(walletCheckpoints.walletId, walletId)))
+      .orderBy(desc(walletCheckpoints.sequence))
+      .limit(1);
+    return checkpoint;
+  }
+
+  async createWalletCheckpoint(checkpoint: InsertWalletCheckpoint): Promise<void> {
+    // A concurrent writer may have recorded the same point already
+    await this.database.insert(walletCheckpoints).values(checkpoint).onConflictDoNothing();
+  }
+
+  // Journal
+  async getJournalLines(tenantId: string, transactionId: string): Promise<JournalLine[]> {
+    return await this.database
+      .select()
+      .from(journalLines)
+      .where(and(eq(journalLines.tenantId, tenantId), eq(journalLines.transactionId, transactionId)))
+      .orderBy(asc(sql`rowid`));
+  }
+
+  async createJournalLines(lines: InsertJournalLine[]): Promise<void> {
+    if (lines.length > 0) {
+      await this.database.insert(journalLines).values(lines);
+    }
+  }
+
+  async getJournalTotals(tenantId: string): Promise<JournalTotal[]> {
+    return await this.database
+      .select({
+        account: journalLines.account,
+        currency: journalLines.currency,
+        debit: sql<number>`coalesce(sum(${journalLines.debit}), 0)`,
+        credit: sql<number>`coalesce(sum(${journalLines.credit}), 0)`,
+      })
+      .from(journalLines)
+      .where(eq(journalLines.tenantId, tenantId))
+      .groupBy(journalLines.account, journalLines.currency)
+      .orderBy(asc(journalLines.currency), asc(journalLines.account));
+  }
+
+  // Exchange Rates
+  async getExchangeRates(tenantId: string, pair?: { base: string; quote: string }): Promise<ExchangeRate[]> {
+    const conditions = [eq(exchangeRates.tenantId, tenantId)];
+    if (pair) {
+      conditions.push(eq(exchangeRates.baseCurrency, pair.base), eq(exchangeRates.quoteCurrency, pair.quote));
+    }
+
+    return await this.database
+      .select()
+      .from(exchangeRates)
+      .where(and(...conditions))
+      .orderBy(desc(exchangeRates.effectiveAt), desc(sql`rowid`));
+  }
+
+  async getExchangeRate(tenantId: string, base: string, quote: string, at: string): Promise<ExchangeRate | undefined> {
+    const [rate] = await this.database
+      .select()
+      .from(exchangeRates)
+      .where(and(
+        eq(exchangeRates.tenantId, tenantId),
+        eq(exchangeRates.baseCurrency, base),
+        eq(exchangeRates.quoteCurrency, quote),
+        lte(exchangeRates.effectiveAt, at)
+      ))
+      .orderBy(desc(exchangeRates.effectiveAt), desc(sql`rowid`))
+      .limit(1);
+    return rate;
+  }
+
+  async createExchangeRates(rates: InsertExchangeRate[]): Promise<ExchangeRate[]> {
+    if (rates.length === 0) {
+      return [];
+    }
+    return await this.database.insert(exchangeRates).values(rates).returning();
+  }
+
+  // Orders
+  async getOrders(tenantId: string, filter: OrderFilter = {}): Promise<Order[]> {
+    const conditions = [eq(orders.tenantId, tenantId)];
+    if (filter.userId) conditions.push(eq(orders.userId, filter.userId));
+    if (filter.status) conditions.push(eq(orders.status, filter.status));
+    if (filter.providerId) conditions.push(eq(orders.providerId, filter.providerId));
+
+    return await this.database
+      .select()
+      .from(orders)
+      .where(and(...conditions))
+      .orderBy(desc(orders.createdAt));
+  }
+
+  async getOrder(tenantId: string, id: string): Promise<Order | undefined> {
+    const [order] = await this.database
+      .select()
+      .from(orders)
+      .where(and(eq(orders.tenantId, tenantId), eq(orders.id, id)));
+    return order;
+  }
+
+  async getOrderByProviderOrderId(tenantId: string, providerId: string, providerOrderId: string): Promise<Order | undefined> {
+    const [order] = await this.database
+      .select()
+      .from(orders)
+      .where(and(
+        eq(orders.tenantId, tenantId),
+        eq(orders.providerId, providerId),
+        eq(orders.providerOrderId, providerOrderId),
+      ));
+    return order;
+  }
+
+  async createOrder(order: InsertOrder): Promise<Order> {
+    const [newOrder] = await this.database.insert(orders).values(order).returning();
+    return newOrder;
+  }
+
+  async updateOrder(tenantId: string, id: string, updates: Partial<InsertOrder>): Promise<Order | undefined> {
+    const [order] = await this.database
+      .update(orders)
+      .set({ ...updates, updatedAt: new Date().toISOString() })
+      .where(and(eq(orders.tenantId, tenantId), eq(orders.id, id)))
+      .returning();
+    return order;
+  }
+
+  async updateOrderIfStatus(
+    tenantId: string,
+    id: string,
+    status: string,
+    updates: Partial<InsertOrder>
+  ): Promise<Order | undefined> {
+    const [order] = await this.database
+      .update(orders)
+      .set({ ...updates, updatedAt: new Date().toISOString() })
+      .where(and(eq(orders.tenantId, tenantId), eq(orders.id, id), eq(orders.status, status)))
+      .returning();
+    return order;
+  }
+
+  async getOrderItems(tenantId: string, orderId: string): Promise<OrderItem[]> {
+    return await this.database
+      .select()
+      .from(orderItems)
+      .where(and(eq(orderItems.tenantId, tenantId), eq(orderItems.orderId, orderId)));
+  }
+
+  async getOrderItem(tenantId: string, id: string): Promise<OrderItem | undefined> {
+    const [item] = await this.database
+      .select()
+      .from(orderItems)
+      .where(and(eq(orderItems.tenantId, tenantId), eq(orderItems.id, id)));
+    return item;
+  }
+
+  async getProviderOrderItems(tenantId: string, providerId: string, status: string): Promise<OrderItem[]> {
+    return await this.database
+      .select()
+      .from(orderItems)
+      .where(and(
+        eq(orderItems.tenantId, tenantId),
+        eq(orderItems.providerId, providerId),
+        eq(orderItems.status, status),
+      ))
+      .orderBy(asc(orderItems.createdAt));
+  }
+
+  async getOrderItemByProviderOrderId(tenantId: string, providerId: string, providerOrderId: string): Promise<OrderItem | undefined> {
+    const [item] = await this.database
+      .select()
+      .from(orderItems)
+      .where(and(
+        eq(orderItems.tenantId, tenantId),
+        eq(orderItems.providerId, providerId),
+        eq(orderItems.providerOrderId, providerOrderId),
+      ));
+    return item;
+  }
+
+  async createOrderItems(items: InsertOrderItem[]): Promise<OrderItem[]> {
+    if (items.length === 0) {
+      return [];
+    }
+    return await this.database.insert(orderItems).values(items).returning();
+  }
+
+  async updateOrderItem(tenantId: string, id: string, updates: Partial<InsertOrderItem>): Promise<OrderItem | undefined> {
+    const [item] = await this.database
+      .update(orderItems)
+      .set({ ...updates, updatedAt: new Date().toISOString() })
+      .where(and(eq(orderItems.tenantId, tenantId), eq(orderItems.id, id)))
+      .returning();
+    return item;
+  }
+
+  async getOrderEvents(tenantId: string, orderId: string): Promise<OrderEvent[]> {
+    return await this.database
+      .select()
+      .from(orderEvents)
+      .where(and(eq(orderEvents.tenantId, tenantId), eq(orderEvents.orderId, orderId)))
+      // Events written in one transaction share a timestamp; rowid keeps their insertion order
+      .orderBy(asc(orderEvents.createdAt), asc(sql`rowid`));
+  }
+
+  async createOrderEvent(event: InsertOrderEvent): Promise<OrderEvent> {
+    const [created] = await this.database.insert(orderEvents).values(event).returning();
+    return created;
+  }
+
+  // Invoices
+  async getInvoices(tenantId: string, userId?: string): Promise<Invoice[]> {
+    const conditions = [eq(invoices.tenantId, tenantId)];
+    if (userId) conditions.push(eq(invoices.userId, userId));
+
+    return await this.database
+      .select()
+      .from(invoices)
+      .where(and(...conditions))
+      .orderBy(desc(invoices.createdAt));
+  }
+
+  async getInvoice(tenantId: string, id: string): Promise<Invoice | undefined> {
+    const [invoice] = await this.database
+      .select()
+      .from(invoices)
+      .where(and(eq(invoices.tenantId, tenantId), eq(invoices.id, id)));
+    return invoice;
+  }
+
+  async createInvoice(invoice: InsertInvoice): Promise<Invoice> {
+    const [newInvoice] = await this.database.insert(invoices).values(invoice).returning();
+    return newInvoice;
+  }
+
+  async updateInvoice(tenantId: string, id: string, updates: Partial<InsertInvoice>): Promise<Invoice | undefined> {
+    const [invoice] = await this.database
+      .update(invoices)
+      .set({ ...updates, updatedAt: new Date().toISOString() })
+      .where(and(eq(invoices.tenantId, tenantId), eq(invoices.id, id)))
+      .returning();
+    return invoice;
+  }
+
+  // Payment Methods
+  async getPaymentMethods(tenantId: string): Promise<PaymentMethod[]> {
+    return await this.database.select().from(paymentMethods).where(eq(paymentMethods.tenantId, tenantId));
+  }
+
+  async createPaymentMethod(method: InsertPaymentMethod): Promise<PaymentMethod> {
+    const [newMethod] = await this.database.insert(paymentMethods).values(method).returning();
+    return newMethod;
+  }
+
+  async updatePaymentMethod(tenantId: string, id: string, updates: Partial<InsertPaymentMethod>): Promise<PaymentMethod | undefined> {
+    const [method] = await this.database
+      .update(paymentMethods)
+      .set({ ...updates, updatedAt: new Date().toISOString() })
+      .where(and(eq(paymentMethods.tenantId, tenantId), eq(paymentMethods.id, id)))
+      .returning();
+    return method;
+  }
+
+  // Webhooks
+  async getWebhooks(tenantId: string, userId?: string): Promise<Webhook[]> {
+    const conditions = [eq(webhooks.tenantId, tenantId)];
+    if (userId) conditions.push(eq(webhooks.userId, userId));
+
+    return await this.database.select().from(webhooks).where(and(...conditions));
+  }
+
+  async getWebhook(tenantId: string, id: string): Promise<Webhook | undefined> {
+    const [webhook] = await this.database
+      .select()
+      .from(webhooks)
+      .where(and(eq(webhooks.tenantId, tenantId), eq(webhooks.id, id)));
+    return webhook;
+  }
+
+  async createWebhook(webhook: InsertWebhook): Promise<Webhook> {
+    const [newWebhook] = await this.database.insert(webhooks).values(webhook).returning();
+    return newWebhook;
   }
+
+  async updateWebhook(tenantId: string, id: string, updates: Partial<Webhook>): Promise<Webhook | undefined> {
+    const [webhook] = await this.database
+      .update(webhooks)
+      .set({ ...updates, updatedAt: new Date().toISOString() })
+      .where(and(eq(webhooks.tenantId, tenantId), eq(webhooks.id, id)))
+      .returning();
+    return webhook;
+  }
+
+  async recordWebhookFailure(tenantId: string, id: string, failedAt: string): Promise<Webhook | undefined> {
+    const [webhook] = await this.database
+      .update(webhooks)
+      .set({
+        consecutiveFailures: sql`${webhooks.consecutiveFailures} + 1`,
+        lastTriggeredAt: failedAt,
+        updatedAt: new Date().toISOString(),
+      })
+      .where(and(eq(webhooks.tenantId, tenantId), eq(webhooks.id, id)))
+      .returning();
+    return webhook;
+  }
+
+  // Webhook Deliveries
+  async getWebhookDeliveries(tenantId: string, filter: WebhookDeliveryFilter = {}): Promise<WebhookDelivery[]> {
+    const conditions = [eq(webhookDeliveries.tenantId, tenantId)];
+    if (filter.webhookId) conditions.push(eq(webhookDeliveries.webhookId, filter.webhookId));
+    if (filter.status) conditions.push(eq(webhookDeliveries.status, filter.status));
+
+    return await this.database
+      .select()
+      .from(webhookDeliveries)
+      .where(and(...conditions))
+      .orderBy(desc(webhookDeliveries.createdAt))
+      .limit(filter.limit ?? 100);
+  }
+
+  async getWebhookDelivery(tenantId: string, id: string): Promise<WebhookDelivery | undefined> {
+    const [delivery] = await this.database
+      .select()
+      .from(webhookDeliveries)
+      .where(and(eq(webhookDeliveries.tenantId, tenantId), eq(webhookDeliveries.id, id)));
+    return delivery;
+  }
+
+  async getDueWebhookDeliveries(now: string, limit: number, tenantId?: string): Promise<WebhookDelivery[]> {
+    const conditions = [eq(webhookDeliveries.status, "pending"), lte(webhookDeliveries.nextRetryAt, now)];
+    if (tenantId) conditions.push(eq(webhookDeliveries.tenantId, tenantId));
+
+    return await this.database
+      .select()
+      .from(webhookDeliveries)
+      .where(and(...conditions))
+      .orderBy(asc(webhookDeliveries.nextRetryAt))
+      .limit(limit);
+  }
+
+  async createWebhookDelivery(delivery: InsertWebhookDelivery): Promise<WebhookDelivery> {
+    const [newDelivery] = await this.database.insert(webhookDeliveries).values(delivery).returning();
+    return newDelivery;
+  }
+
+  async updateWebhookDelivery(tenantId: string, id: string, updates: Partial<WebhookDelivery>): Promise<WebhookDelivery | undefined> {
+    const [delivery] = await this.database
+      .update(webhookDeliveries)
+      .set({ ...updates, updatedAt: new Date().toISOString() })
+      .where(and(eq(webhookDeliveries.tenantId, tenantId), eq(webhookDeliveries.id, id)))
+      .returning();
+    return delivery;
+  }
+
+  async claimWebhookDelivery(delivery: WebhookDelivery, leaseUntil: string): Promise<WebhookDelivery | undefined> {
+    const [claimed] = await this.database
+      .update(webhookDeliveries)
+      .set({ nextRetryAt: leaseUntil, updatedAt: new Date().toISOString() })
+      .where(and(
+        eq(webhookDeliveries.tenantId, delivery.tenantId),
+        eq(webhookDeliveries.id, delivery.id),
+        eq(webhookDeliveries.status, delivery.status),
+        delivery.nextRetryAt === null
+          ? isNull(webhookDeliveries.nextRetryAt)
+          : eq(webhookDeliveries.nextRetryAt, delivery.nextRetryAt),
+      ))
+      .returning();
+    return claimed;
+  }
+
+  // Event Outbox
+  async createOutboxEvent(entry: InsertEventOutboxEntry): Promise<EventOutboxEntry> {
+    const [created] = await this.database.insert(eventOutbox).values(entry).returning();
+    return created;
+  }
+
+  async getPendingOutboxEvents(now: string, limit: number, tenantId?: string): Promise<EventOutboxEntry[]> {
+    const conditions = [eq(eventOutbox.status, "pending"), lte(eventOutbox.availableAt, now)];
+    if (tenantId) conditions.push(eq(eventOutbox.tenantId, tenantId));
+
+    return await this.database
+      .select()
+      .from(eventOutbox)
+      .where(and(...conditions))
+      .orderBy(asc(eventOutbox.availableAt))
+      .limit(limit);
+  }
+
+  async claimOutboxEvent(entry: EventOutboxEntry, leaseUntil: string): Promise<EventOutboxEntry | undefined> {
+    const [claimed] = await this.database
+      .update(eventOutbox)
+      .set({ availableAt: leaseUntil })
+      .where(and(
+        eq(eventOutbox.id, entry.id),
+        eq(eventOutbox.status, "pending"),
+        eq(eventOutbox.availableAt, entry.availableAt),
+      ))
+      .returning();
+    return claimed;
+  }
+
+  async updateOutboxEvent(id: string, updates: Partial<EventOutboxEntry>): Promise<EventOutboxEntry | undefined> {
+    const [entry] = await this.database
+      .update(eventOutbox)
+      .set(updates)
+      .where(eq(eventOutbox.id, id))
+      .returning();
+    return entry;
+  }
+
+  // Provider Batches
+  async getProviderBatches(tenantId: string, providerId: string): Promise<ProviderBatch[]> {
+    return await this.database
+      .select()
+      .from(providerBatches)
+      .where(and(eq(providerBatches.tenantId, tenantId), eq(providerBatches.providerId, providerId)))
+      .orderBy(desc(providerBatches.createdAt));
+  }
+
+  async getProviderBatch(tenantId: string, id: string): Promise<ProviderBatch | undefined> {
+    const [batch] = await this.database
+      .select()
+      .from(providerBatches)
+      .where(and(eq(providerBatches.tenantId, tenantId), eq(providerBatches.id, id)));
+    return batch;
+  }
+
+  async createProviderBatch(batch: InsertProviderBatch): Promise<ProviderBatch> {
+    const [newBatch] = await this.database.insert(providerBatches).values(batch).returning();
+    return newBatch;
+  }
+
+  // Catalog Syncs
+  async getCatalogSyncs(tenantId: string, providerId: string): Promise<CatalogSync[]> {
+    return await this.database
+      .select()
+      .from(catalogSyncs)
+      .where(and(eq(catalogSyncs.tenantId, tenantId), eq(catalogSyncs.providerId, providerId)))
+      .orderBy(desc(catalogSyncs.createdAt));
+  }
+
+  async getCatalogSync(tenantId: string, id: string): Promise<CatalogSync | undefined> {
+    const [sync] = await this.database
+      .select()
+      .from(catalogSyncs)
+      .where(and(eq(catalogSyncs.tenantId, tenantId), eq(catalogSyncs.id, id)));
+    return sync;
+  }
+
+  async createCatalogSync(sync: InsertCatalogSync): Promise<CatalogSync> {
+    // Stamped here: due syncs are found by createdAt, and the column default is fixed at schema push
+    const [newSync] = await this.database
+      .insert(catalogSyncs)
+      .values({ createdAt: new Date().toISOString(), ...sync })
+      .returning();
+    return newSync;
+  }
+
+  async updateCatalogSync(tenantId: string, id: string, updates: Partial<InsertCatalogSync>): Promise<CatalogSync | undefined> {
+    const [sync] = await this.database
+      .update(catalogSyncs)
+      .set(updates)
+      .where(and(eq(catalogSyncs.tenantId, tenantId), eq(catalogSyncs.id, id)))
+      .returning();
+    return sync;
+  }
+
+  // Provider Health
+  async getProviderHealth(tenantId: string, providerId: string): Promise<ProviderHealth | undefined> {
+    const [health] = await this.database
+      .select()
+      .from(providerHealth)
+      .where(and(eq(providerHealth.tenantId, tenantId), eq(providerHealth.providerId, providerId)));
+    return health;
+  }
+
+  async saveProviderHealth(health: InsertProviderHealth): Promise<ProviderHealth> {
+    const { id, ...updates } = health;
+    const [saved] = await this.database
+      .insert(providerHealth)
+      .values(health)
+      .onConflictDoUpdate({ target: providerHealth.providerId, set: updates })
+      .returning();
+    return saved;
+  }
+
+  // Order State Machines
+  async getOrderStateMachine(tenantId: string): Promise<OrderStateMachineRecord | undefined> {
+    const [machine] = await this.database
+      .select()
+      .from(orderStateMachines)
+      .where(eq(orderStateMachines.tenantId, tenantId));
+    return machine;
+  }
+
+  async saveOrderStateMachine(machine: InsertOrderStateMachineRecord): Promise<OrderStateMachineRecord> {
+    const { id, createdAt, ...updates } = machine;
+    const [saved] = await this.database
+      .insert(orderStateMachines)
+      .values(machine)
+      .onConflictDoUpdate({ target: orderStateMachines.tenantId, set: updates })
+      .returning();
+    return saved;
+  }
+
+  async deleteOrderStateMachine(tenantId: string): Promise<void> {
+    await this.database
+      .delete(orderStateMachines)
+      .where(eq(orderStateMachines.tenantId, tenantId));
+  }
+
+  // Transactions
+  // better-sqlite3 transactions must be synchronous, so the unit of work is
+  // wrapped in explicit BEGIN/COMMIT statements and queued behind everything
+  // already running on this connection. Storage calls made from inside the
+  // callback, on `tx` or the root storage, run in the open transaction.
+  async transaction<T>(fn: (tx: IStorage) => Promise<T>): Promise<T> {
+    if (this.inTransaction) {
+      return fn(this);
+    }
+
+    const current = currentTransaction.getStore();
+    if (current?.open) {
+      return fn(current.storage);
+    }
+
+    return this.enqueue(async () => {
+      const context: OpenTransaction = { storage: new DatabaseStorage(this.database, true), open: true };
+      this.database.run(sql`BEGIN IMMEDIATE`);
+      try {
+        const result = await currentTransaction.run(context, () => fn(context.storage));
+        this.database.run(sql`COMMIT`);
+        return result;
+      } catch (error) {
+        this.database.run(sql`ROLLBACK`);
+        throw error;
+      } finally {
+        context.open = false;
+      }
+    });
+  }
+
+  // Run `work` once everything queued before it on this connection has settled
+  enqueue<T>(work: () => Promise<T>): Promise<T> {
+    const result = this.queue.then(work, work);
+    this.queue = result.catch(() => undefined);
+    return result;
+  }
+}
+
+/**
+ * Storage on which every call is queued on the connection like a transaction
+ * of its own, so it can neither interleave with nor silently join a
+ * transaction opened by another caller. Calls made inside a transaction
+ * callback run in that transaction instead of waiting behind it.
+ */
+export function serialized(storage: DatabaseStorage): IStorage {
+  return new Proxy(storage, {
+    get(target, property, receiver) {
+      const value = Reflect.get(target, property, receiver);
+      if (typeof value !== 'function' || property === 'transaction' || property === 'enqueue') {
+        return typeof value === 'function' ? value.bind(target) : value;
+      }
+
+      return (...args: unknown[]) => {
+        const current = currentTransaction.getStore();
+        if (current?.open) {
+          return value.apply(current.storage, args);
+        }
+        return target.enqueue(() => value.apply(target, args));
+      };
+    },
+  });
+}
+
+function isUniqueViolation(error: unknown): boolean {
+  const cause = (error as { cause?: unknown })?.cause;
+  return [error, cause].some(candidate =>
+    candidate instanceof Error && candidate.message.includes('UNIQUE constraint failed')
+  );
 }
 
-export const storage = new DatabaseStorage();
+export const storage = serialized(new DatabaseStorage());
@@ -1,5 +1,34 @@
 import { z } from 'zod';
-import { insertTenantSchema, insertUserSchema, tenants, users } from './schema';
+import {
+  insertTenantSchema,
+  insertUserSchema,
+  insertServiceGroupSchema,
+  insertServiceSchema,
+  insertProviderSchema,
+  insertProviderServiceMappingSchema,
+  insertPricingRuleSchema,
+  insertPaymentMethodSchema,
+  tenants,
+  users,
+  serviceGroups,
+  services,
+  providers,
+  providerServiceMappings,
+  pricingRules,
+  orders,
+  orderItems,
+  orderEvents,
+  wallets,
+  transactions,
+  journalLines,
+  exchangeRates,
+  invoices,
+  paymentMethods,
+  webhooks,
+  webhookDeliveries,
+  providerBatches,
+  catalogSyncs,
+} from './schema';
 
 // Edge Starter API Contract
 // This file defines the shared API contract used by both the client and server.
@@ -19,9 +48,168 @@ export const errorSchemas = {
   unauthorized: z.object({
     message: z.string(),
   }),
+  // Error envelope returned by the Hono core app
+  api: z.object({
+    error: z.object({
+      code: z.string(),
+      message: z.string(),
+      details: z.any().optional(),
+    }),
+  }),
 };
 
+// Tenant and audit columns are taken from the request context, never the body
+const tenantScoped = { tenantId: true } as const;
+// Maintained by catalog sync, never written through the API
+const syncManaged = { costDrift: true } as const;
+const syncManagedMapping = { upstreamCost: true, upstreamSyncedAt: true } as const;
+
+const walletBalanceSchema = z.object({
+  available: z.number(),
+  locked: z.number(),
+  total: z.number(),
+  currency: z.string(),
+});
+
+const balanceReportSchema = z.object({
+  currency: z.string(),
+  wallets: z.array(walletBalanceSchema.extend({
+    walletId: z.string(),
+    userId: z.string(),
+    exchangeRate: z.number().nullable(),
+    converted: z.object({ available: z.number(), locked: z.number(), total: z.number() }).nullable(),
+  })),
+  totals: z.object({ available: z.number(), locked: z.number(), total: z.number() }),
+  missingRates: z.array(z.string()),
+});
+
+const walletReconciliationSchema = z.object({
+  walletId: z.string(),
+  sequence: z.number(),
+  balance: walletBalanceSchema,
+  checkpointBalance: walletBalanceSchema,
+  checkpoints: z.number(),
+  mismatches: z.array(z.object({
+    sequence: z.number(),
+    recorded: z.object({ available: z.number(), locked: z.number() }),
+    calculated: z.object({ available: z.number(), locked: z.number() }),
+  })),
+  balanced: z.boolean(),
+});
+
+const trialBalanceSchema = z.object({
+  accounts: z.array(z.object({
+    account: z.string(),
+    currency: z.string(),
+    debit: z.number(),
+    credit: z.number(),
+    balance: z.number(),
+  })),
+  totals: z.array(z.object({
+    currency: z.string(),
+    debit: z.number(),
+    credit: z.number(),
+    balanced: z.boolean(),
+  })),
+  balanced: z.boolean(),
+});
+
+const commissionStatementSchema = z.object({
+  userId: z.string(),
+  from: z.string(),
+  to: z.string(),
+  entries: z.array(z.object({
+    transactionId: z.string(),
+    orderId: z.string(),
+    orderItemId: z.string().optional(),
+    kind: z.enum(['commission', 'reversal']),
+    amount: z.number(),
+    currency: z.string(),
+    completedAt: z.string().nullable(),
+  })),
+  totals: z.array(z.object({
+    currency: z.string(),
+    earned: z.number(),
+    reversed: z.number(),
+    net: z.number(),
+  })),
+});
+
+const stateHookRefSchema = z.object({
+  hook: z.string(),
+  config: z.record(z.any()).optional(),
+});
+
+// A tenant's order lifecycle; OrderStateMachine.validateDefinition checks the rest
+const orderStateMachineDefinitionSchema = z.object({
+  states: z.array(z.object({
+    name: z.string(),
+    label: z.string().optional(),
+    terminal: z.boolean().optional(),
+    onEnter: z.array(stateHookRefSchema).optional(),
+    onExit: z.array(stateHookRefSchema).optional(),
+  })).min(1),
+  transitions: z.array(z.object({
+    from: z.string(),
+    to: z.string(),
+    requiresRole: z.array(z.string()).optional(),
+    requiresApproval: z.boolean().optional(),
+  })),
+});
+
+const orderStateMachineViewSchema = z.object({
+  definition: orderStateMachineDefinitionSchema,
+  version: z.number(),
+  isDefault: z.boolean(),
+  hooks: z.array(z.string()),
+});
+
+const authTokensSchema = z.object({
+  accessToken: z.string(),
+  refreshToken: z.string(),
+  tokenType: z.literal('Bearer'),
+  expiresIn: z.number(),
+});
+
 export const api = {
+  auth: {
+    login: {
+      method: 'POST' as const,
+      path: '/api/auth/login',
+      input: z.object({ email: z.string().email(), password: z.string().min(1) }),
+      responses: {
+        200: authTokensSchema.extend({ user: z.custom<Omit<typeof users.$inferSelect, 'passwordHash'>>() }),
+        401: errorSchemas.api,
+        403: errorSchemas.api,
+      },
+    },
+    refresh: {
+      method: 'POST' as const,
+      path: '/api/auth/refresh',
+      // Browsers send the refresh token as a cookie instead
+      input: z.object({ refreshToken: z.string().optional() }),
+      responses: {
+        200: authTokensSchema,
+        401: errorSchemas.api,
+      },
+    },
+    logout: {
+      method: 'POST' as const,
+      path: '/api/auth/logout',
+      responses: {
+        204: z.void(),
+        401: errorSchemas.api,
+      },
+    },
+    me: {
+      method: 'GET' as const,
+      path: '/api/auth/me',
+      responses: {
+        200: z.custom<Omit<typeof users.$inferSelect, 'passwordHash'>>(),
+        401: errorSchemas.api,
+      },
+    },
+  },
   system: {
     health: {
       method: 'GET' as const,
@@ -31,13 +219,14 @@ export const api = {
       },
     },
   },
+  // Served by the Hono core app: super admins manage tenants, everyone else sees their own
   tenants: {
     list: {
       method: 'GET' as const,
       path: '/api/tenants',
       responses: {
         200: z.array(z.custom<typeof tenants.$inferSelect>()),
-        401: errorSchemas.unauthorized,
+        401: errorSchemas.api,
       },
     },
     create: {
@@ -46,7 +235,8 @@ export const api = {
       input: insertTenantSchema,
       responses: {
         201: z.custom<typeof tenants.$inferSelect>(),
-        400: errorSchemas.validation,
+        400: errorSchemas.api,
+        403: errorSchemas.api,
       },
     },
     get: {
@@ -54,7 +244,7 @@ export const api = {
       path: '/api/tenants/:id',
       responses: {
         200: z.custom<typeof tenants.$inferSelect>(),
-        404: errorSchemas.notFound,
+        404: errorSchemas.api,
       },
     },
   },
@@ -67,21 +257,788 @@ export const api = {
         401: errorSchemas.unauthorized,
       },
     },
+    // Users of the caller's tenant, without password hashes
     list: {
       method: 'GET' as const,
       path: '/api/users',
-      input: z.object({ tenantId: z.string().optional() }).optional(),
       responses: {
-        200: z.array(z.custom<typeof users.$inferSelect>()),
+        200: z.array(z.custom<Omit<typeof users.$inferSelect, 'passwordHash'>>()),
+        403: errorSchemas.api,
       },
     },
+    // The password is hashed by the server; only super admins create super admins
     create: {
       method: 'POST' as const,
       path: '/api/users',
-      input: insertUserSchema,
+      input: insertUserSchema.omit({ ...tenantScoped, passwordHash: true }).extend({
+        password: z.string().min(8),
+      }),
+      responses: {
+        201: z.custom<Omit<typeof users.$inferSelect, 'passwordHash'>>(),
+        400: errorSchemas.api,
+        403: errorSchemas.api,
+      },
+    },
+  },
+  serviceGroups: {
+    list: {
+      method: 'GET' as const,
+      path: '/api/service-groups',
+      responses: {
+        200: z.array(z.custom<typeof serviceGroups.$inferSelect>()),
+      },
+    },
+    create: {
+      method: 'POST' as const,
+      path: '/api/service-groups',
+      input: insertServiceGroupSchema.omit(tenantScoped),
+      responses: {
+        201: z.custom<typeof serviceGroups.$inferSelect>(),
+        400: errorSchemas.api,
+      },
+    },
+    update: {
+      method: 'PATCH' as const,
+      path: '/api/service-groups/:id',
+      input: insertServiceGroupSchema.omit(tenantScoped).partial(),
+      responses: {
+        200: z.custom<typeof serviceGroups.$inferSelect>(),
+        404: errorSchemas.api,
+      },
+    },
+  },
+  services: {
+    list: {
+      method: 'GET' as const,
+      path: '/api/services',
+      input: z.object({ groupId: z.string().optional() }).optional(),
+      responses: {
+        200: z.array(z.custom<typeof services.$inferSelect>()),
+      },
+    },
+    get: {
+      method: 'GET' as const,
+      path: '/api/services/:id',
+      responses: {
+        200: z.custom<typeof services.$inferSelect>(),
+        404: errorSchemas.api,
+      },
+    },
+    create: {
+      method: 'POST' as const,
+      path: '/api/services',
+      input: insertServiceSchema.omit({ ...tenantScoped, ...syncManaged }),
+      responses: {
+        201: z.custom<typeof services.$inferSelect>(),
+        400: errorSchemas.api,
+      },
+    },
+    update: {
+      method: 'PATCH' as const,
+      path: '/api/services/:id',
+      input: insertServiceSchema.omit({ ...tenantScoped, ...syncManaged }).partial(),
+      responses: {
+        200: z.custom<typeof services.$inferSelect>(),
+        400: errorSchemas.api,
+        404: errorSchemas.api,
+      },
+    },
+  },
+  providers: {
+    list: {
+      method: 'GET' as const,
+      path: '/api/providers',
+      responses: {
+        200: z.array(z.custom<typeof providers.$inferSelect>()),
+      },
+    },
+    get: {
+      method: 'GET' as const,
+      path: '/api/providers/:id',
+      responses: {
+        200: z.custom<typeof providers.$inferSelect>(),
+        404: errorSchemas.api,
+      },
+    },
+    create: {
+      method: 'POST' as const,
+      path: '/api/providers',
+      input: insertProviderSchema.omit(tenantScoped),
+      responses: {
+        201: z.custom<typeof providers.$inferSelect>(),
+        400: errorSchemas.api,
+      },
+    },
+    update: {
+      method: 'PATCH' as const,
+      path: '/api/providers/:id',
+      input: insertProviderSchema.omit(tenantScoped).partial(),
+      responses: {
+        200: z.custom<typeof providers.$inferSelect>(),
+        404: errorSchemas.api,
+      },
+    },
+    mapService: {
+      method: 'POST' as const,
+      path: '/api/providers/:id/mappings',
+      input: insertProviderServiceMappingSchema.omit({ tenantId: true, providerId: true, ...syncManagedMapping }),
+      responses: {
+        201: z.custom<typeof providerServiceMappings.$inferSelect>(),
+        404: errorSchemas.api,
+      },
+    },
+    balance: {
+      method: 'GET' as const,
+      path: '/api/providers/:id/balance',
+      responses: {
+        200: z.object({ balance: z.number(), currency: z.string().optional(), data: z.record(z.any()).optional() }),
+        400: errorSchemas.api,
+        404: errorSchemas.api,
+        502: errorSchemas.api,
+      },
+    },
+    health: {
+      method: 'GET' as const,
+      path: '/api/providers/:id/health',
+      responses: {
+        200: z.object({
+          providerId: z.string(),
+          state: z.enum(['closed', 'open', 'half_open']),
+          calls: z.number(),
+          failures: z.number(),
+          errorRate: z.number(),
+          averageLatencyMs: z.number(),
+          p95LatencyMs: z.number(),
+          openedAt: z.string().nullable(),
+          retryAt: z.string().nullable(),
+          lastError: z.object({ code: z.string(), message: z.string(), at: z.string() }).nullable(),
+          config: z.record(z.number()),
+        }),
+        404: errorSchemas.api,
+      },
+    },
+    importServices: {
+      method: 'POST' as const,
+      path: '/api/providers/:id/services/import',
+      responses: {
+        200: z.object({
+          imported: z.array(z.custom<typeof services.$inferSelect>()),
+          skipped: z.array(z.string()),
+        }),
+        400: errorSchemas.api,
+        404: errorSchemas.api,
+        502: errorSchemas.api,
+      },
+    },
+    catalogSyncs: {
+      method: 'GET' as const,
+      path: '/api/providers/:id/catalog-syncs',
+      responses: {
+        200: z.array(z.custom<typeof catalogSyncs.$inferSelect>()),
+        404: errorSchemas.api,
+      },
+    },
+    runCatalogSync: {
+      method: 'POST' as const,
+      path: '/api/providers/:id/catalog-syncs',
+      responses: {
+        201: z.custom<typeof catalogSyncs.$inferSelect>(),
+        400: errorSchemas.api,
+        404: errorSchemas.api,
+        502: errorSchemas.api,
+      },
+    },
+    catalogSync: {
+      method: 'GET' as const,
+      path: '/api/providers/:id/catalog-syncs/:syncId',
+      responses: {
+        200: z.custom<typeof catalogSyncs.$inferSelect>(),
+        404: errorSchemas.api,
+      },
+    },
+    // Without changeIds every pending change is applied
+    approveCatalogSync: {
+      method: 'POST' as const,
+      path: '/api/providers/:id/catalog-syncs/:syncId/approve',
+      input: z.object({ changeIds: z.array(z.string()).optional() }),
+      responses: {
+        200: z.custom<typeof catalogSyncs.$inferSelect>(),
+        404: errorSchemas.api,
+        409: errorSchemas.api,
+      },
+    },
+    rejectCatalogSync: {
+      method: 'POST' as const,
+      path: '/api/providers/:id/catalog-syncs/:syncId/reject',
+      responses: {
+        200: z.custom<typeof catalogSyncs.$inferSelect>(),
+        404: errorSchemas.api,
+        409: errorSchemas.api,
+      },
+    },
+    batches: {
+      method: 'GET' as const,
+      path: '/api/providers/:id/batches',
+      responses: {
+        200: z.array(z.custom<typeof providerBatches.$inferSelect>()),
+        404: errorSchemas.api,
+      },
+    },
+    exportBatch: {
+      method: 'POST' as const,
+      path: '/api/providers/:id/batches/export',
+      responses: {
+        201: z.custom<typeof providerBatches.$inferSelect>(),
+        400: errorSchemas.api,
+        404: errorSchemas.api,
+      },
+    },
+    // Body: the results file as received from the supplier (CSV or JSON)
+    importBatch: {
+      method: 'POST' as const,
+      path: '/api/providers/:id/batches/import',
+      responses: {
+        200: z.object({
+          batch: z.custom<typeof providerBatches.$inferSelect>(),
+          applied: z.number(),
+          errors: z.array(z.object({ reference: z.string().optional(), error: z.string() })),
+        }),
+        400: errorSchemas.api,
+        404: errorSchemas.api,
+      },
+    },
+    batchFile: {
+      method: 'GET' as const,
+      path: '/api/providers/:id/batches/:batchId/file',
+      responses: {
+        200: z.string(),
+        404: errorSchemas.api,
+      },
+    },
+    // Called by the supplier, authenticated by the provider's callback signature
+    callback: {
+      method: 'POST' as const,
+      path: '/api/providers/:slug/callback',
+      responses: {
+        200: z.object({ received: z.literal(true), orderId: z.string(), status: z.string() }),
+        400: errorSchemas.api,
+        401: errorSchemas.api,
+        404: errorSchemas.api,
+        409: errorSchemas.api,
+      },
+    },
+  },
+  pricingRules: {
+    list: {
+      method: 'GET' as const,
+      path: '/api/pricing-rules',
+      input: z.object({ serviceId: z.string() }),
+      responses: {
+        200: z.array(z.custom<typeof pricingRules.$inferSelect>()),
+      },
+    },
+    create: {
+      method: 'POST' as const,
+      path: '/api/pricing-rules',
+      input: insertPricingRuleSchema.omit(tenantScoped),
+      responses: {
+        201: z.custom<typeof pricingRules.$inferSelect>(),
+        400: errorSchemas.api,
+      },
+    },
+    update: {
+      method: 'PATCH' as const,
+      path: '/api/pricing-rules/:id',
+      input: insertPricingRuleSchema.omit({ tenantId: true, serviceId: true }).partial(),
+      responses: {
+        200: z.custom<typeof pricingRules.$inferSelect>(),
+        400: errorSchemas.api,
+        404: errorSchemas.api,
+      },
+    },
+  },
+  orders: {
+    list: {
+      method: 'GET' as const,
+      path: '/api/orders',
+      input: z.object({ status: z.string().optional(), userId: z.string().optional() }).optional(),
+      responses: {
+        200: z.array(z.custom<typeof orders.$inferSelect>()),
+      },
+    },
+    get: {
+      method: 'GET' as const,
+      path: '/api/orders/:id',
+      responses: {
+        200: z.custom<typeof orders.$inferSelect>(),
+        404: errorSchemas.api,
+      },
+    },
+    create: {
+      method: 'POST' as const,
+      path: '/api/orders',
+      input: z.object({
+        serviceId: z.string(),
+        inputData: z.record(z.any()),
+        currency: z.string().length(3).optional(), // wallet to pay from, default the service's currency
+        metadata: z.record(z.any()).optional(),
+      }),
+      responses: {
+        201: z.custom<typeof orders.$inferSelect>(),
+        400: errorSchemas.api,
+      },
+    },
+    createBulk: {
+      method: 'POST' as const,
+      path: '/api/orders/bulk',
+      input: z.object({
+        serviceId: z.string(),
+        items: z.array(z.record(z.any())).min(1),
+        currency: z.string().length(3).optional(),
+        metadata: z.record(z.any()).optional(),
+      }),
+      responses: {
+        201: z.custom<typeof orders.$inferSelect>(),
+        400: errorSchemas.api,
+      },
+    },
+    transitions: {
+      method: 'GET' as const,
+      path: '/api/orders/:id/transitions',
+      responses: {
+        200: z.object({ status: z.string(), transitions: z.array(z.string()) }),
+        404: errorSchemas.api,
+      },
+    },
+    approve: {
+      method: 'POST' as const,
+      path: '/api/orders/:id/approve',
+      responses: {
+        200: z.custom<typeof orders.$inferSelect>(),
+        409: errorSchemas.api,
+      },
+    },
+    cancel: {
+      method: 'POST' as const,
+      path: '/api/orders/:id/cancel',
+      responses: {
+        200: z.custom<typeof orders.$inferSelect>(),
+        409: errorSchemas.api,
+      },
+    },
+    transition: {
+      method: 'POST' as const,
+      path: '/api/orders/:id/transition',
+      input: z.object({
+        to: z.string(),
+        note: z.string().optional(),
+      }),
+      responses: {
+        200: z.custom<typeof orders.$inferSelect>(),
+        404: errorSchemas.api,
+        409: errorSchemas.api,
+      },
+    },
+    refund: {
+      method: 'POST' as const,
+      path: '/api/orders/:id/refund',
+      input: z.object({
+        amount: z.number().int().positive().optional(),
+        itemIds: z.array(z.string()).min(1).optional(),
+        reason: z.string().optional(),
+      }),
+      responses: {
+        200: z.custom<typeof orders.$inferSelect>(),
+        400: errorSchemas.api,
+        404: errorSchemas.api,
+        409: errorSchemas.api,
+      },
+    },
+    items: {
+      method: 'GET' as const,
+      path: '/api/orders/:id/items',
+      responses: {
+        200: z.array(z.custom<typeof orderItems.$inferSelect>()),
+        404: errorSchemas.api,
+      },
+    },
+    timeline: {
+      method: 'GET' as const,
+      path: '/api/orders/:id/timeline',
+      responses: {
+        200: z.array(z.custom<typeof orderEvents.$inferSelect>()),
+        404: errorSchemas.api,
+      },
+    },
+    addNote: {
+      method: 'POST' as const,
+      path: '/api/orders/:id/notes',
+      input: z.object({ note: z.string().min(1).max(2000) }),
+      responses: {
+        201: z.custom<typeof orderEvents.$inferSelect>(),
+        404: errorSchemas.api,
+      },
+    },
+  },
+  orderStateMachine: {
+    get: {
+      method: 'GET' as const,
+      path: '/api/order-state-machine',
+      responses: {
+        200: orderStateMachineViewSchema,
+      },
+    },
+    update: {
+      method: 'PUT' as const,
+      path: '/api/order-state-machine',
+      input: orderStateMachineDefinitionSchema,
+      responses: {
+        200: orderStateMachineViewSchema,
+        400: errorSchemas.api,
+        409: errorSchemas.api,
+      },
+    },
+    reset: {
+      method: 'DELETE' as const,
+      path: '/api/order-state-machine',
+      responses: {
+        200: orderStateMachineViewSchema,
+        409: errorSchemas.api,
+      },
+    },
+  },
+  wallets: {
+    list: {
+      method: 'GET' as const,
+      path: '/api/wallets',
+      input: z.object({ userId: z.string().optional() }).optional(),
+      responses: {
+        200: z.array(z.custom<typeof wallets.$inferSelect>()),
+      },
+    },
+    get: {
+      method: 'GET' as const,
+      path: '/api/wallets/:id',
+      responses: {
+        200: z.object({
+          wallet: z.custom<typeof wallets.$inferSelect>(),
+          balance: walletBalanceSchema,
+        }),
+        404: errorSchemas.api,
+      },
+    },
+    create: {
+      method: 'POST' as const,
+      path: '/api/wallets',
+      input: z.object({ userId: z.string(), currency: z.string().length(3).default('USD') }),
+      responses: {
+        201: z.custom<typeof wallets.$inferSelect>(),
+        409: errorSchemas.api,
+      },
+    },
+    transactions: {
+      method: 'GET' as const,
+      path: '/api/wallets/:id/transactions',
+      responses: {
+        200: z.array(z.custom<typeof transactions.$inferSelect>()),
+        404: errorSchemas.api,
+      },
+    },
+    credit: {
+      method: 'POST' as const,
+      path: '/api/wallets/:id/credit',
+      input: z.object({
+        amount: z.number().int().positive(),
+        description: z.string().optional(),
+        referenceType: z.string().optional(),
+        referenceId: z.string().optional(),
+      }),
+      responses: {
+        201: z.custom<typeof transactions.$inferSelect>(),
+        400: errorSchemas.api,
+      },
+    },
+    transfer: {
+      method: 'POST' as const,
+      path: '/api/wallets/transfer',
+      input: z.object({
+        toUserId: z.string(),
+        amount: z.number().int().positive(),
+        currency: z.string().length(3).default('USD'),
+        description: z.string().max(500).optional(),
+      }),
+      responses: {
+        201: z.object({
+          reference: z.string(),
+          debit: z.custom<typeof transactions.$inferSelect>(),
+          credit: z.custom<typeof transactions.$inferSelect>(),
+        }),
+        400: errorSchemas.api,
+        403: errorSchemas.api,
+      },
+    },
+    reconcile: {
+      method: 'GET' as const,
+      path: '/api/wallets/:id/reconcile',
+      responses: {
+        200: walletReconciliationSchema,
+        404: errorSchemas.api,
+      },
+    },
+    balances: {
+      method: 'GET' as const,
+      path: '/api/wallets/balances',
+      input: z.object({
+        userId: z.string().optional(),
+        currency: z.string().length(3).optional(),
+      }).optional(),
+      responses: {
+        200: balanceReportSchema,
+        400: errorSchemas.api,
+      },
+    },
+  },
+  exchangeRates: {
+    list: {
+      method: 'GET' as const,
+      path: '/api/exchange-rates',
+      input: z.object({
+        base: z.string().length(3).optional(),
+        quote: z.string().length(3).optional(),
+      }).optional(),
+      responses: {
+        200: z.array(z.custom<typeof exchangeRates.$inferSelect>()),
+      },
+    },
+    create: {
+      method: 'POST' as const,
+      path: '/api/exchange-rates',
+      input: z.object({
+        base: z.string().length(3),
+        quote: z.string().length(3),
+        rate: z.number().positive(),
+        effectiveAt: z.string().datetime().optional(),
+      }),
+      responses: {
+        201: z.custom<typeof exchangeRates.$inferSelect>(),
+        400: errorSchemas.api,
+      },
+    },
+    import: {
+      method: 'POST' as const,
+      path: '/api/exchange-rates/import',
+      input: z.object({
+        base: z.string().length(3),
+        rates: z.record(z.number().positive()),
+        effectiveAt: z.string().datetime().optional(),
+      }),
+      responses: {
+        201: z.array(z.custom<typeof exchangeRates.$inferSelect>()),
+        400: errorSchemas.api,
+      },
+    },
+    displayCurrency: {
+      method: 'PUT' as const,
+      path: '/api/exchange-rates/display-currency',
+      input: z.object({ currency: z.string().length(3).nullable() }),
+      responses: {
+        200: z.object({ displayCurrency: z.string().nullable() }),
+        400: errorSchemas.api,
+      },
+    },
+  },
+  journal: {
+    trialBalance: {
+      method: 'GET' as const,
+      path: '/api/journal/trial-balance',
+      responses: {
+        200: trialBalanceSchema,
+      },
+    },
+    entry: {
+      method: 'GET' as const,
+      path: '/api/journal/entries/:transactionId',
+      responses: {
+        200: z.array(z.custom<typeof journalLines.$inferSelect>()),
+        404: errorSchemas.api,
+      },
+    },
+  },
+  commissions: {
+    statement: {
+      method: 'GET' as const,
+      path: '/api/commissions/statement',
+      input: z.object({
+        userId: z.string().optional(),
+        from: z.string().datetime().optional(),
+        to: z.string().datetime().optional(),
+      }).optional(),
+      responses: {
+        200: commissionStatementSchema,
+      },
+    },
+  },
+  invoices: {
+    list: {
+      method: 'GET' as const,
+      path: '/api/invoices',
+      responses: {
+        200: z.array(z.custom<typeof invoices.$inferSelect>()),
+      },
+    },
+    get: {
+      method: 'GET' as const,
+      path: '/api/invoices/:id',
+      responses: {
+        200: z.custom<typeof invoices.$inferSelect>(),
+        404: errorSchemas.api,
+      },
+    },
+    create: {
+      method: 'POST' as const,
+      path: '/api/invoices',
+      input: z.object({
+        userId: z.string(),
+        orderIds: z.array(z.string()).min(1),
+        taxRate: z.number().min(0).max(1).default(0),
+      }),
+      responses: {
+        201: z.custom<typeof invoices.$inferSelect>(),
+        400: errorSchemas.api,
+      },
+    },
+    issue: {
+      method: 'POST' as const,
+      path: '/api/invoices/:id/issue',
+      responses: {
+        200: z.custom<typeof invoices.$inferSelect>(),
+        409: errorSchemas.api,
+      },
+    },
+    pay: {
+      method: 'POST' as const,
+      path: '/api/invoices/:id/pay',
+      responses: {
+        200: z.custom<typeof invoices.$inferSelect>(),
+        409: errorSchemas.api,
+      },
+    },
+    cancel: {
+      method: 'POST' as const,
+      path: '/api/invoices/:id/cancel',
+      responses: {
+        200: z.custom<typeof invoices.$inferSelect>(),
+        409: errorSchemas.api,
+      },
+    },
+  },
+  paymentMethods: {
+    list: {
+      method: 'GET' as const,
+      path: '/api/payment-methods',
+      responses: {
+        200: z.array(z.custom<typeof paymentMethods.$inferSelect>()),
+      },
+    },
+    create: {
+      method: 'POST' as const,
+      path: '/api/payment-methods',
+      input: insertPaymentMethodSchema.omit(tenantScoped),
+      responses: {
+        201: z.custom<typeof paymentMethods.$inferSelect>(),
+        400: errorSchemas.api,
+      },
+    },
+    update: {
+      method: 'PATCH' as const,
+      path: '/api/payment-methods/:id',
+      input: insertPaymentMethodSchema.omit(tenantScoped).partial(),
+      responses: {
+        200: z.custom<typeof paymentMethods.$inferSelect>(),
+        404: errorSchemas.api,
+      },
+    },
+  },
+  webhooks: {
+    list: {
+      method: 'GET' as const,
+      path: '/api/webhooks',
+      responses: {
+        200: z.array(z.custom<typeof webhooks.$inferSelect>()),
+      },
+    },
+    create: {
+      method: 'POST' as const,
+      path: '/api/webhooks',
+      input: z.object({
+        url: z.string().url(),
+        events: z.array(z.string()).min(1),
+      }),
+      responses: {
+        201: z.custom<typeof webhooks.$inferSelect>(),
+        400: errorSchemas.api,
+      },
+    },
+    approve: {
+      method: 'POST' as const,
+      path: '/api/webhooks/:id/approve',
+      responses: {
+        200: z.custom<typeof webhooks.$inferSelect>(),
+        409: errorSchemas.api,
+      },
+    },
+    revoke: {
+      method: 'POST' as const,
+      path: '/api/webhooks/:id/revoke',
+      responses: {
+        200: z.custom<typeof webhooks.$inferSelect>(),
+        404: errorSchemas.api,
+      },
+    },
+    rotateSecret: {
+      method: 'POST' as const,
+      path: '/api/webhooks/:id/rotate-secret',
+      input: z.object({
+        // How long the old secret keeps signing deliveries (default 24h, max 7 days)
+        graceSeconds: z.number().int().min(0).optional(),
+      }),
+      responses: {
+        200: z.custom<typeof webhooks.$inferSelect>(),
+        400: errorSchemas.api,
+        404: errorSchemas.api,
+      },
+    },
+    deliveries: {
+      method: 'GET' as const,
+      path: '/api/webhooks/:id/deliveries',
+      input: z.object({
+        status: z.enum(['pending', 'succeeded', 'failed']).optional(),
+      }).optional(),
+      responses: {
+        200: z.array(z.custom<typeof webhookDeliveries.$inferSelect>()),
+        404: errorSchemas.api,
+      },
+    },
+    redeliver: {
+      method: 'POST' as const,
+      path: '/api/webhooks/:id/deliveries/:deliveryId/redeliver',
+      responses: {
+        200: z.custom<typeof webhookDeliveries.$inferSelect>(),
+        404: errorSchemas.api,
+        409: errorSchemas.api,
+      },
+    },
+    test: {
+      method: 'POST' as const,
+      path: '/api/webhooks/:id/test',
       responses: {
-        201: z.custom<typeof users.$inferSelect>(),
-        400: errorSchemas.validation,
+        200: z.object({
+          success: z.boolean(),
+          statusCode: z.number().optional(),
+          responseTime: z.number().optional(),
+          error: z.string().optional(),
+        }),
+        404: errorSchemas.api,
       },
     },
   },
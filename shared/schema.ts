@@ -1,4 +1,4 @@
-import { sqliteTable, text, integer } from "drizzle-orm/sqlite-core";
+import { sqliteTable, text, integer, real, index, uniqueIndex } from "drizzle-orm/sqlite-core";
 import { relations } from "drizzle-orm";
 import { createInsertSchema } from "drizzle-zod";
 import { z } from "zod";
@@ -46,13 +46,29 @@ export const apiKeys = sqliteTable("api_keys", {
   tenantId: text("tenant_id").references(() => tenants.id),
   userId: text("user_id").references(() => users.id),
   name: text("name").notNull(),
-  keyPrefix: text("key_prefix").notNull(),
-  keyHash: text("key_hash").notNull(),
+  keyPrefix: text("key_prefix").notNull(), // gsmf_ + 8 chars, used to look keys up
+  keyHash: text("key_hash").notNull(), // sha256$<hex> or hmac-sha256$<hex>
   scopes: text("scopes", { mode: "json" }).$type<string[]>().default([]),
   allowedDomains: text("allowed_domains", { mode: "json" }).$type<string[]>().default([]),
   lastUsedAt: text("last_used_at"),
   expiresAt: text("expires_at"),
   createdAt: timestamp("created_at"),
+}, (table) => [
+  index("api_keys_key_prefix_idx").on(table.keyPrefix),
+]);
+
+// Sessions (Login sessions backing JWT access tokens)
+export const sessions = sqliteTable("sessions", {
+  id: uuid("id").primaryKey(),
+  tenantId: text("tenant_id").references(() => tenants.id).notNull(),
+  userId: text("user_id").references(() => users.id).notNull(),
+  refreshTokenHash: text("refresh_token_hash").notNull(), // SHA-256 of the refresh secret
+  userAgent: text("user_agent"),
+  ipAddress: text("ip_address"),
+  expiresAt: text("expires_at").notNull(),
+  revokedAt: text("revoked_at"),
+  lastUsedAt: text("last_used_at"),
+  createdAt: timestamp("created_at"),
 });
 
 // Audit Logs (Security requirement)
@@ -96,9 +112,59 @@ export const transactions = sqliteTable("transactions", {
   description: text("description"),
   metadata: text("metadata", { mode: "json" }).$type<Record<string, any>>(),
   createdBy: text("created_by").references(() => users.id),
+  sequence: integer("sequence").notNull(), // position in the wallet's ledger, from 1
   createdAt: timestamp("created_at"),
   completedAt: text("completed_at"),
-});
+}, (table) => [
+  // An insert with a sequence already taken fails, so two writers that read
+  // the same balance cannot both append
+  uniqueIndex("transactions_wallet_sequence_idx").on(table.walletId, table.sequence),
+]);
+
+// Journal Lines (double-entry postings; the lines of one wallet transaction debit and credit the same total)
+export const journalLines = sqliteTable("journal_lines", {
+  id: uuid("id").primaryKey(),
+  tenantId: text("tenant_id").references(() => tenants.id).notNull(),
+  transactionId: text("transaction_id").references(() => transactions.id).notNull(), // the journal entry
+  account: text("account").notNull(), // wallet_available, wallet_locked, revenue, provider_payables, fees, suspense
+  walletId: text("wallet_id").references(() => wallets.id), // set on wallet accounts
+  debit: integer("debit").notNull().default(0),
+  credit: integer("credit").notNull().default(0),
+  currency: text("currency").notNull(),
+  createdAt: text("created_at").notNull(), // set on insert; the column default is fixed at startup
+}, (table) => [
+  index("journal_lines_transaction_idx").on(table.transactionId),
+  index("journal_lines_account_idx").on(table.tenantId, table.account),
+]);
+
+// Wallet Checkpoints (balance of a wallet after a given ledger sequence)
+export const walletCheckpoints = sqliteTable("wallet_checkpoints", {
+  id: uuid("id").primaryKey(),
+  tenantId: text("tenant_id").references(() => tenants.id).notNull(),
+  walletId: text("wallet_id").references(() => wallets.id).notNull(),
+  sequence: integer("sequence").notNull(), // last transaction covered
+  available: integer("available").notNull(),
+  locked: integer("locked").notNull(),
+  currency: text("currency").notNull(),
+  createdAt: text("created_at").notNull(), // set on insert; the column default is fixed at startup
+}, (table) => [
+  uniqueIndex("wallet_checkpoints_wallet_sequence_idx").on(table.walletId, table.sequence),
+]);
+
+// Exchange Rates (manual or imported; a pair's rate is its latest row in effect)
+export const exchangeRates = sqliteTable("exchange_rates", {
+  id: uuid("id").primaryKey(),
+  tenantId: text("tenant_id").references(() => tenants.id).notNull(),
+  baseCurrency: text("base_currency").notNull(),
+  quoteCurrency: text("quote_currency").notNull(),
+  rate: real("rate").notNull(), // quoteCurrency per one baseCurrency, in major units
+  source: text("source").notNull().default("manual"), // manual, import
+  effectiveAt: text("effective_at").notNull(),
+  createdBy: text("created_by").references(() => users.id),
+  createdAt: text("created_at").notNull(), // set on insert; the column default is fixed at startup
+}, (table) => [
+  index("exchange_rates_pair_idx").on(table.tenantId, table.baseCurrency, table.quoteCurrency, table.effectiveAt),
+]);
 
 // Providers (Plugin system)
 export const providers = sqliteTable("providers", {
@@ -106,12 +172,13 @@ export const providers = sqliteTable("providers", {
   tenantId: text("tenant_id").references(() => tenants.id).notNull(),
   name: text("name").notNull(),
   slug: text("slug").notNull(),
-  type: text("type").notNull(), // manual, api, async_api, webhook, file_based
+  type: text("type").notNull(), // manual, api, async_api, webhook, file_based, dhru
   isActive: boolean("is_active").notNull().default(true),
   config: text("config", { mode: "json" }).$type<Record<string, any>>().default({}),
   credentials: text("credentials", { mode: "json" }).$type<Record<string, any>>().default({}),
   statusMapping: text("status_mapping", { mode: "json" }).$type<Record<string, string>>().default({}),
   lastSyncAt: text("last_sync_at"),
+  statusSyncAt: text("status_sync_at"), // last scheduled order status sync
   createdAt: timestamp("created_at"),
   updatedAt: timestamp("updated_at"),
 });
@@ -129,6 +196,9 @@ export const serviceGroups = sqliteTable("service_groups", {
   updatedAt: timestamp("updated_at"),
 });
 
+// How orders pick among a service's providers, see ProviderRouter
+export const ROUTING_STRATEGIES = ["priority", "weighted", "cheapest"] as const;
+
 // Services (Dynamic schema)
 export const services = sqliteTable("services", {
   id: uuid("id").primaryKey(),
@@ -145,6 +215,8 @@ export const services = sqliteTable("services", {
   allowedRoles: text("allowed_roles", { mode: "json" }).$type<string[]>().default([]),
   supportsBulk: boolean("supports_bulk").notNull().default(false),
   requiresApproval: boolean("requires_approval").notNull().default(false),
+  costDrift: integer("cost_drift"), // Upstream cost minus baseCost, set by catalog sync until resolved
+  routingStrategy: text("routing_strategy", { enum: ROUTING_STRATEGIES }).notNull().default("priority"),
   metadata: text("metadata", { mode: "json" }).$type<Record<string, any>>().default({}),
   createdAt: timestamp("created_at"),
   updatedAt: timestamp("updated_at"),
@@ -158,8 +230,11 @@ export const providerServiceMappings = sqliteTable("provider_service_mappings",
   providerId: text("provider_id").references(() => providers.id).notNull(),
   providerServiceId: text("provider_service_id").notNull(), // External provider's service ID
   priority: integer("priority").default(0),
+  weight: integer("weight").notNull().default(1), // Share of orders under the weighted strategy
   isActive: boolean("is_active").notNull().default(true),
   config: text("config", { mode: "json" }).$type<Record<string, any>>().default({}),
+  upstreamCost: integer("upstream_cost"), // Supplier's price at the last catalog sync, in cents
+  upstreamSyncedAt: text("upstream_synced_at"),
   createdAt: timestamp("created_at"),
 });
 
@@ -179,6 +254,19 @@ export const pricingRules = sqliteTable("pricing_rules", {
   updatedAt: timestamp("updated_at"),
 });
 
+// One dispatch attempt with a provider, kept on the order so support can see who fulfilled it
+export interface ProviderAttempt {
+  providerId: string;
+  mappingId?: string;
+  providerServiceId?: string;
+  startedAt: string;
+  durationMs: number;
+  success: boolean;
+  providerOrderId?: string;
+  providerStatus?: string;
+  error?: { code: string; message: string };
+}
+
 // Orders
 export const orders = sqliteTable("orders", {
   id: uuid("id").primaryKey(),
@@ -187,39 +275,70 @@ export const orders = sqliteTable("orders", {
   serviceId: text("service_id").references(() => services.id).notNull(),
   providerId: text("provider_id").references(() => providers.id),
   orderNumber: text("order_number").notNull().unique(),
-  status: text("status").notNull().default("pending"), // pending, payment_confirmed, approved, processing, delivered, failed, refunded, cancelled
+  status: text("status").notNull().default("pending"), // pending, payment_confirmed, approved, processing, delivered, partially_delivered, failed, partially_refunded, refunded, cancelled
   inputData: text("input_data", { mode: "json" }).$type<Record<string, any>>().notNull(),
   outputData: text("output_data", { mode: "json" }).$type<Record<string, any>>(),
   baseCost: integer("base_cost").notNull(),
   markup: integer("markup").notNull(),
   totalAmount: integer("total_amount").notNull(),
   paidAmount: integer("paid_amount").default(0),
-  currency: text("currency").notNull().default("USD"),
+  refundedAmount: integer("refunded_amount").notNull().default(0), // refunds of paidAmount so far
+  currency: text("currency").notNull().default("USD"), // the wallet's; amounts above are in it
+  priceCurrency: text("price_currency"), // the service's, when the price was converted
+  exchangeRate: real("exchange_rate"), // currency per priceCurrency, locked when the order was placed
+  exchangeRateId: text("exchange_rate_id").references(() => exchangeRates.id),
   providerOrderId: text("provider_order_id"),
   providerStatus: text("provider_status"),
   providerResponse: text("provider_response", { mode: "json" }).$type<Record<string, any>>(),
+  providerAttempts: text("provider_attempts", { mode: "json" }).$type<ProviderAttempt[]>().default([]),
   approvedBy: text("approved_by").references(() => users.id),
   approvedAt: text("approved_at"),
   metadata: text("metadata", { mode: "json" }).$type<Record<string, any>>().default({}),
   createdAt: timestamp("created_at"),
   updatedAt: timestamp("updated_at"),
   completedAt: text("completed_at"),
-});
+}, (table) => [
+  // Provider callbacks find orders by the supplier's reference
+  index("orders_provider_order_idx").on(table.providerId, table.providerOrderId),
+]);
 
-// Order Items (for bulk orders)
+// Order Items (one per line of a bulk order, each dispatched and settled on its own)
 export const orderItems = sqliteTable("order_items", {
   id: uuid("id").primaryKey(),
   tenantId: text("tenant_id").references(() => tenants.id).notNull(),
   orderId: text("order_id").references(() => orders.id).notNull(),
+  providerId: text("provider_id").references(() => providers.id), // provider that accepted the item
   inputData: text("input_data", { mode: "json" }).$type<Record<string, any>>().notNull(),
   outputData: text("output_data", { mode: "json" }).$type<Record<string, any>>(),
-  status: text("status").notNull().default("pending"),
+  status: text("status").notNull().default("pending"), // pending, processing, delivered, failed, refunded
   providerOrderId: text("provider_order_id"),
   providerStatus: text("provider_status"),
-  amount: integer("amount").notNull(),
+  providerResponse: text("provider_response", { mode: "json" }).$type<Record<string, any>>(),
+  providerAttempts: text("provider_attempts", { mode: "json" }).$type<ProviderAttempt[]>().default([]),
+  amount: integer("amount").notNull(), // share of the order's totalAmount
   createdAt: timestamp("created_at"),
   updatedAt: timestamp("updated_at"),
-});
+}, (table) => [
+  index("order_items_order_idx").on(table.orderId),
+  index("order_items_provider_order_idx").on(table.providerId, table.providerOrderId),
+]);
+
+// Order Events (timeline of an order: transitions, provider responses, sync results and notes)
+export const orderEvents = sqliteTable("order_events", {
+  id: uuid("id").primaryKey(),
+  tenantId: text("tenant_id").references(() => tenants.id).notNull(),
+  orderId: text("order_id").references(() => orders.id).notNull(),
+  orderItemId: text("order_item_id").references(() => orderItems.id), // bulk item the event concerns
+  type: text("type").notNull(), // created, status_changed, provider_response, sync, note
+  fromStatus: text("from_status"),
+  toStatus: text("to_status"),
+  source: text("source").notNull(), // user, provider, sync, system
+  actorId: text("actor_id").references(() => users.id), // set when a user caused the event
+  data: text("data", { mode: "json" }).$type<Record<string, any>>().notNull().default({}),
+  createdAt: text("created_at").notNull(), // set on insert; the column default is fixed at startup
+}, (table) => [
+  index("order_events_order_idx").on(table.orderId),
+]);
 
 // Invoices
 export const invoices = sqliteTable("invoices", {
@@ -262,15 +381,170 @@ export const webhooks = sqliteTable("webhooks", {
   url: text("url").notNull(),
   events: text("events", { mode: "json" }).$type<string[]>().notNull(),
   secret: text("secret").notNull(),
+  previousSecret: text("previous_secret"), // still signs deliveries until previousSecretExpiresAt
+  previousSecretExpiresAt: text("previous_secret_expires_at"),
   isActive: boolean("is_active").notNull().default(true),
   requiresApproval: boolean("requires_approval").notNull().default(true),
   approvedBy: text("approved_by").references(() => users.id),
   approvedAt: text("approved_at"),
   lastTriggeredAt: text("last_triggered_at"),
+  consecutiveFailures: integer("consecutive_failures").notNull().default(0),
+  disabledAt: text("disabled_at"), // set when deliveries kept failing
   createdAt: timestamp("created_at"),
   updatedAt: timestamp("updated_at"),
 });
 
+// Webhook Deliveries (one row per event per webhook, retried until it succeeds or runs out of attempts)
+export const webhookDeliveries = sqliteTable("webhook_deliveries", {
+  id: uuid("id").primaryKey(),
+  tenantId: text("tenant_id").references(() => tenants.id).notNull(),
+  webhookId: text("webhook_id").references(() => webhooks.id).notNull(),
+  event: text("event").notNull(),
+  payload: text("payload").notNull(), // exact JSON body that is signed and sent
+  status: text("status").notNull().default("pending"), // pending, succeeded, failed
+  attempts: integer("attempts").notNull().default(0),
+  lastStatusCode: integer("last_status_code"),
+  lastResponseTime: integer("last_response_time"), // ms
+  lastError: text("last_error"),
+  nextRetryAt: text("next_retry_at"),
+  deliveredAt: text("delivered_at"),
+  createdAt: timestamp("created_at"),
+  updatedAt: timestamp("updated_at"),
+}, (table) => [
+  index("webhook_deliveries_due_idx").on(table.status, table.nextRetryAt),
+  index("webhook_deliveries_webhook_idx").on(table.webhookId),
+]);
+
+// Event Outbox (domain events written in the same transaction as the change that raised them)
+export const eventOutbox = sqliteTable("event_outbox", {
+  id: uuid("id").primaryKey(),
+  tenantId: text("tenant_id").references(() => tenants.id).notNull(),
+  type: text("type").notNull(), // order.created, wallet.credited, ...
+  payload: text("payload", { mode: "json" }).$type<Record<string, any>>().notNull(), // the full DomainEvent
+  status: text("status").notNull().default("pending"), // pending, processed, failed
+  attempts: integer("attempts").notNull().default(0),
+  lastError: text("last_error"),
+  completedSubscribers: text("completed_subscribers", { mode: "json" }).$type<string[]>().default([]), // subscribers that handled it, skipped on retry
+  availableAt: text("available_at").notNull(), // not picked up before this time (retry backoff / processing lease)
+  processedAt: text("processed_at"),
+  createdAt: timestamp("created_at"),
+}, (table) => [
+  index("event_outbox_pending_idx").on(table.status, table.availableAt),
+]);
+
+// Provider Batches (files exchanged with file-based providers)
+export const providerBatches = sqliteTable("provider_batches", {
+  id: uuid("id").primaryKey(),
+  tenantId: text("tenant_id").references(() => tenants.id).notNull(),
+  providerId: text("provider_id").references(() => providers.id).notNull(),
+  direction: text("direction").notNull(), // export, import
+  blobKey: text("blob_key").notNull(),
+  format: text("format").notNull(), // csv, json
+  lineCount: integer("line_count").notNull().default(0),
+  appliedCount: integer("applied_count").notNull().default(0), // imports: rows matched and applied
+  errors: text("errors", { mode: "json" }).$type<Array<{ reference?: string; error: string }>>().default([]),
+  createdBy: text("created_by").references(() => users.id),
+  createdAt: timestamp("created_at"),
+}, (table) => [
+  index("provider_batches_provider_idx").on(table.providerId),
+]);
+
+// One line of a catalog sync report
+export interface CatalogSyncChange {
+  id: string;
+  type: 'added' | 'removed' | 'cost_changed';
+  status: 'pending' | 'auto_applied' | 'applied' | 'rejected' | 'skipped';
+  providerServiceId: string;
+  name: string;
+  serviceId?: string;
+  mappingId?: string;
+  previousCost?: number; // services.baseCost when the sync ran
+  upstreamCost?: number;
+  entry?: Record<string, any>; // added: the supplier's listing, used to create the service
+  reason?: string; // skipped: why the change was not applied
+}
+
+// Catalog Syncs (supplier catalog diffs awaiting admin approval)
+export const catalogSyncs = sqliteTable("catalog_syncs", {
+  id: uuid("id").primaryKey(),
+  tenantId: text("tenant_id").references(() => tenants.id).notNull(),
+  providerId: text("provider_id").references(() => providers.id).notNull(),
+  status: text("status").notNull().default("pending"), // pending, applied, rejected, superseded
+  changes: text("changes", { mode: "json" }).$type<CatalogSyncChange[]>().notNull(),
+  createdBy: text("created_by").references(() => users.id),
+  reviewedBy: text("reviewed_by").references(() => users.id),
+  reviewedAt: text("reviewed_at"),
+  createdAt: timestamp("created_at"),
+}, (table) => [
+  index("catalog_syncs_provider_idx").on(table.providerId),
+]);
+
+// One call to a provider, kept in its health window
+export interface ProviderHealthSample {
+  at: string;
+  operation: 'placeOrder' | 'checkStatus';
+  success: boolean;
+  durationMs: number;
+  error?: string; // error code of a failed call
+}
+
+// Provider Health (rolling call outcomes and circuit breaker state, one row per provider)
+export const providerHealth = sqliteTable("provider_health", {
+  id: uuid("id").primaryKey(),
+  tenantId: text("tenant_id").references(() => tenants.id).notNull(),
+  providerId: text("provider_id").references(() => providers.id).notNull(),
+  state: text("state").notNull().default("closed"), // closed, open, half_open
+  samples: text("samples", { mode: "json" }).$type<ProviderHealthSample[]>().notNull().default([]),
+  openedAt: text("opened_at"),
+  probesStarted: integer("probes_started").notNull().default(0), // half_open: probe calls let through
+  probeSuccesses: integer("probe_successes").notNull().default(0),
+  probeStartedAt: text("probe_started_at"),
+  lastError: text("last_error", { mode: "json" }).$type<{ code: string; message: string; at: string }>(),
+  updatedAt: text("updated_at"),
+}, (table) => [
+  uniqueIndex("provider_health_provider_idx").on(table.providerId),
+]);
+
+// A hook named in a state definition, with the settings it is called with
+export interface StateHookRef {
+  hook: string;
+  config?: Record<string, any>;
+}
+
+export interface OrderStateDefinition {
+  name: string;
+  label?: string;
+  terminal?: boolean; // the order's lifecycle is complete; refunds may still follow
+  onEnter?: StateHookRef[];
+  onExit?: StateHookRef[];
+}
+
+export interface OrderStateTransition {
+  from: string;
+  to: string;
+  requiresRole?: string[];
+  requiresApproval?: boolean;
+}
+
+// A tenant's order lifecycle: its states and the transitions between them
+export interface OrderStateMachineDefinition {
+  states: OrderStateDefinition[];
+  transitions: OrderStateTransition[];
+}
+
+// Order State Machines (a tenant's order lifecycle; tenants without a row use the built-in one)
+export const orderStateMachines = sqliteTable("order_state_machines", {
+  id: uuid("id").primaryKey(),
+  tenantId: text("tenant_id").references(() => tenants.id).notNull(),
+  definition: text("definition", { mode: "json" }).$type<OrderStateMachineDefinition>().notNull(),
+  version: integer("version").notNull().default(1), // incremented on every save
+  updatedBy: text("updated_by").references(() => users.id),
+  createdAt: timestamp("created_at"),
+  updatedAt: text("updated_at"),
+}, (table) => [
+  uniqueIndex("order_state_machines_tenant_idx").on(table.tenantId),
+]);
+
 // Relations
 export const usersRelations = relations(users, ({ one, many }) => ({
   tenant: one(tenants, {
@@ -362,15 +636,26 @@ export const ordersRelations = relations(orders, ({ one, many }) => ({
 export const insertTenantSchema = createInsertSchema(tenants).omit({ id: true, createdAt: true, updatedAt: true });
 export const insertUserSchema = createInsertSchema(users).omit({ id: true, createdAt: true, updatedAt: true });
 export const insertApiKeySchema = createInsertSchema(apiKeys).omit({ id: true, lastUsedAt: true, createdAt: true });
+// Session ids are chosen by the caller because the refresh token embeds them
+export const insertSessionSchema = createInsertSchema(sessions).omit({ createdAt: true });
+export const insertAuditLogSchema = createInsertSchema(auditLogs).omit({ id: true, createdAt: true });
 export const insertWalletSchema = createInsertSchema(wallets).omit({ id: true, createdAt: true, updatedAt: true });
 export const insertTransactionSchema = createInsertSchema(transactions).omit({ id: true, createdAt: true, completedAt: true });
-export const insertProviderSchema = createInsertSchema(providers).omit({ id: true, createdAt: true, updatedAt: true, lastSyncAt: true });
+export const insertProviderSchema = createInsertSchema(providers).omit({ id: true, createdAt: true, updatedAt: true, lastSyncAt: true, statusSyncAt: true });
 export const insertServiceGroupSchema = createInsertSchema(serviceGroups).omit({ id: true, createdAt: true, updatedAt: true });
 export const insertServiceSchema = createInsertSchema(services).omit({ id: true, createdAt: true, updatedAt: true });
+export const insertProviderServiceMappingSchema = createInsertSchema(providerServiceMappings).omit({ id: true, createdAt: true }).extend({
+  weight: z.number().int().min(0).optional(),
+});
 export const insertPricingRuleSchema = createInsertSchema(pricingRules).omit({ id: true, createdAt: true, updatedAt: true });
 export const insertOrderSchema = createInsertSchema(orders).omit({ id: true, createdAt: true, updatedAt: true, completedAt: true });
 export const insertInvoiceSchema = createInsertSchema(invoices).omit({ id: true, createdAt: true, updatedAt: true });
+export const insertPaymentMethodSchema = createInsertSchema(paymentMethods).omit({ id: true, createdAt: true, updatedAt: true });
 export const insertWebhookSchema = createInsertSchema(webhooks).omit({ id: true, createdAt: true, updatedAt: true });
+export const insertEventOutboxSchema = createInsertSchema(eventOutbox).omit({ id: true, createdAt: true });
+export const insertWebhookDeliverySchema = createInsertSchema(webhookDeliveries).omit({ id: true, createdAt: true, updatedAt: true });
+export const insertProviderBatchSchema = createInsertSchema(providerBatches).omit({ id: true, createdAt: true });
+export const insertCatalogSyncSchema = createInsertSchema(catalogSyncs).omit({ id: true, createdAt: true });
 
 // Types
 export type Tenant = typeof tenants.$inferSelect;
@@ -379,22 +664,51 @@ export type User = typeof users.$inferSelect;
 export type InsertUser = z.infer<typeof insertUserSchema>;
 export type ApiKey = typeof apiKeys.$inferSelect;
 export type InsertApiKey = z.infer<typeof insertApiKeySchema>;
+export type Session = typeof sessions.$inferSelect;
+export type InsertSession = z.infer<typeof insertSessionSchema>;
+export type AuditLog = typeof auditLogs.$inferSelect;
+export type InsertAuditLog = z.infer<typeof insertAuditLogSchema>;
 export type Wallet = typeof wallets.$inferSelect;
 export type InsertWallet = z.infer<typeof insertWalletSchema>;
 export type Transaction = typeof transactions.$inferSelect;
 export type InsertTransaction = z.infer<typeof insertTransactionSchema>;
+export type JournalLine = typeof journalLines.$inferSelect;
+export type InsertJournalLine = typeof journalLines.$inferInsert;
+export type WalletCheckpoint = typeof walletCheckpoints.$inferSelect;
+export type InsertWalletCheckpoint = typeof walletCheckpoints.$inferInsert;
+export type ExchangeRate = typeof exchangeRates.$inferSelect;
+export type InsertExchangeRate = typeof exchangeRates.$inferInsert;
 export type Provider = typeof providers.$inferSelect;
 export type InsertProvider = z.infer<typeof insertProviderSchema>;
 export type ServiceGroup = typeof serviceGroups.$inferSelect;
 export type InsertServiceGroup = z.infer<typeof insertServiceGroupSchema>;
 export type Service = typeof services.$inferSelect;
 export type InsertService = z.infer<typeof insertServiceSchema>;
+export type ProviderServiceMapping = typeof providerServiceMappings.$inferSelect;
+export type InsertProviderServiceMapping = z.infer<typeof insertProviderServiceMappingSchema>;
 export type PricingRule = typeof pricingRules.$inferSelect;
 export type InsertPricingRule = z.infer<typeof insertPricingRuleSchema>;
 export type Order = typeof orders.$inferSelect;
 export type InsertOrder = z.infer<typeof insertOrderSchema>;
 export type OrderItem = typeof orderItems.$inferSelect;
+export type InsertOrderItem = typeof orderItems.$inferInsert;
+export type OrderEvent = typeof orderEvents.$inferSelect;
+export type InsertOrderEvent = typeof orderEvents.$inferInsert;
 export type Invoice = typeof invoices.$inferSelect;
 export type InsertInvoice = z.infer<typeof insertInvoiceSchema>;
+export type PaymentMethod = typeof paymentMethods.$inferSelect;
+export type InsertPaymentMethod = z.infer<typeof insertPaymentMethodSchema>;
 export type Webhook = typeof webhooks.$inferSelect;
 export type InsertWebhook = z.infer<typeof insertWebhookSchema>;
+export type EventOutboxEntry = typeof eventOutbox.$inferSelect;
+export type InsertEventOutboxEntry = z.infer<typeof insertEventOutboxSchema>;
+export type WebhookDelivery = typeof webhookDeliveries.$inferSelect;
+export type InsertWebhookDelivery = z.infer<typeof insertWebhookDeliverySchema>;
+export type ProviderBatch = typeof providerBatches.$inferSelect;
+export type InsertProviderBatch = z.infer<typeof insertProviderBatchSchema>;
+export type CatalogSync = typeof catalogSyncs.$inferSelect;
+export type InsertCatalogSync = typeof catalogSyncs.$inferInsert;
+export type ProviderHealth = typeof providerHealth.$inferSelect;
+export type InsertProviderHealth = typeof providerHealth.$inferInsert;
+export type OrderStateMachineRecord = typeof orderStateMachines.$inferSelect;
+export type InsertOrderStateMachineRecord = typeof orderStateMachines.$inferInsert;
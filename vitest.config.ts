@@ -1,10 +1,20 @@
 import { defineConfig } from 'vitest/config';
+import path from 'path';
 
 export default defineConfig({
+  resolve: {
+    alias: {
+      '@shared': path.resolve(import.meta.dirname, 'shared'),
+    },
+  },
   test: {
     globals: true,
     environment: 'node',
     include: ['apps/**/*.test.ts', 'server/**/*.test.ts', 'shared/**/*.test.ts'],
+    // Keeps server/db from opening sqlite.db; tests build their own databases
+    env: {
+      DATABASE_URL: ':memory:',
+    },
     coverage: {
       provider: 'v8',
       reporter: ['text', 'json', 'html'],